@@ -2,6 +2,8 @@
 import dotenv from 'dotenv';
 dotenv.config();
 
+const isProduction = process.env.NODE_ENV === 'production';
+
 export const config = {
   jwtSecret: process.env.JWT_SECRET || 'your_jwt_secret',
   jwtRefreshSecret: process.env.JWT_REFRESH_SECRET || 'your_jwt_refresh_secret',
@@ -13,5 +15,42 @@ export const config = {
     user: process.env.EMAIL_USER || 'user@example.com',
     password: process.env.EMAIL_PASSWORD || 'password',
     from: process.env.EMAIL_FROM || 'no-reply@ekodirekt.com'
+  },
+  payments: {
+    // 'stripe' or 'fake' (in-process provider for local development and tests, never in production)
+    provider: process.env.PAYMENT_PROVIDER || 'stripe',
+    currency: 'pln',
+    stripeSecretKey: process.env.STRIPE_SECRET_KEY || '',
+    // The development secret is public, so it is only used by the fake provider outside production
+    webhookSecret: process.env.PAYMENT_WEBHOOK_SECRET ||
+      (!isProduction && process.env.PAYMENT_PROVIDER === 'fake' ? 'whsec_local_development' : '')
+  },
+  carbon: {
+    // Distance (km) food travels to a typical supermarket - baseline for CO2 savings
+    supermarketBaselineKm: parseFloat(process.env.SUPERMARKET_BASELINE_KM || '500')
+  }
+};
+
+/**
+ * Check the payment configuration - payments must not run with a provider
+ * or webhook secret that lets anyone confirm them
+ */
+export const validatePaymentConfig = (): void => {
+  const { provider, stripeSecretKey, webhookSecret } = config.payments;
+
+  if (provider !== 'stripe' && provider !== 'fake') {
+    throw new Error(`Unknown PAYMENT_PROVIDER "${provider}" (expected "stripe" or "fake")`);
+  }
+
+  if (provider === 'fake' && isProduction) {
+    throw new Error('The fake payment provider cannot be used in production');
+  }
+
+  if (provider === 'stripe' && !stripeSecretKey) {
+    throw new Error('STRIPE_SECRET_KEY is required for the stripe payment provider');
+  }
+
+  if (!webhookSecret) {
+    throw new Error('PAYMENT_WEBHOOK_SECRET is required (set PAYMENT_PROVIDER=fake for local development)');
   }
-};
\ No newline at end of file
+};
@@ -5,7 +5,9 @@ export const VALIDATION = {
     MAX_IMAGES_PER_PRODUCT: 5,
     MAX_FILE_SIZE_MB: 5,
     ALLOWED_IMAGE_TYPES: ['image/jpeg', 'image/png', 'image/webp'],
-    MAX_REVIEW_LENGTH: 1000
+    MAX_REVIEW_LENGTH: 1000,
+    MAX_IMAGES_PER_REVIEW: 3,
+    ALLOWED_DOCUMENT_TYPES: ['application/pdf', 'image/jpeg', 'image/png', 'image/webp']
   };
   
   // Product statuses
@@ -41,4 +43,81 @@ export const VALIDATION = {
     ECO: 'eco' as const,
     FAIR_TRADE: 'fair-trade' as const,
     OTHER: 'other' as const
-  };
\ No newline at end of file
+  };
+
+  // Certificate verification statuses
+  export const CERTIFICATE_STATUSES = {
+    PENDING: 'pending' as const,
+    VERIFIED: 'verified' as const,
+    REJECTED: 'rejected' as const,
+    EXPIRED: 'expired' as const
+  };
+
+  // Days before a certificate expires when the farmer gets a reminder
+  export const CERTIFICATE_REMINDER_DAYS = [30, 7];
+  // VAT rates (%) per product category used on invoices
+  export const VAT_RATES: Record<string, number> = {
+    'warzywa': 5,
+    'owoce': 5,
+    'nabiał': 5,
+    'mięso': 5,
+    'zboża': 5,
+    'przetwory': 5,
+    'miód': 5,
+    'jaja': 5,
+    'napoje': 8,
+    'inne': 23
+  };
+
+  // VAT rate (%) for categories missing from VAT_RATES
+  export const DEFAULT_VAT_RATE = 23;
+
+  // Subscription (CSA box) statuses
+  export const SUBSCRIPTION_STATUSES = {
+    ACTIVE: 'active' as const,
+    PAUSED: 'paused' as const,
+    CANCELLED: 'cancelled' as const
+  };
+
+  // Days between deliveries for each subscription cadence
+  export const SUBSCRIPTION_CADENCE_DAYS = {
+    weekly: 7,
+    biweekly: 14
+  };
+
+  // Subscription orders are created this many days before the delivery date
+  export const SUBSCRIPTION_ORDER_LEAD_DAYS = 2;
+
+  // Delivery window types
+  export const DELIVERY_WINDOW_TYPES = {
+    DELIVERY: 'delivery' as const,
+    PICKUP: 'pickup' as const
+  };
+
+  // How far ahead (days) buyers can book delivery and pickup slots
+  export const DELIVERY_SLOT_BOOKING_DAYS = 14;
+
+  // Slots starting sooner than this (hours) can no longer be booked
+  export const DELIVERY_SLOT_MIN_LEAD_HOURS = 24;
+
+  // Shipping rules used for farmers who have not set their own
+  export const DEFAULT_SHIPPING_RULES = {
+    flatFee: 10,
+    perKmFee: 0.5,
+    perKgFee: 0.2,
+    freeDeliveryThreshold: 200,
+    maxDistanceKm: 50
+  };
+
+  // Weight (kg) of one piece/package when the product has no unitWeightKg
+  export const DEFAULT_UNIT_WEIGHT_KG = 1;
+
+  // VAT rate (%) of the delivery line on invoices
+  export const SHIPPING_VAT_RATE = 23;
+
+  // Review moderation statuses
+  export const MODERATION_STATUSES = {
+    PENDING: 'pending' as const,
+    APPROVED: 'approved' as const,
+    REJECTED: 'rejected' as const
+  };
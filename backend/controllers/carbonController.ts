@@ -0,0 +1,86 @@
+// backend/controllers/carbonController.ts
+import { Request, Response } from 'express';
+import { carbonService } from '../services/carbonService';
+
+// Longest period (months) of a carbon summary
+const MAX_SUMMARY_MONTHS = 36;
+const DEFAULT_SUMMARY_MONTHS = 12;
+
+/**
+ * Read ?months= from the query; responds with 400 and returns null when invalid
+ */
+const getMonths = (req: Request, res: Response): number | null => {
+  const months = req.query.months ? Number(req.query.months) : DEFAULT_SUMMARY_MONTHS;
+
+  if (!Number.isInteger(months) || months < 1 || months > MAX_SUMMARY_MONTHS) {
+    res.status(400).json({
+      success: false,
+      error: `Liczba miesięcy musi być liczbą całkowitą od 1 do ${MAX_SUMMARY_MONTHS}`
+    });
+    return null;
+  }
+
+  return months;
+};
+
+/**
+ * Get the current user's CO2 footprint of purchases per month, compared with supermarket shopping
+ */
+export const getConsumerCarbonSummary = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const months = getMonths(req, res);
+    if (months === null) return;
+
+    const summary = await carbonService.getConsumerSummary(req.user.id, months);
+
+    res.json({
+      success: true,
+      data: summary
+    });
+  } catch (error) {
+    console.error('Error getting consumer carbon summary:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Wystąpił błąd podczas pobierania podsumowania śladu węglowego.'
+    });
+  }
+};
+
+/**
+ * Get the current farmer's CO2 footprint of sales per month, compared with supermarket shopping
+ */
+export const getFarmerCarbonSummary = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const months = getMonths(req, res);
+    if (months === null) return;
+
+    const summary = await carbonService.getFarmerSummary(req.user.id, months);
+
+    res.json({
+      success: true,
+      data: summary
+    });
+  } catch (error) {
+    console.error('Error getting farmer carbon summary:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Wystąpił błąd podczas pobierania podsumowania śladu węglowego.'
+    });
+  }
+};
@@ -0,0 +1,214 @@
+// backend/controllers/cartController.ts
+import { Request, Response } from 'express';
+import { cartService } from '../services/cartService';
+import { isServiceError } from '../utils/serviceError';
+import type { CartItem } from '../types';
+
+/**
+ * Send a service error or a generic 500 response
+ */
+const handleCartError = (res: Response, error: unknown, logMessage: string, userMessage: string): void => {
+  if (isServiceError(error)) {
+    res.status(error.status).json({
+      success: false,
+      error: error.message
+    });
+    return;
+  }
+
+  console.error(logMessage, error);
+  res.status(500).json({
+    success: false,
+    error: userMessage
+  });
+};
+
+/**
+ * Parse and validate quantity from request body
+ */
+const parseQuantity = (value: unknown): number | null => {
+  const quantity = Number(value);
+  return isNaN(quantity) || quantity <= 0 ? null : quantity;
+};
+
+/**
+ * Get current user's cart
+ */
+export const getCart = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const cart = await cartService.getCart(req.user.id);
+
+    res.json({
+      success: true,
+      data: cart
+    });
+  } catch (error) {
+    handleCartError(res, error, 'Error getting cart:', 'Wystąpił błąd podczas pobierania koszyka.');
+  }
+};
+
+/**
+ * Add product to cart
+ */
+export const addCartItem = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const { product, quantity: rawQuantity } = req.body ?? {};
+    const quantity = parseQuantity(rawQuantity);
+
+    if (!product || typeof product !== 'string' || quantity === null) {
+      res.status(400).json({
+        success: false,
+        error: 'Wymagany jest produkt i dodatnia ilość'
+      });
+      return;
+    }
+
+    const cart = await cartService.addItem(req.user.id, product, quantity);
+
+    res.json({
+      success: true,
+      data: cart
+    });
+  } catch (error) {
+    handleCartError(res, error, 'Error adding cart item:', 'Wystąpił błąd podczas dodawania produktu do koszyka.');
+  }
+};
+
+/**
+ * Update quantity of a product in cart
+ */
+export const updateCartItem = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const { productId } = req.params;
+    const { quantity: rawQuantity } = req.body ?? {};
+    const quantity = parseQuantity(rawQuantity);
+
+    if (quantity === null) {
+      res.status(400).json({
+        success: false,
+        error: 'Ilość musi być liczbą dodatnią'
+      });
+      return;
+    }
+
+    const cart = await cartService.updateItem(req.user.id, productId, quantity);
+
+    res.json({
+      success: true,
+      data: cart
+    });
+  } catch (error) {
+    handleCartError(res, error, 'Error updating cart item:', 'Wystąpił błąd podczas aktualizacji koszyka.');
+  }
+};
+
+/**
+ * Remove product from cart
+ */
+export const removeCartItem = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const cart = await cartService.removeItem(req.user.id, req.params.productId);
+
+    res.json({
+      success: true,
+      data: cart
+    });
+  } catch (error) {
+    handleCartError(res, error, 'Error removing cart item:', 'Wystąpił błąd podczas usuwania produktu z koszyka.');
+  }
+};
+
+/**
+ * Clear cart
+ */
+export const clearCart = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    await cartService.clearCart(req.user.id);
+
+    res.json({
+      success: true,
+      message: 'Koszyk został wyczyszczony.'
+    });
+  } catch (error) {
+    handleCartError(res, error, 'Error clearing cart:', 'Wystąpił błąd podczas czyszczenia koszyka.');
+  }
+};
+
+/**
+ * Merge anonymous (localStorage) cart into the user's cart
+ */
+export const mergeCart = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const { items } = req.body ?? {};
+
+    if (!Array.isArray(items)) {
+      res.status(400).json({
+        success: false,
+        error: 'Nieprawidłowy format koszyka'
+      });
+      return;
+    }
+
+    // Ignore malformed lines instead of rejecting the whole local cart
+    const validItems: CartItem[] = items
+      .filter(item => item && typeof item.product === 'string' && parseQuantity(item.quantity) !== null)
+      .map(item => ({ product: item.product, quantity: Number(item.quantity) }));
+
+    const cart = await cartService.mergeCart(req.user.id, validItems);
+
+    res.json({
+      success: true,
+      data: cart
+    });
+  } catch (error) {
+    handleCartError(res, error, 'Error merging cart:', 'Wystąpił błąd podczas scalania koszyka.');
+  }
+};
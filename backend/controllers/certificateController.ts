@@ -0,0 +1,211 @@
+// backend/controllers/certificateController.ts
+import { Request, Response } from 'express';
+import { verificationService } from '../services/verificationService';
+import { CERTIFICATE_STATUSES } from '../constants';
+import { isServiceError } from '../utils/serviceError';
+import type { CertificateStatus, CertificateType } from '../types';
+
+const CERTIFICATE_STATUS_VALUES: string[] = Object.values(CERTIFICATE_STATUSES);
+const MAX_REJECTION_REASON_LENGTH = 1000;
+
+/**
+ * Send a service error or a generic 500 response
+ */
+const handleCertificateError = (res: Response, error: unknown, logMessage: string, userMessage: string): void => {
+  if (isServiceError(error)) {
+    res.status(error.status).json({
+      success: false,
+      error: error.message
+    });
+    return;
+  }
+
+  console.error(logMessage, error);
+  res.status(500).json({
+    success: false,
+    error: userMessage
+  });
+};
+
+/**
+ * Upload a certificate document - the certificate waits for admin verification
+ */
+export const createCertificate = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user || !req.file) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const { name, type, issuingAuthority, validUntil } = req.body ?? {};
+    const authority = issuingAuthority.trim();
+
+    const certificate = await verificationService.createCertificate(req.user.id, {
+      name: name?.trim() || authority,
+      type: type as CertificateType,
+      issuingAuthority: authority,
+      validUntil: new Date(validUntil)
+    }, req.file);
+
+    res.status(201).json({
+      success: true,
+      data: certificate
+    });
+  } catch (error) {
+    handleCertificateError(res, error, 'Error creating certificate:', 'Wystąpił błąd podczas dodawania certyfikatu.');
+  }
+};
+
+/**
+ * Get certificates of the current farmer with their verification status
+ */
+export const getMyCertificates = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const certificates = await verificationService.getFarmerCertificates(req.user.id);
+
+    res.json({
+      success: true,
+      data: certificates
+    });
+  } catch (error) {
+    handleCertificateError(res, error, 'Error getting farmer certificates:', 'Wystąpił błąd podczas pobierania certyfikatów.');
+  }
+};
+
+/**
+ * Get verified, unexpired certificates of a farmer
+ */
+export const getFarmerCertificates = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const certificates = await verificationService.getActiveFarmerCertificates(req.params.farmerId);
+
+    res.json({
+      success: true,
+      data: certificates
+    });
+  } catch (error) {
+    handleCertificateError(res, error, 'Error getting farmer certificates:', 'Wystąpił błąd podczas pobierania certyfikatów.');
+  }
+};
+
+/**
+ * Get a single certificate (owner or admin)
+ */
+export const getCertificateById = (req: Request, res: Response): void => {
+  res.json({
+    success: true,
+    data: req.certificateData
+  });
+};
+
+/**
+ * Get certificates for verification (?status=pending|verified|rejected, pending by default)
+ */
+export const getVerificationQueue = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const status = String(req.query.status || CERTIFICATE_STATUSES.PENDING);
+
+    if (!CERTIFICATE_STATUS_VALUES.includes(status)) {
+      res.status(400).json({
+        success: false,
+        error: 'Nieprawidłowy status weryfikacji'
+      });
+      return;
+    }
+
+    const certificates = await verificationService.getVerificationQueue(status as CertificateStatus);
+
+    res.json({
+      success: true,
+      data: certificates
+    });
+  } catch (error) {
+    handleCertificateError(res, error, 'Error getting verification queue:', 'Wystąpił błąd podczas pobierania certyfikatów.');
+  }
+};
+
+/**
+ * Verify a certificate
+ */
+export const verifyCertificate = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const certificate = await verificationService.verifyCertificate(req.params.id, true, req.user.id);
+
+    if (!certificate) {
+      res.status(404).json({
+        success: false,
+        error: 'Certyfikat nie znaleziony'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: certificate
+    });
+  } catch (error) {
+    handleCertificateError(res, error, 'Error verifying certificate:', 'Wystąpił błąd podczas weryfikacji certyfikatu.');
+  }
+};
+
+/**
+ * Reject (or revoke) a certificate with a reason
+ */
+export const rejectCertificate = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const body = req.body ?? {};
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+
+    if (!reason || reason.length > MAX_REJECTION_REASON_LENGTH) {
+      res.status(400).json({
+        success: false,
+        error: `Podaj powód odrzucenia (maksymalnie ${MAX_REJECTION_REASON_LENGTH} znaków)`
+      });
+      return;
+    }
+
+    const certificate = await verificationService.verifyCertificate(req.params.id, false, req.user.id, reason);
+
+    if (!certificate) {
+      res.status(404).json({
+        success: false,
+        error: 'Certyfikat nie znaleziony'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: certificate
+    });
+  } catch (error) {
+    handleCertificateError(res, error, 'Error rejecting certificate:', 'Wystąpił błąd podczas odrzucania certyfikatu.');
+  }
+};
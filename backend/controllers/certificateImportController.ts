@@ -0,0 +1,195 @@
+// backend/controllers/certificateImportController.ts
+import { Request, Response } from 'express';
+import { certificateImportService } from '../services/certificateImportService';
+import { CERTIFICATE_TYPES } from '../constants';
+import { isServiceError } from '../utils/serviceError';
+import { toCsv } from '../utils/csv';
+import { formatDate } from '../../src/shared/utils';
+import type { CertificateImportRowStatus, CertificateType } from '../types';
+
+const ROW_STATUS_LABELS: Record<CertificateImportRowStatus, string> = {
+  matched: 'Dopasowany',
+  ambiguous: 'Niejednoznaczny',
+  unmatched: 'Niedopasowany',
+  invalid: 'Błędne dane',
+  skipped: 'Pominięty',
+  imported: 'Zaimportowany'
+};
+
+/**
+ * Send a service error or a generic 500 response
+ */
+const handleImportError = (res: Response, error: unknown, logMessage: string, userMessage: string): void => {
+  if (isServiceError(error)) {
+    res.status(error.status).json({
+      success: false,
+      error: error.message
+    });
+    return;
+  }
+
+  console.error(logMessage, error);
+  res.status(500).json({
+    success: false,
+    error: userMessage
+  });
+};
+
+/**
+ * Import a certification body's registry - rows are matched to farmers and wait for review
+ */
+export const createCertificateImport = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user || !req.file) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const { issuingAuthority, type } = req.body ?? {};
+
+    const certificateImport = await certificateImportService.createImport(
+      req.file,
+      issuingAuthority.trim(),
+      (type || CERTIFICATE_TYPES.ORGANIC) as CertificateType,
+      req.user.id
+    );
+
+    res.status(201).json({
+      success: true,
+      data: certificateImport
+    });
+  } catch (error) {
+    handleImportError(res, error, 'Error creating certificate import:', 'Wystąpił błąd podczas importu rejestru.');
+  }
+};
+
+/**
+ * Get registry imports with their summaries
+ */
+export const getCertificateImports = async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const imports = await certificateImportService.getImports();
+
+    res.json({
+      success: true,
+      data: imports
+    });
+  } catch (error) {
+    handleImportError(res, error, 'Error getting certificate imports:', 'Wystąpił błąd podczas pobierania importów.');
+  }
+};
+
+/**
+ * Get an import with its rows for review (?status=ambiguous|unmatched|... to filter rows)
+ */
+export const getCertificateImport = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const status = req.query.status ? String(req.query.status) : undefined;
+
+    if (status && !(status in ROW_STATUS_LABELS)) {
+      res.status(400).json({
+        success: false,
+        error: 'Nieprawidłowy status wiersza'
+      });
+      return;
+    }
+
+    const certificateImport = await certificateImportService.getImport(
+      req.params.id,
+      status as CertificateImportRowStatus | undefined
+    );
+
+    res.json({
+      success: true,
+      data: certificateImport
+    });
+  } catch (error) {
+    handleImportError(res, error, 'Error getting certificate import:', 'Wystąpił błąd podczas pobierania importu.');
+  }
+};
+
+/**
+ * Resolve an import row - assign a farmer ({ farmer }) or skip it ({ skip: true })
+ */
+export const resolveImportRow = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { farmer, skip } = req.body ?? {};
+
+    if (skip !== true && (typeof farmer !== 'string' || !farmer.trim())) {
+      res.status(400).json({
+        success: false,
+        error: 'Wskaż rolnika albo pomiń wiersz'
+      });
+      return;
+    }
+
+    const row = await certificateImportService.resolveRow(
+      req.params.id,
+      req.params.rowNumber,
+      skip === true ? { skip: true } : { farmer: farmer.trim() }
+    );
+
+    res.json({
+      success: true,
+      data: row
+    });
+  } catch (error) {
+    handleImportError(res, error, 'Error resolving import row:', 'Wystąpił błąd podczas aktualizacji wiersza importu.');
+  }
+};
+
+/**
+ * Confirm an import - matched rows get verified certificates
+ */
+export const confirmCertificateImport = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const certificateImport = await certificateImportService.confirmImport(req.params.id, req.user.id);
+
+    res.json({
+      success: true,
+      data: certificateImport
+    });
+  } catch (error) {
+    handleImportError(res, error, 'Error confirming certificate import:', 'Wystąpił błąd podczas zatwierdzania importu.');
+  }
+};
+
+/**
+ * Export rows without a certificate (unmatched, ambiguous, invalid, skipped) as CSV
+ */
+export const exportImportReport = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const rows = await certificateImportService.getReportRows(req.params.id);
+
+    const csv = toCsv(
+      ['Wiersz', 'Nazwa', 'NIP', 'Adres', 'Nr certyfikatu', 'Ważny do', 'Status', 'Uwagi'],
+      rows.map(row => [
+        String(row.rowNumber),
+        row.name,
+        row.nip,
+        row.address,
+        row.certificateNumber,
+        row.validUntil ? formatDate(row.validUntil) : '',
+        ROW_STATUS_LABELS[row.status],
+        row.issue || (row.status === 'ambiguous' ? `Kandydaci: ${row.candidates.map(candidate => candidate.fullName).join(', ')}` : '')
+      ])
+    );
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="raport-importu-${req.params.id}.csv"`);
+    res.send(csv);
+  } catch (error) {
+    handleImportError(res, error, 'Error exporting import report:', 'Wystąpił błąd podczas eksportu raportu importu.');
+  }
+};
@@ -0,0 +1,102 @@
+// backend/controllers/deliveryRouteController.ts
+import { Request, Response } from 'express';
+import { usersCollection } from '../models/collections';
+import { deliveryRouteService } from '../services/deliveryRouteService';
+import { generateRouteSheetPdf } from '../utils/routeSheetPdf';
+import { isServiceError } from '../utils/serviceError';
+import { isDateKey, toDateKey } from '../utils/dateKeys';
+import type { DeliveryRoute } from '../types';
+
+/**
+ * Send a service error or a generic 500 response
+ */
+const handleDeliveryRouteError = (res: Response, error: unknown, logMessage: string, userMessage: string): void => {
+  if (isServiceError(error)) {
+    res.status(error.status).json({
+      success: false,
+      error: error.message
+    });
+    return;
+  }
+
+  console.error(logMessage, error);
+  res.status(500).json({
+    success: false,
+    error: userMessage
+  });
+};
+
+/**
+ * Plan the current farmer's route from the query (?date=YYYY-MM-DD&orders=id1,id2).
+ * Responds with 400 and returns null when the query is invalid.
+ */
+const planFromQuery = async (req: Request, res: Response): Promise<DeliveryRoute | null> => {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+    return null;
+  }
+
+  const date = req.query.date ? String(req.query.date) : toDateKey(new Date());
+  const orderIds = req.query.orders
+    ? Array.from(new Set(String(req.query.orders).split(',').map(id => id.trim()).filter(Boolean)))
+    : undefined;
+
+  if (!isDateKey(date)) {
+    res.status(400).json({
+      success: false,
+      error: 'Nieprawidłowa data (wymagany format RRRR-MM-DD)'
+    });
+    return null;
+  }
+
+  if (orderIds && orderIds.length === 0) {
+    res.status(400).json({
+      success: false,
+      error: 'Lista zamówień jest pusta'
+    });
+    return null;
+  }
+
+  return deliveryRouteService.planDeliveryRoute(req.user.id, date, orderIds);
+};
+
+/**
+ * Get the optimized delivery route of the current farmer for a day
+ */
+export const getDeliveryRoute = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const route = await planFromQuery(req, res);
+    if (!route) return;
+
+    res.json({
+      success: true,
+      data: route
+    });
+  } catch (error) {
+    handleDeliveryRouteError(res, error, 'Error planning delivery route:', 'Wystąpił błąd podczas planowania trasy dostaw.');
+  }
+};
+
+/**
+ * Download the delivery run sheet (PDF) of the current farmer for a day
+ */
+export const getDeliveryRouteSheet = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const route = await planFromQuery(req, res);
+    if (!route || !req.user) return;
+
+    const farmerDoc = await usersCollection.doc(req.user.id).get();
+    const farmerName = farmerDoc.get('companyName') || farmerDoc.get('fullName') || '';
+
+    const pdf = await generateRouteSheetPdf(route, farmerName);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="trasa-${route.date}.pdf"`);
+    res.send(pdf);
+  } catch (error) {
+    handleDeliveryRouteError(res, error, 'Error generating route sheet:', 'Wystąpił błąd podczas generowania karty trasy.');
+  }
+};
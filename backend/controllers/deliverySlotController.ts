@@ -0,0 +1,191 @@
+// backend/controllers/deliverySlotController.ts
+import { Request, Response } from 'express';
+import { deliverySlotService } from '../services/deliverySlotService';
+import { isServiceError } from '../utils/serviceError';
+import type { DeliveryWindowType, FirestoreDeliveryWindow } from '../types';
+
+// Longest period returned by the farmer's schedule
+const MAX_SCHEDULE_DAYS = 31;
+
+/**
+ * Send a service error or a generic 500 response
+ */
+const handleDeliverySlotError = (res: Response, error: unknown, logMessage: string, userMessage: string): void => {
+  if (isServiceError(error)) {
+    res.status(error.status).json({
+      success: false,
+      error: error.message
+    });
+    return;
+  }
+
+  console.error(logMessage, error);
+  res.status(500).json({
+    success: false,
+    error: userMessage
+  });
+};
+
+/**
+ * Get delivery and pickup windows of the current farmer
+ */
+export const getMyDeliveryWindows = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const windows = await deliverySlotService.getFarmerWindows(req.user.id);
+
+    res.json({
+      success: true,
+      data: windows
+    });
+  } catch (error) {
+    handleDeliverySlotError(res, error, 'Error getting delivery windows:', 'Wystąpił błąd podczas pobierania okien dostaw.');
+  }
+};
+
+/**
+ * Create a delivery or pickup window
+ */
+export const createDeliveryWindow = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const { type, dayOfWeek, startTime, endTime, capacity, note, isActive } = req.body ?? {};
+
+    const window = await deliverySlotService.createWindow(req.user.id, {
+      type,
+      dayOfWeek,
+      startTime,
+      endTime,
+      capacity,
+      note: note?.trim(),
+      isActive
+    });
+
+    res.status(201).json({
+      success: true,
+      data: window
+    });
+  } catch (error) {
+    handleDeliverySlotError(res, error, 'Error creating delivery window:', 'Wystąpił błąd podczas tworzenia okna dostawy.');
+  }
+};
+
+/**
+ * Update a delivery or pickup window
+ */
+export const updateDeliveryWindow = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { type, dayOfWeek, startTime, endTime, capacity, note, isActive } = req.body ?? {};
+
+    const window = await deliverySlotService.updateWindow(req.deliveryWindowData as FirestoreDeliveryWindow, {
+      type,
+      dayOfWeek,
+      startTime,
+      endTime,
+      capacity,
+      note: note?.trim(),
+      isActive
+    });
+
+    res.json({
+      success: true,
+      data: window
+    });
+  } catch (error) {
+    handleDeliverySlotError(res, error, 'Error updating delivery window:', 'Wystąpił błąd podczas aktualizacji okna dostawy.');
+  }
+};
+
+/**
+ * Deactivate a delivery or pickup window (booked slots stay valid)
+ */
+export const deleteDeliveryWindow = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const window = await deliverySlotService.deactivateWindow(req.deliveryWindowData as FirestoreDeliveryWindow);
+
+    res.json({
+      success: true,
+      data: window
+    });
+  } catch (error) {
+    handleDeliverySlotError(res, error, 'Error deleting delivery window:', 'Wystąpił błąd podczas usuwania okna dostawy.');
+  }
+};
+
+/**
+ * Get bookable slots of a farmer (only slots with free capacity)
+ */
+export const getAvailableSlots = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { type } = req.query;
+
+    if (type !== undefined && type !== 'delivery' && type !== 'pickup') {
+      res.status(400).json({
+        success: false,
+        error: 'Typ terminu musi mieć wartość delivery lub pickup'
+      });
+      return;
+    }
+
+    const slots = await deliverySlotService.getAvailableSlots(
+      req.params.farmerId,
+      type as DeliveryWindowType | undefined
+    );
+
+    res.json({
+      success: true,
+      data: slots
+    });
+  } catch (error) {
+    handleDeliverySlotError(res, error, 'Error getting delivery slots:', 'Wystąpił błąd podczas pobierania terminów dostaw.');
+  }
+};
+
+/**
+ * Get the current farmer's slots with their orders (?from=YYYY-MM-DD&days=7)
+ */
+export const getDeliverySchedule = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const from = req.query.from ? new Date(String(req.query.from)) : new Date();
+    const days = req.query.days ? Number(req.query.days) : 7;
+
+    if (isNaN(from.getTime()) || !Number.isInteger(days) || days < 1 || days > MAX_SCHEDULE_DAYS) {
+      res.status(400).json({
+        success: false,
+        error: `Nieprawidłowy zakres dat (maksymalnie ${MAX_SCHEDULE_DAYS} dni)`
+      });
+      return;
+    }
+
+    const schedule = await deliverySlotService.getFarmerSchedule(req.user.id, from, days);
+
+    res.json({
+      success: true,
+      data: schedule
+    });
+  } catch (error) {
+    handleDeliverySlotError(res, error, 'Error getting delivery schedule:', 'Wystąpił błąd podczas pobierania harmonogramu dostaw.');
+  }
+};
@@ -0,0 +1,418 @@
+// backend/controllers/orderController.ts
+import { Request, Response } from 'express';
+import { ordersCollection } from '../models/collections';
+import { orderService, resolveOrderActor } from '../services/orderService';
+import { cartService } from '../services/cartService';
+import { invoiceService } from '../services/invoiceService';
+import { refundService } from '../services/refundService';
+import { generateCorrectionPdf, generateInvoicePdf } from '../utils/invoicePdf';
+import { isServiceError } from '../utils/serviceError';
+import { isOrderStatus } from '../utils/orderStateMachine';
+import { ORDER_STATUSES } from '../constants';
+import { convertToDate } from '../../src/shared/utils/firebase';
+import type { CreateOrderRequest, FirestoreOrder } from '../types';
+
+const MAX_STATUS_NOTE_LENGTH = 500;
+
+/**
+ * Get orders of the current user
+ * Buyers see the orders they placed, farmers the orders (or sub-orders) they fulfil,
+ * admins see all checkout orders.
+ */
+export const getOrders = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const { status, page = 1, limit = 10 } = req.query;
+    const userId = req.user.id;
+
+    // Build query depending on user role
+    let query: FirebaseFirestore.Query = ordersCollection;
+
+    const isFarmer = req.user.role === 'farmer';
+
+    if (isFarmer) {
+      query = query.where('farmer', '==', userId);
+    } else if (req.user.role !== 'admin') {
+      query = query.where('buyer', '==', userId);
+    }
+
+    if (status) {
+      query = query.where('status', '==', status);
+    }
+
+    // Admins look up orders paid after cancellation to refund them
+    if (req.user.role === 'admin' && req.query.refundRequired === 'true') {
+      query = query.where('refundRequired', '==', true);
+    }
+
+    const snapshot = await query.get();
+
+    const orders: FirestoreOrder[] = [];
+    snapshot.forEach(doc => {
+      const order = {
+        _id: doc.id,
+        ...doc.data()
+      } as FirestoreOrder;
+
+      // Buyers and admins see sub-orders through their checkout order
+      if (!isFarmer && order.parentOrder) return;
+
+      orders.push(order);
+    });
+
+    // Sort by created date (newest first)
+    orders.sort((a, b) => {
+      const dateA = convertToDate(a.createdAt) || new Date(0);
+      const dateB = convertToDate(b.createdAt) || new Date(0);
+      return dateB.getTime() - dateA.getTime();
+    });
+
+    // Apply pagination
+    const skip = (Number(page) - 1) * Number(limit);
+    const paginatedOrders = orders.slice(skip, skip + Number(limit));
+
+    res.json({
+      success: true,
+      data: {
+        items: paginatedOrders,
+        total: orders.length,
+        page: Number(page),
+        limit: Number(limit),
+        totalPages: Math.ceil(orders.length / Number(limit))
+      }
+    });
+  } catch (error) {
+    console.error('Error getting orders:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Wystąpił błąd podczas pobierania zamówień.'
+    });
+  }
+};
+
+/**
+ * Get a single order by ID
+ */
+export const getOrderById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    // Order data is attached by the orderExists middleware
+    const order = req.orderData as FirestoreOrder;
+
+    // Multi-farmer orders are returned together with their sub-orders
+    const subOrderDetails = await orderService.getSubOrders(order);
+
+    res.json({
+      success: true,
+      data: subOrderDetails.length > 0
+        ? { ...order, subOrderDetails }
+        : order
+    });
+  } catch (error) {
+    console.error('Error getting order:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Wystąpił błąd podczas pobierania zamówienia.'
+    });
+  }
+};
+
+/**
+ * Create a new order
+ */
+export const createOrder = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const order = await orderService.createOrder(req.user.id, req.body as CreateOrderRequest);
+
+    // Ordered products no longer belong in the cart; failure here must not fail the order
+    try {
+      await cartService.removeProducts(req.user.id, order.items.map(item => item.product));
+    } catch (cartError) {
+      console.error('Error removing ordered products from cart:', cartError);
+    }
+
+    res.status(201).json({
+      success: true,
+      data: order
+    });
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.status).json({
+        success: false,
+        error: error.message
+      });
+      return;
+    }
+
+    console.error('Error creating order:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Wystąpił błąd podczas tworzenia zamówienia.'
+    });
+  }
+};
+
+/**
+ * Update order status
+ */
+export const updateOrderStatus = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user || !req.orderData) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const { id } = req.params;
+    const { status, note } = req.body ?? {};
+
+    // Validate status
+    if (!isOrderStatus(status)) {
+      res.status(400).json({
+        success: false,
+        error: 'Nieprawidłowy status zamówienia.'
+      });
+      return;
+    }
+
+    if (note !== undefined && note !== null && (typeof note !== 'string' || note.trim().length > MAX_STATUS_NOTE_LENGTH)) {
+      res.status(400).json({
+        success: false,
+        error: `Notatka może mieć maksymalnie ${MAX_STATUS_NOTE_LENGTH} znaków.`
+      });
+      return;
+    }
+
+    const actor = resolveOrderActor(req.orderData, req.user);
+    // Cancelling a paid order also refunds its payment
+    const order = status === ORDER_STATUSES.CANCELLED
+      ? await refundService.cancelOrder(id, actor, note)
+      : await orderService.updateOrderStatus(id, status, actor, note);
+
+    res.json({
+      success: true,
+      data: order
+    });
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.status).json({
+        success: false,
+        error: error.message
+      });
+      return;
+    }
+
+    console.error('Error updating order status:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Wystąpił błąd podczas aktualizacji statusu zamówienia.'
+    });
+  }
+};
+
+/**
+ * Get VAT invoice of an order (PDF, or JSON with ?format=json)
+ */
+export const getOrderInvoice = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user || !req.orderData) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const invoice = await invoiceService.getOrCreateInvoice(req.orderData);
+
+    if (req.query.format === 'json') {
+      res.json({
+        success: true,
+        data: invoice
+      });
+      return;
+    }
+
+    const pdf = await generateInvoicePdf(invoice);
+    const fileName = `faktura-${invoice.number.replace(/\//g, '-')}.pdf`;
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.send(pdf);
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.status).json({
+        success: false,
+        error: error.message
+      });
+      return;
+    }
+
+    console.error('Error generating invoice:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Wystąpił błąd podczas generowania faktury.'
+    });
+  }
+};
+
+/**
+ * Get correction invoices of an order
+ */
+export const getOrderInvoiceCorrections = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.orderData) {
+      res.status(500).json({
+        success: false,
+        error: 'Order data not loaded'
+      });
+      return;
+    }
+
+    const corrections = await invoiceService.getCorrections(req.orderData._id);
+
+    res.json({
+      success: true,
+      data: corrections
+    });
+  } catch (error) {
+    console.error('Error fetching correction invoices:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Wystąpił błąd podczas pobierania faktur korygujących.'
+    });
+  }
+};
+
+/**
+ * Get a correction invoice of an order (PDF, or JSON with ?format=json)
+ */
+export const getOrderInvoiceCorrection = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.orderData) {
+      res.status(500).json({
+        success: false,
+        error: 'Order data not loaded'
+      });
+      return;
+    }
+
+    const correction = await invoiceService.getCorrection(req.orderData._id, req.params.correctionId);
+
+    if (req.query.format === 'json') {
+      res.json({
+        success: true,
+        data: correction
+      });
+      return;
+    }
+
+    const pdf = await generateCorrectionPdf(correction);
+    const fileName = `faktura-korygujaca-${correction.number.replace(/\//g, '-')}.pdf`;
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.send(pdf);
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.status).json({
+        success: false,
+        error: error.message
+      });
+      return;
+    }
+
+    console.error('Error generating correction invoice:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Wystąpił błąd podczas generowania faktury korygującej.'
+    });
+  }
+};
+
+/**
+ * Refund a single order item (whole remaining quantity or a part of it)
+ */
+export const refundOrderItem = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user || !req.orderData) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const { id, productId } = req.params;
+    const { quantity, reason } = req.body ?? {};
+
+    const actor = resolveOrderActor(req.orderData, req.user);
+    const result = await refundService.refundItem(id, productId, actor, {
+      quantity: quantity === undefined || quantity === null ? undefined : Number(quantity),
+      reason: typeof reason === 'string' ? reason : undefined
+    });
+
+    res.status(201).json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.status).json({
+        success: false,
+        error: error.message
+      });
+      return;
+    }
+
+    console.error('Error refunding order item:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Wystąpił błąd podczas zwrotu pozycji zamówienia.'
+    });
+  }
+};
+
+/**
+ * Get refunds of an order
+ */
+export const getOrderRefunds = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.orderData) {
+      res.status(500).json({
+        success: false,
+        error: 'Wewnętrzny błąd serwera - brak danych zamówienia'
+      });
+      return;
+    }
+
+    const refunds = await refundService.getOrderRefunds(req.orderData);
+
+    res.json({
+      success: true,
+      data: refunds
+    });
+  } catch (error) {
+    console.error('Error getting order refunds:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Wystąpił błąd podczas pobierania zwrotów.'
+    });
+  }
+};
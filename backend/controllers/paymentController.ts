@@ -0,0 +1,192 @@
+// backend/controllers/paymentController.ts
+import { Request, Response } from 'express';
+import { paymentService } from '../services/paymentService';
+import { FakePaymentProvider, getPaymentProvider } from '../services/payments';
+import { isServiceError } from '../utils/serviceError';
+
+/**
+ * Send a service error or a generic 500 response
+ */
+const handlePaymentError = (res: Response, error: unknown, logMessage: string, userMessage: string): void => {
+  if (isServiceError(error)) {
+    res.status(error.status).json({
+      success: false,
+      error: error.message
+    });
+    return;
+  }
+
+  console.error(logMessage, error);
+  res.status(500).json({
+    success: false,
+    error: userMessage
+  });
+};
+
+/**
+ * Create payment intent for an order
+ */
+export const createPaymentIntent = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const { orderId } = req.body ?? {};
+
+    if (!orderId || typeof orderId !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'Wymagane jest ID zamówienia'
+      });
+      return;
+    }
+
+    const intent = await paymentService.createPaymentIntent(orderId, req.user.id);
+
+    res.status(201).json({
+      success: true,
+      data: {
+        paymentId: intent.id,
+        clientSecret: intent.clientSecret,
+        amount: intent.amount,
+        currency: intent.currency,
+        status: intent.status,
+        provider: getPaymentProvider().name
+      }
+    });
+  } catch (error) {
+    handlePaymentError(res, error, 'Error creating payment intent:', 'Wystąpił błąd podczas tworzenia płatności.');
+  }
+};
+
+/**
+ * Get payment status (and update the order if the payment was settled)
+ */
+export const getPayment = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const order = await paymentService.findOrderByPaymentId(req.params.id);
+
+    if (order.buyer !== req.user.id && req.user.role !== 'admin') {
+      res.status(403).json({
+        success: false,
+        error: 'Nie masz uprawnień do tej płatności'
+      });
+      return;
+    }
+
+    const { payment, order: updatedOrder } = await paymentService.getPayment(req.params.id);
+
+    res.json({
+      success: true,
+      data: {
+        paymentId: payment.id,
+        amount: payment.amount,
+        currency: payment.currency,
+        status: payment.status,
+        order: {
+          _id: updatedOrder._id,
+          status: updatedOrder.status,
+          paymentStatus: updatedOrder.paymentStatus
+        }
+      }
+    });
+  } catch (error) {
+    handlePaymentError(res, error, 'Error getting payment:', 'Wystąpił błąd podczas pobierania płatności.');
+  }
+};
+
+/**
+ * Settle a payment of the fake provider (local development only)
+ */
+export const simulatePayment = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const provider = getPaymentProvider();
+
+    if (!(provider instanceof FakePaymentProvider) || process.env.NODE_ENV === 'production') {
+      res.status(404).json({
+        success: false,
+        error: 'Symulacja płatności jest niedostępna'
+      });
+      return;
+    }
+
+    const { outcome } = req.body ?? {};
+    const order = await paymentService.findOrderByPaymentId(req.params.id);
+
+    if (order.buyer !== req.user.id && req.user.role !== 'admin') {
+      res.status(403).json({
+        success: false,
+        error: 'Nie masz uprawnień do tej płatności'
+      });
+      return;
+    }
+
+    const payment = await provider.simulatePayment(req.params.id, outcome === 'failed' ? 'failed' : 'succeeded');
+    const updatedOrder = await paymentService.applyPaymentStatus(order, payment);
+
+    res.json({
+      success: true,
+      data: {
+        paymentId: payment.id,
+        status: payment.status,
+        order: {
+          _id: updatedOrder._id,
+          status: updatedOrder.status,
+          paymentStatus: updatedOrder.paymentStatus
+        }
+      }
+    });
+  } catch (error) {
+    handlePaymentError(res, error, 'Error simulating payment:', 'Wystąpił błąd podczas symulacji płatności.');
+  }
+};
+
+/**
+ * Handle payment provider webhook (body is the raw, unparsed payload)
+ */
+export const handlePaymentWebhook = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const provider = getPaymentProvider();
+    const signature = req.headers[provider.signatureHeader];
+
+    if (!Buffer.isBuffer(req.body) || typeof signature !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'Brak podpisu lub treści webhooka'
+      });
+      return;
+    }
+
+    const event = provider.constructWebhookEvent(req.body, signature);
+    const processed = await paymentService.handleWebhookEvent(event);
+
+    res.json({
+      success: true,
+      received: true,
+      duplicate: !processed
+    });
+  } catch (error) {
+    handlePaymentError(res, error, 'Error handling payment webhook:', 'Wystąpił błąd podczas obsługi webhooka płatności.');
+  }
+};
@@ -0,0 +1,172 @@
+// backend/controllers/payoutController.ts
+import { Request, Response } from 'express';
+import { ledgerService } from '../services/ledgerService';
+import { isServiceError } from '../utils/serviceError';
+import { toCsv } from '../utils/csv';
+import { formatDate } from '../../src/shared/utils';
+
+/**
+ * Send a service error or a generic 500 response
+ */
+const handlePayoutError = (res: Response, error: unknown, logMessage: string, userMessage: string): void => {
+  if (isServiceError(error)) {
+    res.status(error.status).json({
+      success: false,
+      error: error.message
+    });
+    return;
+  }
+
+  console.error(logMessage, error);
+  res.status(500).json({
+    success: false,
+    error: userMessage
+  });
+};
+
+/**
+ * Parse optional date from query string
+ */
+const parseDate = (value: unknown): Date | undefined | null => {
+  if (value === undefined || value === '') return undefined;
+
+  const date = new Date(String(value));
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Get balance and statement of the current farmer
+ */
+export const getMyPayouts = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const from = parseDate(req.query.from);
+    const to = parseDate(req.query.to);
+
+    if (from === null || to === null) {
+      res.status(400).json({
+        success: false,
+        error: 'Nieprawidłowy zakres dat'
+      });
+      return;
+    }
+
+    const statement = await ledgerService.getFarmerStatement(req.user.id, from, to);
+
+    res.json({
+      success: true,
+      data: statement
+    });
+  } catch (error) {
+    handlePayoutError(res, error, 'Error getting payouts:', 'Wystąpił błąd podczas pobierania rozliczeń.');
+  }
+};
+
+/**
+ * Get payout batches
+ */
+export const getPayoutBatches = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const batches = await ledgerService.getPayoutBatches();
+
+    res.json({
+      success: true,
+      data: batches
+    });
+  } catch (error) {
+    handlePayoutError(res, error, 'Error getting payout batches:', 'Wystąpił błąd podczas pobierania paczek wypłat.');
+  }
+};
+
+/**
+ * Create payout batch of all positive farmer balances
+ */
+export const createPayoutBatch = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const batch = await ledgerService.createPayoutBatch(req.user.id);
+
+    res.status(201).json({
+      success: true,
+      data: batch
+    });
+  } catch (error) {
+    handlePayoutError(res, error, 'Error creating payout batch:', 'Wystąpił błąd podczas tworzenia paczki wypłat.');
+  }
+};
+
+/**
+ * Export payout batch as CSV for accounting
+ */
+export const exportPayoutBatch = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const batch = await ledgerService.getPayoutBatch(req.params.id);
+
+    const csv = toCsv(
+      ['Rolnik', 'Email', 'NIP', 'Numer rachunku', 'Kwota (PLN)', 'Tytuł przelewu'],
+      batch.items.map(item => [
+        item.name,
+        item.email,
+        item.nip,
+        item.bankAccount,
+        item.amount,
+        `EkoDirekt wypłata ${formatDate(batch.createdAt)}`
+      ])
+    );
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="wyplaty-${batch._id}.csv"`);
+    res.send(csv);
+  } catch (error) {
+    handlePayoutError(res, error, 'Error exporting payout batch:', 'Wystąpił błąd podczas eksportu paczki wypłat.');
+  }
+};
+
+/**
+ * Record manual balance adjustment for a farmer
+ */
+export const createAdjustment = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const { farmer, description, amount: rawAmount } = req.body ?? {};
+    const amount = Number(rawAmount);
+
+    if (!farmer || typeof farmer !== 'string' || isNaN(amount) || amount === 0 || !description) {
+      res.status(400).json({
+        success: false,
+        error: 'Wymagany jest rolnik, niezerowa kwota i opis korekty'
+      });
+      return;
+    }
+
+    const entry = await ledgerService.recordAdjustment(farmer, amount, String(description).trim(), req.user.id);
+
+    res.status(201).json({
+      success: true,
+      data: entry
+    });
+  } catch (error) {
+    handlePayoutError(res, error, 'Error creating adjustment:', 'Wystąpił błąd podczas zapisywania korekty.');
+  }
+};
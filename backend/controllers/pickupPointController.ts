@@ -0,0 +1,246 @@
+// backend/controllers/pickupPointController.ts
+import { Request, Response } from 'express';
+import { pickupPointService, type PickupPointRequest } from '../services/pickupPointService';
+import { isServiceError } from '../utils/serviceError';
+import type { FirestorePickupPoint } from '../types';
+
+// Longest period returned by the operator's parcel list
+const MAX_PARCEL_DAYS = 31;
+
+/**
+ * Send a service error or a generic 500 response
+ */
+const handlePickupPointError = (res: Response, error: unknown, logMessage: string, userMessage: string): void => {
+  if (isServiceError(error)) {
+    res.status(error.status).json({
+      success: false,
+      error: error.message
+    });
+    return;
+  }
+
+  console.error(logMessage, error);
+  res.status(500).json({
+    success: false,
+    error: userMessage
+  });
+};
+
+/**
+ * Pick pickup point fields from the request body
+ */
+const toPickupPointRequest = (body: Record<string, unknown>): Partial<PickupPointRequest> => {
+  const { name, description, location, address, openingHours, capacity, operator, isActive } =
+    body as Partial<PickupPointRequest>;
+
+  return {
+    name: name?.trim(),
+    description: description?.trim(),
+    location: location && {
+      type: 'Point',
+      coordinates: [Number(location.coordinates[0]), Number(location.coordinates[1])],
+      address: String(location.address).trim()
+    },
+    address: address && {
+      street: String(address.street).trim(),
+      city: String(address.city).trim(),
+      postalCode: String(address.postalCode).trim(),
+      country: String(address.country || 'Polska').trim()
+    },
+    openingHours: openingHours?.map(hours => ({
+      dayOfWeek: hours.dayOfWeek,
+      open: hours.open,
+      close: hours.close
+    })),
+    capacity,
+    operator,
+    isActive
+  };
+};
+
+/**
+ * Get active pickup points (?lat=&lng=&radius= to search nearby, ?farmer= for points served by a farmer)
+ */
+export const getPickupPoints = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { lat, lng, radius, farmer } = req.query;
+
+    const points = await pickupPointService.getPickupPoints({
+      ...(lat !== undefined && lng !== undefined && { lat: Number(lat), lng: Number(lng) }),
+      ...(radius !== undefined && { radius: Number(radius) }),
+      ...(farmer && { farmer: String(farmer) })
+    });
+
+    res.json({
+      success: true,
+      data: points
+    });
+  } catch (error) {
+    handlePickupPointError(res, error, 'Error getting pickup points:', 'Wystąpił błąd podczas pobierania punktów odbioru.');
+  }
+};
+
+/**
+ * Get a single pickup point
+ */
+export const getPickupPointById = async (req: Request, res: Response): Promise<void> => {
+  res.json({
+    success: true,
+    data: req.pickupPointData
+  });
+};
+
+/**
+ * Get days with free capacity (?parcels= - number of farmers in the cart)
+ */
+export const getPickupPointAvailability = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const parcels = req.query.parcels ? Number(req.query.parcels) : 1;
+
+    if (!Number.isInteger(parcels) || parcels < 1) {
+      res.status(400).json({
+        success: false,
+        error: 'Liczba paczek musi być dodatnią liczbą całkowitą'
+      });
+      return;
+    }
+
+    const availability = await pickupPointService.getAvailability(
+      req.pickupPointData as FirestorePickupPoint,
+      parcels
+    );
+
+    res.json({
+      success: true,
+      data: availability
+    });
+  } catch (error) {
+    handlePickupPointError(res, error, 'Error getting pickup point availability:', 'Wystąpił błąd podczas pobierania dostępności punktu odbioru.');
+  }
+};
+
+/**
+ * Create a pickup point
+ */
+export const createPickupPoint = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const body = req.body ?? {};
+    const point = await pickupPointService.createPickupPoint({
+      ...toPickupPointRequest(body),
+      isActive: body.isActive !== false
+    } as PickupPointRequest);
+
+    res.status(201).json({
+      success: true,
+      data: point
+    });
+  } catch (error) {
+    handlePickupPointError(res, error, 'Error creating pickup point:', 'Wystąpił błąd podczas tworzenia punktu odbioru.');
+  }
+};
+
+/**
+ * Update a pickup point
+ */
+export const updatePickupPoint = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const point = await pickupPointService.updatePickupPoint(
+      req.pickupPointData as FirestorePickupPoint,
+      toPickupPointRequest(req.body ?? {})
+    );
+
+    res.json({
+      success: true,
+      data: point
+    });
+  } catch (error) {
+    handlePickupPointError(res, error, 'Error updating pickup point:', 'Wystąpił błąd podczas aktualizacji punktu odbioru.');
+  }
+};
+
+/**
+ * Opt the current farmer into serving the pickup point
+ */
+export const joinPickupPoint = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const point = await pickupPointService.setFarmerParticipation(
+      req.pickupPointData as FirestorePickupPoint,
+      req.user.id,
+      true
+    );
+
+    res.json({
+      success: true,
+      data: point
+    });
+  } catch (error) {
+    handlePickupPointError(res, error, 'Error joining pickup point:', 'Wystąpił błąd podczas zgłaszania do punktu odbioru.');
+  }
+};
+
+/**
+ * Stop serving the pickup point (parcels already booked are still delivered)
+ */
+export const leavePickupPoint = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const point = await pickupPointService.setFarmerParticipation(
+      req.pickupPointData as FirestorePickupPoint,
+      req.user.id,
+      false
+    );
+
+    res.json({
+      success: true,
+      data: point
+    });
+  } catch (error) {
+    handlePickupPointError(res, error, 'Error leaving pickup point:', 'Wystąpił błąd podczas wycofywania z punktu odbioru.');
+  }
+};
+
+/**
+ * Get parcels expected at the pickup point per day, grouped by order (?from=YYYY-MM-DD&days=7)
+ */
+export const getPickupPointParcels = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const from = req.query.from ? new Date(String(req.query.from)) : new Date();
+    const days = req.query.days ? Number(req.query.days) : 7;
+
+    if (isNaN(from.getTime()) || !Number.isInteger(days) || days < 1 || days > MAX_PARCEL_DAYS) {
+      res.status(400).json({
+        success: false,
+        error: `Nieprawidłowy zakres dat (maksymalnie ${MAX_PARCEL_DAYS} dni)`
+      });
+      return;
+    }
+
+    const parcels = await pickupPointService.getExpectedParcels(
+      req.pickupPointData as FirestorePickupPoint,
+      from,
+      days
+    );
+
+    res.json({
+      success: true,
+      data: parcels
+    });
+  } catch (error) {
+    handlePickupPointError(res, error, 'Error getting pickup point parcels:', 'Wystąpił błąd podczas pobierania paczek punktu odbioru.');
+  }
+};
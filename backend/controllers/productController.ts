@@ -7,6 +7,8 @@ import { productsCollection, usersCollection } from '../models/collections';
 import { FirestoreProduct, ProductOwner } from '../types';
 import { convertToDate } from '../../src/shared/utils/firebase';
 import { uploadImageToStorage } from '../services/fileStorageService';
+import { verificationService } from '../services/verificationService';
+import { isServiceError } from '../utils/serviceError';
 
 // Interface for the product data coming from the request body (likely FormData)
 interface ProductRequestBody {
@@ -15,10 +17,11 @@ interface ProductRequestBody {
   price: string; // FormData sends numbers as strings
   quantity: string; // FormData sends numbers as strings
   unit: string;
+  unitWeightKg?: string; // weight of one piece/package (kg)
   category: string;
   subcategory?: string;
   harvestDate?: string; // ISO date string
-  certificates?: string | string[]; // Can be single or multiple
+  certificates?: string | string[]; // Certificate IDs, can be single or multiple
   'location.coordinates[0]'?: string;
   'location.coordinates[1]'?: string;
   'location.address'?: string;
@@ -77,8 +80,9 @@ export const getProducts = async (req: Request, res: Response): Promise<void> =>
       query = query.where('owner', '==', farmer);
     }
 
+    // Filter by the type of a verified, valid certificate
     if (certificate) {
-      query = query.where('certificates', 'array-contains', certificate);
+      query = query.where('certificateTypes', 'array-contains', certificate);
     }
 
     // Execute query
@@ -244,6 +248,7 @@ export const createProduct = async (req: Request, res: Response): Promise<void>
       price,
       quantity,
       unit,
+      unitWeightKg,
       category,
       subcategory,
       harvestDate,
@@ -263,6 +268,12 @@ export const createProduct = async (req: Request, res: Response): Promise<void>
       };
     }
 
+    // Certification is derived from the owner's verified certificates, not from the form
+    const certification = await verificationService.getProductCertification(
+      userId,
+      certificates ? Array.isArray(certificates) ? certificates : [certificates] : []
+    );
+
     // Create a new product object
     const newProduct = {
       name,
@@ -270,12 +281,14 @@ export const createProduct = async (req: Request, res: Response): Promise<void>
       price: Number(price),
       quantity: Number(quantity),
       unit,
+      ...(Number(unitWeightKg) > 0 && { unitWeightKg: Number(unitWeightKg) }),
       category,
       subcategory,
       owner: userId,
       location,
       harvestDate: harvestDate ? new Date(harvestDate) : undefined,
-      certificates: certificates ? Array.isArray(certificates) ? certificates : [certificates] : [],
+      certificates: certification.certificates,
+      certificateTypes: certification.certificateTypes,
       status: 'available',
       statusHistory: [
         {
@@ -285,9 +298,11 @@ export const createProduct = async (req: Request, res: Response): Promise<void>
         }
       ],
       trackingId: generateTrackingId(),
-      isCertified: certificates && (Array.isArray(certificates) ? certificates.length > 0 : true),
+      isCertified: certification.isCertified,
       images: [] as string[],
       averageRating: 0,
+      reviewCount: 0,
+      ratingSum: 0,
       reviews: [] as string[],
       createdAt: admin.firestore.FieldValue.serverTimestamp(),
       updatedAt: admin.firestore.FieldValue.serverTimestamp()
@@ -324,6 +339,14 @@ export const createProduct = async (req: Request, res: Response): Promise<void>
       data: createdProduct
     });
   } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.status).json({
+        success: false,
+        error: error.message
+      });
+      return;
+    }
+
     console.error('Error creating product:', error);
     res.status(500).json({
       success: false,
@@ -333,17 +356,19 @@ export const createProduct = async (req: Request, res: Response): Promise<void>
 };
 
 // Specific type for Firestore update payload to avoid using 'any'
-type ProductFirestoreUpdateData = Partial<Omit<FirestoreProduct, 'createdAt' | 'updatedAt' | 'images' | 'statusHistory' | 'certificates' | 'location' | 'harvestDate'>> & {
+type ProductFirestoreUpdateData = Partial<Omit<FirestoreProduct, 'createdAt' | 'updatedAt' | 'images' | 'statusHistory' | 'certificates' | 'location' | 'harvestDate' | 'unitWeightKg'>> & {
   name?: string;
   description?: string;
   price?: number;
   quantity?: number;
   unit?: string;
+  unitWeightKg?: number | admin.firestore.FieldValue;
   category?: string;
   subcategory?: string | admin.firestore.FieldValue;
   location?: FirestoreProduct['location'] | admin.firestore.FieldValue;
   harvestDate?: Date | null | admin.firestore.FieldValue;
   certificates?: string[];
+  certificateTypes?: FirestoreProduct['certificateTypes'];
   isCertified?: boolean;
   images?: admin.firestore.FieldValue;
   updatedAt: admin.firestore.FieldValue;
@@ -397,6 +422,7 @@ export const updateProduct = async (req: Request, res: Response): Promise<void>
       price,
       quantity,
       unit,
+      unitWeightKg,
       category,
       subcategory,
       harvestDate,
@@ -427,15 +453,24 @@ export const updateProduct = async (req: Request, res: Response): Promise<void>
     if (price) updateData.price = Number(price);
     if (quantity) updateData.quantity = Number(quantity);
     if (unit) updateData.unit = unit;
+    if (unitWeightKg !== undefined) {
+      updateData.unitWeightKg = Number(unitWeightKg) > 0 ? Number(unitWeightKg) : admin.firestore.FieldValue.delete();
+    }
     if (category) updateData.category = category;
     if (subcategory !== undefined) updateData.subcategory = subcategory;
     if (harvestDate) updateData.harvestDate = new Date(harvestDate);
     if (location) updateData.location = location;
     
-    // Update certificates if provided
+    // Update certificates if provided (certification follows the owner's verified certificates)
     if (certificates) {
-      updateData.certificates = Array.isArray(certificates) ? certificates : [certificates];
-      updateData.isCertified = updateData.certificates.length > 0;
+      const certification = await verificationService.getProductCertification(
+        userId,
+        Array.isArray(certificates) ? certificates : [certificates]
+      );
+
+      updateData.certificates = certification.certificates;
+      updateData.certificateTypes = certification.certificateTypes;
+      updateData.isCertified = certification.isCertified;
     }
 
     // Process new images
@@ -466,6 +501,14 @@ export const updateProduct = async (req: Request, res: Response): Promise<void>
       data: updatedProduct
     });
   } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.status).json({
+        success: false,
+        error: error.message
+      });
+      return;
+    }
+
     console.error('Error updating product:', error);
     res.status(500).json({
       success: false,
@@ -0,0 +1,371 @@
+// backend/controllers/reviewController.ts
+import { Request, Response } from 'express';
+import { reviewService, toPublicReview } from '../services/reviewService';
+import { MODERATION_STATUSES, VALIDATION } from '../constants';
+import { isServiceError } from '../utils/serviceError';
+import type { FirestoreReview, ModerationStatus } from '../types';
+
+const MODERATION_STATUS_VALUES: string[] = Object.values(MODERATION_STATUSES);
+
+/**
+ * Send a service error or a generic 500 response
+ */
+const handleReviewError = (res: Response, error: unknown, logMessage: string, userMessage: string): void => {
+  if (isServiceError(error)) {
+    res.status(error.status).json({
+      success: false,
+      error: error.message
+    });
+    return;
+  }
+
+  console.error(logMessage, error);
+  res.status(500).json({
+    success: false,
+    error: userMessage
+  });
+};
+
+/**
+ * Send one page of reviews (?page=1&limit=10)
+ */
+const sendReviewPage = (req: Request, res: Response, reviews: FirestoreReview[]): void => {
+  const { page = 1, limit = 10 } = req.query;
+
+  const skip = (Number(page) - 1) * Number(limit);
+
+  res.json({
+    success: true,
+    data: {
+      items: reviews.slice(skip, skip + Number(limit)),
+      total: reviews.length,
+      page: Number(page),
+      limit: Number(limit),
+      totalPages: Math.ceil(reviews.length / Number(limit))
+    }
+  });
+};
+
+/**
+ * Get reviews of a product
+ */
+export const getProductReviews = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const reviews = await reviewService.getProductReviews(req.params.productId);
+    sendReviewPage(req, res, reviews);
+  } catch (error) {
+    handleReviewError(res, error, 'Error getting product reviews:', 'Wystąpił błąd podczas pobierania opinii.');
+  }
+};
+
+/**
+ * Get reviews of a farmer (including reviews of the farmer's products)
+ */
+export const getFarmerReviews = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const reviews = await reviewService.getFarmerReviews(req.params.farmerId);
+    sendReviewPage(req, res, reviews);
+  } catch (error) {
+    handleReviewError(res, error, 'Error getting farmer reviews:', 'Wystąpił błąd podczas pobierania opinii.');
+  }
+};
+
+/**
+ * Get a single review (reviews awaiting moderation or rejected are not public)
+ */
+export const getReviewById = async (req: Request, res: Response): Promise<void> => {
+  if (req.reviewData?.moderationStatus !== MODERATION_STATUSES.APPROVED) {
+    res.status(404).json({
+      success: false,
+      error: 'Opinia nie znaleziona'
+    });
+    return;
+  }
+
+  res.json({
+    success: true,
+    data: toPublicReview(req.reviewData)
+  });
+};
+
+/**
+ * Get reviews written by the current user, including those awaiting moderation
+ */
+export const getMyReviews = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const reviews = await reviewService.getAuthorReviews(req.user.id);
+    sendReviewPage(req, res, reviews);
+  } catch (error) {
+    handleReviewError(res, error, 'Error getting user reviews:', 'Wystąpił błąd podczas pobierania opinii.');
+  }
+};
+
+/**
+ * Create a review (verified when it points to the author's delivered order)
+ */
+export const createReview = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const { product, farmer, order, rating, comment } = req.body ?? {};
+
+    const review = await reviewService.createReview(req.user.id, {
+      product,
+      farmer,
+      order,
+      rating,
+      comment: comment?.trim()
+    }, req.files as Express.Multer.File[] | undefined);
+
+    res.status(201).json({
+      success: true,
+      data: review
+    });
+  } catch (error) {
+    handleReviewError(res, error, 'Error creating review:', 'Wystąpił błąd podczas dodawania opinii.');
+  }
+};
+
+/**
+ * Update the rating or comment of a review, or attach more photos
+ */
+export const updateReview = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { rating, comment } = req.body ?? {};
+
+    const review = await reviewService.updateReview(req.reviewData as FirestoreReview, {
+      ...(rating !== undefined && { rating }),
+      ...(comment !== undefined && { comment: comment.trim() })
+    }, req.files as Express.Multer.File[] | undefined);
+
+    res.json({
+      success: true,
+      data: review
+    });
+  } catch (error) {
+    handleReviewError(res, error, 'Error updating review:', 'Wystąpił błąd podczas aktualizacji opinii.');
+  }
+};
+
+/**
+ * Delete a review
+ */
+export const deleteReview = async (req: Request, res: Response): Promise<void> => {
+  try {
+    await reviewService.deleteReview(req.reviewData as FirestoreReview);
+
+    res.json({
+      success: true,
+      message: 'Opinia została usunięta'
+    });
+  } catch (error) {
+    handleReviewError(res, error, 'Error deleting review:', 'Wystąpił błąd podczas usuwania opinii.');
+  }
+};
+
+/**
+ * Read the rejection reason from the body; responds with 400 and returns null when missing
+ */
+const getRejectionReason = (req: Request, res: Response): string | null => {
+  const body = req.body ?? {};
+  const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+
+  if (!reason || reason.length > VALIDATION.MAX_REVIEW_LENGTH) {
+    res.status(400).json({
+      success: false,
+      error: `Podaj powód odrzucenia (maksymalnie ${VALIDATION.MAX_REVIEW_LENGTH} znaków)`
+    });
+    return null;
+  }
+
+  return reason;
+};
+
+/**
+ * Add or change the farmer's reply to a review
+ */
+export const saveReviewReply = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { text } = req.body ?? {};
+    const review = await reviewService.saveReply(req.reviewData as FirestoreReview, text.trim());
+
+    res.json({
+      success: true,
+      data: review
+    });
+  } catch (error) {
+    handleReviewError(res, error, 'Error saving review reply:', 'Wystąpił błąd podczas zapisywania odpowiedzi.');
+  }
+};
+
+/**
+ * Delete the farmer's reply to a review
+ */
+export const deleteReviewReply = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const review = await reviewService.deleteReply(req.reviewData as FirestoreReview);
+
+    res.json({
+      success: true,
+      data: review
+    });
+  } catch (error) {
+    handleReviewError(res, error, 'Error deleting review reply:', 'Wystąpił błąd podczas usuwania odpowiedzi.');
+  }
+};
+
+/**
+ * Get reviews for moderation (?status=pending|approved|rejected, pending by default;
+ * ?type=reply lists farmers' replies instead of reviews)
+ */
+export const getModerationQueue = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const status = String(req.query.status || MODERATION_STATUSES.PENDING);
+    const target = req.query.type === 'reply' ? 'reply' : 'review';
+
+    if (!MODERATION_STATUS_VALUES.includes(status)) {
+      res.status(400).json({
+        success: false,
+        error: 'Nieprawidłowy status moderacji'
+      });
+      return;
+    }
+
+    const reviews = await reviewService.getModerationQueue(status as ModerationStatus, target);
+    sendReviewPage(req, res, reviews);
+  } catch (error) {
+    handleReviewError(res, error, 'Error getting review moderation queue:', 'Wystąpił błąd podczas pobierania opinii do moderacji.');
+  }
+};
+
+/**
+ * Approve a review - it becomes public and counts towards ratings
+ */
+export const approveReview = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const review = await reviewService.moderateReview(req.params.id, MODERATION_STATUSES.APPROVED, req.user.id);
+
+    res.json({
+      success: true,
+      data: review
+    });
+  } catch (error) {
+    handleReviewError(res, error, 'Error approving review:', 'Wystąpił błąd podczas zatwierdzania opinii.');
+  }
+};
+
+/**
+ * Reject a review with a reason sent to its author
+ */
+export const rejectReview = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const reason = getRejectionReason(req, res);
+    if (reason === null) return;
+
+    const review = await reviewService.moderateReview(req.params.id, MODERATION_STATUSES.REJECTED, req.user.id, reason);
+
+    res.json({
+      success: true,
+      data: review
+    });
+  } catch (error) {
+    handleReviewError(res, error, 'Error rejecting review:', 'Wystąpił błąd podczas odrzucania opinii.');
+  }
+};
+
+/**
+ * Approve the farmer's reply to a review
+ */
+export const approveReviewReply = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const review = await reviewService.moderateReply(req.params.id, MODERATION_STATUSES.APPROVED, req.user.id);
+
+    res.json({
+      success: true,
+      data: review
+    });
+  } catch (error) {
+    handleReviewError(res, error, 'Error approving review reply:', 'Wystąpił błąd podczas zatwierdzania odpowiedzi.');
+  }
+};
+
+/**
+ * Reject the farmer's reply to a review with a reason sent to the farmer
+ */
+export const rejectReviewReply = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const reason = getRejectionReason(req, res);
+    if (reason === null) return;
+
+    const review = await reviewService.moderateReply(req.params.id, MODERATION_STATUSES.REJECTED, req.user.id, reason);
+
+    res.json({
+      success: true,
+      data: review
+    });
+  } catch (error) {
+    handleReviewError(res, error, 'Error rejecting review reply:', 'Wystąpił błąd podczas odrzucania odpowiedzi.');
+  }
+};
+
+/**
+ * Remove a single photo from a review (moderation)
+ */
+export const removeReviewImage = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const review = await reviewService.removeImage(req.params.id, Number(req.params.imageIndex));
+
+    res.json({
+      success: true,
+      data: review
+    });
+  } catch (error) {
+    handleReviewError(res, error, 'Error removing review image:', 'Wystąpił błąd podczas usuwania zdjęcia.');
+  }
+};
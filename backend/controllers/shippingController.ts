@@ -0,0 +1,165 @@
+// backend/controllers/shippingController.ts
+import { Request, Response } from 'express';
+import { shippingService } from '../services/shippingService';
+import { cartService } from '../services/cartService';
+import { isServiceError } from '../utils/serviceError';
+
+/**
+ * Send a service error or a generic 500 response
+ */
+const handleShippingError = (res: Response, error: unknown, logMessage: string, userMessage: string): void => {
+  if (isServiceError(error)) {
+    res.status(error.status).json({
+      success: false,
+      error: error.message
+    });
+    return;
+  }
+
+  console.error(logMessage, error);
+  res.status(500).json({
+    success: false,
+    error: userMessage
+  });
+};
+
+/**
+ * Non-negative number or null (empty value switches the limit off)
+ */
+const parseOptionalLimit = (value: unknown): number | null | undefined => {
+  if (value === undefined || value === null || value === '') return null;
+
+  const number = Number(value);
+  return isNaN(number) || number <= 0 ? undefined : number;
+};
+
+/**
+ * Quote shipping for the given items or, without items, for the current cart
+ */
+export const getShippingQuote = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const { shippingAddress, pickupFarmers, items: requestedItems } = req.body ?? {};
+    let items = requestedItems;
+
+    if (items === undefined) {
+      const cart = await cartService.getCart(req.user.id);
+      items = cart.items
+        .filter(line => line.isAvailable)
+        .map(line => ({ product: line.product, quantity: line.quantity }));
+    }
+
+    const hasInvalidItem = !Array.isArray(items) || items.some(item =>
+      !item ||
+      typeof item.product !== 'string' ||
+      !item.product ||
+      isNaN(Number(item.quantity)) ||
+      Number(item.quantity) <= 0
+    );
+
+    if (hasInvalidItem || items.length === 0) {
+      res.status(400).json({
+        success: false,
+        error: 'Wycena wymaga co najmniej jednego produktu z dodatnią ilością'
+      });
+      return;
+    }
+
+    if (pickupFarmers !== undefined && !Array.isArray(pickupFarmers)) {
+      res.status(400).json({
+        success: false,
+        error: 'Lista odbiorów osobistych musi być tablicą'
+      });
+      return;
+    }
+
+    const quote = await shippingService.quote(req.user.id, {
+      items,
+      shippingAddress,
+      pickupFarmers
+    });
+
+    res.json({
+      success: true,
+      data: quote
+    });
+  } catch (error) {
+    handleShippingError(res, error, 'Error quoting shipping:', 'Wystąpił błąd podczas wyceny dostawy.');
+  }
+};
+
+/**
+ * Get shipping rules of a farmer
+ */
+export const getShippingRules = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const rules = await shippingService.getRules(req.params.farmerId);
+
+    res.json({
+      success: true,
+      data: rules
+    });
+  } catch (error) {
+    handleShippingError(res, error, 'Error getting shipping rules:', 'Wystąpił błąd podczas pobierania zasad dostawy.');
+  }
+};
+
+/**
+ * Set shipping rules of the current farmer
+ */
+export const updateShippingRules = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const body = req.body ?? {};
+    const flatFee = Number(body.flatFee);
+    const perKmFee = Number(body.perKmFee);
+    const perKgFee = Number(body.perKgFee);
+    const freeDeliveryThreshold = parseOptionalLimit(body.freeDeliveryThreshold);
+    const maxDistanceKm = parseOptionalLimit(body.maxDistanceKm);
+
+    if ([flatFee, perKmFee, perKgFee].some(fee => isNaN(fee) || fee < 0)) {
+      res.status(400).json({
+        success: false,
+        error: 'Opłaty za dostawę muszą być liczbami nieujemnymi'
+      });
+      return;
+    }
+
+    if (freeDeliveryThreshold === undefined || maxDistanceKm === undefined) {
+      res.status(400).json({
+        success: false,
+        error: 'Próg darmowej dostawy i zasięg muszą być liczbami dodatnimi'
+      });
+      return;
+    }
+
+    const rules = await shippingService.updateRules(req.user.id, {
+      flatFee,
+      perKmFee,
+      perKgFee,
+      freeDeliveryThreshold,
+      maxDistanceKm
+    });
+
+    res.json({
+      success: true,
+      data: rules
+    });
+  } catch (error) {
+    handleShippingError(res, error, 'Error updating shipping rules:', 'Wystąpił błąd podczas zapisywania zasad dostawy.');
+  }
+};
@@ -0,0 +1,257 @@
+// backend/controllers/subscriptionController.ts
+import { Request, Response } from 'express';
+import { subscriptionService } from '../services/subscriptionService';
+import { isServiceError } from '../utils/serviceError';
+import { SUBSCRIPTION_CADENCE_DAYS } from '../constants';
+import { isDateKey } from '../utils/dateKeys';
+import { isValidPostalCode } from '../../src/shared/utils';
+import type { FirestoreSubscription } from '../types';
+
+/**
+ * Send a service error or a generic 500 response
+ */
+const handleSubscriptionError = (res: Response, error: unknown, logMessage: string, userMessage: string): void => {
+  if (isServiceError(error)) {
+    res.status(error.status).json({
+      success: false,
+      error: error.message
+    });
+    return;
+  }
+
+  console.error(logMessage, error);
+  res.status(500).json({
+    success: false,
+    error: userMessage
+  });
+};
+
+const isCadence = (value: unknown): boolean =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(SUBSCRIPTION_CADENCE_DAYS, value);
+
+/**
+ * Validate optional shipping address, returns error message or null
+ */
+const validateShippingAddress = (address: unknown): string | null => {
+  const { street, city, postalCode } = (address || {}) as Record<string, unknown>;
+
+  if (!street || !city || !postalCode) {
+    return 'Brakujący adres dostawy';
+  }
+
+  if (!isValidPostalCode(String(postalCode).trim())) {
+    return 'Nieprawidłowy kod pocztowy (wymagany format XX-XXX)';
+  }
+
+  return null;
+};
+
+/**
+ * Get subscriptions of the current user (buyer - own boxes, farmer - subscribers)
+ */
+export const getSubscriptions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const subscriptions = await subscriptionService.getUserSubscriptions(
+      req.user.id,
+      req.user.role === 'farmer' ? 'farmer' : 'buyer'
+    );
+
+    res.json({
+      success: true,
+      data: subscriptions
+    });
+  } catch (error) {
+    handleSubscriptionError(res, error, 'Error getting subscriptions:', 'Wystąpił błąd podczas pobierania subskrypcji.');
+  }
+};
+
+/**
+ * Get a single subscription
+ */
+export const getSubscriptionById = async (req: Request, res: Response): Promise<void> => {
+  res.json({
+    success: true,
+    data: req.subscriptionData
+  });
+};
+
+/**
+ * Create a subscription
+ */
+export const createSubscription = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const { farmer, items, cadence, shippingAddress, firstDeliveryDate } = req.body ?? {};
+
+    if (!farmer || typeof farmer !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'Wymagany jest rolnik'
+      });
+      return;
+    }
+
+    if (!isCadence(cadence)) {
+      res.status(400).json({
+        success: false,
+        error: 'Nieprawidłowa częstotliwość dostaw (weekly lub biweekly)'
+      });
+      return;
+    }
+
+    const addressError = validateShippingAddress(shippingAddress);
+    if (addressError) {
+      res.status(400).json({
+        success: false,
+        error: addressError
+      });
+      return;
+    }
+
+    const subscription = await subscriptionService.createSubscription(req.user.id, {
+      farmer,
+      items,
+      cadence,
+      shippingAddress,
+      firstDeliveryDate
+    });
+
+    res.status(201).json({
+      success: true,
+      data: subscription
+    });
+  } catch (error) {
+    handleSubscriptionError(res, error, 'Error creating subscription:', 'Wystąpił błąd podczas tworzenia subskrypcji.');
+  }
+};
+
+/**
+ * Update items, cadence or shipping address of a subscription
+ */
+export const updateSubscription = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const subscription = req.subscriptionData as FirestoreSubscription;
+    const { items, cadence, shippingAddress } = req.body ?? {};
+
+    if (cadence !== undefined && !isCadence(cadence)) {
+      res.status(400).json({
+        success: false,
+        error: 'Nieprawidłowa częstotliwość dostaw (weekly lub biweekly)'
+      });
+      return;
+    }
+
+    if (shippingAddress !== undefined) {
+      const addressError = validateShippingAddress(shippingAddress);
+      if (addressError) {
+        res.status(400).json({
+          success: false,
+          error: addressError
+        });
+        return;
+      }
+    }
+
+    const updated = await subscriptionService.updateSubscription(subscription, {
+      items,
+      cadence,
+      shippingAddress
+    });
+
+    res.json({
+      success: true,
+      data: updated
+    });
+  } catch (error) {
+    handleSubscriptionError(res, error, 'Error updating subscription:', 'Wystąpił błąd podczas aktualizacji subskrypcji.');
+  }
+};
+
+/**
+ * Pause a subscription
+ */
+export const pauseSubscription = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const subscription = await subscriptionService.pauseSubscription(req.subscriptionData as FirestoreSubscription);
+
+    res.json({
+      success: true,
+      data: subscription
+    });
+  } catch (error) {
+    handleSubscriptionError(res, error, 'Error pausing subscription:', 'Wystąpił błąd podczas wstrzymywania subskrypcji.');
+  }
+};
+
+/**
+ * Resume a paused subscription
+ */
+export const resumeSubscription = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const subscription = await subscriptionService.resumeSubscription(req.subscriptionData as FirestoreSubscription);
+
+    res.json({
+      success: true,
+      data: subscription
+    });
+  } catch (error) {
+    handleSubscriptionError(res, error, 'Error resuming subscription:', 'Wystąpił błąd podczas wznawiania subskrypcji.');
+  }
+};
+
+/**
+ * Skip a delivery (body.date as YYYY-MM-DD, defaults to the next delivery)
+ */
+export const skipSubscriptionDelivery = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { date } = req.body ?? {};
+
+    if (date !== undefined && !isDateKey(date)) {
+      res.status(400).json({
+        success: false,
+        error: 'Nieprawidłowa data dostawy (wymagany format RRRR-MM-DD)'
+      });
+      return;
+    }
+
+    const subscription = await subscriptionService.skipDelivery(req.subscriptionData as FirestoreSubscription, date);
+
+    res.json({
+      success: true,
+      data: subscription
+    });
+  } catch (error) {
+    handleSubscriptionError(res, error, 'Error skipping delivery:', 'Wystąpił błąd podczas pomijania dostawy.');
+  }
+};
+
+/**
+ * Cancel a subscription
+ */
+export const cancelSubscription = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const subscription = await subscriptionService.cancelSubscription(req.subscriptionData as FirestoreSubscription);
+
+    res.json({
+      success: true,
+      data: subscription
+    });
+  } catch (error) {
+    handleSubscriptionError(res, error, 'Error cancelling subscription:', 'Wystąpił błąd podczas anulowania subskrypcji.');
+  }
+};
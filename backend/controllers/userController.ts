@@ -2,6 +2,8 @@
 import { Request, Response } from 'express';
 import { admin } from '../firebase';
 import { uploadImageToStorage } from '../services/fileStorageService';
+import { verificationService } from '../services/verificationService';
+import { isValidNip } from '../../src/shared/utils';
 
 // Initialize Firestore
 const db = admin.firestore();
@@ -21,6 +23,9 @@ interface UserData {
   };
   bio?: string;
   profileImage?: string;
+  companyName?: string;
+  nip?: string;
+  bankAccount?: string;
   certificates?: string[];
   createdProducts?: string[];
   orders?: string[];
@@ -103,13 +108,19 @@ export const getUserById = async (req: Request, res: Response): Promise<void> =>
 
     // Remove sensitive data for public profile
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const { passwordHash, ...safeUserData } = userData;
+    const { passwordHash, bankAccount, ...safeUserData } = userData;
+
+    // Farmer profiles list only verified, unexpired certificates
+    const verifiedCertificates = userData.role === 'farmer'
+      ? await verificationService.getActiveFarmerCertificates(userDoc.id)
+      : undefined;
 
     res.json({
       success: true,
       data: {
         _id: userDoc.id,
-        ...safeUserData
+        ...safeUserData,
+        ...(verifiedCertificates && { verifiedCertificates })
       }
     });
   } catch (error) {
@@ -136,7 +147,7 @@ export const updateUserProfile = async (req: Request, res: Response): Promise<vo
     }
 
     const userId = req.user.id;
-    const { fullName, phoneNumber, bio, location } = req.body;
+    const { fullName, phoneNumber, bio, location, companyName, nip, bankAccount } = req.body ?? {};
 
     // Validate required fields
     if (!fullName || !phoneNumber) {
@@ -147,6 +158,15 @@ export const updateUserProfile = async (req: Request, res: Response): Promise<vo
       return;
     }
 
+    // NIP is optional, but printed on invoices so it must be valid when given
+    if (nip && !isValidNip(String(nip))) {
+      res.status(400).json({
+        success: false,
+        error: 'Nieprawidłowy numer NIP'
+      });
+      return;
+    }
+
     // Prepare update data
     const updateData: Partial<UserData> = {
       fullName,
@@ -156,6 +176,19 @@ export const updateUserProfile = async (req: Request, res: Response): Promise<vo
       updatedAt: admin.firestore.FieldValue.serverTimestamp() as admin.firestore.Timestamp
     };
 
+    if (companyName !== undefined) {
+      updateData.companyName = String(companyName).trim();
+    }
+
+    if (nip !== undefined) {
+      updateData.nip = String(nip).replace(/[\s-]/g, '');
+    }
+
+    // Used for farmer payouts
+    if (bankAccount !== undefined) {
+      updateData.bankAccount = String(bankAccount).replace(/\s/g, '').toUpperCase();
+    }
+
     // Update user in database
     await usersCollection.doc(userId).update(updateData);
 
@@ -0,0 +1,18 @@
+// backend/jobs/certificateExpiry.ts
+import { verificationService } from '../services/verificationService';
+import type { ScheduledJob } from './scheduler';
+
+/**
+ * Remind farmers about expiring certificates and expire the outdated ones
+ */
+export const certificateExpiryJob: ScheduledJob = {
+  name: 'certificate-expiry',
+  intervalMs: 6 * 60 * 60 * 1000,
+  run: async () => {
+    const { reminded, expired } = await verificationService.processExpiringCertificates();
+
+    if (reminded > 0 || expired > 0) {
+      console.log(`Sent ${reminded} certificate expiry reminders, expired ${expired} certificates`);
+    }
+  }
+};
@@ -0,0 +1,59 @@
+// backend/jobs/scheduler.ts
+import { subscriptionOrdersJob } from './subscriptionOrders';
+import { certificateExpiryJob } from './certificateExpiry';
+
+export interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<void>;
+}
+
+// Jobs run in-process; a run is skipped while the previous one is still in progress
+const JOBS: ScheduledJob[] = [
+  subscriptionOrdersJob,
+  certificateExpiryJob
+];
+
+const timers: NodeJS.Timeout[] = [];
+
+/**
+ * Run a job, logging errors instead of crashing the server
+ */
+const runJob = async (job: ScheduledJob, running: Set<string>): Promise<void> => {
+  if (running.has(job.name)) {
+    console.warn(`Job ${job.name} is still running, skipping this run`);
+    return;
+  }
+
+  running.add(job.name);
+
+  try {
+    await job.run();
+  } catch (error) {
+    console.error(`Error running job ${job.name}:`, error);
+  } finally {
+    running.delete(job.name);
+  }
+};
+
+/**
+ * Start all background jobs (each runs once on start and then periodically)
+ */
+export const startScheduler = (): void => {
+  if (timers.length > 0) return;
+
+  const running = new Set<string>();
+
+  JOBS.forEach(job => {
+    void runJob(job, running);
+    timers.push(setInterval(() => void runJob(job, running), job.intervalMs));
+    console.log(`⏰ Job ${job.name} scheduled every ${Math.round(job.intervalMs / 60000)} min`);
+  });
+};
+
+/**
+ * Stop all background jobs
+ */
+export const stopScheduler = (): void => {
+  timers.splice(0).forEach(timer => clearInterval(timer));
+};
@@ -0,0 +1,18 @@
+// backend/jobs/subscriptionOrders.ts
+import { subscriptionService } from '../services/subscriptionService';
+import type { ScheduledJob } from './scheduler';
+
+/**
+ * Create orders for subscription deliveries that are due
+ */
+export const subscriptionOrdersJob: ScheduledJob = {
+  name: 'subscription-orders',
+  intervalMs: 60 * 60 * 1000,
+  run: async () => {
+    const processed = await subscriptionService.processDueSubscriptions();
+
+    if (processed > 0) {
+      console.log(`Processed ${processed} subscription deliveries`);
+    }
+  }
+};
@@ -111,4 +111,25 @@ export const authenticateUser = async (req: Request, res: Response, next: NextFu
       error: 'Nieprawidłowy token'
     });
   }
-};
\ No newline at end of file
+};
+// Allow only users with one of the given roles (use after authenticateUser)
+export const authorizeRoles = (...roles: UserWithoutPassword['role'][]) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Brak autoryzacji. Wymagane zalogowanie.'
+      });
+      return;
+    }
+
+    if (!roles.includes(req.user.role)) {
+      res.status(403).json({
+        success: false,
+        error: 'Brak uprawnień do tego zasobu'
+      });
+      return;
+    }
+
+    next();
+  };
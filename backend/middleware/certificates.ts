@@ -0,0 +1,259 @@
+// backend/middleware/certificates.ts
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { certificatesCollection } from '../models/collections';
+import { CERTIFICATE_TYPES, VALIDATION } from '../constants';
+import { SPREADSHEET_TYPES } from '../utils/spreadsheet';
+import type { FirestoreCertificate } from '../types';
+
+// Extend Express Request type using module augmentation
+declare module 'express' {
+  interface Request {
+    certificateData?: FirestoreCertificate;
+  }
+}
+
+const CERTIFICATE_TYPE_VALUES: string[] = Object.values(CERTIFICATE_TYPES);
+
+// The certificate document is kept in memory until the service uploads it to Storage
+const certificateDocumentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: VALIDATION.MAX_FILE_SIZE_MB * 1024 * 1024, // MB to bytes
+    files: 1
+  },
+  fileFilter: (_req, file, cb) => {
+    if (VALIDATION.ALLOWED_DOCUMENT_TYPES.includes(file.mimetype)) {
+      return cb(null, true);
+    }
+    cb(new Error(`Nieprawidłowy format pliku. Dozwolone są tylko: ${VALIDATION.ALLOWED_DOCUMENT_TYPES.join(', ')}`));
+  }
+}).single('document');
+
+// Registries of certification bodies can be larger than a single document
+const MAX_REGISTRY_FILE_SIZE_MB = 10;
+
+const registryFileUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_REGISTRY_FILE_SIZE_MB * 1024 * 1024, // MB to bytes
+    files: 1
+  },
+  fileFilter: (_req, file, cb) => {
+    if (SPREADSHEET_TYPES.includes(file.mimetype) || /\.(csv|xlsx)$/i.test(file.originalname)) {
+      return cb(null, true);
+    }
+    cb(new Error('Nieprawidłowy format pliku. Prześlij rejestr w formacie CSV lub XLSX.'));
+  }
+}).single('file');
+
+const getUploadErrorMessage = (error: unknown): string => {
+  if (!(error instanceof multer.MulterError)) {
+    return error instanceof Error ? error.message : 'Nie udało się przesłać dokumentu';
+  }
+
+  switch (error.code) {
+    case 'LIMIT_FILE_SIZE':
+      return `Plik jest za duży. Maksymalny rozmiar to ${VALIDATION.MAX_FILE_SIZE_MB}MB.`;
+    case 'LIMIT_FILE_COUNT':
+    case 'LIMIT_UNEXPECTED_FILE':
+      return 'Prześlij jeden dokument certyfikatu w polu "document"';
+    default:
+      return 'Nie udało się przesłać dokumentu';
+  }
+};
+
+/**
+ * Middleware to check if a certificate exists
+ */
+export const certificateExists = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const certificateDoc = await certificatesCollection.doc(id).get();
+
+    if (!certificateDoc.exists) {
+      res.status(404).json({
+        success: false,
+        error: 'Certyfikat nie znaleziony'
+      });
+      return;
+    }
+
+    req.certificateData = {
+      _id: id,
+      ...certificateDoc.data()
+    } as FirestoreCertificate;
+
+    next();
+  } catch (error) {
+    console.error('Certificate exists middleware error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Wystąpił błąd podczas weryfikacji certyfikatu'
+    });
+  }
+};
+
+/**
+ * Middleware to check that the current user owns the certificate (or is an admin)
+ */
+export const canAccessCertificate = (req: Request, res: Response, next: NextFunction): void => {
+  if (!req.certificateData || !req.user) {
+    res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+    return;
+  }
+
+  if (req.certificateData.issuedTo !== req.user.id && req.user.role !== 'admin') {
+    res.status(403).json({
+      success: false,
+      error: 'Nie masz uprawnień do tego certyfikatu'
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Middleware to accept the certificate document (PDF or image)
+ * sent as multipart/form-data in the "document" field
+ */
+export const uploadCertificateDocument = (req: Request, res: Response, next: NextFunction): void => {
+  certificateDocumentUpload(req, res, (error: unknown) => {
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error: getUploadErrorMessage(error)
+      });
+      return;
+    }
+
+    next();
+  });
+};
+
+/**
+ * Middleware to accept a certification body's registry (CSV or XLSX)
+ * sent as multipart/form-data in the "file" field
+ */
+export const uploadRegistryFile = (req: Request, res: Response, next: NextFunction): void => {
+  registryFileUpload(req, res, (error: unknown) => {
+    if (error) {
+      const isTooLarge = error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE';
+
+      res.status(400).json({
+        success: false,
+        error: isTooLarge
+          ? `Plik jest za duży. Maksymalny rozmiar to ${MAX_REGISTRY_FILE_SIZE_MB}MB.`
+          : error instanceof Error ? error.message : 'Nie udało się przesłać pliku'
+      });
+      return;
+    }
+
+    next();
+  });
+};
+
+/**
+ * Middleware to validate a registry import (file, certification body and default certificate type)
+ */
+export const validateRegistryImport = (req: Request, res: Response, next: NextFunction): void => {
+  const { issuingAuthority, type } = req.body ?? {};
+
+  if (!req.file) {
+    res.status(400).json({
+      success: false,
+      error: 'Dołącz plik rejestru (CSV lub XLSX)'
+    });
+    return;
+  }
+
+  if (typeof issuingAuthority !== 'string' || issuingAuthority.trim().length < 2 || issuingAuthority.trim().length > 200) {
+    res.status(400).json({
+      success: false,
+      error: 'Podaj jednostkę certyfikującą (od 2 do 200 znaków)'
+    });
+    return;
+  }
+
+  if (type !== undefined && !CERTIFICATE_TYPE_VALUES.includes(type)) {
+    res.status(400).json({
+      success: false,
+      error: `Nieprawidłowy rodzaj certyfikatu. Dozwolone: ${CERTIFICATE_TYPE_VALUES.join(', ')}`
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Middleware to validate certificate data
+ */
+export const validateCertificateData = (req: Request, res: Response, next: NextFunction): void => {
+  try {
+    const { name, type, issuingAuthority, validUntil } = req.body ?? {};
+
+    if (!req.file) {
+      res.status(400).json({
+        success: false,
+        error: 'Dołącz dokument certyfikatu (PDF lub zdjęcie)'
+      });
+      return;
+    }
+
+    if (!CERTIFICATE_TYPE_VALUES.includes(type)) {
+      res.status(400).json({
+        success: false,
+        error: `Nieprawidłowy rodzaj certyfikatu. Dozwolone: ${CERTIFICATE_TYPE_VALUES.join(', ')}`
+      });
+      return;
+    }
+
+    if (typeof issuingAuthority !== 'string' || issuingAuthority.trim().length < 2 || issuingAuthority.trim().length > 200) {
+      res.status(400).json({
+        success: false,
+        error: 'Podaj jednostkę certyfikującą (od 2 do 200 znaków)'
+      });
+      return;
+    }
+
+    if (name !== undefined && (typeof name !== 'string' || name.trim().length > 200)) {
+      res.status(400).json({
+        success: false,
+        error: 'Nazwa certyfikatu może mieć maksymalnie 200 znaków'
+      });
+      return;
+    }
+
+    const validUntilDate = new Date(validUntil);
+
+    if (!validUntil || isNaN(validUntilDate.getTime())) {
+      res.status(400).json({
+        success: false,
+        error: 'Nieprawidłowa data ważności certyfikatu'
+      });
+      return;
+    }
+
+    if (validUntilDate.getTime() <= Date.now()) {
+      res.status(400).json({
+        success: false,
+        error: 'Certyfikat stracił już ważność'
+      });
+      return;
+    }
+
+    next();
+  } catch (error) {
+    console.error('Validate certificate data middleware error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Wystąpił błąd podczas walidacji certyfikatu'
+    });
+  }
+};
@@ -0,0 +1,119 @@
+// backend/middleware/deliverySlots.ts
+import { Request, Response, NextFunction } from 'express';
+import { deliveryWindowsCollection } from '../models/collections';
+import type { FirestoreDeliveryWindow } from '../types';
+
+// Extend Express Request type using module augmentation
+declare module 'express' {
+  interface Request {
+    deliveryWindowData?: FirestoreDeliveryWindow;
+  }
+}
+
+/**
+ * Middleware to check if a delivery window exists
+ */
+export const deliveryWindowExists = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const windowDoc = await deliveryWindowsCollection.doc(id).get();
+
+    if (!windowDoc.exists) {
+      res.status(404).json({
+        success: false,
+        error: 'Okno dostawy nie znalezione'
+      });
+      return;
+    }
+
+    req.deliveryWindowData = {
+      _id: id,
+      ...windowDoc.data()
+    } as FirestoreDeliveryWindow;
+
+    next();
+  } catch (error) {
+    console.error('Delivery window exists middleware error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Wystąpił błąd podczas weryfikacji okna dostawy'
+    });
+  }
+};
+
+/**
+ * Middleware to check if user is the farmer who published the window
+ */
+export const isDeliveryWindowOwner = (req: Request, res: Response, next: NextFunction): void => {
+  // This middleware should be used after deliveryWindowExists
+  if (!req.deliveryWindowData) {
+    res.status(500).json({
+      success: false,
+      error: 'Wewnętrzny błąd serwera - brak danych okna dostawy'
+    });
+    return;
+  }
+
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+    return;
+  }
+
+  if (req.deliveryWindowData.farmer !== req.user.id && req.user.role !== 'admin') {
+    res.status(403).json({
+      success: false,
+      error: 'Nie masz uprawnień do tego okna dostawy'
+    });
+    return;
+  }
+
+  next();
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Middleware to validate delivery window data
+ * (on PUT only the fields that are present are checked)
+ */
+export const validateDeliveryWindowData = (req: Request, res: Response, next: NextFunction): void => {
+  const isUpdate = req.method === 'PUT';
+  const { type, dayOfWeek, startTime, endTime, capacity, note, isActive } = req.body ?? {};
+
+  const errors: string[] = [];
+  const check = (value: unknown, valid: boolean, message: string) => {
+    if ((value !== undefined || !isUpdate) && !valid) errors.push(message);
+  };
+
+  check(type, type === 'delivery' || type === 'pickup', 'Typ okna musi mieć wartość delivery lub pickup');
+  check(dayOfWeek, Number.isInteger(dayOfWeek) && dayOfWeek >= 0 && dayOfWeek <= 6, 'Dzień tygodnia musi być liczbą od 0 (niedziela) do 6 (sobota)');
+  check(startTime, typeof startTime === 'string' && TIME_PATTERN.test(startTime), 'Nieprawidłowa godzina rozpoczęcia (format GG:MM)');
+  check(endTime, typeof endTime === 'string' && TIME_PATTERN.test(endTime), 'Nieprawidłowa godzina zakończenia (format GG:MM)');
+  check(capacity, Number.isInteger(capacity) && capacity > 0, 'Limit zamówień musi być dodatnią liczbą całkowitą');
+
+  if (note !== undefined && typeof note !== 'string') {
+    errors.push('Uwagi muszą być tekstem');
+  }
+
+  if (isActive !== undefined && typeof isActive !== 'boolean') {
+    errors.push('Pole isActive musi mieć wartość logiczną');
+  }
+
+  if (!isUpdate && errors.length === 0 && startTime >= endTime) {
+    errors.push('Godzina zakończenia musi być późniejsza niż godzina rozpoczęcia');
+  }
+
+  if (errors.length > 0) {
+    res.status(400).json({
+      success: false,
+      error: errors[0]
+    });
+    return;
+  }
+
+  next();
+};
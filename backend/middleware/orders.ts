@@ -0,0 +1,192 @@
+// backend/middleware/orders.ts
+import { Request, Response, NextFunction } from 'express';
+import { ordersCollection } from '../models/collections';
+import { isDateKey } from '../utils/dateKeys';
+import { isValidPostalCode } from '../../src/shared/utils';
+import type { FirestoreOrder } from '../types';
+
+// Extend Express Request type using module augmentation
+declare module 'express' {
+  interface Request {
+    orderData?: FirestoreOrder;
+  }
+}
+
+/**
+ * Middleware to check if an order exists
+ */
+export const orderExists = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const orderDoc = await ordersCollection.doc(id).get();
+
+    if (!orderDoc.exists) {
+      res.status(404).json({
+        success: false,
+        error: 'Zamówienie nie znalezione'
+      });
+      return;
+    }
+
+    req.orderData = {
+      _id: id,
+      ...orderDoc.data()
+    } as FirestoreOrder;
+
+    next();
+  } catch (error) {
+    console.error('Order exists middleware error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Wystąpił błąd podczas weryfikacji zamówienia'
+    });
+  }
+};
+
+/**
+ * Middleware to check if user can access the order
+ * (buyer, the farmer fulfilling the order, or admin)
+ */
+export const canAccessOrder = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    // This middleware should be used after orderExists
+    if (!req.orderData) {
+      res.status(500).json({
+        success: false,
+        error: 'Wewnętrzny błąd serwera - brak danych zamówienia'
+      });
+      return;
+    }
+
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const userId = req.user.id;
+    const { buyer, farmer } = req.orderData;
+
+    // Farmers only see their own part of a multi-farmer order (the sub-order)
+    if (buyer !== userId && farmer !== userId && req.user.role !== 'admin') {
+      res.status(403).json({
+        success: false,
+        error: 'Nie masz uprawnień do tego zamówienia'
+      });
+      return;
+    }
+
+    next();
+  } catch (error) {
+    console.error('Can access order middleware error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Wystąpił błąd podczas weryfikacji uprawnień'
+    });
+  }
+};
+
+/**
+ * Middleware to validate order data
+ */
+export const validateOrderData = (req: Request, res: Response, next: NextFunction): void => {
+  try {
+    const { items, shippingAddress, deliveryDate, deliverySlots, pickupPoint } = req.body ?? {};
+
+    // Items validation
+    if (!Array.isArray(items) || items.length === 0) {
+      res.status(400).json({
+        success: false,
+        error: 'Zamówienie musi zawierać co najmniej jeden produkt'
+      });
+      return;
+    }
+
+    const hasInvalidItem = items.some(item =>
+      !item ||
+      typeof item.product !== 'string' ||
+      !item.product ||
+      isNaN(Number(item.quantity)) ||
+      Number(item.quantity) <= 0
+    );
+
+    if (hasInvalidItem) {
+      res.status(400).json({
+        success: false,
+        error: 'Każda pozycja zamówienia musi zawierać produkt i dodatnią ilość'
+      });
+      return;
+    }
+
+    // Pickup point validation - the point's address replaces the shipping address
+    if (pickupPoint !== undefined) {
+      if (!pickupPoint || typeof pickupPoint.point !== 'string' || !pickupPoint.point || !isDateKey(pickupPoint.date)) {
+        res.status(400).json({
+          success: false,
+          error: 'Nieprawidłowy punkt lub dzień odbioru'
+        });
+        return;
+      }
+    }
+
+    // Shipping address validation
+    if (pickupPoint === undefined && (
+      !shippingAddress ||
+      !shippingAddress.street ||
+      !shippingAddress.city ||
+      !shippingAddress.postalCode
+    )) {
+      res.status(400).json({
+        success: false,
+        error: 'Brakujący adres dostawy'
+      });
+      return;
+    }
+
+    if (pickupPoint === undefined && !isValidPostalCode(String(shippingAddress.postalCode).trim())) {
+      res.status(400).json({
+        success: false,
+        error: 'Nieprawidłowy kod pocztowy (wymagany format XX-XXX)'
+      });
+      return;
+    }
+
+    // Delivery date validation
+    if (deliveryDate && isNaN(new Date(deliveryDate).getTime())) {
+      res.status(400).json({
+        success: false,
+        error: 'Nieprawidłowa data dostawy'
+      });
+      return;
+    }
+
+    // Delivery / pickup slot validation (one per farmer, optional)
+    if (deliverySlots !== undefined) {
+      const hasInvalidSlot = !Array.isArray(deliverySlots) || deliverySlots.some(slot =>
+        !slot ||
+        typeof slot.window !== 'string' ||
+        !slot.window ||
+        !isDateKey(slot.date)
+      );
+
+      if (hasInvalidSlot) {
+        res.status(400).json({
+          success: false,
+          error: 'Nieprawidłowy termin dostawy lub odbioru'
+        });
+        return;
+      }
+    }
+
+    next();
+  } catch (error) {
+    console.error('Validate order data middleware error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Wystąpił błąd podczas walidacji danych zamówienia'
+    });
+  }
+};
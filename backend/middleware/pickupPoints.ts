@@ -0,0 +1,181 @@
+// backend/middleware/pickupPoints.ts
+import { Request, Response, NextFunction } from 'express';
+import { pickupPointsCollection } from '../models/collections';
+import { isValidPostalCode } from '../../src/shared/utils';
+import type { FirestorePickupPoint } from '../types';
+
+// Extend Express Request type using module augmentation
+declare module 'express' {
+  interface Request {
+    pickupPointData?: FirestorePickupPoint;
+  }
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Middleware to check if a pickup point exists
+ */
+export const pickupPointExists = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const pointDoc = await pickupPointsCollection.doc(id).get();
+
+    if (!pointDoc.exists) {
+      res.status(404).json({
+        success: false,
+        error: 'Punkt odbioru nie znaleziony'
+      });
+      return;
+    }
+
+    req.pickupPointData = {
+      _id: id,
+      ...pointDoc.data()
+    } as FirestorePickupPoint;
+
+    next();
+  } catch (error) {
+    console.error('Pickup point exists middleware error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Wystąpił błąd podczas weryfikacji punktu odbioru'
+    });
+  }
+};
+
+/**
+ * Middleware to check if user operates the pickup point (or is admin)
+ */
+export const isPickupPointOperator = (req: Request, res: Response, next: NextFunction): void => {
+  // This middleware should be used after pickupPointExists
+  if (!req.pickupPointData) {
+    res.status(500).json({
+      success: false,
+      error: 'Wewnętrzny błąd serwera - brak danych punktu odbioru'
+    });
+    return;
+  }
+
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+    return;
+  }
+
+  if (req.pickupPointData.operator !== req.user.id && req.user.role !== 'admin') {
+    res.status(403).json({
+      success: false,
+      error: 'Nie obsługujesz tego punktu odbioru'
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Middleware to validate pickup point data
+ * (on PUT only the fields that are present are checked)
+ */
+export const validatePickupPointData = (req: Request, res: Response, next: NextFunction): void => {
+  try {
+    const isUpdate = req.method === 'PUT';
+    const { name, location, address, openingHours, capacity, operator, isActive } = req.body ?? {};
+
+    if (!isUpdate && (!name || !location || !address || !openingHours || !capacity || !operator)) {
+      res.status(400).json({
+        success: false,
+        error: 'Brakujące wymagane pola'
+      });
+      return;
+    }
+
+    if (name !== undefined && (typeof name !== 'string' || name.trim().length < 3 || name.trim().length > 100)) {
+      res.status(400).json({
+        success: false,
+        error: 'Nazwa punktu musi mieć od 3 do 100 znaków'
+      });
+      return;
+    }
+
+    if (location !== undefined) {
+      const [lon, lat] = Array.isArray(location?.coordinates) ? location.coordinates.map(Number) : [NaN, NaN];
+
+      if (isNaN(lon) || isNaN(lat) || Math.abs(lon) > 180 || Math.abs(lat) > 90 || !location.address) {
+        res.status(400).json({
+          success: false,
+          error: 'Nieprawidłowa lokalizacja punktu (wymagane współrzędne [długość, szerokość] i adres)'
+        });
+        return;
+      }
+    }
+
+    if (address !== undefined && (
+      !address?.street ||
+      !address?.city ||
+      !isValidPostalCode(String(address?.postalCode).trim())
+    )) {
+      res.status(400).json({
+        success: false,
+        error: 'Nieprawidłowy adres punktu (ulica, miasto i kod pocztowy XX-XXX)'
+      });
+      return;
+    }
+
+    if (openingHours !== undefined) {
+      const hasInvalidHours = !Array.isArray(openingHours) || openingHours.length === 0 || openingHours.some(hours =>
+        !hours ||
+        !Number.isInteger(hours.dayOfWeek) ||
+        hours.dayOfWeek < 0 ||
+        hours.dayOfWeek > 6 ||
+        !TIME_PATTERN.test(String(hours.open)) ||
+        !TIME_PATTERN.test(String(hours.close)) ||
+        hours.open >= hours.close
+      );
+
+      if (hasInvalidHours) {
+        res.status(400).json({
+          success: false,
+          error: 'Nieprawidłowe godziny otwarcia (dzień tygodnia 0-6, godziny GG:MM)'
+        });
+        return;
+      }
+    }
+
+    if (capacity !== undefined && (!Number.isInteger(capacity) || capacity <= 0)) {
+      res.status(400).json({
+        success: false,
+        error: 'Limit paczek musi być dodatnią liczbą całkowitą'
+      });
+      return;
+    }
+
+    if (operator !== undefined && (typeof operator !== 'string' || !operator)) {
+      res.status(400).json({
+        success: false,
+        error: 'Nieprawidłowy operator punktu'
+      });
+      return;
+    }
+
+    if (isActive !== undefined && typeof isActive !== 'boolean') {
+      res.status(400).json({
+        success: false,
+        error: 'Pole isActive musi mieć wartość logiczną'
+      });
+      return;
+    }
+
+    next();
+  } catch (error) {
+    console.error('Validate pickup point data middleware error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Wystąpił błąd podczas walidacji danych punktu odbioru'
+    });
+  }
+};
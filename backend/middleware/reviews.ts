@@ -0,0 +1,264 @@
+// backend/middleware/reviews.ts
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { reviewsCollection } from '../models/collections';
+import { VALIDATION } from '../constants';
+import type { FirestoreReview } from '../types';
+
+// Extend Express Request type using module augmentation
+declare module 'express' {
+  interface Request {
+    reviewData?: FirestoreReview;
+  }
+}
+
+/**
+ * Middleware to check if a review exists
+ */
+export const reviewExists = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const reviewDoc = await reviewsCollection.doc(id).get();
+
+    if (!reviewDoc.exists) {
+      res.status(404).json({
+        success: false,
+        error: 'Opinia nie znaleziona'
+      });
+      return;
+    }
+
+    req.reviewData = {
+      _id: id,
+      ...reviewDoc.data()
+    } as FirestoreReview;
+
+    next();
+  } catch (error) {
+    console.error('Review exists middleware error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Wystąpił błąd podczas weryfikacji opinii'
+    });
+  }
+};
+
+/**
+ * Middleware to check that the current user wrote the review
+ */
+export const isReviewAuthor = (req: Request, res: Response, next: NextFunction): void => {
+  if (!req.reviewData || !req.user) {
+    res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+    return;
+  }
+
+  if (req.reviewData.author !== req.user.id) {
+    res.status(403).json({
+      success: false,
+      error: 'Możesz edytować tylko własne opinie'
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Middleware to check that the current user may delete the review (author or admin)
+ */
+export const canDeleteReview = (req: Request, res: Response, next: NextFunction): void => {
+  if (!req.reviewData || !req.user) {
+    res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+    return;
+  }
+
+  if (req.reviewData.author !== req.user.id && req.user.role !== 'admin') {
+    res.status(403).json({
+      success: false,
+      error: 'Nie masz uprawnień do usunięcia tej opinii'
+    });
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Middleware to check that the current user is the reviewed farmer
+ * (the product owner - same rule as isProductOwner, admin allowed)
+ */
+export const isReviewedFarmer = (req: Request, res: Response, next: NextFunction): void => {
+  if (!req.reviewData || !req.user) {
+    res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+    return;
+  }
+
+  if (req.reviewData.farmer !== req.user.id && req.user.role !== 'admin') {
+    res.status(403).json({
+      success: false,
+      error: 'Nie masz uprawnień do wykonania tej operacji'
+    });
+    return;
+  }
+
+  next();
+};
+
+// Review photos are kept in memory until the service uploads them to Storage
+const reviewImageUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: VALIDATION.MAX_FILE_SIZE_MB * 1024 * 1024, // MB to bytes
+    files: VALIDATION.MAX_IMAGES_PER_REVIEW
+  },
+  fileFilter: (_req, file, cb) => {
+    if (VALIDATION.ALLOWED_IMAGE_TYPES.includes(file.mimetype)) {
+      return cb(null, true);
+    }
+    cb(new Error(`Nieprawidłowy format pliku. Dozwolone są tylko: ${VALIDATION.ALLOWED_IMAGE_TYPES.join(', ')}`));
+  }
+}).array('images', VALIDATION.MAX_IMAGES_PER_REVIEW);
+
+const getUploadErrorMessage = (error: unknown): string => {
+  if (!(error instanceof multer.MulterError)) {
+    return error instanceof Error ? error.message : 'Nie udało się przesłać zdjęć';
+  }
+
+  switch (error.code) {
+    case 'LIMIT_FILE_SIZE':
+      return `Plik jest za duży. Maksymalny rozmiar to ${VALIDATION.MAX_FILE_SIZE_MB}MB.`;
+    case 'LIMIT_FILE_COUNT':
+    case 'LIMIT_UNEXPECTED_FILE':
+      return `Do opinii można dołączyć maksymalnie ${VALIDATION.MAX_IMAGES_PER_REVIEW} zdjęcia (pole "images").`;
+    default:
+      return 'Nie udało się przesłać zdjęć';
+  }
+};
+
+/**
+ * Middleware to accept review photos sent as multipart/form-data in the "images" field
+ * (JSON requests pass through unchanged)
+ */
+export const uploadReviewImages = (req: Request, res: Response, next: NextFunction): void => {
+  reviewImageUpload(req, res, (error: unknown) => {
+    if (error) {
+      res.status(400).json({
+        success: false,
+        error: getUploadErrorMessage(error)
+      });
+      return;
+    }
+
+    next();
+  });
+};
+
+/**
+ * Middleware to validate review data
+ * (on PUT only rating and comment can be changed and photos added)
+ */
+export const validateReviewData = (req: Request, res: Response, next: NextFunction): void => {
+  try {
+    const isUpdate = req.method === 'PUT';
+    const { product, farmer, order, comment, rating: rawRating } = req.body ?? {};
+    const hasImages = Array.isArray(req.files) && req.files.length > 0;
+
+    // Multipart fields arrive as strings
+    const rating = typeof rawRating === 'string' && rawRating.trim() ? Number(rawRating) : rawRating;
+
+    if (!isUpdate && !product && !farmer) {
+      res.status(400).json({
+        success: false,
+        error: 'Wskaż produkt lub rolnika, którego dotyczy opinia'
+      });
+      return;
+    }
+
+    if (!isUpdate && [product, farmer, order].some(value => value !== undefined && (typeof value !== 'string' || !value))) {
+      res.status(400).json({
+        success: false,
+        error: 'Nieprawidłowy identyfikator produktu, rolnika lub zamówienia'
+      });
+      return;
+    }
+
+    if (isUpdate && rating === undefined && comment === undefined && !hasImages) {
+      res.status(400).json({
+        success: false,
+        error: 'Brak zmian w opinii'
+      });
+      return;
+    }
+
+    if ((!isUpdate || rating !== undefined) && (!Number.isInteger(rating) || rating < 1 || rating > 5)) {
+      res.status(400).json({
+        success: false,
+        error: 'Ocena musi być liczbą całkowitą od 1 do 5'
+      });
+      return;
+    }
+
+    if (comment !== undefined && typeof comment !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'Nieprawidłowa treść opinii'
+      });
+      return;
+    }
+
+    if (comment && comment.trim().length > VALIDATION.MAX_REVIEW_LENGTH) {
+      res.status(400).json({
+        success: false,
+        error: `Opinia może mieć maksymalnie ${VALIDATION.MAX_REVIEW_LENGTH} znaków`
+      });
+      return;
+    }
+
+    if (rating !== undefined) {
+      req.body.rating = rating;
+    }
+
+    next();
+  } catch (error) {
+    console.error('Validate review data middleware error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Wystąpił błąd podczas walidacji opinii'
+    });
+  }
+};
+
+/**
+ * Middleware to validate the farmer's reply to a review
+ */
+export const validateReplyData = (req: Request, res: Response, next: NextFunction): void => {
+  const { text } = req.body ?? {};
+
+  if (typeof text !== 'string' || !text.trim()) {
+    res.status(400).json({
+      success: false,
+      error: 'Treść odpowiedzi jest wymagana'
+    });
+    return;
+  }
+
+  if (text.trim().length > VALIDATION.MAX_REVIEW_LENGTH) {
+    res.status(400).json({
+      success: false,
+      error: `Odpowiedź może mieć maksymalnie ${VALIDATION.MAX_REVIEW_LENGTH} znaków`
+    });
+    return;
+  }
+
+  next();
+};
@@ -0,0 +1,111 @@
+// backend/middleware/subscriptions.ts
+import { Request, Response, NextFunction } from 'express';
+import { subscriptionsCollection } from '../models/collections';
+import type { FirestoreSubscription } from '../types';
+
+// Extend Express Request type using module augmentation
+declare module 'express' {
+  interface Request {
+    subscriptionData?: FirestoreSubscription;
+  }
+}
+
+/**
+ * Middleware to check if a subscription exists
+ */
+export const subscriptionExists = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const subscriptionDoc = await subscriptionsCollection.doc(id).get();
+
+    if (!subscriptionDoc.exists) {
+      res.status(404).json({
+        success: false,
+        error: 'Subskrypcja nie znaleziona'
+      });
+      return;
+    }
+
+    req.subscriptionData = {
+      _id: id,
+      ...subscriptionDoc.data()
+    } as FirestoreSubscription;
+
+    next();
+  } catch (error) {
+    console.error('Subscription exists middleware error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Wystąpił błąd podczas weryfikacji subskrypcji'
+    });
+  }
+};
+
+/**
+ * Middleware to check if user can access the subscription
+ * (buyer, the farmer or admin)
+ */
+export const canAccessSubscription = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    // This middleware should be used after subscriptionExists
+    if (!req.subscriptionData) {
+      res.status(500).json({
+        success: false,
+        error: 'Wewnętrzny błąd serwera - brak danych subskrypcji'
+      });
+      return;
+    }
+
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required'
+      });
+      return;
+    }
+
+    const userId = req.user.id;
+    const { buyer, farmer } = req.subscriptionData;
+
+    if (buyer !== userId && farmer !== userId && req.user.role !== 'admin') {
+      res.status(403).json({
+        success: false,
+        error: 'Nie masz uprawnień do tej subskrypcji'
+      });
+      return;
+    }
+
+    next();
+  } catch (error) {
+    console.error('Can access subscription middleware error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Wystąpił błąd podczas weryfikacji uprawnień'
+    });
+  }
+};
+
+/**
+ * Middleware to check that the current user is the subscribing buyer
+ * (only the buyer manages the box; admin is allowed as well)
+ */
+export const isSubscriptionBuyer = (req: Request, res: Response, next: NextFunction): void => {
+  if (!req.subscriptionData || !req.user) {
+    res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+    return;
+  }
+
+  if (req.subscriptionData.buyer !== req.user.id && req.user.role !== 'admin') {
+    res.status(403).json({
+      success: false,
+      error: 'Tylko subskrybent może zmieniać subskrypcję'
+    });
+    return;
+  }
+
+  next();
+};
@@ -8,6 +8,21 @@ export const productsCollection = db.collection('products');
 export const ordersCollection = db.collection('orders');
 export const reviewsCollection = db.collection('reviews');
 export const certificatesCollection = db.collection('certificates');
+export const certificateImportsCollection = db.collection('certificateImports');
+export const cartsCollection = db.collection('carts');
+export const invoicesCollection = db.collection('invoices');
+export const invoiceCountersCollection = db.collection('invoiceCounters');
+export const invoiceCorrectionsCollection = db.collection('invoiceCorrections');
+export const paymentEventsCollection = db.collection('paymentEvents');
+export const refundsCollection = db.collection('refunds');
+export const ledgerCollection = db.collection('ledger');
+export const payoutBatchesCollection = db.collection('payoutBatches');
+export const subscriptionsCollection = db.collection('subscriptions');
+export const deliveryWindowsCollection = db.collection('deliveryWindows');
+export const slotBookingsCollection = db.collection('slotBookings');
+export const shippingRulesCollection = db.collection('shippingRules');
+export const pickupPointsCollection = db.collection('pickupPoints');
+export const pickupPointBookingsCollection = db.collection('pickupPointBookings');
 
 // Export default database instance
 export default db;
\ No newline at end of file
@@ -0,0 +1,137 @@
+// backend/routes/admin.ts
+import express from 'express';
+import { authenticateUser, authorizeRoles } from '../middleware/auth';
+import {
+  getModerationQueue,
+  approveReview,
+  rejectReview,
+  approveReviewReply,
+  rejectReviewReply,
+  removeReviewImage
+} from '../controllers/reviewController';
+import {
+  getVerificationQueue,
+  verifyCertificate,
+  rejectCertificate
+} from '../controllers/certificateController';
+import {
+  createCertificateImport,
+  getCertificateImports,
+  getCertificateImport,
+  resolveImportRow,
+  confirmCertificateImport,
+  exportImportReport
+} from '../controllers/certificateImportController';
+import { uploadRegistryFile, validateRegistryImport } from '../middleware/certificates';
+
+const router = express.Router();
+
+// All admin routes require an authenticated admin
+router.use(authenticateUser, authorizeRoles('admin'));
+
+/**
+ * Get reviews (or farmers' replies with ?type=reply) for moderation
+ * @route GET /api/admin/reviews?status=pending
+ * @access Private (Admin)
+ */
+router.get('/reviews', getModerationQueue);
+
+/**
+ * Approve a review
+ * @route PUT /api/admin/reviews/:id/approve
+ * @access Private (Admin)
+ */
+router.put('/reviews/:id/approve', approveReview);
+
+/**
+ * Reject a review with a reason
+ * @route PUT /api/admin/reviews/:id/reject
+ * @access Private (Admin)
+ */
+router.put('/reviews/:id/reject', rejectReview);
+
+/**
+ * Approve the farmer's reply to a review
+ * @route PUT /api/admin/reviews/:id/reply/approve
+ * @access Private (Admin)
+ */
+router.put('/reviews/:id/reply/approve', approveReviewReply);
+
+/**
+ * Reject the farmer's reply to a review with a reason
+ * @route PUT /api/admin/reviews/:id/reply/reject
+ * @access Private (Admin)
+ */
+router.put('/reviews/:id/reply/reject', rejectReviewReply);
+
+/**
+ * Remove a single photo from a review
+ * @route DELETE /api/admin/reviews/:id/images/:imageIndex
+ * @access Private (Admin)
+ */
+router.delete('/reviews/:id/images/:imageIndex', removeReviewImage);
+
+/**
+ * Get certificates for verification
+ * @route GET /api/admin/certificates?status=pending
+ * @access Private (Admin)
+ */
+router.get('/certificates', getVerificationQueue);
+
+/**
+ * Verify a certificate
+ * @route PUT /api/admin/certificates/:id/verify
+ * @access Private (Admin)
+ */
+router.put('/certificates/:id/verify', verifyCertificate);
+
+/**
+ * Reject or revoke a certificate with a reason
+ * @route PUT /api/admin/certificates/:id/reject
+ * @access Private (Admin)
+ */
+router.put('/certificates/:id/reject', rejectCertificate);
+
+/**
+ * Import a certification body's registry (CSV/XLSX, multipart/form-data)
+ * @route POST /api/admin/certificate-imports
+ * @access Private (Admin)
+ */
+router.post('/certificate-imports', uploadRegistryFile, validateRegistryImport, createCertificateImport);
+
+/**
+ * Get registry imports
+ * @route GET /api/admin/certificate-imports
+ * @access Private (Admin)
+ */
+router.get('/certificate-imports', getCertificateImports);
+
+/**
+ * Get an import with its rows for review
+ * @route GET /api/admin/certificate-imports/:id?status=ambiguous
+ * @access Private (Admin)
+ */
+router.get('/certificate-imports/:id', getCertificateImport);
+
+/**
+ * Assign a farmer to an import row or skip it
+ * @route PUT /api/admin/certificate-imports/:id/rows/:rowNumber
+ * @access Private (Admin)
+ */
+router.put('/certificate-imports/:id/rows/:rowNumber', resolveImportRow);
+
+/**
+ * Confirm an import and create verified certificates for matched rows
+ * @route POST /api/admin/certificate-imports/:id/confirm
+ * @access Private (Admin)
+ */
+router.post('/certificate-imports/:id/confirm', confirmCertificateImport);
+
+/**
+ * Download the report of rows without a certificate as CSV
+ * @route GET /api/admin/certificate-imports/:id/report
+ * @access Private (Admin)
+ */
+router.get('/certificate-imports/:id/report', exportImportReport);
+
+export default router;
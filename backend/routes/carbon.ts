@@ -0,0 +1,22 @@
+// backend/routes/carbon.ts
+import express from 'express';
+import { authenticateUser, authorizeRoles } from '../middleware/auth';
+import { getConsumerCarbonSummary, getFarmerCarbonSummary } from '../controllers/carbonController';
+
+const router = express.Router();
+
+/**
+ * Get CO2 footprint and savings of the current user's purchases per month
+ * @route GET /api/carbon/consumer?months=12
+ * @access Private
+ */
+router.get('/consumer', authenticateUser, getConsumerCarbonSummary);
+
+/**
+ * Get CO2 footprint and savings of the current farmer's sales per month
+ * @route GET /api/carbon/farmer?months=12
+ * @access Private (Farmer)
+ */
+router.get('/farmer', authenticateUser, authorizeRoles('farmer'), getFarmerCarbonSummary);
+
+export default router;
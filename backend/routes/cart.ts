@@ -0,0 +1,60 @@
+// backend/routes/cart.ts
+import express from 'express';
+import { authenticateUser } from '../middleware/auth';
+import {
+  getCart,
+  addCartItem,
+  updateCartItem,
+  removeCartItem,
+  clearCart,
+  mergeCart
+} from '../controllers/cartController';
+
+const router = express.Router();
+
+// All cart routes require authentication
+router.use(authenticateUser);
+
+/**
+ * Get current user's cart (revalidated against current products)
+ * @route GET /api/cart
+ * @access Private
+ */
+router.get('/', getCart);
+
+/**
+ * Clear cart
+ * @route DELETE /api/cart
+ * @access Private
+ */
+router.delete('/', clearCart);
+
+/**
+ * Add product to cart
+ * @route POST /api/cart/items
+ * @access Private
+ */
+router.post('/items', addCartItem);
+
+/**
+ * Update product quantity in cart
+ * @route PUT /api/cart/items/:productId
+ * @access Private
+ */
+router.put('/items/:productId', updateCartItem);
+
+/**
+ * Remove product from cart
+ * @route DELETE /api/cart/items/:productId
+ * @access Private
+ */
+router.delete('/items/:productId', removeCartItem);
+
+/**
+ * Merge anonymous localStorage cart after login
+ * @route POST /api/cart/merge
+ * @access Private
+ */
+router.post('/merge', mergeCart);
+
+export default router;
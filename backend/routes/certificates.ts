@@ -0,0 +1,54 @@
+// backend/routes/certificates.ts
+import express from 'express';
+import { authenticateUser, authorizeRoles } from '../middleware/auth';
+import {
+  certificateExists,
+  canAccessCertificate,
+  uploadCertificateDocument,
+  validateCertificateData
+} from '../middleware/certificates';
+import {
+  createCertificate,
+  getMyCertificates,
+  getFarmerCertificates,
+  getCertificateById
+} from '../controllers/certificateController';
+
+const router = express.Router();
+
+/**
+ * Upload a certificate (multipart/form-data: document, type, issuingAuthority, validUntil, name)
+ * @route POST /api/certificates
+ * @access Private (Farmer)
+ */
+router.post(
+  '/',
+  authenticateUser,
+  authorizeRoles('farmer'),
+  uploadCertificateDocument,
+  validateCertificateData,
+  createCertificate
+);
+
+/**
+ * Get the current farmer's certificates with their verification status
+ * @route GET /api/certificates/me
+ * @access Private (Farmer)
+ */
+router.get('/me', authenticateUser, authorizeRoles('farmer'), getMyCertificates);
+
+/**
+ * Get verified, unexpired certificates of a farmer
+ * @route GET /api/certificates/farmer/:farmerId
+ * @access Public
+ */
+router.get('/farmer/:farmerId', getFarmerCertificates);
+
+/**
+ * Get a single certificate
+ * @route GET /api/certificates/:id
+ * @access Private (Owner or admin)
+ */
+router.get('/:id', authenticateUser, certificateExists, canAccessCertificate, getCertificateById);
+
+export default router;
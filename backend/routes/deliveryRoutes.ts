@@ -0,0 +1,22 @@
+// backend/routes/deliveryRoutes.ts
+import express from 'express';
+import { authenticateUser, authorizeRoles } from '../middleware/auth';
+import { getDeliveryRoute, getDeliveryRouteSheet } from '../controllers/deliveryRouteController';
+
+const router = express.Router();
+
+/**
+ * Get the optimized delivery route for a day's shipped orders
+ * @route GET /api/delivery-routes?date=YYYY-MM-DD&orders=id1,id2
+ * @access Private (Farmer)
+ */
+router.get('/', authenticateUser, authorizeRoles('farmer'), getDeliveryRoute);
+
+/**
+ * Download the delivery run sheet (PDF)
+ * @route GET /api/delivery-routes/sheet?date=YYYY-MM-DD&orders=id1,id2
+ * @access Private (Farmer)
+ */
+router.get('/sheet', authenticateUser, authorizeRoles('farmer'), getDeliveryRouteSheet);
+
+export default router;
@@ -0,0 +1,69 @@
+// backend/routes/deliverySlots.ts
+import express from 'express';
+import { authenticateUser, authorizeRoles } from '../middleware/auth';
+import {
+  deliveryWindowExists,
+  isDeliveryWindowOwner,
+  validateDeliveryWindowData
+} from '../middleware/deliverySlots';
+import {
+  getMyDeliveryWindows,
+  createDeliveryWindow,
+  updateDeliveryWindow,
+  deleteDeliveryWindow,
+  getAvailableSlots,
+  getDeliverySchedule
+} from '../controllers/deliverySlotController';
+
+const router = express.Router();
+
+/**
+ * Get bookable delivery and pickup slots of a farmer (?type=delivery|pickup)
+ * @route GET /api/delivery-slots/farmer/:farmerId
+ * @access Public
+ */
+router.get('/farmer/:farmerId', getAvailableSlots);
+
+/**
+ * Get windows of the current farmer
+ * @route GET /api/delivery-slots/windows
+ * @access Private (Farmer)
+ */
+router.get('/windows', authenticateUser, authorizeRoles('farmer'), getMyDeliveryWindows);
+
+/**
+ * Create a weekly delivery or pickup window
+ * @route POST /api/delivery-slots/windows
+ * @access Private (Farmer)
+ */
+router.post('/windows', authenticateUser, authorizeRoles('farmer'), validateDeliveryWindowData, createDeliveryWindow);
+
+/**
+ * Update a window
+ * @route PUT /api/delivery-slots/windows/:id
+ * @access Private (Window owner or admin)
+ */
+router.put(
+  '/windows/:id',
+  authenticateUser,
+  deliveryWindowExists,
+  isDeliveryWindowOwner,
+  validateDeliveryWindowData,
+  updateDeliveryWindow
+);
+
+/**
+ * Deactivate a window
+ * @route DELETE /api/delivery-slots/windows/:id
+ * @access Private (Window owner or admin)
+ */
+router.delete('/windows/:id', authenticateUser, deliveryWindowExists, isDeliveryWindowOwner, deleteDeliveryWindow);
+
+/**
+ * Get slots of the current farmer with booked orders
+ * @route GET /api/delivery-slots/schedule
+ * @access Private (Farmer)
+ */
+router.get('/schedule', authenticateUser, authorizeRoles('farmer'), getDeliverySchedule);
+
+export default router;
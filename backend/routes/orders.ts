@@ -0,0 +1,88 @@
+// backend/routes/orders.ts
+import express from 'express';
+import { authenticateUser } from '../middleware/auth';
+import { orderExists, canAccessOrder, validateOrderData } from '../middleware/orders';
+import {
+  getOrders,
+  getOrderById,
+  createOrder,
+  updateOrderStatus,
+  getOrderInvoice,
+  getOrderInvoiceCorrections,
+  getOrderInvoiceCorrection,
+  refundOrderItem,
+  getOrderRefunds
+} from '../controllers/orderController';
+
+const router = express.Router();
+
+/**
+ * Get orders of the current user
+ * @route GET /api/orders
+ * @access Private
+ */
+router.get('/', authenticateUser, getOrders);
+
+/**
+ * Create a new order
+ * @route POST /api/orders
+ * @access Private
+ */
+router.post('/', authenticateUser, validateOrderData, createOrder);
+
+/**
+ * Get a single order
+ * @route GET /api/orders/:id
+ * @access Private (Buyer, farmer of the order or admin)
+ */
+router.get('/:id', authenticateUser, orderExists, canAccessOrder, getOrderById);
+
+/**
+ * Update order status
+ * @route PUT /api/orders/:id/status
+ * @access Private (Allowed roles depend on the transition)
+ */
+router.put('/:id/status', authenticateUser, orderExists, canAccessOrder, updateOrderStatus);
+
+/**
+ * Get VAT invoice of an order (PDF, ?format=json for invoice data)
+ * @route GET /api/orders/:id/invoice
+ * @access Private (Buyer, farmer of the order or admin)
+ */
+router.get('/:id/invoice', authenticateUser, orderExists, canAccessOrder, getOrderInvoice);
+
+/**
+ * Get correction invoices of an order
+ * @route GET /api/orders/:id/invoice/corrections
+ * @access Private (Buyer, farmer of the order or admin)
+ */
+router.get('/:id/invoice/corrections', authenticateUser, orderExists, canAccessOrder, getOrderInvoiceCorrections);
+
+/**
+ * Get a correction invoice of an order (PDF, ?format=json for correction data)
+ * @route GET /api/orders/:id/invoice/corrections/:correctionId
+ * @access Private (Buyer, farmer of the order or admin)
+ */
+router.get(
+  '/:id/invoice/corrections/:correctionId',
+  authenticateUser,
+  orderExists,
+  canAccessOrder,
+  getOrderInvoiceCorrection
+);
+
+/**
+ * Get refunds of an order
+ * @route GET /api/orders/:id/refunds
+ * @access Private (Buyer, farmer of the order or admin)
+ */
+router.get('/:id/refunds', authenticateUser, orderExists, canAccessOrder, getOrderRefunds);
+
+/**
+ * Refund a single order item
+ * @route POST /api/orders/:id/items/:productId/refund
+ * @access Private (Farmer of the order or admin)
+ */
+router.post('/:id/items/:productId/refund', authenticateUser, orderExists, canAccessOrder, refundOrderItem);
+
+export default router;
@@ -0,0 +1,42 @@
+// backend/routes/payments.ts
+import express from 'express';
+import { authenticateUser } from '../middleware/auth';
+import {
+  createPaymentIntent,
+  getPayment,
+  simulatePayment,
+  handlePaymentWebhook
+} from '../controllers/paymentController';
+
+const router = express.Router();
+
+/**
+ * Payment provider webhook (signature verified against the raw body
+ * parsed by express.raw in server.mts)
+ * @route POST /api/payments/webhook
+ * @access Public (signed by the payment provider)
+ */
+router.post('/webhook', handlePaymentWebhook);
+
+/**
+ * Create payment intent for an order
+ * @route POST /api/payments/create-intent
+ * @access Private (Buyer of the order)
+ */
+router.post('/create-intent', authenticateUser, createPaymentIntent);
+
+/**
+ * Get payment status
+ * @route GET /api/payments/:id
+ * @access Private (Buyer of the order or admin)
+ */
+router.get('/:id', authenticateUser, getPayment);
+
+/**
+ * Settle a payment of the fake payment provider
+ * @route POST /api/payments/:id/simulate
+ * @access Private (development only, fake provider)
+ */
+router.post('/:id/simulate', authenticateUser, simulatePayment);
+
+export default router;
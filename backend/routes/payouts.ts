@@ -0,0 +1,52 @@
+// backend/routes/payouts.ts
+import express from 'express';
+import { authenticateUser, authorizeRoles } from '../middleware/auth';
+import {
+  getMyPayouts,
+  getPayoutBatches,
+  createPayoutBatch,
+  exportPayoutBatch,
+  createAdjustment
+} from '../controllers/payoutController';
+
+const router = express.Router();
+
+// All payout routes require authentication
+router.use(authenticateUser);
+
+/**
+ * Get balance and statement of the current farmer (?from=&to= limits the statement)
+ * @route GET /api/payouts/me
+ * @access Private (Farmer)
+ */
+router.get('/me', authorizeRoles('farmer'), getMyPayouts);
+
+/**
+ * Get payout batches
+ * @route GET /api/payouts/batches
+ * @access Private (Admin)
+ */
+router.get('/batches', authorizeRoles('admin'), getPayoutBatches);
+
+/**
+ * Create payout batch of all positive farmer balances
+ * @route POST /api/payouts/batches
+ * @access Private (Admin)
+ */
+router.post('/batches', authorizeRoles('admin'), createPayoutBatch);
+
+/**
+ * Export payout batch as CSV
+ * @route GET /api/payouts/batches/:id/export
+ * @access Private (Admin)
+ */
+router.get('/batches/:id/export', authorizeRoles('admin'), exportPayoutBatch);
+
+/**
+ * Record manual balance adjustment for a farmer
+ * @route POST /api/payouts/adjustments
+ * @access Private (Admin)
+ */
+router.post('/adjustments', authorizeRoles('admin'), createAdjustment);
+
+export default router;
@@ -0,0 +1,74 @@
+// backend/routes/pickupPoints.ts
+import express from 'express';
+import { authenticateUser, authorizeRoles } from '../middleware/auth';
+import { pickupPointExists, isPickupPointOperator, validatePickupPointData } from '../middleware/pickupPoints';
+import {
+  getPickupPoints,
+  getPickupPointById,
+  getPickupPointAvailability,
+  createPickupPoint,
+  updatePickupPoint,
+  joinPickupPoint,
+  leavePickupPoint,
+  getPickupPointParcels
+} from '../controllers/pickupPointController';
+
+const router = express.Router();
+
+/**
+ * Get active pickup points
+ * @route GET /api/pickup-points
+ * @access Public
+ */
+router.get('/', getPickupPoints);
+
+/**
+ * Create a pickup point
+ * @route POST /api/pickup-points
+ * @access Private (Admin)
+ */
+router.post('/', authenticateUser, authorizeRoles('admin'), validatePickupPointData, createPickupPoint);
+
+/**
+ * Get a single pickup point
+ * @route GET /api/pickup-points/:id
+ * @access Public
+ */
+router.get('/:id', pickupPointExists, getPickupPointById);
+
+/**
+ * Update a pickup point
+ * @route PUT /api/pickup-points/:id
+ * @access Private (Admin)
+ */
+router.put('/:id', authenticateUser, authorizeRoles('admin'), pickupPointExists, validatePickupPointData, updatePickupPoint);
+
+/**
+ * Get pickup days with free capacity
+ * @route GET /api/pickup-points/:id/availability
+ * @access Public
+ */
+router.get('/:id/availability', pickupPointExists, getPickupPointAvailability);
+
+/**
+ * Opt into delivering to the pickup point
+ * @route POST /api/pickup-points/:id/farmers
+ * @access Private (Farmer)
+ */
+router.post('/:id/farmers', authenticateUser, authorizeRoles('farmer'), pickupPointExists, joinPickupPoint);
+
+/**
+ * Stop delivering to the pickup point
+ * @route DELETE /api/pickup-points/:id/farmers
+ * @access Private (Farmer)
+ */
+router.delete('/:id/farmers', authenticateUser, authorizeRoles('farmer'), pickupPointExists, leavePickupPoint);
+
+/**
+ * Get parcels expected at the pickup point per day
+ * @route GET /api/pickup-points/:id/parcels
+ * @access Private (Pickup point operator or admin)
+ */
+router.get('/:id/parcels', authenticateUser, pickupPointExists, isPickupPointOperator, getPickupPointParcels);
+
+export default router;
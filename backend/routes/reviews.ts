@@ -0,0 +1,90 @@
+// backend/routes/reviews.ts
+import express from 'express';
+import { authenticateUser } from '../middleware/auth';
+import {
+  reviewExists,
+  isReviewAuthor,
+  isReviewedFarmer,
+  canDeleteReview,
+  uploadReviewImages,
+  validateReviewData,
+  validateReplyData
+} from '../middleware/reviews';
+import {
+  getProductReviews,
+  getFarmerReviews,
+  getReviewById,
+  getMyReviews,
+  createReview,
+  updateReview,
+  deleteReview,
+  saveReviewReply,
+  deleteReviewReply
+} from '../controllers/reviewController';
+
+const router = express.Router();
+
+/**
+ * Create a review (JSON or multipart/form-data with up to 3 photos in "images")
+ * @route POST /api/reviews
+ * @access Private
+ */
+router.post('/', authenticateUser, uploadReviewImages, validateReviewData, createReview);
+
+/**
+ * Get reviews of a product
+ * @route GET /api/reviews/product/:productId
+ * @access Public
+ */
+router.get('/product/:productId', getProductReviews);
+
+/**
+ * Get reviews of a farmer and the farmer's products
+ * @route GET /api/reviews/farmer/:farmerId
+ * @access Public
+ */
+router.get('/farmer/:farmerId', getFarmerReviews);
+
+/**
+ * Get reviews written by the current user (with moderation status)
+ * @route GET /api/reviews/me
+ * @access Private
+ */
+router.get('/me', authenticateUser, getMyReviews);
+
+/**
+ * Get a single approved review
+ * @route GET /api/reviews/:id
+ * @access Public
+ */
+router.get('/:id', reviewExists, getReviewById);
+
+/**
+ * Update a review (photos sent as multipart/form-data are added to the existing ones)
+ * @route PUT /api/reviews/:id
+ * @access Private (Author)
+ */
+router.put('/:id', authenticateUser, reviewExists, isReviewAuthor, uploadReviewImages, validateReviewData, updateReview);
+
+/**
+ * Delete a review
+ * @route DELETE /api/reviews/:id
+ * @access Private (Author or admin)
+ */
+router.delete('/:id', authenticateUser, reviewExists, canDeleteReview, deleteReview);
+
+/**
+ * Add or edit the farmer's reply to a review
+ * @route PUT /api/reviews/:id/reply
+ * @access Private (Reviewed farmer or admin)
+ */
+router.put('/:id/reply', authenticateUser, reviewExists, isReviewedFarmer, validateReplyData, saveReviewReply);
+
+/**
+ * Delete the farmer's reply to a review
+ * @route DELETE /api/reviews/:id/reply
+ * @access Private (Reviewed farmer or admin)
+ */
+router.delete('/:id/reply', authenticateUser, reviewExists, isReviewedFarmer, deleteReviewReply);
+
+export default router;
@@ -0,0 +1,33 @@
+// backend/routes/shipping.ts
+import express from 'express';
+import { authenticateUser, authorizeRoles } from '../middleware/auth';
+import {
+  getShippingQuote,
+  getShippingRules,
+  updateShippingRules
+} from '../controllers/shippingController';
+
+const router = express.Router();
+
+/**
+ * Quote shipping for items (or the current cart) before checkout
+ * @route POST /api/shipping/quote
+ * @access Private
+ */
+router.post('/quote', authenticateUser, getShippingQuote);
+
+/**
+ * Get shipping rules of a farmer
+ * @route GET /api/shipping/rules/:farmerId
+ * @access Public
+ */
+router.get('/rules/:farmerId', getShippingRules);
+
+/**
+ * Set shipping rules of the current farmer
+ * @route PUT /api/shipping/rules
+ * @access Private (Farmer)
+ */
+router.put('/rules', authenticateUser, authorizeRoles('farmer'), updateShippingRules);
+
+export default router;
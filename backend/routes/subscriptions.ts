@@ -0,0 +1,77 @@
+// backend/routes/subscriptions.ts
+import express from 'express';
+import { authenticateUser } from '../middleware/auth';
+import { subscriptionExists, canAccessSubscription, isSubscriptionBuyer } from '../middleware/subscriptions';
+import {
+  getSubscriptions,
+  getSubscriptionById,
+  createSubscription,
+  updateSubscription,
+  pauseSubscription,
+  resumeSubscription,
+  skipSubscriptionDelivery,
+  cancelSubscription
+} from '../controllers/subscriptionController';
+
+const router = express.Router();
+
+// All subscription routes require authentication
+router.use(authenticateUser);
+
+/**
+ * Get subscriptions of the current user
+ * @route GET /api/subscriptions
+ * @access Private
+ */
+router.get('/', getSubscriptions);
+
+/**
+ * Create a subscription (CSA box)
+ * @route POST /api/subscriptions
+ * @access Private
+ */
+router.post('/', createSubscription);
+
+/**
+ * Get a single subscription
+ * @route GET /api/subscriptions/:id
+ * @access Private (Buyer, farmer of the subscription or admin)
+ */
+router.get('/:id', subscriptionExists, canAccessSubscription, getSubscriptionById);
+
+/**
+ * Update items, cadence or shipping address
+ * @route PUT /api/subscriptions/:id
+ * @access Private (Buyer of the subscription or admin)
+ */
+router.put('/:id', subscriptionExists, isSubscriptionBuyer, updateSubscription);
+
+/**
+ * Pause a subscription
+ * @route POST /api/subscriptions/:id/pause
+ * @access Private (Buyer of the subscription or admin)
+ */
+router.post('/:id/pause', subscriptionExists, isSubscriptionBuyer, pauseSubscription);
+
+/**
+ * Resume a subscription
+ * @route POST /api/subscriptions/:id/resume
+ * @access Private (Buyer of the subscription or admin)
+ */
+router.post('/:id/resume', subscriptionExists, isSubscriptionBuyer, resumeSubscription);
+
+/**
+ * Skip a delivery
+ * @route POST /api/subscriptions/:id/skip
+ * @access Private (Buyer of the subscription or admin)
+ */
+router.post('/:id/skip', subscriptionExists, isSubscriptionBuyer, skipSubscriptionDelivery);
+
+/**
+ * Cancel a subscription
+ * @route POST /api/subscriptions/:id/cancel
+ * @access Private (Buyer of the subscription or admin)
+ */
+router.post('/:id/cancel', subscriptionExists, isSubscriptionBuyer, cancelSubscription);
+
+export default router;
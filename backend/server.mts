@@ -5,10 +5,18 @@ import dotenv from 'dotenv';
 
 // Import Firebase initialization (this needs to be imported early)
 import './firebase.js';
+import { validatePaymentConfig } from './config.js';
 
 // Initialize environment variables
 dotenv.config();
 
+// Payments answer 503 until their configuration is fixed - the rest of the API keeps working
+try {
+  validatePaymentConfig();
+} catch (error) {
+  console.error('❌ Invalid payment configuration, payments are disabled:', error instanceof Error ? error.message : error);
+}
+
 // Initialize Express app
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -19,6 +27,10 @@ app.use(cors({
   credentials: true
 }));
 
+// Payment webhook signatures are computed over the raw body, so it must not be
+// JSON-parsed (express.json skips requests whose body was already read)
+app.use('/api/payments/webhook', express.raw({ type: '*/*', limit: '1mb' }));
+
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
@@ -64,6 +76,123 @@ try {
   console.error('Error loading product routes:', error);
 }
 
+try {
+  console.log('Importing order routes...');
+  const orderRoutes = await import('./routes/orders.js');
+  app.use('/api/orders', orderRoutes.default);
+  console.log('Order routes loaded successfully');
+} catch (error) {
+  console.error('Error loading order routes:', error);
+}
+
+try {
+  console.log('Importing cart routes...');
+  const cartRoutes = await import('./routes/cart.js');
+  app.use('/api/cart', cartRoutes.default);
+  console.log('Cart routes loaded successfully');
+} catch (error) {
+  console.error('Error loading cart routes:', error);
+}
+
+try {
+  console.log('Importing payment routes...');
+  const paymentRoutes = await import('./routes/payments.js');
+  app.use('/api/payments', paymentRoutes.default);
+  console.log('Payment routes loaded successfully');
+} catch (error) {
+  console.error('Error loading payment routes:', error);
+}
+
+try {
+  console.log('Importing payout routes...');
+  const payoutRoutes = await import('./routes/payouts.js');
+  app.use('/api/payouts', payoutRoutes.default);
+  console.log('Payout routes loaded successfully');
+} catch (error) {
+  console.error('Error loading payout routes:', error);
+}
+
+try {
+  console.log('Importing subscription routes...');
+  const subscriptionRoutes = await import('./routes/subscriptions.js');
+  app.use('/api/subscriptions', subscriptionRoutes.default);
+  console.log('Subscription routes loaded successfully');
+} catch (error) {
+  console.error('Error loading subscription routes:', error);
+}
+
+try {
+  console.log('Importing delivery slot routes...');
+  const deliverySlotRoutes = await import('./routes/deliverySlots.js');
+  app.use('/api/delivery-slots', deliverySlotRoutes.default);
+  console.log('Delivery slot routes loaded successfully');
+} catch (error) {
+  console.error('Error loading delivery slot routes:', error);
+}
+
+try {
+  console.log('Importing shipping routes...');
+  const shippingRoutes = await import('./routes/shipping.js');
+  app.use('/api/shipping', shippingRoutes.default);
+  console.log('Shipping routes loaded successfully');
+} catch (error) {
+  console.error('Error loading shipping routes:', error);
+}
+
+try {
+  console.log('Importing pickup point routes...');
+  const pickupPointRoutes = await import('./routes/pickupPoints.js');
+  app.use('/api/pickup-points', pickupPointRoutes.default);
+  console.log('Pickup point routes loaded successfully');
+} catch (error) {
+  console.error('Error loading pickup point routes:', error);
+}
+
+try {
+  console.log('Importing delivery route routes...');
+  const deliveryRouteRoutes = await import('./routes/deliveryRoutes.js');
+  app.use('/api/delivery-routes', deliveryRouteRoutes.default);
+  console.log('Delivery route routes loaded successfully');
+} catch (error) {
+  console.error('Error loading delivery route routes:', error);
+}
+
+try {
+  console.log('Importing carbon routes...');
+  const carbonRoutes = await import('./routes/carbon.js');
+  app.use('/api/carbon', carbonRoutes.default);
+  console.log('Carbon routes loaded successfully');
+} catch (error) {
+  console.error('Error loading carbon routes:', error);
+}
+
+try {
+  console.log('Importing review routes...');
+  const reviewRoutes = await import('./routes/reviews.js');
+  app.use('/api/reviews', reviewRoutes.default);
+  console.log('Review routes loaded successfully');
+} catch (error) {
+  console.error('Error loading review routes:', error);
+}
+
+try {
+  console.log('Importing admin routes...');
+  const adminRoutes = await import('./routes/admin.js');
+  app.use('/api/admin', adminRoutes.default);
+  console.log('Admin routes loaded successfully');
+} catch (error) {
+  console.error('Error loading admin routes:', error);
+}
+
+try {
+  console.log('Importing certificate routes...');
+  const certificateRoutes = await import('./routes/certificates.js');
+  app.use('/api/certificates', certificateRoutes.default);
+  console.log('Certificate routes loaded successfully');
+} catch (error) {
+  console.error('Error loading certificate routes:', error);
+}
+
 // Custom error interface
 interface CustomError extends Error {
   status?: number;
@@ -116,7 +245,22 @@ app.use('*', (req: express.Request, res: express.Response) => {
       'POST /api/auth/refresh-token',
       'POST /api/auth/verify-email',
       'GET /api/users/me',
-      'GET /api/products'
+      'GET /api/products',
+      'GET /api/orders',
+      'POST /api/orders',
+      'GET /api/cart',
+      'POST /api/payments/create-intent',
+      'GET /api/payouts/me',
+      'GET /api/subscriptions',
+      'POST /api/subscriptions',
+      'GET /api/delivery-slots/farmer/:farmerId',
+      'POST /api/shipping/quote',
+      'GET /api/pickup-points',
+      'GET /api/delivery-routes',
+      'GET /api/carbon/consumer',
+      'GET /api/reviews/product/:productId',
+      'GET /api/admin/reviews',
+      'GET /api/certificates/farmer/:farmerId'
     ]
   });
 });
@@ -127,6 +271,12 @@ app.listen(PORT, () => {
   console.log(`📡 API available at http://localhost:${PORT}/api`);
   console.log(`🌟 Health check: http://localhost:${PORT}/`);
   console.log(`🔥 Environment: ${process.env.NODE_ENV || 'development'}`);
+
+  if (process.env.ENABLE_SCHEDULER !== 'false') {
+    import('./jobs/scheduler.js')
+      .then(({ startScheduler }) => startScheduler())
+      .catch(error => console.error('Error starting scheduler:', error));
+  }
 });
 
 // Handle unhandled promise rejections
@@ -0,0 +1,96 @@
+// backend/services/carbonService.test.ts
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Timestamp, db, resetFirestore } from '../test/firebaseMock';
+import { ORDER_STATUSES } from '../constants';
+import { carbonService } from './carbonService';
+
+vi.mock('../firebase', () => import('../test/firebaseMock'));
+
+const now = new Date('2026-05-15T10:00:00Z');
+
+const addOrder = (id: string, data: Record<string, unknown>) => db.collection('orders').doc(id).set({
+  buyer: 'buyer-1',
+  farmer: 'farmer-1',
+  status: ORDER_STATUSES.PENDING,
+  ...data
+});
+
+beforeEach(async () => {
+  resetFirestore();
+
+  // About 11.1 km apart
+  await db.collection('users').doc('buyer-1').set({ location: { type: 'Point', coordinates: [21, 52.2] } });
+  await db.collection('users').doc('farmer-1').set({ location: { type: 'Point', coordinates: [21, 52.3] } });
+  await db.collection('products').doc('carrots').set({ unit: 'kg', owner: 'farmer-1' });
+  await db.collection('products').doc('apples').set({ unit: 'kg', owner: 'farmer-1' });
+
+  // 00:30 on 1 May in Warsaw
+  await addOrder('may-order', {
+    items: [{ product: 'carrots', quantity: 2 }],
+    carbonFootprint: 1.5,
+    createdAt: Timestamp.fromDate(new Date('2026-04-30T22:30:00Z'))
+  });
+  // Stored before the footprint was computed at checkout, 2 of 5 kg refunded
+  await addOrder('april-order', {
+    items: [{ product: 'apples', quantity: 5, refundedQuantity: 2 }],
+    createdAt: Timestamp.fromDate(new Date('2026-04-15T10:00:00Z'))
+  });
+  await addOrder('cancelled-order', {
+    status: ORDER_STATUSES.CANCELLED,
+    items: [{ product: 'carrots', quantity: 10 }],
+    carbonFootprint: 20,
+    createdAt: Timestamp.fromDate(new Date('2026-05-10T10:00:00Z'))
+  });
+});
+
+describe('carbonService summaries', () => {
+  it('buckets orders by Polish calendar month and skips cancelled orders', async () => {
+    const summary = await carbonService.getConsumerSummary('buyer-1', 2, now);
+
+    expect(summary.months.map(month => month.month)).toEqual(['2026-04', '2026-05']);
+    // 500 km to a supermarket at 0.12 kg CO2 per km and kg
+    expect(summary.months[1]).toEqual({
+      month: '2026-05',
+      orderCount: 1,
+      weightKg: 2,
+      footprint: 1.5,
+      baselineFootprint: 120,
+      saved: 118.5
+    });
+    expect(summary.totals.orderCount).toBe(2);
+  });
+
+  it('counts only billable quantities of refunded items', async () => {
+    const april = (await carbonService.getConsumerSummary('buyer-1', 2, now)).months[0];
+
+    expect(april).toMatchObject({ orderCount: 1, weightKg: 3, baselineFootprint: 180 });
+    expect(april.footprint).toBeCloseTo(11.12 * 3 * 0.12, 1);
+  });
+
+  it('recomputes a stored footprint after a refund', async () => {
+    await db.collection('orders').doc('may-order').update({
+      items: [{ product: 'carrots', quantity: 2, refundedQuantity: 1 }]
+    });
+
+    const may = (await carbonService.getConsumerSummary('buyer-1', 2, now)).months[1];
+
+    expect(may).toMatchObject({ weightKg: 1, baselineFootprint: 60 });
+    expect(may.footprint).toBeCloseTo(11.12 * 0.12, 1);
+  });
+
+  it('counts checkout orders of a consumer once and farmer orders for the farmer', async () => {
+    await addOrder('sub-order', {
+      parentOrder: 'may-order',
+      items: [{ product: 'carrots', quantity: 2 }],
+      carbonFootprint: 1.5,
+      createdAt: Timestamp.fromDate(new Date('2026-05-01T10:00:00Z'))
+    });
+
+    expect((await carbonService.getConsumerSummary('buyer-1', 1, now)).totals.orderCount).toBe(1);
+    expect((await carbonService.getFarmerSummary('farmer-1', 1, now)).totals).toMatchObject({
+      orderCount: 2,
+      weightKg: 4,
+      footprint: 3
+    });
+  });
+});
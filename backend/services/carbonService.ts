@@ -0,0 +1,202 @@
+// backend/services/carbonService.ts
+import { admin } from '../firebase';
+import { ordersCollection, pickupPointsCollection, productsCollection, usersCollection } from '../models/collections';
+import { config } from '../config';
+import { ORDER_STATUSES } from '../constants';
+import { verificationService } from './verificationService';
+import { calculateDistance } from '../utils/geoUtils';
+import { getBillableQuantity, roundQuantity } from '../utils/orderTotals';
+import { parseCoordinates } from '../utils/shippingCalculator';
+import { calculateParcelFootprint, sumFootprints, toFootprintKilograms } from '../utils/carbonFootprint';
+import { toDateKey } from '../utils/dateKeys';
+import { calculateCarbonFootprint } from '../../src/shared/utils';
+import { convertToDate } from '../../src/shared/utils/firebase';
+import type { CarbonMonth, CarbonSummary, FirestoreOrder } from '../types';
+
+const db = admin.firestore();
+
+type Snapshot = FirebaseFirestore.DocumentSnapshot;
+
+const getDocs = async (refs: FirebaseFirestore.DocumentReference[]): Promise<Map<string, Snapshot>> => {
+  const docs = refs.length > 0 ? await db.getAll(...refs) : [];
+  return new Map(docs.map(doc => [doc.id, doc]));
+};
+
+/**
+ * Month keys (YYYY-MM, Polish time) from the oldest to the current month
+ */
+const getMonthKeys = (months: number, now: Date): string[] => {
+  const [year, month] = toDateKey(now).split('-').map(Number);
+
+  return Array.from({ length: months }, (_, index) =>
+    new Date(Date.UTC(year, month - 1 - (months - 1 - index), 1)).toISOString().slice(0, 7)
+  );
+};
+
+/**
+ * Whether part of the order was refunded after its footprint was stored
+ */
+const hasRefundedItems = (order: FirestoreOrder): boolean =>
+  order.items.some(item => getBillableQuantity(item) < item.quantity);
+
+/**
+ * Serwis podsumowań śladu węglowego. Zamówienia porównywane są z zakupem
+ * tych samych produktów w supermarkecie (konfigurowalny dystans bazowy);
+ * różnica to CO₂ zaoszczędzone dzięki kupowaniu bezpośrednio od rolnika.
+ */
+class CarbonService {
+  /**
+   * Ślad węglowy zakupów kupującego w ostatnich miesiącach
+   */
+  async getConsumerSummary(buyerId: string, months: number, now: Date = new Date()): Promise<CarbonSummary> {
+    const snapshot = await ordersCollection.where('buyer', '==', buyerId).get();
+
+    // Checkout orders only - sub-orders are already counted in their parent
+    const orders = snapshot.docs
+      .map(doc => ({ _id: doc.id, ...doc.data() }) as FirestoreOrder)
+      .filter(order => !order.parentOrder);
+
+    return this.summarize('consumer', orders, months, now);
+  }
+
+  /**
+   * Ślad węglowy sprzedaży rolnika (jego zamówienia i zamówienia cząstkowe)
+   */
+  async getFarmerSummary(farmerId: string, months: number, now: Date = new Date()): Promise<CarbonSummary> {
+    const snapshot = await ordersCollection.where('farmer', '==', farmerId).get();
+    const orders = snapshot.docs.map(doc => ({ _id: doc.id, ...doc.data() }) as FirestoreOrder);
+
+    return this.summarize('farmer', orders, months, now);
+  }
+
+  private async summarize(
+    scope: CarbonSummary['scope'],
+    allOrders: FirestoreOrder[],
+    months: number,
+    now: Date
+  ): Promise<CarbonSummary> {
+    const baselineKm = config.carbon.supermarketBaselineKm;
+    const monthKeys = getMonthKeys(months, now);
+
+    const orders = allOrders
+      .filter(order => order.status !== ORDER_STATUSES.CANCELLED)
+      .map(order => {
+        const createdAt = convertToDate(order.createdAt);
+        return { order, month: createdAt ? toDateKey(createdAt).slice(0, 7) : '' };
+      })
+      .filter(({ month }) => monthKeys.includes(month));
+
+    const products = await getDocs(Array.from(new Set(
+      orders.flatMap(({ order }) => order.items.map(item => item.product))
+    )).map(id => productsCollection.doc(id)));
+
+    const footprints = await this.getFootprints(orders.map(({ order }) => order), products);
+
+    const buckets = new Map<string, CarbonMonth>(monthKeys.map(month => [month, {
+      month,
+      orderCount: 0,
+      weightKg: 0,
+      footprint: 0,
+      baselineFootprint: 0,
+      saved: 0
+    }]));
+
+    orders.forEach(({ order, month }) => {
+      const bucket = buckets.get(month);
+      if (!bucket) return;
+
+      const weightKg = roundQuantity(order.items.reduce((sum, item) => {
+        const product = products.get(item.product);
+        return sum + toFootprintKilograms(getBillableQuantity(item), product?.get('unit') || '', product?.get('unitWeightKg'));
+      }, 0));
+
+      bucket.orderCount += 1;
+      bucket.weightKg = roundQuantity(bucket.weightKg + weightKg);
+      bucket.footprint = sumFootprints([bucket.footprint, footprints.get(order._id) || 0]);
+      bucket.baselineFootprint = sumFootprints([bucket.baselineFootprint, calculateCarbonFootprint(baselineKm, weightKg)]);
+      bucket.saved = sumFootprints([bucket.baselineFootprint, -bucket.footprint]);
+    });
+
+    const monthly = Array.from(buckets.values());
+    const footprint = sumFootprints(monthly.map(month => month.footprint));
+    const baselineFootprint = sumFootprints(monthly.map(month => month.baselineFootprint));
+
+    return {
+      scope,
+      baselineKm,
+      months: monthly,
+      totals: {
+        orderCount: monthly.reduce((sum, month) => sum + month.orderCount, 0),
+        weightKg: roundQuantity(monthly.reduce((sum, month) => sum + month.weightKg, 0)),
+        footprint,
+        baselineFootprint,
+        saved: sumFootprints([baselineFootprint, -footprint])
+      }
+    };
+  }
+
+  /**
+   * Stored footprint of each order, computed on the fly from billable quantities
+   * for orders created before it was stored or partly refunded since (per farmer:
+   * distance to the delivery address, pickup point or the buyer's profile location)
+   */
+  private async getFootprints(orders: FirestoreOrder[], products: Map<string, Snapshot>): Promise<Map<string, number>> {
+    const footprints = new Map<string, number>();
+    const missing = orders.filter(order => {
+      if (typeof order.carbonFootprint === 'number' && !hasRefundedItems(order)) {
+        footprints.set(order._id, order.carbonFootprint);
+        return false;
+      }
+      return true;
+    });
+
+    if (missing.length === 0) {
+      return footprints;
+    }
+
+    const farmerIds = Array.from(new Set(missing.flatMap(order =>
+      order.items.map(item => products.get(item.product)?.get('owner') || '')
+    ))).filter(Boolean);
+    const buyerIds = Array.from(new Set(missing.map(order => order.buyer)));
+    const pointIds = Array.from(new Set(missing.map(order => order.pickupPoint?.id || ''))).filter(Boolean);
+
+    const [users, points, certified] = await Promise.all([
+      getDocs(Array.from(new Set([...farmerIds, ...buyerIds])).map(id => usersCollection.doc(id))),
+      getDocs(pointIds.map(id => pickupPointsCollection.doc(id))),
+      Promise.all(farmerIds.map(id => verificationService.hasFarmerVerifiedCertificates(id)))
+    ]);
+
+    missing.forEach(order => {
+      const destination = parseCoordinates(order.shippingAddress?.coordinates) ||
+        (order.pickupPoint && parseCoordinates(points.get(order.pickupPoint.id)?.get('location.coordinates'))) ||
+        parseCoordinates(users.get(order.buyer)?.get('location.coordinates'));
+
+      // Items grouped by farmer, weight in kg
+      const weightByFarmer = new Map<string, number>();
+      order.items.forEach(item => {
+        const product = products.get(item.product);
+        const farmer = product?.get('owner');
+        if (!farmer) return;
+
+        weightByFarmer.set(farmer, (weightByFarmer.get(farmer) || 0) +
+          toFootprintKilograms(getBillableQuantity(item), product?.get('unit') || '', product?.get('unitWeightKg')));
+      });
+
+      footprints.set(order._id, sumFootprints(Array.from(weightByFarmer.entries()).map(([farmer, weightKg]) => {
+        const origin = parseCoordinates(users.get(farmer)?.get('location.coordinates'));
+
+        return calculateParcelFootprint({
+          distanceKm: origin && destination
+            ? calculateDistance(origin[1], origin[0], destination[1], destination[0])
+            : 0,
+          weightKg,
+          hasEcoCertificate: certified[farmerIds.indexOf(farmer)]
+        });
+      })));
+    });
+
+    return footprints;
+  }
+}
+
+export const carbonService = new CarbonService();
@@ -0,0 +1,312 @@
+// backend/services/cartService.ts
+import { admin } from '../firebase';
+import { cartsCollection, productsCollection } from '../models/collections';
+import { PRODUCT_STATUSES } from '../constants';
+import { ServiceError } from '../utils/serviceError';
+import { roundPrice, roundQuantity } from '../utils/orderTotals';
+import type { Cart, CartItem, CartLine, FirestoreCartItem } from '../types';
+
+const db = admin.firestore();
+
+/**
+ * Firestore rejects empty document IDs and IDs containing a slash
+ */
+const isProductId = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim() !== '' && !value.includes('/');
+
+/**
+ * Serwis koszyka zakupowego przechowywanego po stronie serwera
+ * (jeden dokument w kolekcji carts na użytkownika)
+ */
+class CartService {
+  /**
+   * Pobierz koszyk zweryfikowany z aktualną ceną, stanem i statusem produktów.
+   * Zmiany cen są zgłaszane jednorazowo - po odczycie zapisywana jest nowa cena.
+   */
+  async getCart(userId: string): Promise<Cart> {
+    const cartDoc = await cartsCollection.doc(userId).get();
+    const items = (cartDoc.get('items') || []) as FirestoreCartItem[];
+
+    const cart = await this.validateItems(items);
+
+    // Remember prices the buyer has now seen and drop products that no longer exist
+    const refreshedItems = items
+      .map(item => {
+        const line = cart.items.find(validated => validated.product === item.product);
+        if (!line || line.issues.includes('not_found')) return null;
+        return { ...item, priceSnapshot: line.price };
+      })
+      .filter((item): item is FirestoreCartItem => item !== null);
+
+    if (cartDoc.exists && (cart.hasIssues || refreshedItems.length !== items.length)) {
+      await cartDoc.ref.update({
+        items: refreshedItems,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp()
+      });
+    }
+
+    return cart;
+  }
+
+  /**
+   * Dodaj produkt do koszyka (zwiększa ilość, jeśli produkt już jest w koszyku)
+   */
+  async addItem(userId: string, productId: string, quantity: number): Promise<Cart> {
+    await this.modifyItems(userId, async (items) => {
+      const existing = items.find(item => item.product === productId);
+      const newQuantity = roundQuantity((existing?.quantity || 0) + quantity);
+      const product = await this.getPurchasableProduct(userId, productId, newQuantity);
+
+      if (existing) {
+        existing.quantity = newQuantity;
+        existing.priceSnapshot = product.price;
+        return items;
+      }
+
+      return [
+        ...items,
+        {
+          product: productId,
+          quantity: newQuantity,
+          priceSnapshot: product.price,
+          addedAt: admin.firestore.Timestamp.now()
+        }
+      ];
+    });
+
+    return await this.getCart(userId);
+  }
+
+  /**
+   * Ustaw ilość produktu w koszyku
+   */
+  async updateItem(userId: string, productId: string, quantity: number): Promise<Cart> {
+    await this.modifyItems(userId, async (items) => {
+      const existing = items.find(item => item.product === productId);
+
+      if (!existing) {
+        throw new ServiceError('Produktu nie ma w koszyku.', 404);
+      }
+
+      const product = await this.getPurchasableProduct(userId, productId, quantity);
+      existing.quantity = roundQuantity(quantity);
+      existing.priceSnapshot = product.price;
+
+      return items;
+    });
+
+    return await this.getCart(userId);
+  }
+
+  /**
+   * Usuń produkt z koszyka
+   */
+  async removeItem(userId: string, productId: string): Promise<Cart> {
+    await this.removeProducts(userId, [productId]);
+    return await this.getCart(userId);
+  }
+
+  /**
+   * Usuń wiele produktów z koszyka (np. po złożeniu zamówienia)
+   */
+  async removeProducts(userId: string, productIds: string[]): Promise<void> {
+    await this.modifyItems(userId, async (items) =>
+      items.filter(item => !productIds.includes(item.product))
+    );
+  }
+
+  /**
+   * Wyczyść koszyk
+   */
+  async clearCart(userId: string): Promise<void> {
+    await cartsCollection.doc(userId).set({
+      items: [],
+      updatedAt: admin.firestore.FieldValue.serverTimestamp()
+    });
+  }
+
+  /**
+   * Scal anonimowy koszyk (z localStorage) z koszykiem użytkownika.
+   * Ilości są sumowane i przycinane do dostępnego stanu; produktów, których
+   * nie da się kupić, nie dodajemy.
+   */
+  async mergeCart(userId: string, localItems: CartItem[]): Promise<Cart> {
+    const productIds = Array.from(new Set(localItems.map(item => item.product).filter(isProductId)));
+
+    if (productIds.length > 0) {
+      const productDocs = await db.getAll(...productIds.map(id => productsCollection.doc(id)));
+
+      await this.modifyItems(userId, async (items) => {
+        productDocs.forEach(productDoc => {
+          const product = productDoc.data();
+
+          if (
+            !productDoc.exists ||
+            !product ||
+            product.owner === userId ||
+            product.status !== PRODUCT_STATUSES.AVAILABLE
+          ) {
+            return;
+          }
+
+          const localQuantity = localItems
+            .filter(item => item.product === productDoc.id)
+            .reduce((sum, item) => sum + Number(item.quantity), 0);
+
+          const existing = items.find(item => item.product === productDoc.id);
+          const mergedQuantity = roundQuantity(
+            Math.min((existing?.quantity || 0) + localQuantity, Number(product.quantity))
+          );
+
+          if (mergedQuantity <= 0) return;
+
+          if (existing) {
+            existing.quantity = mergedQuantity;
+            existing.priceSnapshot = Number(product.price);
+          } else {
+            items.push({
+              product: productDoc.id,
+              quantity: mergedQuantity,
+              priceSnapshot: Number(product.price),
+              addedAt: admin.firestore.Timestamp.now()
+            });
+          }
+        });
+
+        return items;
+      });
+    }
+
+    return await this.getCart(userId);
+  }
+
+  /**
+   * Read-modify-write of cart items in a transaction
+   */
+  private async modifyItems(
+    userId: string,
+    modify: (items: FirestoreCartItem[]) => Promise<FirestoreCartItem[]>
+  ): Promise<void> {
+    const cartRef = cartsCollection.doc(userId);
+
+    await db.runTransaction(async (transaction) => {
+      const cartDoc = await transaction.get(cartRef);
+      const items = (cartDoc.get('items') || []) as FirestoreCartItem[];
+
+      const updatedItems = await modify(items);
+
+      transaction.set(cartRef, {
+        items: updatedItems,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp()
+      });
+    });
+  }
+
+  /**
+   * Check that a product can be bought in the given quantity
+   */
+  private async getPurchasableProduct(
+    userId: string,
+    productId: string,
+    quantity: number
+  ): Promise<{ price: number }> {
+    if (!isProductId(productId)) {
+      throw new ServiceError('Nieprawidłowy identyfikator produktu.');
+    }
+
+    const productDoc = await productsCollection.doc(productId).get();
+    const product = productDoc.data();
+
+    if (!productDoc.exists || !product) {
+      throw new ServiceError('Produkt nie znaleziony.', 404);
+    }
+
+    if (product.owner === userId) {
+      throw new ServiceError('Nie możesz dodać do koszyka własnego produktu.');
+    }
+
+    if (product.status !== PRODUCT_STATUSES.AVAILABLE) {
+      throw new ServiceError(`Produkt "${product.name}" jest niedostępny.`, 409);
+    }
+
+    if (quantity > Number(product.quantity)) {
+      throw new ServiceError(
+        `Niewystarczająca ilość produktu "${product.name}" (dostępne: ${product.quantity} ${product.unit}).`,
+        409
+      );
+    }
+
+    return { price: Number(product.price) };
+  }
+
+  /**
+   * Revalidate cart items against current product price, quantity and status
+   */
+  private async validateItems(items: FirestoreCartItem[]): Promise<Cart> {
+    if (items.length === 0) {
+      return { items: [], totalPrice: 0, hasIssues: false };
+    }
+
+    const productDocs = await db.getAll(...items.map(item => productsCollection.doc(item.product)));
+
+    const lines: CartLine[] = items.map((item, index) => {
+      const productDoc = productDocs[index];
+      const product = productDoc.data();
+
+      if (!productDoc.exists || !product) {
+        return {
+          product: item.product,
+          quantity: item.quantity,
+          price: item.priceSnapshot,
+          previousPrice: item.priceSnapshot,
+          priceChanged: false,
+          availableQuantity: 0,
+          isAvailable: false,
+          issues: ['not_found'],
+          lineTotal: 0
+        };
+      }
+
+      const price = Number(product.price);
+      const availableQuantity = Number(product.quantity) || 0;
+      const issues: CartLine['issues'] = [];
+
+      if (product.status !== PRODUCT_STATUSES.AVAILABLE) {
+        issues.push('unavailable');
+      } else if (item.quantity > availableQuantity) {
+        issues.push('insufficient_stock');
+      }
+
+      const priceChanged = price !== item.priceSnapshot;
+      if (priceChanged) {
+        issues.push('price_changed');
+      }
+
+      const isAvailable = !issues.includes('unavailable') && !issues.includes('insufficient_stock');
+
+      return {
+        product: item.product,
+        name: product.name,
+        unit: product.unit,
+        image: product.images?.[0],
+        farmer: product.owner,
+        quantity: item.quantity,
+        price,
+        previousPrice: item.priceSnapshot,
+        priceChanged,
+        availableQuantity,
+        isAvailable,
+        issues,
+        lineTotal: isAvailable ? roundPrice(price * item.quantity) : 0
+      };
+    });
+
+    return {
+      items: lines,
+      totalPrice: roundPrice(lines.reduce((sum, line) => sum + line.lineTotal, 0)),
+      hasIssues: lines.some(line => line.issues.length > 0)
+    };
+  }
+}
+
+export const cartService = new CartService();
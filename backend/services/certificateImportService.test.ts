@@ -0,0 +1,150 @@
+// backend/services/certificateImportService.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { db, resetFirestore, Timestamp } from '../test/firebaseMock';
+import { certificateImportService } from './certificateImportService';
+import { verificationService } from './verificationService';
+
+vi.mock('../firebase', () => import('../test/firebaseMock'));
+vi.mock('./fileStorageService', () => ({
+  uploadDocumentToStorage: vi.fn(),
+  deleteImageFromStorage: vi.fn()
+}));
+vi.mock('./emailService', () => ({
+  emailService: { sendCertificateExpiryReminderEmail: vi.fn() }
+}));
+
+const registry = (lines: string[]) => ({
+  originalname: 'rejestr.csv',
+  mimetype: 'text/csv',
+  buffer: Buffer.from(['Nazwa producenta;NIP;Nr certyfikatu;Ważny do', ...lines].join('\n'), 'utf-8')
+}) as Express.Multer.File;
+
+const createImport = (lines: string[]) =>
+  certificateImportService.createImport(registry(lines), 'Ekogwarancja PTRE', 'organic', 'admin-1');
+
+const getCertificates = async (farmerId: string) =>
+  (await db.collection('certificates').where('issuedTo', '==', farmerId).get()).docs;
+
+beforeEach(async () => {
+  resetFirestore();
+  vi.clearAllMocks();
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2026-05-04T08:00:00Z'));
+
+  await db.collection('users').doc('farmer-1').set({ fullName: 'Jan Kowalski', nip: '1234567890', role: 'farmer' });
+  await db.collection('users').doc('farmer-2').set({ fullName: 'Anna Nowak', nip: '9876543210', role: 'farmer' });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+describe('certificateImportService', () => {
+  it('matches registry rows to farmers and reports the rest', async () => {
+    const created = await createImport([
+      'Jan Kowalski;123-456-78-90;PL-EKO-01-1;31.12.2026',
+      'Piotr Zieliński;5555555555;PL-EKO-01-2;31.12.2026',
+      'Anna Nowak;9876543210;PL-EKO-01-3;2026-01-31'
+    ]);
+
+    expect(created).toMatchObject({ status: 'review', summary: { matched: 1, unmatched: 1, invalid: 1 } });
+
+    const details = await certificateImportService.getImport(created._id);
+
+    expect(details.rows.map(row => [row.rowNumber, row.status, row.farmer])).toEqual([
+      [2, 'matched', 'farmer-1'],
+      [3, 'unmatched', undefined],
+      [4, 'invalid', undefined]
+    ]);
+    expect((await certificateImportService.getReportRows(created._id)).map(row => row.rowNumber)).toEqual([3, 4]);
+  });
+
+  it('assigns a farmer to an unmatched row and refuses changes after confirmation', async () => {
+    const created = await createImport(['Anna Nowak-Kowalska;;PL-EKO-01-2;31.12.2026']);
+
+    const row = await certificateImportService.resolveRow(created._id, '2', { farmer: 'farmer-2' });
+
+    expect(row).toMatchObject({ status: 'matched', matchedBy: 'manual', farmer: 'farmer-2' });
+    expect((await certificateImportService.getImport(created._id)).summary).toMatchObject({ matched: 1, unmatched: 0 });
+
+    await certificateImportService.confirmImport(created._id, 'admin-1');
+
+    await expect(certificateImportService.resolveRow(created._id, '2', { skip: true })).rejects.toMatchObject({ status: 409 });
+  });
+
+  it('creates verified certificates and marks the rows imported', async () => {
+    const created = await createImport(['Jan Kowalski;1234567890;PL-EKO-01-1;31.12.2026']);
+
+    const confirmed = await certificateImportService.confirmImport(created._id, 'admin-1');
+
+    const [certificate] = await getCertificates('farmer-1');
+    expect(certificate.data()).toMatchObject({
+      name: 'Ekogwarancja PTRE PL-EKO-01-1',
+      certificateNumber: 'PL-EKO-01-1',
+      status: 'verified',
+      isVerified: true,
+      importId: created._id,
+      validUntil: Timestamp.fromDate(new Date(2026, 11, 31, 23, 59, 59))
+    });
+    expect(confirmed).toMatchObject({ status: 'completed', summary: { matched: 0, imported: 1 } });
+    expect((await certificateImportService.getImport(created._id)).rows[0]).toMatchObject({
+      status: 'imported',
+      certificate: certificate.id
+    });
+    expect((await db.collection('users').doc('farmer-1').get()).get('certificates')).toEqual([certificate.id]);
+  });
+
+  it('verifies the farmer\'s pending certificate from the same body instead of adding one', async () => {
+    await db.collection('certificates').doc('pending-1').set({
+      name: 'Rolnictwo ekologiczne',
+      type: 'organic',
+      issuingAuthority: 'EKOGWARANCJA PTRE',
+      issuedTo: 'farmer-1',
+      isVerified: false,
+      status: 'pending',
+      validUntil: Timestamp.fromDate(new Date('2026-06-30T00:00:00Z'))
+    });
+    await db.collection('products').doc('product-1').set({ owner: 'farmer-1', certificates: ['pending-1'], isCertified: false });
+
+    const created = await createImport(['Jan Kowalski;1234567890;PL-EKO-01-1;31.12.2026']);
+    await certificateImportService.confirmImport(created._id, 'admin-1');
+
+    const certificates = await getCertificates('farmer-1');
+    expect(certificates.map(doc => doc.id)).toEqual(['pending-1']);
+    expect(certificates[0].data()).toMatchObject({
+      status: 'verified',
+      certificateNumber: 'PL-EKO-01-1',
+      validUntil: Timestamp.fromDate(new Date(2026, 11, 31, 23, 59, 59)),
+      verification: { verifiedBy: 'admin-1' }
+    });
+    expect((await db.collection('products').doc('product-1').get()).get('isCertified')).toBe(true);
+  });
+
+  it('resumes an interrupted confirmation without duplicating certificates', async () => {
+    const created = await createImport([
+      'Jan Kowalski;1234567890;PL-EKO-01-1;31.12.2026',
+      'Anna Nowak;9876543210;PL-EKO-01-2;31.12.2026'
+    ]);
+    vi.spyOn(verificationService, 'getFarmerCertificates').mockRejectedValueOnce(new Error('Firestore unavailable'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const interrupted = await certificateImportService.confirmImport(created._id, 'admin-1');
+
+    expect(interrupted).toMatchObject({ status: 'completed', summary: { matched: 1, imported: 1 } });
+    expect((await certificateImportService.getReportRows(created._id)).map(row => row.rowNumber)).toEqual([2]);
+
+    vi.setSystemTime(new Date('2026-05-04T09:00:00Z'));
+    const resumed = await certificateImportService.confirmImport(created._id, 'admin-1');
+    await certificateImportService.confirmImport(created._id, 'admin-1');
+
+    expect(resumed).toMatchObject({ status: 'completed', summary: { matched: 0, imported: 2 } });
+    expect(await getCertificates('farmer-1')).toHaveLength(1);
+    expect(await getCertificates('farmer-2')).toHaveLength(1);
+    expect(resumed.completedAt).toEqual(interrupted.completedAt);
+  });
+
+  it('returns 404 for an unknown import', async () => {
+    await expect(certificateImportService.confirmImport('missing', 'admin-1')).rejects.toMatchObject({ status: 404 });
+  });
+});
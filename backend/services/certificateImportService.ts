@@ -0,0 +1,416 @@
+// backend/services/certificateImportService.ts
+import { admin } from '../firebase';
+import { certificateImportsCollection, certificatesCollection, usersCollection } from '../models/collections';
+import { CERTIFICATE_STATUSES, CERTIFICATE_TYPES } from '../constants';
+import { verificationService } from './verificationService';
+import { readSpreadsheet } from '../utils/spreadsheet';
+import {
+  createFarmerIndex,
+  mapRegistryRows,
+  matchRegistryRow,
+  normalizeText,
+  parseRegistryDate,
+  type RegistryRow
+} from '../utils/registryMatching';
+import { ServiceError } from '../utils/serviceError';
+import { convertToDate } from '../../src/shared/utils/firebase';
+import type {
+  CertificateImportRowStatus,
+  CertificateType,
+  FirestoreCertificate,
+  FirestoreCertificateImport,
+  FirestoreCertificateImportRow,
+  RegistryFarmerCandidate
+} from '../types';
+
+const db = admin.firestore();
+
+const MAX_IMPORT_ROWS = 20000;
+const CERTIFICATE_TYPE_VALUES: string[] = Object.values(CERTIFICATE_TYPES);
+
+// Rows that end up in the report - nothing was created for them
+export const REPORT_ROW_STATUSES: CertificateImportRowStatus[] = ['unmatched', 'ambiguous', 'invalid', 'skipped'];
+
+export type CertificateImportRow = FirestoreCertificateImportRow & { _id: string };
+
+export interface CertificateImportDetails extends FirestoreCertificateImport {
+  rows: CertificateImportRow[];
+}
+
+const emptySummary = (): Record<CertificateImportRowStatus, number> => ({
+  matched: 0,
+  ambiguous: 0,
+  unmatched: 0,
+  invalid: 0,
+  skipped: 0,
+  imported: 0
+});
+
+const getRowsCollection = (importId: string) => certificateImportsCollection.doc(importId).collection('rows');
+
+const toImport = (doc: FirebaseFirestore.DocumentSnapshot): FirestoreCertificateImport => ({
+  _id: doc.id,
+  ...doc.data()
+}) as FirestoreCertificateImport;
+
+const toRow = (doc: FirebaseFirestore.DocumentSnapshot): CertificateImportRow => ({
+  _id: doc.id,
+  ...doc.data()
+}) as CertificateImportRow;
+
+/**
+ * Commit writes in chunks - Firestore batches hold at most 500 writes
+ */
+const commitInChunks = async <T>(items: T[], write: (batch: FirebaseFirestore.WriteBatch, item: T) => void): Promise<void> => {
+  for (let start = 0; start < items.length; start += 500) {
+    const batch = db.batch();
+    items.slice(start, start + 500).forEach(item => write(batch, item));
+    await batch.commit();
+  }
+};
+
+/**
+ * Serwis importu rejestrów jednostek certyfikujących (CSV/XLSX).
+ * Wiersze są dopasowywane do rolników po NIP albo po nazwie potwierdzonej
+ * adresem; niejednoznaczne dopasowania rozstrzyga administrator przed
+ * zatwierdzeniem importu. Zatwierdzenie tworzy zweryfikowane certyfikaty
+ * (albo weryfikuje oczekujący certyfikat rolnika z tej samej jednostki)
+ * i oznacza wiersz jako zaimportowany w tym samym zapisie, więc przerwane
+ * zatwierdzenie można ponowić. Wiersze bez certyfikatu trafiają do raportu.
+ */
+class CertificateImportService {
+  /**
+   * Wczytaj rejestr i dopasuj wiersze do rolników - import czeka na przegląd
+   */
+  async createImport(
+    file: Express.Multer.File,
+    issuingAuthority: string,
+    defaultType: CertificateType,
+    importedBy: string
+  ): Promise<FirestoreCertificateImport> {
+    let cells: string[][];
+
+    try {
+      cells = await readSpreadsheet(file);
+    } catch (error) {
+      console.error('Error reading registry spreadsheet:', error);
+      throw new ServiceError('Nie udało się odczytać pliku. Prześlij rejestr w formacie CSV lub XLSX.');
+    }
+
+    const { rows, missingColumns } = mapRegistryRows(cells);
+
+    if (missingColumns.length > 0) {
+      throw new ServiceError(
+        'Nie rozpoznano kolumn z nazwą producenta i datą ważności certyfikatu (np. "Nazwa producenta", "Ważny do").'
+      );
+    }
+
+    if (rows.length === 0) {
+      throw new ServiceError('Plik nie zawiera żadnych wierszy z producentami.');
+    }
+
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new ServiceError(`Plik może zawierać maksymalnie ${MAX_IMPORT_ROWS} wierszy.`);
+    }
+
+    const farmerIndex = createFarmerIndex(await this.getFarmerCandidates());
+    const importRows = rows.map(row => this.toImportRow(row, defaultType, farmerIndex));
+
+    const summary = emptySummary();
+    importRows.forEach(row => summary[row.status]++);
+
+    const now = admin.firestore.Timestamp.now();
+    const importRef = certificateImportsCollection.doc();
+    const importData = {
+      fileName: file.originalname,
+      issuingAuthority,
+      type: defaultType,
+      importedBy,
+      status: 'review' as const,
+      summary,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await importRef.set(importData);
+    await commitInChunks(importRows, (batch, row) => {
+      batch.set(getRowsCollection(importRef.id).doc(String(row.rowNumber)), row);
+    });
+
+    return {
+      _id: importRef.id,
+      ...importData
+    };
+  }
+
+  /**
+   * Lista importów (najnowsze najpierw)
+   */
+  async getImports(): Promise<FirestoreCertificateImport[]> {
+    const snapshot = await certificateImportsCollection.get();
+
+    return snapshot.docs.map(toImport).sort((a, b) => {
+      const dateA = convertToDate(a.createdAt) || new Date(0);
+      const dateB = convertToDate(b.createdAt) || new Date(0);
+      return dateB.getTime() - dateA.getTime();
+    });
+  }
+
+  /**
+   * Import z wierszami (opcjonalnie tylko o danym statusie), w kolejności arkusza
+   */
+  async getImport(importId: string, status?: CertificateImportRowStatus): Promise<CertificateImportDetails> {
+    const importDoc = await certificateImportsCollection.doc(importId).get();
+
+    if (!importDoc.exists) {
+      throw new ServiceError('Import nie znaleziony.', 404);
+    }
+
+    const rowsSnapshot = status
+      ? await getRowsCollection(importId).where('status', '==', status).get()
+      : await getRowsCollection(importId).get();
+
+    return {
+      ...toImport(importDoc),
+      rows: rowsSnapshot.docs.map(toRow).sort((a, b) => a.rowNumber - b.rowNumber)
+    };
+  }
+
+  /**
+   * Wiersze raportu - bez utworzonego certyfikatu (niedopasowane, nierozstrzygnięte, błędne, pominięte;
+   * po zatwierdzeniu także dopasowane wiersze, których nie udało się zaimportować)
+   */
+  async getReportRows(importId: string): Promise<CertificateImportRow[]> {
+    const details = await this.getImport(importId);
+    const statuses: CertificateImportRowStatus[] = details.status === 'completed'
+      ? [...REPORT_ROW_STATUSES, 'matched']
+      : REPORT_ROW_STATUSES;
+
+    return details.rows.filter(row => statuses.includes(row.status));
+  }
+
+  /**
+   * Rozstrzygnij wiersz: przypisz rolnika albo pomiń wiersz
+   */
+  async resolveRow(
+    importId: string,
+    rowNumber: string,
+    resolution: { farmer?: string; skip?: boolean }
+  ): Promise<CertificateImportRow> {
+    const importRef = certificateImportsCollection.doc(importId);
+    const rowRef = getRowsCollection(importId).doc(rowNumber);
+
+    await db.runTransaction(async (transaction) => {
+      const [importDoc, rowDoc] = await transaction.getAll(importRef, rowRef);
+
+      if (!importDoc.exists || !rowDoc.exists) {
+        throw new ServiceError('Wiersz importu nie znaleziony.', 404);
+      }
+
+      if (importDoc.get('status') !== 'review') {
+        throw new ServiceError('Import został już zatwierdzony.', 409);
+      }
+
+      const row = toRow(rowDoc);
+
+      if (row.status === 'invalid' || row.status === 'imported') {
+        throw new ServiceError('Tego wiersza nie można przypisać - sprawdź jego dane w rejestrze.', 409);
+      }
+
+      let update: Partial<FirestoreCertificateImportRow>;
+
+      if (resolution.skip) {
+        update = { status: 'skipped' };
+      } else {
+        const farmerDoc = await transaction.get(usersCollection.doc(String(resolution.farmer)));
+
+        if (!farmerDoc.exists || farmerDoc.get('role') !== 'farmer') {
+          throw new ServiceError('Rolnik nie istnieje.', 404);
+        }
+
+        update = { status: 'matched', matchedBy: 'manual', farmer: farmerDoc.id };
+      }
+
+      transaction.update(rowRef, {
+        ...update,
+        ...(update.status === 'skipped' && { farmer: admin.firestore.FieldValue.delete() })
+      });
+
+      if (update.status !== row.status) {
+        transaction.update(importRef, {
+          [`summary.${row.status}`]: admin.firestore.FieldValue.increment(-1),
+          [`summary.${update.status}`]: admin.firestore.FieldValue.increment(1),
+          updatedAt: admin.firestore.Timestamp.now()
+        });
+      }
+    });
+
+    return toRow(await rowRef.get());
+  }
+
+  /**
+   * Zatwierdź import - dopasowane wiersze dostają zweryfikowane certyfikaty.
+   * Oczekujący certyfikat rolnika z tej samej jednostki i tego samego rodzaju
+   * jest weryfikowany zamiast tworzenia nowego. Zatwierdzony import można
+   * zatwierdzić ponownie - dokończy wiersze, których nie udało się zaimportować.
+   */
+  async confirmImport(importId: string, adminId: string): Promise<FirestoreCertificateImport> {
+    const importRef = certificateImportsCollection.doc(importId);
+
+    const importData = await db.runTransaction(async (transaction) => {
+      const importDoc = await transaction.get(importRef);
+
+      if (!importDoc.exists) {
+        throw new ServiceError('Import nie znaleziony.', 404);
+      }
+
+      // Closing the review stops row changes; a completed import is resumed as is
+      if (importDoc.get('status') === 'review') {
+        const now = admin.firestore.Timestamp.now();
+        transaction.update(importRef, { status: 'completed', completedAt: now, updatedAt: now });
+      }
+
+      return toImport(importDoc);
+    });
+
+    const rowsSnapshot = await getRowsCollection(importId).where('status', '==', 'matched').get();
+    const farmerCertificates = new Map<string, FirestoreCertificate[]>();
+
+    for (const rowDoc of rowsSnapshot.docs) {
+      try {
+        await this.importRow(rowDoc, importData, adminId, farmerCertificates);
+      } catch (error) {
+        console.error(`Error importing registry row ${rowDoc.id} of import ${importId}:`, error);
+      }
+    }
+
+    return toImport(await importRef.get());
+  }
+
+  /**
+   * Create (or verify the farmer's pending) certificate for a matched row.
+   * The row is marked imported in the same transaction, so it is never imported twice.
+   */
+  private async importRow(
+    rowDoc: FirebaseFirestore.QueryDocumentSnapshot,
+    importData: FirestoreCertificateImport,
+    adminId: string,
+    farmerCertificates: Map<string, FirestoreCertificate[]>
+  ): Promise<void> {
+    const row = toRow(rowDoc);
+    const farmerId = String(row.farmer);
+    const validUntil = convertToDate(row.validUntil);
+
+    if (!validUntil || validUntil.getTime() <= Date.now()) {
+      throw new Error('Certificate is no longer valid');
+    }
+
+    if (!farmerCertificates.has(farmerId)) {
+      farmerCertificates.set(farmerId, await verificationService.getFarmerCertificates(farmerId));
+    }
+
+    const authority = normalizeText(importData.issuingAuthority);
+    const candidate = (farmerCertificates.get(farmerId) || []).find(certificate =>
+      certificate.status === CERTIFICATE_STATUSES.PENDING &&
+      certificate.type === row.type &&
+      normalizeText(certificate.issuingAuthority) === authority
+    );
+
+    const certificate = await db.runTransaction(async (transaction) => {
+      const [currentRowDoc, pendingDoc] = await transaction.getAll(
+        rowDoc.ref,
+        ...(candidate ? [certificatesCollection.doc(candidate._id)] : [])
+      );
+
+      // Imported by a concurrent confirmation
+      if (currentRowDoc.get('status') !== 'matched') {
+        return null;
+      }
+
+      const isPending = pendingDoc?.get('status') === CERTIFICATE_STATUSES.PENDING;
+      const saved = verificationService.saveImportedCertificate(transaction, farmerId, {
+        name: row.certificateNumber ? `${importData.issuingAuthority} ${row.certificateNumber}` : importData.issuingAuthority,
+        type: row.type,
+        issuingAuthority: importData.issuingAuthority,
+        validUntil,
+        certificateNumber: row.certificateNumber
+      }, adminId, importData._id, isPending ? candidate : undefined);
+
+      transaction.update(rowDoc.ref, { status: 'imported', certificate: saved._id });
+      transaction.update(certificateImportsCollection.doc(importData._id), {
+        'summary.matched': admin.firestore.FieldValue.increment(-1),
+        'summary.imported': admin.firestore.FieldValue.increment(1),
+        updatedAt: admin.firestore.Timestamp.now()
+      });
+
+      return saved;
+    });
+
+    if (!certificate) return;
+
+    if (candidate?._id === certificate._id) {
+      candidate.status = CERTIFICATE_STATUSES.VERIFIED;
+    }
+
+    await verificationService.applyVerifiedCertificate(certificate);
+  }
+
+  /**
+   * Validate a registry row and match it to farmers
+   */
+  private toImportRow(
+    row: RegistryRow,
+    defaultType: CertificateType,
+    farmerIndex: ReturnType<typeof createFarmerIndex>
+  ): FirestoreCertificateImportRow {
+    const validUntil = parseRegistryDate(row.validUntil);
+    const type = row.type && CERTIFICATE_TYPE_VALUES.includes(row.type) ? row.type as CertificateType : defaultType;
+
+    const importRow = {
+      rowNumber: row.rowNumber,
+      name: row.name,
+      ...(row.nip && { nip: row.nip }),
+      ...(row.address && { address: row.address }),
+      ...(row.certificateNumber && { certificateNumber: row.certificateNumber }),
+      ...(validUntil && { validUntil: admin.firestore.Timestamp.fromDate(validUntil) }),
+      type
+    };
+
+    const issue = !row.name
+      ? 'Brak nazwy producenta'
+      : !validUntil
+        ? 'Nieprawidłowa data ważności'
+        : validUntil.getTime() <= Date.now() ? 'Certyfikat stracił ważność' : undefined;
+
+    if (issue) {
+      return { ...importRow, status: 'invalid', candidates: [], issue };
+    }
+
+    const match = matchRegistryRow(row, farmerIndex);
+
+    return {
+      ...importRow,
+      status: match.status,
+      ...(match.matchedBy && { matchedBy: match.matchedBy }),
+      ...(match.farmer && { farmer: match.farmer }),
+      candidates: match.candidates
+    };
+  }
+
+  /**
+   * All farmers with the data used for matching
+   */
+  private async getFarmerCandidates(): Promise<RegistryFarmerCandidate[]> {
+    const snapshot = await usersCollection.where('role', '==', 'farmer').get();
+
+    return snapshot.docs.map(doc => ({
+      farmer: doc.id,
+      fullName: doc.get('fullName') || '',
+      ...(doc.get('companyName') && { companyName: doc.get('companyName') }),
+      ...(doc.get('nip') && { nip: doc.get('nip') }),
+      ...(doc.get('location.address') && { address: doc.get('location.address') })
+    }));
+  }
+}
+
+export const certificateImportService = new CertificateImportService();
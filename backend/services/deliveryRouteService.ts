@@ -0,0 +1,179 @@
+// backend/services/deliveryRouteService.ts
+import { admin } from '../firebase';
+import { ordersCollection, pickupPointsCollection, productsCollection, usersCollection } from '../models/collections';
+import { DELIVERY_WINDOW_TYPES, ORDER_STATUSES } from '../constants';
+import { ServiceError } from '../utils/serviceError';
+import { toDateKey } from '../utils/dateKeys';
+import { planRoute } from '../utils/routePlanner';
+import { parseCoordinates } from '../utils/shippingCalculator';
+import { convertToDate } from '../../src/shared/utils/firebase';
+import type { DeliveryRoute, DeliveryRouteStop, FirestoreOrder } from '../types';
+
+const db = admin.firestore();
+
+type RouteStopDraft = Omit<DeliveryRouteStop, 'sequence' | 'distanceFromPreviousKm'>;
+
+/**
+ * Delivery day of an order: the booked slot, the pickup point day or the delivery date
+ */
+const getOrderDate = (order: FirestoreOrder): string | undefined => {
+  if (order.deliverySlot) return order.deliverySlot.date;
+  if (order.pickupPoint) return order.pickupPoint.date;
+
+  const deliveryDate = convertToDate(order.deliveryDate);
+  return deliveryDate ? toDateKey(deliveryDate) : undefined;
+};
+
+/**
+ * Serwis planowania tras dostaw. Wysłane zamówienia rolnika z danego dnia
+ * układane są w kolejność odwiedzin (najbliższy sąsiad + 2-opt) liczoną
+ * od lokalizacji gospodarstwa. Zamówienia do tego samego punktu odbioru
+ * lub pod te same współrzędne tworzą jeden przystanek.
+ */
+class DeliveryRouteService {
+  /**
+   * Zaplanuj trasę dostaw rolnika na dany dzień.
+   * Bez listy zamówień brane są wszystkie wysłane zamówienia rolnika z tego dnia.
+   */
+  async planDeliveryRoute(farmerId: string, date: string, orderIds?: string[]): Promise<DeliveryRoute> {
+    const farmerDoc = await usersCollection.doc(farmerId).get();
+    const origin = parseCoordinates(farmerDoc.get('location.coordinates'));
+
+    if (!origin) {
+      throw new ServiceError('Uzupełnij lokalizację gospodarstwa w profilu, aby zaplanować trasę.', 409);
+    }
+
+    const orders = (orderIds
+      ? await this.getSelectedOrders(farmerId, orderIds)
+      : await this.getShippedOrders(farmerId, date)
+    ).filter(order => order.deliverySlot?.type !== DELIVERY_WINDOW_TYPES.PICKUP);
+
+    const route: DeliveryRoute = {
+      date,
+      origin: {
+        type: 'Point',
+        coordinates: origin,
+        address: farmerDoc.get('location.address') || ''
+      },
+      stops: [],
+      totalDistanceKm: 0,
+      returnDistanceKm: 0,
+      unlocatedOrders: []
+    };
+
+    if (orders.length === 0) {
+      return route;
+    }
+
+    const pointIds = Array.from(new Set(orders.map(order => order.pickupPoint?.id || ''))).filter(Boolean);
+    const buyerIds = Array.from(new Set(orders.map(order => order.buyer)));
+    const productIds = Array.from(new Set(orders.flatMap(order => order.items.map(item => item.product))));
+
+    const docs = await db.getAll(
+      ...pointIds.map(id => pickupPointsCollection.doc(id)),
+      ...buyerIds.map(id => usersCollection.doc(id)),
+      ...productIds.map(id => productsCollection.doc(id))
+    );
+
+    const points = new Map(docs.slice(0, pointIds.length).map(doc => [doc.id, doc]));
+    const buyers = new Map(docs.slice(pointIds.length, pointIds.length + buyerIds.length).map(doc => [doc.id, doc]));
+    const products = new Map(docs.slice(pointIds.length + buyerIds.length).map(doc => [doc.id, doc]));
+
+    // Group orders into stops by destination
+    const stops = new Map<string, RouteStopDraft>();
+
+    orders.forEach(order => {
+      const point = order.pickupPoint && points.get(order.pickupPoint.id);
+      const coordinates = point
+        ? parseCoordinates(point.get('location.coordinates'))
+        : parseCoordinates(order.shippingAddress.coordinates);
+
+      if (!coordinates) {
+        route.unlocatedOrders.push(order._id);
+        return;
+      }
+
+      const key = order.pickupPoint ? `point:${order.pickupPoint.id}` : coordinates.join(',');
+      const buyer = buyers.get(order.buyer);
+
+      const stop: RouteStopDraft = stops.get(key) || {
+        location: {
+          type: 'Point',
+          coordinates,
+          address: point?.get('location.address') || `${order.shippingAddress.street}, ${order.shippingAddress.city}`
+        },
+        address: order.pickupPoint?.address || order.shippingAddress,
+        ...(order.pickupPoint && { pickupPoint: order.pickupPoint.name }),
+        orders: []
+      };
+
+      stop.orders.push({
+        order: order._id,
+        buyer: order.buyer,
+        buyerName: buyer?.get('fullName') || '',
+        ...(buyer?.get('phoneNumber') && { buyerPhone: buyer.get('phoneNumber') }),
+        ...(order.deliverySlot && {
+          deliveryWindow: `${order.deliverySlot.startTime}-${order.deliverySlot.endTime}`
+        }),
+        items: order.items.map(item => ({
+          product: item.product,
+          name: products.get(item.product)?.get('name') || item.product,
+          quantity: item.quantity - (item.refundedQuantity || 0),
+          unit: products.get(item.product)?.get('unit') || ''
+        }))
+      });
+
+      stops.set(key, stop);
+    });
+
+    const drafts = Array.from(stops.values());
+    const planned = planRoute(route.origin, drafts.map(stop => stop.location));
+
+    route.stops = planned.sequence.map((stopIndex, index) => ({
+      sequence: index + 1,
+      ...drafts[stopIndex],
+      distanceFromPreviousKm: planned.legDistancesKm[index]
+    }));
+    route.totalDistanceKm = planned.totalDistanceKm;
+    route.returnDistanceKm = planned.returnDistanceKm;
+
+    return route;
+  }
+
+  /**
+   * Wysłane zamówienia rolnika z danego dnia
+   */
+  private async getShippedOrders(farmerId: string, date: string): Promise<FirestoreOrder[]> {
+    const snapshot = await ordersCollection
+      .where('farmer', '==', farmerId)
+      .where('status', '==', ORDER_STATUSES.SHIPPED)
+      .get();
+
+    return snapshot.docs
+      .map(doc => ({ _id: doc.id, ...doc.data() }) as FirestoreOrder)
+      .filter(order => getOrderDate(order) === date);
+  }
+
+  /**
+   * Zamówienia wskazane przez rolnika - muszą być jego i wysłane
+   */
+  private async getSelectedOrders(farmerId: string, orderIds: string[]): Promise<FirestoreOrder[]> {
+    const orderDocs = await db.getAll(...orderIds.map(id => ordersCollection.doc(id)));
+
+    return orderDocs.map(doc => {
+      const order = { _id: doc.id, ...doc.data() } as FirestoreOrder;
+
+      if (!doc.exists || order.farmer !== farmerId) {
+        throw new ServiceError(`Zamówienie ${doc.id} nie istnieje lub nie należy do Ciebie.`, 404);
+      }
+
+      if (order.status !== ORDER_STATUSES.SHIPPED) {
+        throw new ServiceError(`Zamówienie ${doc.id} nie zostało jeszcze wysłane.`);
+      }
+
+      return order;
+    });
+  }
+}
+
+export const deliveryRouteService = new DeliveryRouteService();
@@ -0,0 +1,91 @@
+// backend/services/deliverySlotService.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { db, resetFirestore } from '../test/firebaseMock';
+import { ORDER_STATUSES } from '../constants';
+import { deliverySlotService } from './deliverySlotService';
+import { orderService, type OrderActor } from './orderService';
+import { convertToDate } from '../../src/shared/utils/firebase';
+
+vi.mock('../firebase', () => import('../test/firebaseMock'));
+
+const buyer: OrderActor = { id: 'buyer-1', roles: ['buyer'] };
+const shippingAddress = { street: 'Polna 1', city: 'Warszawa', postalCode: '00-001', country: 'Polska' };
+
+let windowId: string;
+
+const order = (date = '2026-05-06') => orderService.createOrder('buyer-1', {
+  items: [{ product: 'carrots', quantity: 1 }],
+  shippingAddress,
+  deliverySlots: [{ window: windowId, date }]
+});
+
+beforeEach(async () => {
+  resetFirestore();
+  // Monday morning
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2026-05-04T08:00:00Z'));
+
+  await db.collection('users').doc('buyer-1').set({ fullName: 'Piotr Wiśniewski' });
+  await db.collection('products').doc('carrots').set({
+    name: 'Marchew', category: 'warzywa', unit: 'kg', price: 4.5, quantity: 10, owner: 'farmer-1', status: 'available'
+  });
+
+  // A pickup window keeps the orders free of shipping cost
+  const window = await deliverySlotService.createWindow('farmer-1', {
+    type: 'pickup',
+    dayOfWeek: 3,
+    startTime: '08:00',
+    endTime: '12:00',
+    capacity: 1
+  });
+  windowId = window._id;
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('deliverySlotService slot capacity', () => {
+  it('offers upcoming slots of the window in Polish time', async () => {
+    const slots = await deliverySlotService.getAvailableSlots('farmer-1');
+
+    expect(slots.map(slot => slot.date)).toEqual(['2026-05-06', '2026-05-13']);
+    expect(slots[0]).toMatchObject({ id: `${windowId}_2026-05-06`, capacity: 1, booked: 0, remaining: 1 });
+  });
+
+  it('books the slot and sets the delivery date to its start', async () => {
+    const created = await order();
+
+    expect(created.deliverySlot).toMatchObject({ date: '2026-05-06', startTime: '08:00' });
+    // 08:00 in Warsaw is 06:00 UTC in summer
+    expect(convertToDate(created.deliveryDate)).toEqual(new Date('2026-05-06T06:00:00Z'));
+    expect((await db.collection('slotBookings').doc(`${windowId}_2026-05-06`).get()).data()).toMatchObject({
+      bookedCount: 1,
+      orders: [created._id]
+    });
+    expect((await deliverySlotService.getAvailableSlots('farmer-1')).map(slot => slot.date)).toEqual(['2026-05-13']);
+  });
+
+  it('rejects a booking over the capacity without reserving stock', async () => {
+    await order();
+
+    await expect(order()).rejects.toMatchObject({ status: 409 });
+    expect((await db.collection('products').doc('carrots').get()).get('quantity')).toBe(9);
+  });
+
+  it('releases the slot when the order is cancelled', async () => {
+    const created = await order();
+
+    await orderService.updateOrderStatus(created._id, ORDER_STATUSES.CANCELLED, buyer);
+
+    expect((await db.collection('slotBookings').doc(`${windowId}_2026-05-06`).get()).get('bookedCount')).toBe(0);
+    await expect(order()).resolves.toMatchObject({ deliverySlot: { date: '2026-05-06' } });
+  });
+
+  it('rejects dates that do not match the window or are too close', async () => {
+    await expect(order('2026-05-07')).rejects.toMatchObject({ status: 409 });
+
+    vi.setSystemTime(new Date('2026-05-05T08:00:00Z'));
+    await expect(order()).rejects.toMatchObject({ status: 409 });
+  });
+});
@@ -0,0 +1,435 @@
+// backend/services/deliverySlotService.ts
+import { admin } from '../firebase';
+import {
+  deliveryWindowsCollection,
+  ordersCollection,
+  slotBookingsCollection
+} from '../models/collections';
+import { DELIVERY_SLOT_BOOKING_DAYS, DELIVERY_SLOT_MIN_LEAD_HOURS } from '../constants';
+import { ServiceError } from '../utils/serviceError';
+import { DAY_MS, addDaysToKey, getDayOfWeek, toDateKey, toZonedDate } from '../utils/dateKeys';
+import type {
+  DeliverySlot,
+  DeliverySlotSelection,
+  DeliveryWindowType,
+  FirestoreDeliveryWindow,
+  FirestoreOrder,
+  FirestoreSlotBooking
+} from '../types';
+
+const db = admin.firestore();
+
+/**
+ * Start of a slot - date and time are Polish local time, whatever the server's time zone
+ */
+const getSlotStart = (date: string, startTime: string): Date => toZonedDate(date, startTime);
+
+const getSlotId = (windowId: string, date: string): string => `${windowId}_${date}`;
+
+export interface DeliveryWindowRequest {
+  type: DeliveryWindowType;
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+  capacity: number;
+  note?: string;
+  isActive?: boolean;
+}
+
+/**
+ * Reserved slot as stored on an order
+ */
+export type OrderDeliverySlotData = NonNullable<FirestoreOrder['deliverySlot']>;
+
+/**
+ * Slot checked inside the order transaction, ready to be booked
+ */
+export interface SlotReservation {
+  farmer: string;
+  slot: OrderDeliverySlotData;
+}
+
+/**
+ * Slot of the farmer's schedule with its booked orders
+ */
+export interface ScheduledSlot extends DeliverySlot {
+  orders: Pick<FirestoreOrder, '_id' | 'buyer' | 'status' | 'items' | 'totalPrice' | 'shippingAddress'>[];
+}
+
+/**
+ * Serwis okien dostaw i odbiorów w gospodarstwie.
+ * Rolnik publikuje cotygodniowe okna z limitem zamówień; termin to okno
+ * w konkretnym dniu. Rezerwacje terminów (slotBookings) zapisywane są
+ * w tej samej transakcji co zamówienie, więc limit nie zostanie przekroczony.
+ */
+class DeliverySlotService {
+  /**
+   * Okna rolnika (wszystkie, także nieaktywne)
+   */
+  async getFarmerWindows(farmerId: string): Promise<FirestoreDeliveryWindow[]> {
+    const snapshot = await deliveryWindowsCollection.where('farmer', '==', farmerId).get();
+
+    return snapshot.docs
+      .map(doc => this.toWindow(doc))
+      .sort((a, b) => a.dayOfWeek - b.dayOfWeek || a.startTime.localeCompare(b.startTime));
+  }
+
+  /**
+   * Pobierz okno po ID
+   */
+  async getWindow(windowId: string): Promise<FirestoreDeliveryWindow> {
+    const windowDoc = await deliveryWindowsCollection.doc(windowId).get();
+
+    if (!windowDoc.exists) {
+      throw new ServiceError('Okno dostawy nie znalezione.', 404);
+    }
+
+    return this.toWindow(windowDoc);
+  }
+
+  /**
+   * Utwórz okno dostawy lub odbioru
+   */
+  async createWindow(farmerId: string, request: DeliveryWindowRequest): Promise<FirestoreDeliveryWindow> {
+    const now = admin.firestore.Timestamp.now();
+    const windowRef = deliveryWindowsCollection.doc();
+
+    await windowRef.set({
+      farmer: farmerId,
+      type: request.type,
+      dayOfWeek: request.dayOfWeek,
+      startTime: request.startTime,
+      endTime: request.endTime,
+      capacity: request.capacity,
+      ...(request.note && { note: request.note }),
+      isActive: request.isActive !== false,
+      createdAt: now,
+      updatedAt: now
+    });
+
+    return this.getWindow(windowRef.id);
+  }
+
+  /**
+   * Zmień okno. Zmiana dotyczy przyszłych rezerwacji - zarezerwowane
+   * terminy pozostają w zamówieniach bez zmian.
+   */
+  async updateWindow(
+    window: FirestoreDeliveryWindow,
+    request: Partial<DeliveryWindowRequest>
+  ): Promise<FirestoreDeliveryWindow> {
+    const startTime = request.startTime ?? window.startTime;
+    const endTime = request.endTime ?? window.endTime;
+
+    if (startTime >= endTime) {
+      throw new ServiceError('Godzina zakończenia musi być późniejsza niż godzina rozpoczęcia.');
+    }
+
+    const update: Record<string, unknown> = {
+      updatedAt: admin.firestore.Timestamp.now()
+    };
+
+    (['type', 'dayOfWeek', 'startTime', 'endTime', 'capacity', 'isActive'] as const).forEach(field => {
+      if (request[field] !== undefined) {
+        update[field] = request[field];
+      }
+    });
+
+    if (request.note !== undefined) {
+      update.note = request.note || admin.firestore.FieldValue.delete();
+    }
+
+    await deliveryWindowsCollection.doc(window._id).update(update);
+    return this.getWindow(window._id);
+  }
+
+  /**
+   * Dezaktywuj okno - nie będzie oferowane przy nowych zamówieniach
+   */
+  async deactivateWindow(window: FirestoreDeliveryWindow): Promise<FirestoreDeliveryWindow> {
+    return this.updateWindow(window, { isActive: false });
+  }
+
+  /**
+   * Terminy rolnika z wolnymi miejscami, które można zarezerwować
+   */
+  async getAvailableSlots(farmerId: string, type?: DeliveryWindowType): Promise<DeliverySlot[]> {
+    const windows = (await this.getFarmerWindows(farmerId))
+      .filter(window => window.isActive && (!type || window.type === type));
+
+    const slots = this.expandSlots(windows, new Date(), DELIVERY_SLOT_BOOKING_DAYS)
+      .filter(slot => this.isBookable(slot.date, slot.startTime));
+
+    const bookings = await this.getBookings(slots.map(slot => slot.id));
+
+    return slots
+      .map(slot => this.withBookings(slot, bookings.get(slot.id)))
+      .filter(slot => slot.remaining > 0);
+  }
+
+  /**
+   * Harmonogram rolnika - terminy w okresie wraz z zamówieniami
+   */
+  async getFarmerSchedule(farmerId: string, from: Date, days: number): Promise<ScheduledSlot[]> {
+    const windows = await this.getFarmerWindows(farmerId);
+    const fromKey = toDateKey(from);
+    const toKey = addDaysToKey(fromKey, days - 1);
+
+    // Bookings may belong to windows that were changed or deactivated since
+    const bookingsSnapshot = await slotBookingsCollection
+      .where('farmer', '==', farmerId)
+      .get();
+    const bookings = bookingsSnapshot.docs
+      .map(doc => this.toBooking(doc))
+      .filter(booking => booking.date >= fromKey && booking.date <= toKey && booking.orders?.length > 0);
+
+    const slots = new Map(
+      this.expandSlots(windows.filter(window => window.isActive), from, days)
+        .map(slot => [slot.id, slot])
+    );
+    const windowsById = new Map(windows.map(window => [window._id, window]));
+
+    bookings.forEach(booking => {
+      if (slots.has(booking._id)) return;
+
+      const window = windowsById.get(booking.window);
+      slots.set(booking._id, {
+        id: booking._id,
+        window: booking.window,
+        farmer: farmerId,
+        type: booking.type,
+        date: booking.date,
+        startTime: window?.startTime || '',
+        endTime: window?.endTime || '',
+        capacity: window?.capacity || 0,
+        booked: 0,
+        remaining: 0,
+        ...(window?.note && { note: window.note })
+      });
+    });
+
+    const bookingsById = new Map(bookings.map(booking => [booking._id, booking]));
+    const orderIds = bookings.flatMap(booking => booking.orders);
+    const orderDocs = orderIds.length > 0
+      ? await db.getAll(...orderIds.map(id => ordersCollection.doc(id)))
+      : [];
+    const orders = new Map(
+      orderDocs
+        .filter(doc => doc.exists)
+        .map(doc => [doc.id, { _id: doc.id, ...doc.data() } as FirestoreOrder])
+    );
+
+    return Array.from(slots.values())
+      .sort((a, b) => a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime))
+      .map(slot => {
+        const booking = bookingsById.get(slot.id);
+
+        return {
+          ...this.withBookings(slot, booking),
+          orders: (booking?.orders || [])
+            .map(id => orders.get(id))
+            .filter((order): order is FirestoreOrder => Boolean(order))
+            .map(order => ({
+              _id: order._id,
+              buyer: order.buyer,
+              status: order.status,
+              items: order.items,
+              totalPrice: order.totalPrice,
+              shippingAddress: order.shippingAddress
+            }))
+        };
+      });
+  }
+
+  /**
+   * Sprawdź wybrane terminy w transakcji zamówienia (tylko odczyty).
+   * Każdy rolnik zamówienia może mieć co najwyżej jeden termin.
+   */
+  async checkSlotsInTransaction(
+    transaction: FirebaseFirestore.Transaction,
+    selections: DeliverySlotSelection[],
+    farmers: string[]
+  ): Promise<SlotReservation[]> {
+    if (selections.length === 0) {
+      return [];
+    }
+
+    const windowDocs = await transaction.getAll(
+      ...selections.map(selection => deliveryWindowsCollection.doc(selection.window))
+    );
+    const bookingDocs = await transaction.getAll(
+      ...selections.map(selection => slotBookingsCollection.doc(getSlotId(selection.window, selection.date)))
+    );
+
+    const reservedFarmers = new Set<string>();
+
+    return selections.map((selection, index) => {
+      const windowDoc = windowDocs[index];
+
+      if (!windowDoc.exists) {
+        throw new ServiceError('Wybrane okno dostawy nie istnieje.', 404);
+      }
+
+      const window = this.toWindow(windowDoc);
+
+      if (!farmers.includes(window.farmer)) {
+        throw new ServiceError('Wybrany termin należy do rolnika, którego produktów nie ma w zamówieniu.');
+      }
+
+      if (reservedFarmers.has(window.farmer)) {
+        throw new ServiceError('Dla każdego rolnika można wybrać tylko jeden termin.');
+      }
+      reservedFarmers.add(window.farmer);
+
+      if (
+        !window.isActive ||
+        getDayOfWeek(selection.date) !== window.dayOfWeek ||
+        !this.isBookable(selection.date, window.startTime)
+      ) {
+        throw new ServiceError('Wybrany termin jest niedostępny.', 409);
+      }
+
+      const booked = Number(bookingDocs[index].get('bookedCount')) || 0;
+
+      if (booked >= window.capacity) {
+        throw new ServiceError(
+          `Termin ${selection.date} ${window.startTime}-${window.endTime} jest już w pełni zarezerwowany.`,
+          409
+        );
+      }
+
+      return {
+        farmer: window.farmer,
+        slot: {
+          id: getSlotId(window._id, selection.date),
+          window: window._id,
+          type: window.type,
+          date: selection.date,
+          startTime: window.startTime,
+          endTime: window.endTime
+        }
+      };
+    });
+  }
+
+  /**
+   * Zarezerwuj termin dla zamówienia (tylko zapis)
+   */
+  reserveSlot(transaction: FirebaseFirestore.Transaction, reservation: SlotReservation, orderId: string): void {
+    transaction.set(slotBookingsCollection.doc(reservation.slot.id), {
+      farmer: reservation.farmer,
+      window: reservation.slot.window,
+      type: reservation.slot.type,
+      date: reservation.slot.date,
+      bookedCount: admin.firestore.FieldValue.increment(1),
+      orders: admin.firestore.FieldValue.arrayUnion(orderId),
+      updatedAt: admin.firestore.Timestamp.now()
+    }, { merge: true });
+  }
+
+  /**
+   * Zwolnij termin anulowanego zamówienia (tylko zapis)
+   */
+  releaseSlot(transaction: FirebaseFirestore.Transaction, order: FirestoreOrder): void {
+    if (!order.deliverySlot) return;
+
+    transaction.update(slotBookingsCollection.doc(order.deliverySlot.id), {
+      bookedCount: admin.firestore.FieldValue.increment(-1),
+      orders: admin.firestore.FieldValue.arrayRemove(order._id),
+      updatedAt: admin.firestore.Timestamp.now()
+    });
+  }
+
+  /**
+   * Start of the reserved slot, used as the order's delivery date
+   */
+  getSlotStartDate(slot: OrderDeliverySlotData): Date {
+    return getSlotStart(slot.date, slot.startTime);
+  }
+
+  /**
+   * Slots of the windows for each day in the period
+   */
+  private expandSlots(windows: FirestoreDeliveryWindow[], from: Date, days: number): DeliverySlot[] {
+    const slots: DeliverySlot[] = [];
+    const fromKey = toDateKey(from);
+
+    for (let day = 0; day < days; day++) {
+      const date = addDaysToKey(fromKey, day);
+      const dayOfWeek = getDayOfWeek(date);
+
+      windows
+        .filter(window => window.dayOfWeek === dayOfWeek)
+        .sort((a, b) => a.startTime.localeCompare(b.startTime))
+        .forEach(window => {
+          slots.push({
+            id: getSlotId(window._id, date),
+            window: window._id,
+            farmer: window.farmer,
+            type: window.type,
+            date,
+            startTime: window.startTime,
+            endTime: window.endTime,
+            capacity: window.capacity,
+            booked: 0,
+            remaining: window.capacity,
+            ...(window.note && { note: window.note })
+          });
+        });
+    }
+
+    return slots;
+  }
+
+  private withBookings(slot: DeliverySlot, booking?: FirestoreSlotBooking): DeliverySlot {
+    const booked = booking?.bookedCount || 0;
+
+    return {
+      ...slot,
+      booked,
+      remaining: Math.max(0, slot.capacity - booked)
+    };
+  }
+
+  /**
+   * Whether a slot is far enough ahead and within the booking horizon
+   */
+  private isBookable(date: string, startTime: string): boolean {
+    const start = getSlotStart(date, startTime).getTime();
+    const now = Date.now();
+
+    return !isNaN(start) &&
+      start >= now + DELIVERY_SLOT_MIN_LEAD_HOURS * 60 * 60 * 1000 &&
+      start <= now + (DELIVERY_SLOT_BOOKING_DAYS + 1) * DAY_MS;
+  }
+
+  private async getBookings(slotIds: string[]): Promise<Map<string, FirestoreSlotBooking>> {
+    if (slotIds.length === 0) {
+      return new Map();
+    }
+
+    const bookingDocs = await db.getAll(...slotIds.map(id => slotBookingsCollection.doc(id)));
+
+    return new Map(
+      bookingDocs
+        .filter(doc => doc.exists)
+        .map(doc => [doc.id, this.toBooking(doc)])
+    );
+  }
+
+  private toWindow(doc: FirebaseFirestore.DocumentSnapshot): FirestoreDeliveryWindow {
+    return {
+      _id: doc.id,
+      ...doc.data()
+    } as FirestoreDeliveryWindow;
+  }
+
+  private toBooking(doc: FirebaseFirestore.DocumentSnapshot): FirestoreSlotBooking {
+    return {
+      _id: doc.id,
+      ...doc.data()
+    } as FirestoreSlotBooking;
+  }
+}
+
+export const deliverySlotService = new DeliverySlotService();
@@ -107,6 +107,189 @@ class EmailService {
     
     return await this.transporter.sendMail(mailOptions);
   }
+
+  /**
+   * Send refund confirmation email to the buyer
+   */
+  async sendRefundEmail({ to, name, orderId, productName, quantity, unit, amount, reason }: {
+    to: string;
+    name: string;
+    orderId: string;
+    productName: string;
+    quantity: number;
+    unit: string;
+    amount: string;
+    reason?: string;
+  }) {
+    const mailOptions = {
+      from: `"EkoDirekt" <${config.email.from}>`,
+      to,
+      subject: 'Zwrot środków za zamówienie - EkoDirekt',
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <h2 style="color: #2E7D32;">Witaj ${name}!</h2>
+          <p>Rolnik nie może zrealizować części Twojego zamówienia <strong>${orderId}</strong>, dlatego zwróciliśmy środki za poniższą pozycję:</p>
+          <p style="margin: 20px 0;">
+            <strong>${productName}</strong> - ${quantity} ${unit}<br>
+            Kwota zwrotu: <strong>${amount}</strong>
+          </p>
+          ${reason ? `<p>Powód: ${reason}</p>` : ''}
+          <p>Środki wrócą na Twoje konto w ciągu kilku dni roboczych, w zależności od metody płatności.</p>
+          <p>Pozdrawiamy,<br>Zespół EkoDirekt</p>
+        </div>
+      `
+    };
+
+    return await this.transporter.sendMail(mailOptions);
+  }
+
+  /**
+   * Send summary of an order created from a subscription (with substitutions)
+   */
+  async sendSubscriptionOrderEmail({ to, name, orderId, paymentUrl, deliveryDate, substitutions, missing }: {
+    to: string;
+    name: string;
+    orderId: string;
+    paymentUrl: string;
+    deliveryDate: string;
+    substitutions: { original: string; substitute: string }[];
+    missing: string[];
+  }) {
+    const substitutionList = substitutions
+      .map(({ original, substitute }) => `<li>${original} &rarr; <strong>${substitute}</strong></li>`)
+      .join('');
+    const missingList = missing.map(productName => `<li>${productName}</li>`).join('');
+
+    const mailOptions = {
+      from: `"EkoDirekt" <${config.email.from}>`,
+      to,
+      subject: 'Twoja paczka z subskrypcji - EkoDirekt',
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <h2 style="color: #2E7D32;">Witaj ${name}!</h2>
+          <p>Utworzyliśmy zamówienie <strong>${orderId}</strong> z Twojej subskrypcji z dostawą <strong>${deliveryDate}</strong>.</p>
+          ${substitutionList ? `<p>Niektóre produkty są niedostępne, dlatego rolnik zastąpił je podobnymi:</p><ul>${substitutionList}</ul>` : ''}
+          ${missingList ? `<p>Tych produktów nie udało się zastąpić i nie ma ich w tej paczce:</p><ul>${missingList}</ul>` : ''}
+          <p>Zamówienie czeka na płatność:</p>
+          <p style="margin: 20px 0;">
+            <a href="${paymentUrl}" style="background-color: #2E7D32; color: white; text-decoration: none; padding: 10px 20px; border-radius: 4px; display: inline-block;">
+              Opłać zamówienie
+            </a>
+          </p>
+          <p>Pozdrawiamy,<br>Zespół EkoDirekt</p>
+        </div>
+      `
+    };
+
+    return await this.transporter.sendMail(mailOptions);
+  }
+
+  /**
+   * Notify that a subscription delivery could not be ordered
+   */
+  async sendSubscriptionCycleFailedEmail({ to, name, deliveryDate, reason }: {
+    to: string;
+    name: string;
+    deliveryDate: string;
+    reason: string;
+  }) {
+    const mailOptions = {
+      from: `"EkoDirekt" <${config.email.from}>`,
+      to,
+      subject: 'Nie udało się przygotować paczki z subskrypcji - EkoDirekt',
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <h2 style="color: #2E7D32;">Witaj ${name}!</h2>
+          <p>Niestety nie udało się utworzyć zamówienia z Twojej subskrypcji z dostawą <strong>${deliveryDate}</strong>.</p>
+          <p>Powód: ${reason}</p>
+          <p>Subskrypcja pozostaje aktywna - kolejna paczka zostanie przygotowana zgodnie z harmonogramem.</p>
+          <p>Pozdrawiamy,<br>Zespół EkoDirekt</p>
+        </div>
+      `
+    };
+
+    return await this.transporter.sendMail(mailOptions);
+  }
+
+  /**
+   * Notify the author that their review was rejected by moderation
+   */
+  async sendReviewRejectedEmail({ to, name, subject, reason }: {
+    to: string;
+    name: string;
+    subject: string;
+    reason?: string;
+  }) {
+    const mailOptions = {
+      from: `"EkoDirekt" <${config.email.from}>`,
+      to,
+      subject: 'Twoja opinia nie została opublikowana - EkoDirekt',
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <h2 style="color: #2E7D32;">Witaj ${name}!</h2>
+          <p>Twoja opinia (<strong>${subject}</strong>) nie przeszła moderacji i nie będzie widoczna w serwisie.</p>
+          ${reason ? `<p>Powód: ${reason}</p>` : ''}
+          <p>Możesz ją poprawić - zmieniona opinia zostanie ponownie sprawdzona przez moderatora.</p>
+          <p>Pozdrawiamy,<br>Zespół EkoDirekt</p>
+        </div>
+      `
+    };
+
+    return await this.transporter.sendMail(mailOptions);
+  }
+
+  /**
+   * Remind the farmer that a certificate expires soon
+   */
+  async sendCertificateExpiryReminderEmail({ to, name, certificateName, validUntil, daysLeft }: {
+    to: string;
+    name: string;
+    certificateName: string;
+    validUntil: string;
+    daysLeft: number;
+  }) {
+    const mailOptions = {
+      from: `"EkoDirekt" <${config.email.from}>`,
+      to,
+      subject: 'Twój certyfikat wkrótce wygaśnie - EkoDirekt',
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <h2 style="color: #2E7D32;">Witaj ${name}!</h2>
+          <p>Certyfikat <strong>${certificateName}</strong> jest ważny do <strong>${validUntil}</strong> (pozostało dni: ${daysLeft}).</p>
+          <p>Po tym terminie Twoje produkty stracą oznaczenie certyfikatu. Dodaj odnowiony certyfikat w panelu rolnika - po weryfikacji oznaczenie wróci automatycznie.</p>
+          <p>Pozdrawiamy,<br>Zespół EkoDirekt</p>
+        </div>
+      `
+    };
+
+    return await this.transporter.sendMail(mailOptions);
+  }
+
+  /**
+   * Notify the farmer that their reply to a review was rejected by moderation
+   */
+  async sendReviewReplyRejectedEmail({ to, name, reason }: {
+    to: string;
+    name: string;
+    reason?: string;
+  }) {
+    const mailOptions = {
+      from: `"EkoDirekt" <${config.email.from}>`,
+      to,
+      subject: 'Twoja odpowiedź na opinię nie została opublikowana - EkoDirekt',
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <h2 style="color: #2E7D32;">Witaj ${name}!</h2>
+          <p>Twoja odpowiedź na opinię klienta nie przeszła moderacji i nie będzie widoczna w serwisie.</p>
+          ${reason ? `<p>Powód: ${reason}</p>` : ''}
+          <p>Możesz ją poprawić - zmieniona odpowiedź zostanie ponownie sprawdzona przez moderatora.</p>
+          <p>Pozdrawiamy,<br>Zespół EkoDirekt</p>
+        </div>
+      `
+    };
+
+    return await this.transporter.sendMail(mailOptions);
+  }
 }
 
 export const emailService = new EmailService();
\ No newline at end of file
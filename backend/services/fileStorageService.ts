@@ -35,48 +35,90 @@ export const uploadImageToStorage = async (
   }
 
   try {
-    // Generate a unique filename
-    const filename = generateUniqueFilename(file.originalname);
-    const filepath = path.join(os.tmpdir(), filename);
-
     // Process image with Sharp to optimize it
     const processedImage = await processImage(file.buffer);
-    
-    // Write the file to local temp storage
-    await writeFile(filepath, processedImage);
-    
-    // Destination path in Firebase Storage
-    const destination = `${folder}/${filename}`;
-    
-    // Upload file to Firebase Storage
-    await bucket.upload(filepath, {
-      destination,
-      metadata: {
-        contentType: file.mimetype,
-        metadata: {
-          originalname: file.originalname
-        }
-      }
-    });
-    
-    // Delete the temp file
-    await unlink(filepath);
-    
-    // Make the file publicly accessible
-    const fileRef = bucket.file(destination);
-    await fileRef.makePublic();
-    
-    // Get the file's public URL
-    const bucketName = bucket.name;
-    const publicUrl = `https://storage.googleapis.com/${bucketName}/${destination}`;
-    
-    return publicUrl;
+
+    return await saveFileToStorage(file, processedImage, folder);
   } catch (error) {
     console.error('Error uploading image to storage:', error);
     throw new Error('Failed to upload image');
   }
 };
 
+/**
+ * Upload a document (PDF or image, e.g. a certificate scan) to Firebase Storage
+ * @param file File object from Multer
+ * @param folder Folder to store the file in (e.g., 'certificates')
+ * @returns URL of the uploaded file
+ */
+export const uploadDocumentToStorage = async (
+  file: Express.Multer.File,
+  folder: string = 'documents'
+): Promise<string> => {
+  // Images go through the same optimization as other uploads
+  if (file.mimetype.startsWith('image/')) {
+    return await uploadImageToStorage(file, folder);
+  }
+
+  if (!bucket) {
+    throw new Error('Storage bucket not configured. File upload is not available.');
+  }
+
+  try {
+    return await saveFileToStorage(file, file.buffer, folder);
+  } catch (error) {
+    console.error('Error uploading document to storage:', error);
+    throw new Error('Failed to upload document');
+  }
+};
+
+/**
+ * Save file contents to Firebase Storage and make the file public
+ * @param file File object from Multer (name and content type)
+ * @param contents File contents to upload
+ * @param folder Folder to store the file in
+ * @returns URL of the uploaded file
+ */
+const saveFileToStorage = async (
+  file: Express.Multer.File,
+  contents: Buffer,
+  folder: string
+): Promise<string> => {
+  // Generate a unique filename
+  const filename = generateUniqueFilename(file.originalname);
+  const filepath = path.join(os.tmpdir(), filename);
+
+  // Write the file to local temp storage
+  await writeFile(filepath, contents);
+  
+  // Destination path in Firebase Storage
+  const destination = `${folder}/${filename}`;
+  
+  // Upload file to Firebase Storage
+  await bucket.upload(filepath, {
+    destination,
+    metadata: {
+      contentType: file.mimetype,
+      metadata: {
+        originalname: file.originalname
+      }
+    }
+  });
+  
+  // Delete the temp file
+  await unlink(filepath);
+  
+  // Make the file publicly accessible
+  const fileRef = bucket.file(destination);
+  await fileRef.makePublic();
+  
+  // Get the file's public URL
+  const bucketName = bucket.name;
+  const publicUrl = `https://storage.googleapis.com/${bucketName}/${destination}`;
+  
+  return publicUrl;
+};
+
 /**
  * Process image to optimize it before uploading
  * @param buffer Image buffer
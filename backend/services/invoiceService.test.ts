@@ -0,0 +1,94 @@
+// backend/services/invoiceService.test.ts
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { db, resetFirestore } from '../test/firebaseMock';
+import { ORDER_STATUSES } from '../constants';
+import { invoiceService } from './invoiceService';
+import type { FirestoreOrder } from '../types';
+
+vi.mock('../firebase', () => import('../test/firebaseMock'));
+
+const year = new Date().getFullYear();
+
+const createOrder = (id: string, overrides: Partial<FirestoreOrder> = {}): FirestoreOrder => ({
+  _id: id,
+  buyer: 'buyer-1',
+  farmer: 'farmer-1',
+  farmers: ['farmer-1'],
+  items: [
+    { product: 'apples', quantity: 2.5, priceAtPurchase: 6.99 },
+    { product: 'juice', quantity: 2, priceAtPurchase: 10.8 }
+  ],
+  totalPrice: 39.08,
+  status: ORDER_STATUSES.PAID,
+  statusHistory: [{ status: ORDER_STATUSES.PAID, timestamp: new Date('2026-03-02T10:00:00Z'), updatedBy: 'system' }],
+  shippingAddress: { street: 'Polna 1', city: 'Warszawa', postalCode: '00-001', country: 'Polska' },
+  paymentStatus: 'completed',
+  isReviewed: false,
+  createdAt: new Date('2026-03-01T10:00:00Z'),
+  updatedAt: new Date('2026-03-02T10:00:00Z'),
+  ...overrides
+});
+
+beforeEach(async () => {
+  resetFirestore();
+  await db.collection('users').doc('farmer-1').set({
+    fullName: 'Jan Kowalski',
+    companyName: 'Gospodarstwo Kowalski',
+    nip: '1234567890',
+    location: { address: 'Zielona 5, 05-600 Grójec' }
+  });
+  await db.collection('users').doc('farmer-2').set({ fullName: 'Anna Nowak' });
+  await db.collection('users').doc('buyer-1').set({ fullName: 'Piotr Wiśniewski', email: 'piotr@example.com' });
+  await db.collection('products').doc('apples').set({ name: 'Jabłka', category: 'owoce', unit: 'kg' });
+  await db.collection('products').doc('juice').set({ name: 'Sok jabłkowy', category: 'napoje', unit: 'l' });
+});
+
+describe('invoiceService.getOrCreateInvoice', () => {
+  it('issues an invoice with net and VAT amounts per rate', async () => {
+    const invoice = await invoiceService.getOrCreateInvoice(createOrder('order-1'));
+
+    expect(invoice).toMatchObject({
+      _id: 'order-1',
+      number: `FV/${year}/0001`,
+      seller: { userId: 'farmer-1', name: 'Gospodarstwo Kowalski', nip: '1234567890' },
+      buyer: { userId: 'buyer-1', name: 'Piotr Wiśniewski', email: 'piotr@example.com' },
+      totalGross: 39.08,
+      totalNet: 36.65,
+      totalVat: 2.43
+    });
+    expect(invoice.vatSummary).toEqual([
+      { vatRate: 8, netAmount: 20, vatAmount: 1.6, grossAmount: 21.6 },
+      { vatRate: 5, netAmount: 16.65, vatAmount: 0.83, grossAmount: 17.48 }
+    ]);
+  });
+
+  it('numbers invoices per seller and year', async () => {
+    await invoiceService.getOrCreateInvoice(createOrder('order-1'));
+    const second = await invoiceService.getOrCreateInvoice(createOrder('order-2'));
+    const otherSeller = await invoiceService.getOrCreateInvoice(
+      createOrder('order-3', { farmer: 'farmer-2', farmers: ['farmer-2'] })
+    );
+
+    expect(second.number).toBe(`FV/${year}/0002`);
+    expect(otherSeller.number).toBe(`FV/${year}/0001`);
+  });
+
+  it('returns an issued invoice unchanged', async () => {
+    const issued = await invoiceService.getOrCreateInvoice(createOrder('order-1'));
+    const again = await invoiceService.getOrCreateInvoice(
+      createOrder('order-1', { items: [{ product: 'apples', quantity: 1, priceAtPurchase: 6.99 }] })
+    );
+
+    expect(again).toEqual(issued);
+    expect((await db.collection('invoiceCounters').doc(`farmer-1_${year}`).get()).get('lastNumber')).toBe(1);
+  });
+
+  it('is not issued for unpaid or multi-farmer orders', async () => {
+    await expect(
+      invoiceService.getOrCreateInvoice(createOrder('order-1', { status: ORDER_STATUSES.PENDING }))
+    ).rejects.toMatchObject({ status: 409 });
+    await expect(
+      invoiceService.getOrCreateInvoice(createOrder('order-2', { subOrders: ['order-2-a', 'order-2-b'] }))
+    ).rejects.toMatchObject({ status: 400 });
+  });
+});
@@ -0,0 +1,387 @@
+// backend/services/invoiceService.ts
+import { admin } from '../firebase';
+import {
+  invoiceCorrectionsCollection,
+  invoiceCountersCollection,
+  invoicesCollection,
+  ordersCollection,
+  productsCollection,
+  refundsCollection,
+  usersCollection
+} from '../models/collections';
+import { DEFAULT_VAT_RATE, ORDER_STATUSES, SHIPPING_VAT_RATE, VAT_RATES } from '../constants';
+import { APP_SETTINGS } from '../../src/shared/constants';
+import { ServiceError } from '../utils/serviceError';
+import { getBillableQuantity, getRemainingShippingCost, roundPrice } from '../utils/orderTotals';
+import type {
+  FirestoreInvoice,
+  FirestoreInvoiceCorrection,
+  FirestoreOrder,
+  InvoiceAmounts,
+  InvoiceLine,
+  InvoiceParty,
+  InvoiceVatSummary
+} from '../types';
+
+const db = admin.firestore();
+
+/**
+ * Price an invoice line - order prices are gross, net and VAT are derived
+ */
+const priceLine = (line: Omit<InvoiceLine, 'netAmount' | 'vatAmount' | 'grossAmount'>): InvoiceLine => {
+  const grossAmount = roundPrice(line.unitPriceGross * line.quantity);
+  const netAmount = roundPrice(grossAmount / (1 + line.vatRate / 100));
+
+  return {
+    ...line,
+    netAmount,
+    vatAmount: roundPrice(grossAmount - netAmount),
+    grossAmount
+  };
+};
+
+/**
+ * Invoice line of the shipping cost
+ */
+const shippingLine = (shippingCost: number): InvoiceLine => priceLine({
+  name: 'Dostawa',
+  category: 'dostawa',
+  quantity: 1,
+  unit: 'usł.',
+  unitPriceGross: shippingCost,
+  vatRate: SHIPPING_VAT_RATE
+});
+
+/**
+ * Serwis faktur VAT wystawianych przez rolnika dla kupującego.
+ * Jedna faktura na zamówienie (ID dokumentu = ID zamówienia), numeracja
+ * ciągła w obrębie sprzedawcy i roku: FV/2025/0001.
+ * Wystawiona faktura nie zmienia się - zwroty dokumentuje faktura
+ * korygująca z własną numeracją (FK/2025/0001).
+ */
+class InvoiceService {
+  /**
+   * Pobierz fakturę zamówienia, wystawiając ją przy pierwszym odczycie
+   */
+  async getOrCreateInvoice(order: FirestoreOrder): Promise<FirestoreInvoice> {
+    if (order.subOrders && order.subOrders.length > 0) {
+      throw new ServiceError(
+        'Zamówienie obejmuje kilku rolników - faktury są wystawiane do zamówień cząstkowych.',
+        400
+      );
+    }
+
+    // An issued invoice stays available after the order is cancelled and corrected
+    const existing = await invoicesCollection.doc(order._id).get();
+    if (existing.exists) {
+      return this.toInvoice(existing);
+    }
+
+    if (order.status === ORDER_STATUSES.PENDING || order.status === ORDER_STATUSES.CANCELLED) {
+      throw new ServiceError('Faktura jest dostępna tylko dla opłaconych zamówień.', 409);
+    }
+
+    const farmerId = order.farmer || order.farmers?.[0];
+    if (!farmerId) {
+      throw new ServiceError('Zamówienie nie ma przypisanego sprzedawcy.', 409);
+    }
+
+    const [seller, buyer, lines] = await Promise.all([
+      this.getParty(farmerId),
+      this.getParty(order.buyer),
+      this.buildLines(order)
+    ]);
+
+    const amounts = this.calculateAmounts(lines);
+    const saleDate = this.getSaleDate(order);
+    const year = new Date().getFullYear();
+
+    const invoiceRef = invoicesCollection.doc(order._id);
+    const counterRef = invoiceCountersCollection.doc(`${farmerId}_${year}`);
+
+    await db.runTransaction(async (transaction) => {
+      const [invoiceDoc, counterDoc] = await transaction.getAll(invoiceRef, counterRef);
+
+      // Issued concurrently by another request
+      if (invoiceDoc.exists) return;
+
+      const sequence = (Number(counterDoc.get('lastNumber')) || 0) + 1;
+      const now = admin.firestore.Timestamp.now();
+
+      transaction.set(counterRef, {
+        farmer: farmerId,
+        year,
+        lastNumber: sequence,
+        updatedAt: now
+      });
+
+      transaction.set(invoiceRef, {
+        number: `FV/${year}/${String(sequence).padStart(4, '0')}`,
+        sequence,
+        year,
+        order: order._id,
+        seller,
+        buyer,
+        ...amounts,
+        platformFee: {
+          percentage: APP_SETTINGS.PLATFORM_FEE_PERCENTAGE,
+          amount: roundPrice(amounts.totalGross * APP_SETTINGS.PLATFORM_FEE_PERCENTAGE / 100)
+        },
+        saleDate,
+        issueDate: now,
+        createdAt: now
+      });
+    });
+
+    return this.toInvoice(await invoiceRef.get());
+  }
+
+  /**
+   * Wystaw fakturę korygującą po zwrocie (ID dokumentu = ID zwrotu, więc
+   * ponowne wywołanie dla tego samego zwrotu nie wystawia drugiej korekty).
+   * Korekta wskazuje korygowaną fakturę i pokazuje pozycje przed i po korekcie;
+   * kolejna korekta tej samej faktury zaczyna od stanu po poprzedniej.
+   * Zamówienie bez wystawionej faktury nie wymaga korekty - faktura wystawiona
+   * później obejmie już tylko niezwrócone ilości.
+   * @returns null when the order has no invoice
+   */
+  async issueCorrection(orderId: string, refundId: string): Promise<FirestoreInvoiceCorrection | null> {
+    const correctionRef = invoiceCorrectionsCollection.doc(refundId);
+    const invoiceRef = invoicesCollection.doc(orderId);
+    const year = new Date().getFullYear();
+
+    await db.runTransaction(async (transaction) => {
+      const [correctionDoc, invoiceDoc, orderDoc, refundDoc] = await transaction.getAll(
+        correctionRef,
+        invoiceRef,
+        ordersCollection.doc(orderId),
+        refundsCollection.doc(refundId)
+      );
+
+      if (correctionDoc.exists || !invoiceDoc.exists || !orderDoc.exists) return;
+
+      const invoice = this.toInvoice(invoiceDoc);
+      const order = { _id: orderDoc.id, ...orderDoc.data() } as FirestoreOrder;
+      const counterRef = invoiceCountersCollection.doc(`${invoice.seller.userId}_${year}_FK`);
+      const [counterDoc, previousCorrections] = await Promise.all([
+        transaction.get(counterRef),
+        transaction.get(invoiceCorrectionsCollection.where('invoice', '==', invoice._id))
+      ]);
+
+      const latest = this.sortCorrections(previousCorrections.docs.map(doc => this.toCorrection(doc))).pop();
+      const before = latest ? latest.after : this.getAmounts(invoice);
+      // A cancelled order is corrected to zero, otherwise to the quantities still billed
+      const after = this.calculateAmounts(
+        order.status === ORDER_STATUSES.CANCELLED ? [] : this.correctLines(before.lines, order)
+      );
+
+      const sequence = (Number(counterDoc.get('lastNumber')) || 0) + 1;
+      const now = admin.firestore.Timestamp.now();
+
+      transaction.set(counterRef, {
+        farmer: invoice.seller.userId,
+        year,
+        series: 'FK',
+        lastNumber: sequence,
+        updatedAt: now
+      });
+
+      transaction.set(correctionRef, {
+        number: `FK/${year}/${String(sequence).padStart(4, '0')}`,
+        sequence,
+        year,
+        invoice: invoice._id,
+        invoiceNumber: invoice.number,
+        invoiceIssueDate: invoice.issueDate,
+        order: orderId,
+        refund: refundId,
+        seller: invoice.seller,
+        buyer: invoice.buyer,
+        reason: refundDoc.get('reason') || (
+          order.status === ORDER_STATUSES.CANCELLED ? 'Anulowanie zamówienia' : 'Zwrot niezrealizowanej pozycji'
+        ),
+        before,
+        after,
+        difference: {
+          totalNet: roundPrice(after.totalNet - before.totalNet),
+          totalVat: roundPrice(after.totalVat - before.totalVat),
+          totalGross: roundPrice(after.totalGross - before.totalGross)
+        },
+        issueDate: now,
+        createdAt: now
+      });
+    });
+
+    const correctionDoc = await correctionRef.get();
+    return correctionDoc.exists ? this.toCorrection(correctionDoc) : null;
+  }
+
+  /**
+   * Faktury korygujące zamówienia, od najstarszej
+   */
+  async getCorrections(orderId: string): Promise<FirestoreInvoiceCorrection[]> {
+    const snapshot = await invoiceCorrectionsCollection.where('invoice', '==', orderId).get();
+
+    return this.sortCorrections(snapshot.docs.map(doc => this.toCorrection(doc)));
+  }
+
+  /**
+   * Pobierz fakturę korygującą zamówienia
+   */
+  async getCorrection(orderId: string, correctionId: string): Promise<FirestoreInvoiceCorrection> {
+    const correctionDoc = await invoiceCorrectionsCollection.doc(correctionId).get();
+
+    if (!correctionDoc.exists || correctionDoc.get('invoice') !== orderId) {
+      throw new ServiceError('Faktura korygująca nie znaleziona.', 404);
+    }
+
+    return this.toCorrection(correctionDoc);
+  }
+
+  /**
+   * Invoice lines of the billed (not refunded) quantities
+   */
+  private async buildLines(order: FirestoreOrder): Promise<InvoiceLine[]> {
+    // Refunded quantities are not invoiced
+    const items = order.items.filter(item => getBillableQuantity(item) > 0);
+    const productDocs = items.length > 0
+      ? await db.getAll(...items.map(item => productsCollection.doc(item.product)))
+      : [];
+
+    const lines: InvoiceLine[] = items.map((item, index) => {
+      const product = productDocs[index].data();
+      const category = product?.category || 'inne';
+
+      return priceLine({
+        product: item.product,
+        name: product?.name || 'Produkt usunięty',
+        category,
+        quantity: getBillableQuantity(item),
+        unit: product?.unit || 'szt',
+        unitPriceGross: item.priceAtPurchase,
+        vatRate: VAT_RATES[category] ?? DEFAULT_VAT_RATE
+      });
+    });
+
+    // Shipping is refunded together with the last item
+    const shippingCost = getRemainingShippingCost(order);
+
+    if (shippingCost > 0) {
+      lines.push(shippingLine(shippingCost));
+    }
+
+    return lines;
+  }
+
+  /**
+   * Lines after a refund - names, prices and VAT rates stay as invoiced,
+   * only the billed quantities and the shipping cost still due go down
+   */
+  private correctLines(lines: InvoiceLine[], order: FirestoreOrder): InvoiceLine[] {
+    return lines.flatMap(line => {
+      // The delivery line has no product
+      if (!line.product) {
+        const shippingCost = getRemainingShippingCost(order);
+        return shippingCost > 0 ? [shippingLine(shippingCost)] : [];
+      }
+
+      const item = order.items.find(orderItem => orderItem.product === line.product);
+      const corrected = item ? priceLine({ ...line, quantity: getBillableQuantity(item) }) : line;
+
+      return corrected.quantity > 0 ? [corrected] : [];
+    });
+  }
+
+  /**
+   * Lines with their VAT summary and totals
+   */
+  private calculateAmounts(lines: InvoiceLine[]): InvoiceAmounts {
+    const vatSummary = this.summarizeVat(lines);
+    const totalGross = roundPrice(vatSummary.reduce((sum, row) => sum + row.grossAmount, 0));
+    const totalNet = roundPrice(vatSummary.reduce((sum, row) => sum + row.netAmount, 0));
+
+    return {
+      lines,
+      vatSummary,
+      totalNet,
+      totalVat: roundPrice(totalGross - totalNet),
+      totalGross
+    };
+  }
+
+  /**
+   * Corrections of one invoice share the seller's numbering, so year and sequence give their order
+   */
+  private sortCorrections(corrections: FirestoreInvoiceCorrection[]): FirestoreInvoiceCorrection[] {
+    return corrections.sort((a, b) => a.year - b.year || a.sequence - b.sequence);
+  }
+
+  private getAmounts({ lines, vatSummary, totalNet, totalVat, totalGross }: FirestoreInvoice): InvoiceAmounts {
+    return { lines, vatSummary, totalNet, totalVat, totalGross };
+  }
+
+  /**
+   * Sum invoice lines per VAT rate
+   */
+  private summarizeVat(lines: InvoiceLine[]): InvoiceVatSummary[] {
+    const summary = new Map<number, InvoiceVatSummary>();
+
+    lines.forEach(line => {
+      const row = summary.get(line.vatRate) || { vatRate: line.vatRate, netAmount: 0, vatAmount: 0, grossAmount: 0 };
+      row.netAmount = roundPrice(row.netAmount + line.netAmount);
+      row.vatAmount = roundPrice(row.vatAmount + line.vatAmount);
+      row.grossAmount = roundPrice(row.grossAmount + line.grossAmount);
+      summary.set(line.vatRate, row);
+    });
+
+    return Array.from(summary.values()).sort((a, b) => b.vatRate - a.vatRate);
+  }
+
+  /**
+   * Seller/buyer data printed on the invoice
+   */
+  private async getParty(userId: string): Promise<InvoiceParty> {
+    const userDoc = await usersCollection.doc(userId).get();
+    const user = userDoc.data();
+
+    if (!userDoc.exists || !user) {
+      throw new ServiceError('Nie znaleziono danych kontrahenta do faktury.', 404);
+    }
+
+    const party: InvoiceParty = {
+      userId,
+      name: user.companyName || user.fullName,
+      address: user.location?.address || ''
+    };
+
+    if (user.nip) party.nip = user.nip;
+    if (user.email) party.email = user.email;
+    if (user.phoneNumber) party.phoneNumber = user.phoneNumber;
+
+    return party;
+  }
+
+  /**
+   * Date of sale - when the order was paid, or when it was placed
+   */
+  private getSaleDate(order: FirestoreOrder): Date | admin.firestore.Timestamp {
+    const paidEntry = order.statusHistory?.find(entry => entry.status === ORDER_STATUSES.PAID);
+    return paidEntry?.timestamp || order.createdAt;
+  }
+
+  private toInvoice(doc: FirebaseFirestore.DocumentSnapshot): FirestoreInvoice {
+    return {
+      _id: doc.id,
+      ...doc.data()
+    } as FirestoreInvoice;
+  }
+
+  private toCorrection(doc: FirebaseFirestore.DocumentSnapshot): FirestoreInvoiceCorrection {
+    return {
+      _id: doc.id,
+      ...doc.data()
+    } as FirestoreInvoiceCorrection;
+  }
+}
+
+export const invoiceService = new InvoiceService();
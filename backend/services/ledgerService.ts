@@ -0,0 +1,307 @@
+// backend/services/ledgerService.ts
+import { admin } from '../firebase';
+import { ledgerCollection, payoutBatchesCollection, usersCollection } from '../models/collections';
+import { APP_SETTINGS } from '../../src/shared/constants';
+import { convertToDate } from '../../src/shared/utils/firebase';
+import { ServiceError } from '../utils/serviceError';
+import { roundPrice } from '../utils/orderTotals';
+import type {
+  FirestoreLedgerEntry,
+  FirestoreOrder,
+  FirestorePayoutBatch,
+  FirestoreRefund,
+  LedgerLine,
+  PayoutBatchItem
+} from '../types';
+
+const db = admin.firestore();
+
+// Ledger accounts
+const CASH_ACCOUNT = 'cash';
+const PLATFORM_FEES_ACCOUNT = 'platform_fees';
+const PLATFORM_ADJUSTMENTS_ACCOUNT = 'platform_adjustments';
+const farmerAccount = (farmerId: string): string => `farmer:${farmerId}`;
+
+/**
+ * Platform fee for a gross amount
+ */
+const calculateFee = (grossAmount: number): number =>
+  roundPrice(grossAmount * APP_SETTINGS.PLATFORM_FEE_PERCENTAGE / 100);
+
+const debit = (account: string, amount: number): LedgerLine => ({ account, debit: amount, credit: 0 });
+const credit = (account: string, amount: number): LedgerLine => ({ account, debit: 0, credit: amount });
+
+const toMillis = (value: unknown): number => convertToDate(value)?.getTime() || 0;
+
+export interface FarmerStatement {
+  balance: number; // do wypłaty
+  totals: {
+    gross: number;
+    fees: number;
+    refunds: number;
+    adjustments: number;
+    paidOut: number;
+  };
+  entries: FirestoreLedgerEntry[];
+}
+
+/**
+ * Księga rozrachunków z rolnikami (podwójny zapis).
+ * Każdy wpis to zbilansowane zapisy na kontach: środki od kupujących (cash),
+ * prowizja platformy (platform_fees) i zobowiązanie wobec rolnika (farmer:<id>).
+ * Wpisy zamówień, zwrotów i wypłat mają deterministyczne ID, więc ponowne
+ * przetworzenie tego samego zdarzenia nie dubluje kwot.
+ */
+class LedgerService {
+  /**
+   * Zaksięguj opłacone zamówienie rolnika (zamówienie pojedyncze lub cząstkowe).
+   * Only writes, so it can be called after the transaction's reads.
+   */
+  recordOrderPaid(transaction: FirebaseFirestore.Transaction, order: FirestoreOrder, createdBy: string): void {
+    if (!order.farmer) return;
+
+    const grossAmount = order.totalPrice;
+    const feeAmount = calculateFee(grossAmount);
+    const farmerAmount = roundPrice(grossAmount - feeAmount);
+
+    this.writeEntry(transaction, `order_paid_${order._id}`, {
+      type: 'order_paid',
+      farmer: order.farmer,
+      order: order._id,
+      lines: [
+        debit(CASH_ACCOUNT, grossAmount),
+        credit(farmerAccount(order.farmer), farmerAmount),
+        credit(PLATFORM_FEES_ACCOUNT, feeAmount)
+      ],
+      grossAmount,
+      feeAmount,
+      farmerAmount,
+      feePercentage: APP_SETTINGS.PLATFORM_FEE_PERCENTAGE,
+      description: `Zamówienie ${order.parentOrder || order._id}`,
+      createdBy
+    });
+  }
+
+  /**
+   * Zaksięguj zwrot pozycji lub anulowanego zamówienia - prowizja od zwróconej kwoty wraca do rolnika
+   */
+  recordRefund(
+    transaction: FirebaseFirestore.Transaction,
+    refund: FirestoreRefund,
+    farmerId: string
+  ): void {
+    const feeAmount = calculateFee(refund.amount);
+    const farmerAmount = roundPrice(refund.amount - feeAmount);
+
+    this.writeEntry(transaction, `refund_${refund._id}`, {
+      type: 'refund',
+      farmer: farmerId,
+      order: refund.order,
+      refund: refund._id,
+      lines: [
+        debit(farmerAccount(farmerId), farmerAmount),
+        debit(PLATFORM_FEES_ACCOUNT, feeAmount),
+        credit(CASH_ACCOUNT, refund.amount)
+      ],
+      grossAmount: -refund.amount,
+      feeAmount: -feeAmount,
+      farmerAmount: -farmerAmount,
+      feePercentage: APP_SETTINGS.PLATFORM_FEE_PERCENTAGE,
+      description: refund.type === 'cancellation'
+        ? `Anulowanie zamówienia ${refund.parentOrder || refund.order}`
+        : `Zwrot w zamówieniu ${refund.parentOrder || refund.order}`,
+      createdBy: refund.createdBy
+    });
+  }
+
+  /**
+   * Korekta salda rolnika (dodatnia - na korzyść rolnika)
+   */
+  async recordAdjustment(
+    farmerId: string,
+    amount: number,
+    description: string,
+    createdBy: string
+  ): Promise<FirestoreLedgerEntry> {
+    const farmerDoc = await usersCollection.doc(farmerId).get();
+
+    if (!farmerDoc.exists || farmerDoc.get('role') !== 'farmer') {
+      throw new ServiceError('Rolnik nie znaleziony.', 404);
+    }
+
+    const value = roundPrice(Math.abs(amount));
+    const entryRef = ledgerCollection.doc();
+
+    await db.runTransaction(async (transaction) => {
+      this.writeEntry(transaction, entryRef.id, {
+        type: 'adjustment',
+        farmer: farmerId,
+        lines: amount > 0
+          ? [debit(PLATFORM_ADJUSTMENTS_ACCOUNT, value), credit(farmerAccount(farmerId), value)]
+          : [debit(farmerAccount(farmerId), value), credit(PLATFORM_ADJUSTMENTS_ACCOUNT, value)],
+        grossAmount: 0,
+        feeAmount: 0,
+        farmerAmount: roundPrice(amount),
+        description,
+        createdBy
+      });
+    });
+
+    return this.toEntry(await entryRef.get());
+  }
+
+  /**
+   * Saldo i wyciąg rolnika (opcjonalnie zawężony do okresu)
+   */
+  async getFarmerStatement(farmerId: string, from?: Date, to?: Date): Promise<FarmerStatement> {
+    const snapshot = await ledgerCollection.where('farmer', '==', farmerId).get();
+    const allEntries = snapshot.docs
+      .map(doc => this.toEntry(doc))
+      .sort((a, b) => toMillis(b.createdAt) - toMillis(a.createdAt));
+
+    const entries = allEntries.filter(entry => {
+      const createdAt = toMillis(entry.createdAt);
+      return (!from || createdAt >= from.getTime()) && (!to || createdAt <= to.getTime());
+    });
+
+    const sumOf = (type: FirestoreLedgerEntry['type'], field: 'grossAmount' | 'feeAmount' | 'farmerAmount') =>
+      roundPrice(entries.filter(entry => entry.type === type).reduce((sum, entry) => sum + entry[field], 0));
+
+    return {
+      // Balance always covers the whole history, not just the period
+      balance: roundPrice(allEntries.reduce((sum, entry) => sum + entry.farmerAmount, 0)),
+      totals: {
+        gross: sumOf('order_paid', 'grossAmount'),
+        fees: roundPrice(sumOf('order_paid', 'feeAmount') + sumOf('refund', 'feeAmount')),
+        refunds: sumOf('refund', 'grossAmount'),
+        adjustments: sumOf('adjustment', 'farmerAmount'),
+        paidOut: sumOf('payout', 'farmerAmount')
+      },
+      entries
+    };
+  }
+
+  /**
+   * Utwórz paczkę wypłat: każdy rolnik z dodatnim saldem dostaje wypłatę
+   * całego salda, a saldo jest zerowane wpisem wypłaty
+   */
+  async createPayoutBatch(createdBy: string): Promise<FirestorePayoutBatch> {
+    const batchRef = payoutBatchesCollection.doc();
+
+    await db.runTransaction(async (transaction) => {
+      const ledgerSnapshot = await transaction.get(ledgerCollection);
+
+      const balances = new Map<string, number>();
+      ledgerSnapshot.docs.forEach(doc => {
+        const farmer = doc.get('farmer') as string;
+        balances.set(farmer, roundPrice((balances.get(farmer) || 0) + Number(doc.get('farmerAmount'))));
+      });
+
+      const farmerIds = Array.from(balances.entries())
+        .filter(([, balance]) => balance >= 0.01)
+        .map(([farmer]) => farmer);
+
+      if (farmerIds.length === 0) {
+        throw new ServiceError('Brak sald do wypłaty.', 409);
+      }
+
+      const farmerDocs = await transaction.getAll(...farmerIds.map(id => usersCollection.doc(id)));
+
+      const items: PayoutBatchItem[] = farmerDocs.map(doc => {
+        const farmer = doc.data();
+        const item: PayoutBatchItem = {
+          farmer: doc.id,
+          name: farmer?.companyName || farmer?.fullName || doc.id,
+          email: farmer?.email || '',
+          amount: balances.get(doc.id) as number
+        };
+
+        if (farmer?.nip) item.nip = farmer.nip;
+        if (farmer?.bankAccount) item.bankAccount = farmer.bankAccount;
+
+        return item;
+      });
+
+      items.forEach(item => {
+        this.writeEntry(transaction, `payout_${batchRef.id}_${item.farmer}`, {
+          type: 'payout',
+          farmer: item.farmer,
+          payoutBatch: batchRef.id,
+          lines: [debit(farmerAccount(item.farmer), item.amount), credit(CASH_ACCOUNT, item.amount)],
+          grossAmount: 0,
+          feeAmount: 0,
+          farmerAmount: -item.amount,
+          description: `Wypłata ${batchRef.id}`,
+          createdBy
+        });
+      });
+
+      transaction.set(batchRef, {
+        items,
+        totalAmount: roundPrice(items.reduce((sum, item) => sum + item.amount, 0)),
+        createdBy,
+        createdAt: admin.firestore.Timestamp.now()
+      });
+    });
+
+    return this.toPayoutBatch(await batchRef.get());
+  }
+
+  /**
+   * Lista paczek wypłat (najnowsze pierwsze)
+   */
+  async getPayoutBatches(): Promise<FirestorePayoutBatch[]> {
+    const snapshot = await payoutBatchesCollection.orderBy('createdAt', 'desc').get();
+    return snapshot.docs.map(doc => this.toPayoutBatch(doc));
+  }
+
+  /**
+   * Pobierz paczkę wypłat
+   */
+  async getPayoutBatch(batchId: string): Promise<FirestorePayoutBatch> {
+    const batchDoc = await payoutBatchesCollection.doc(batchId).get();
+
+    if (!batchDoc.exists) {
+      throw new ServiceError('Paczka wypłat nie znaleziona.', 404);
+    }
+
+    return this.toPayoutBatch(batchDoc);
+  }
+
+  /**
+   * Write a journal entry after checking that debits equal credits
+   */
+  private writeEntry(
+    transaction: FirebaseFirestore.Transaction,
+    entryId: string,
+    entry: Omit<FirestoreLedgerEntry, '_id' | 'createdAt'>
+  ): void {
+    const debits = roundPrice(entry.lines.reduce((sum, line) => sum + line.debit, 0));
+    const credits = roundPrice(entry.lines.reduce((sum, line) => sum + line.credit, 0));
+
+    if (debits !== credits) {
+      throw new Error(`Unbalanced ledger entry ${entryId}: debit ${debits}, credit ${credits}`);
+    }
+
+    transaction.set(ledgerCollection.doc(entryId), {
+      ...entry,
+      createdAt: admin.firestore.Timestamp.now()
+    });
+  }
+
+  private toEntry(doc: FirebaseFirestore.DocumentSnapshot): FirestoreLedgerEntry {
+    return {
+      _id: doc.id,
+      ...doc.data()
+    } as FirestoreLedgerEntry;
+  }
+
+  private toPayoutBatch(doc: FirebaseFirestore.DocumentSnapshot): FirestorePayoutBatch {
+    return {
+      _id: doc.id,
+      ...doc.data()
+    } as FirestorePayoutBatch;
+  }
+}
+
+export const ledgerService = new LedgerService();
@@ -0,0 +1,77 @@
+// backend/services/orderService.test.ts
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Timestamp, db, resetFirestore } from '../test/firebaseMock';
+import { orderService } from './orderService';
+
+vi.mock('../firebase', () => import('../test/firebaseMock'));
+
+const shippingAddress = { street: 'Polna 1', city: 'Warszawa', postalCode: '00-001', country: 'Polska' };
+
+const order = () => orderService.createOrder('buyer-1', {
+  items: [
+    { product: 'carrots', quantity: 10 },
+    { product: 'eggs', quantity: 10 },
+    { product: 'apples', quantity: 5 }
+  ],
+  shippingAddress
+});
+
+beforeEach(async () => {
+  resetFirestore();
+
+  // Farmers 0.1° of latitude (about 11 km) north and south of the buyer
+  await db.collection('users').doc('buyer-1').set({
+    fullName: 'Piotr Wiśniewski',
+    location: { type: 'Point', coordinates: [21, 52.2] }
+  });
+  await db.collection('users').doc('farmer-1').set({
+    fullName: 'Jan Kowalski',
+    location: { type: 'Point', coordinates: [21, 52.3] }
+  });
+  await db.collection('users').doc('farmer-2').set({
+    fullName: 'Maria Nowak',
+    location: { type: 'Point', coordinates: [21, 52.1] }
+  });
+  await db.collection('products').doc('carrots').set({
+    name: 'Marchew', category: 'warzywa', unit: 'kg', price: 4.5, quantity: 20, owner: 'farmer-1', status: 'available'
+  });
+  // Eggs have no unit weight, so they are left out of the footprint
+  await db.collection('products').doc('eggs').set({
+    name: 'Jajka', category: 'nabiał', unit: 'szt', price: 1, quantity: 30, owner: 'farmer-1', status: 'available'
+  });
+  await db.collection('products').doc('apples').set({
+    name: 'Jabłka', category: 'owoce', unit: 'kg', price: 6, quantity: 20, owner: 'farmer-2', status: 'available'
+  });
+});
+
+describe('orderService carbon footprint', () => {
+  it('stores the footprint of each farmer order and their sum on the checkout order', async () => {
+    const created = await order();
+    const subOrders = await Promise.all(
+      (created.subOrders || []).map(async id => (await db.collection('orders').doc(id).get()).data())
+    );
+    const footprints = subOrders.map(subOrder => subOrder?.carbonFootprint as number);
+
+    // 0.12 kg CO2 per km and kg: 10 kg and 5 kg over about 11.1 km
+    expect(footprints[0]).toBeCloseTo(10 * 11.12 * 0.12, 0);
+    expect(footprints[1]).toBeCloseTo(5 * 11.12 * 0.12, 0);
+    expect(created.carbonFootprint).toBeCloseTo(footprints[0] + footprints[1], 2);
+  });
+
+  it('lowers the footprint of farmers with a verified certificate', async () => {
+    const uncertified = await order();
+    await db.collection('certificates').doc('cert-1').set({
+      issuedTo: 'farmer-1',
+      isVerified: true,
+      validUntil: Timestamp.fromDate(new Date(Date.now() + 365 * 24 * 60 * 60 * 1000))
+    });
+    const certified = await order();
+
+    const farmerFootprint = async (orderId: string) =>
+      (await db.collection('orders').doc(orderId).get()).get('carbonFootprint') as number;
+
+    expect(await farmerFootprint(certified.subOrders![0]))
+      .toBeCloseTo((await farmerFootprint(uncertified.subOrders![0])) * 0.8, 1);
+    expect(await farmerFootprint(certified.subOrders![1])).toBe(await farmerFootprint(uncertified.subOrders![1]));
+  });
+});
@@ -0,0 +1,666 @@
+// backend/services/orderService.ts
+import { admin } from '../firebase';
+import { ordersCollection, productsCollection, usersCollection } from '../models/collections';
+import { DELIVERY_WINDOW_TYPES, ORDER_STATUSES, PAYMENT_STATUSES, PRODUCT_STATUSES } from '../constants';
+import { ledgerService } from './ledgerService';
+import { deliverySlotService, type SlotReservation } from './deliverySlotService';
+import { shippingService } from './shippingService';
+import { pickupPointService, type PickupPointReservation } from './pickupPointService';
+import { verificationService } from './verificationService';
+import { ServiceError } from '../utils/serviceError';
+import { toZonedDate } from '../utils/dateKeys';
+import {
+  calculateItemsTotal,
+  calculateOrderTotal,
+  getBillableQuantity,
+  roundPrice,
+  roundQuantity
+} from '../utils/orderTotals';
+import { parseCoordinates, toKilograms } from '../utils/shippingCalculator';
+import { calculateParcelFootprint, sumFootprints, toFootprintKilograms } from '../utils/carbonFootprint';
+import {
+  deriveParentStatus,
+  getTransitionError,
+  type OrderActorRole
+} from '../utils/orderStateMachine';
+import type {
+  Address,
+  CreateOrderRequest,
+  FirestoreOrder,
+  FirestoreOrderItem,
+  FirestoreStatusHistoryItem,
+  OrderStatus,
+  PaymentStatus
+} from '../types';
+
+const db = admin.firestore();
+
+/**
+ * Who performs a status change
+ */
+export interface OrderActor {
+  id: string; // user ID or 'system'
+  roles: OrderActorRole[];
+}
+
+/**
+ * Determine which roles a user plays in relation to an order
+ */
+export const resolveOrderActor = (
+  order: Pick<FirestoreOrder, 'buyer' | 'farmer'>,
+  user: { id: string; role: string }
+): OrderActor => {
+  const roles: OrderActorRole[] = [];
+
+  if (order.buyer === user.id) roles.push('buyer');
+  if (order.farmer === user.id) roles.push('farmer');
+  if (user.role === 'admin') roles.push('admin');
+
+  return { id: user.id, roles };
+};
+
+/**
+ * Fields changed together with the order status (e.g. payment data)
+ */
+export interface OrderStatusChanges {
+  paymentId?: string;
+  paymentStatus?: PaymentStatus;
+  refundRequired?: boolean;
+}
+
+/**
+ * Actor used for automated transitions
+ */
+export const SYSTEM_ACTOR: OrderActor = { id: 'system', roles: ['system'] };
+
+// Statuses that may be set directly on a multi-farmer order;
+// everything else is driven by the farmers' sub-orders
+const PARENT_ORDER_STATUSES: OrderStatus[] = [ORDER_STATUSES.PAID, ORDER_STATUSES.CANCELLED];
+
+type OrderDoc = FirebaseFirestore.DocumentSnapshot;
+
+/**
+ * Serwis do obsługi zamówień
+ */
+class OrderService {
+  /**
+   * Utwórz zamówienie i zarezerwuj stan magazynowy produktów.
+   * Całość wykonywana jest w transakcji Firestore, więc dwóch kupujących
+   * nigdy nie kupi tej samej ostatniej sztuki produktu.
+   * Koszyk z produktami kilku rolników dzielony jest na zamówienia cząstkowe
+   * (po jednym na rolnika) powiązane z zamówieniem nadrzędnym, które jest
+   * opłacane jednorazowo.
+   */
+  async createOrder(
+    buyerId: string,
+    request: CreateOrderRequest,
+    options: { subscription?: string } = {}
+  ): Promise<FirestoreOrder> {
+    if (request.pickupPoint && request.deliverySlots && request.deliverySlots.length > 0) {
+      throw new ServiceError('Wybierz termin dostawy lub odbioru w gospodarstwie albo punkt odbioru, nie oba.');
+    }
+
+    // Merge duplicated lines so each product is checked against stock once
+    const requestedQuantities = new Map<string, number>();
+    request.items.forEach(item => {
+      const current = requestedQuantities.get(item.product) || 0;
+      requestedQuantities.set(item.product, roundQuantity(current + Number(item.quantity)));
+    });
+
+    const productIds = Array.from(requestedQuantities.keys());
+
+    return await db.runTransaction(async (transaction) => {
+      const productRefs = productIds.map(id => productsCollection.doc(id));
+      const productDocs = await transaction.getAll(...productRefs);
+
+      // Items grouped by farmer (product owner)
+      const itemsByFarmer = new Map<string, FirestoreOrderItem[]>();
+      const weightByFarmer = new Map<string, number>();
+      const footprintWeightByFarmer = new Map<string, number>();
+
+      productDocs.forEach((productDoc, index) => {
+        const productId = productIds[index];
+        const product = productDoc.data();
+
+        if (!productDoc.exists || !product) {
+          throw new ServiceError(`Produkt ${productId} nie istnieje.`, 404);
+        }
+
+        if (product.owner === buyerId) {
+          throw new ServiceError(`Nie możesz zamówić własnego produktu "${product.name}".`);
+        }
+
+        if (product.status !== PRODUCT_STATUSES.AVAILABLE) {
+          throw new ServiceError(`Produkt "${product.name}" jest niedostępny.`, 409);
+        }
+
+        const requested = requestedQuantities.get(productId) || 0;
+        const available = Number(product.quantity) || 0;
+
+        if (requested > available) {
+          throw new ServiceError(
+            `Niewystarczająca ilość produktu "${product.name}" (dostępne: ${available} ${product.unit}).`,
+            409
+          );
+        }
+
+        const farmerItems = itemsByFarmer.get(product.owner) || [];
+        farmerItems.push({
+          product: productId,
+          quantity: requested,
+          priceAtPurchase: Number(product.price)
+        });
+        itemsByFarmer.set(product.owner, farmerItems);
+        weightByFarmer.set(
+          product.owner,
+          roundQuantity((weightByFarmer.get(product.owner) || 0) + toKilograms(requested, product.unit, product.unitWeightKg))
+        );
+        footprintWeightByFarmer.set(
+          product.owner,
+          roundQuantity(
+            (footprintWeightByFarmer.get(product.owner) || 0) +
+            toFootprintKilograms(requested, product.unit, product.unitWeightKg)
+          )
+        );
+      });
+
+      const farmers = Array.from(itemsByFarmer.keys());
+      const slotReservations = await deliverySlotService.checkSlotsInTransaction(
+        transaction,
+        request.deliverySlots || [],
+        farmers
+      );
+      const pickupPointReservation = request.pickupPoint
+        ? await pickupPointService.checkPickupPointInTransaction(transaction, request.pickupPoint, farmers)
+        : null;
+
+      // Shipping is priced per farmer; goods collected on the farm ship for free
+      // and goods for a pickup point are delivered to the point
+      const shippingQuotes = await shippingService.calculateQuotesInTransaction(
+        transaction,
+        farmers.map(farmer => ({
+          farmer,
+          itemsTotal: calculateItemsTotal(itemsByFarmer.get(farmer) || []),
+          weightKg: weightByFarmer.get(farmer) || 0,
+          method: slotReservations.find(item => item.farmer === farmer)?.slot.type || DELIVERY_WINDOW_TYPES.DELIVERY
+        })),
+        buyerId,
+        pickupPointReservation ? { coordinates: pickupPointReservation.coordinates } : request.shippingAddress
+      );
+      const shippingCosts = new Map(shippingQuotes.map(quote => [quote.farmer, quote.shippingCost]));
+      const totalShippingCost = roundPrice(shippingQuotes.reduce((sum, quote) => sum + quote.shippingCost, 0));
+
+      // Carbon footprint over the farmer-to-destination distance;
+      // the eco multiplier applies only to farmers with verified certificates
+      const certifiedFarmers = await Promise.all(
+        farmers.map(farmer => verificationService.hasFarmerVerifiedCertificates(farmer))
+      );
+      const footprints = new Map(shippingQuotes.map(quote => [
+        quote.farmer,
+        calculateParcelFootprint({
+          distanceKm: quote.distanceKm || 0,
+          weightKg: footprintWeightByFarmer.get(quote.farmer) || 0,
+          hasEcoCertificate: certifiedFarmers[farmers.indexOf(quote.farmer)]
+        })
+      ]));
+      const totalFootprint = sumFootprints(Array.from(footprints.values()));
+
+      // Reserve stock
+      productDocs.forEach((productDoc, index) => {
+        const requested = requestedQuantities.get(productIds[index]) || 0;
+        transaction.update(productDoc.ref, {
+          quantity: roundQuantity(Number(productDoc.get('quantity')) - requested),
+          updatedAt: admin.firestore.FieldValue.serverTimestamp()
+        });
+      });
+
+      const now = admin.firestore.Timestamp.now();
+
+      // Fields shared by the checkout order and its sub-orders
+      const baseOrderData = {
+        buyer: buyerId,
+        status: ORDER_STATUSES.PENDING,
+        statusHistory: [
+          {
+            status: ORDER_STATUSES.PENDING,
+            timestamp: now,
+            updatedBy: buyerId
+          }
+        ],
+        shippingAddress: this.normalizeAddress(pickupPointReservation?.pickupPoint.address || request.shippingAddress),
+        ...(request.deliveryDate && {
+          deliveryDate: admin.firestore.Timestamp.fromDate(new Date(request.deliveryDate))
+        }),
+        ...(pickupPointReservation && this.buildPickupPointFields(pickupPointReservation)),
+        paymentStatus: PAYMENT_STATUSES.PENDING,
+        ...(options.subscription && { subscription: options.subscription }),
+        isReviewed: false,
+        createdAt: now,
+        updatedAt: now
+      };
+
+      const orderRef = ordersCollection.doc();
+      const allItems = farmers.flatMap(farmer => itemsByFarmer.get(farmer) || []);
+
+      // Book the farmer's delivery or pickup slot for the order fulfilling it
+      const bookSlot = (farmer: string, farmerOrderId: string) => {
+        const reservation = slotReservations.find(item => item.farmer === farmer);
+        if (!reservation) return {};
+
+        deliverySlotService.reserveSlot(transaction, reservation, farmerOrderId);
+        return this.buildSlotFields(reservation);
+      };
+
+      let orderData;
+
+      if (farmers.length === 1) {
+        orderData = {
+          ...baseOrderData,
+          farmer: farmers[0],
+          farmers,
+          items: allItems,
+          shippingCost: totalShippingCost,
+          totalPrice: calculateOrderTotal(allItems, totalShippingCost),
+          carbonFootprint: totalFootprint,
+          ...bookSlot(farmers[0], orderRef.id)
+        };
+      } else {
+        const subOrderRefs = farmers.map(() => ordersCollection.doc());
+
+        farmers.forEach((farmer, index) => {
+          const farmerItems = itemsByFarmer.get(farmer) || [];
+
+          transaction.set(subOrderRefs[index], {
+            ...baseOrderData,
+            farmer,
+            farmers: [farmer],
+            parentOrder: orderRef.id,
+            items: farmerItems,
+            shippingCost: shippingCosts.get(farmer) || 0,
+            totalPrice: calculateOrderTotal(farmerItems, shippingCosts.get(farmer)),
+            carbonFootprint: footprints.get(farmer) || 0,
+            ...bookSlot(farmer, subOrderRefs[index].id)
+          });
+        });
+
+        orderData = {
+          ...baseOrderData,
+          farmers,
+          subOrders: subOrderRefs.map(ref => ref.id),
+          items: allItems,
+          shippingCost: totalShippingCost,
+          totalPrice: calculateOrderTotal(allItems, totalShippingCost),
+          carbonFootprint: totalFootprint
+        };
+      }
+
+      if (pickupPointReservation) {
+        // One parcel per farmer order
+        pickupPointService.reserveParcels(
+          transaction,
+          pickupPointReservation,
+          'subOrders' in orderData ? orderData.subOrders : [orderRef.id]
+        );
+      }
+
+      transaction.set(orderRef, orderData);
+      transaction.update(usersCollection.doc(buyerId), {
+        orders: admin.firestore.FieldValue.arrayUnion(orderRef.id)
+      });
+
+      return {
+        _id: orderRef.id,
+        ...orderData
+      } as FirestoreOrder;
+    });
+  }
+
+  /**
+   * Zmień status zamówienia zgodnie z maszyną stanów.
+   * Każda zmiana jest dopisywana do historii statusów, a anulowanie
+   * zwalnia zarezerwowany stan magazynowy produktów.
+   * Status zamówienia nadrzędnego jest wyliczany z zamówień cząstkowych;
+   * bezpośrednio można je jedynie opłacić lub anulować (zmiana przenosi się
+   * na wszystkie zamówienia cząstkowe).
+   * Anulowanie opłaconego zamówienia wykonuje refundService.cancelOrder,
+   * który dodatkowo zwraca płatność.
+   */
+  async updateOrderStatus(
+    orderId: string,
+    status: OrderStatus,
+    actor: OrderActor,
+    note?: string,
+    changes: OrderStatusChanges = {}
+  ): Promise<FirestoreOrder> {
+    return await db.runTransaction(async (transaction) =>
+      this.updateOrderStatusInTransaction(transaction, orderId, status, actor, note, changes)
+    );
+  }
+
+  /**
+   * Status change as part of a larger transaction (e.g. payment webhook processing).
+   * Performs its reads first, so the caller may only write after calling it.
+   */
+  async updateOrderStatusInTransaction(
+    transaction: FirebaseFirestore.Transaction,
+    orderId: string,
+    status: OrderStatus,
+    actor: OrderActor,
+    note?: string,
+    changes: OrderStatusChanges = {}
+  ): Promise<FirestoreOrder> {
+    const orderDoc = await transaction.get(ordersCollection.doc(orderId));
+
+    if (!orderDoc.exists) {
+      throw new ServiceError('Zamówienie nie znalezione.', 404);
+    }
+
+    const order = this.toOrder(orderDoc);
+
+    if (order.subOrders && order.subOrders.length > 0) {
+      return await this.updateParentOrderStatus(transaction, orderDoc, status, actor, note, changes);
+    }
+
+    const transitionError = getTransitionError(order.status, status, actor.roles);
+    if (transitionError) {
+      throw new ServiceError(transitionError, 409);
+    }
+
+    // Read everything before the first write
+    const parentDoc = order.parentOrder
+      ? await transaction.get(ordersCollection.doc(order.parentOrder))
+      : null;
+    const siblingDocs = parentDoc?.exists
+      ? await this.getSubOrderDocs(transaction, this.toOrder(parentDoc), orderId)
+      : [];
+    const productDocs = status === ORDER_STATUSES.CANCELLED
+      ? await this.getProductDocs(transaction, order.items)
+      : [];
+
+    const update = this.buildStatusUpdate(order, status, actor.id, note, changes);
+    transaction.update(orderDoc.ref, update);
+    this.releaseStock(transaction, order.items, productDocs);
+
+    if (status === ORDER_STATUSES.CANCELLED) {
+      deliverySlotService.releaseSlot(transaction, order);
+      pickupPointService.releaseParcel(transaction, order);
+    }
+
+    // Farmer's share and platform fee are booked when the order is paid
+    if (status === ORDER_STATUSES.PAID) {
+      ledgerService.recordOrderPaid(transaction, order, actor.id);
+    }
+
+    // Keep the checkout order in sync with its sub-orders
+    if (parentDoc?.exists) {
+      const parent = this.toOrder(parentDoc);
+      const derivedStatus = deriveParentStatus([
+        status,
+        ...siblingDocs.map(doc => this.toOrder(doc).status)
+      ]);
+
+      if (derivedStatus !== parent.status) {
+        transaction.update(
+          parentDoc.ref,
+          this.buildStatusUpdate(parent, derivedStatus, SYSTEM_ACTOR.id, 'Status wyliczony z zamówień cząstkowych')
+        );
+      }
+    }
+
+    return {
+      ...order,
+      ...update
+    };
+  }
+
+  /**
+   * Zapisz dane płatności zamówienia bez zmiany statusu
+   * (zamówienie nadrzędne przekazuje je swoim zamówieniom cząstkowym)
+   */
+  async updatePaymentDetails(orderId: string, changes: OrderStatusChanges): Promise<void> {
+    await db.runTransaction(async (transaction) =>
+      this.updatePaymentDetailsInTransaction(transaction, orderId, changes)
+    );
+  }
+
+  /**
+   * Payment details update as part of a larger transaction
+   */
+  async updatePaymentDetailsInTransaction(
+    transaction: FirebaseFirestore.Transaction,
+    orderId: string,
+    changes: OrderStatusChanges
+  ): Promise<void> {
+    const orderDoc = await transaction.get(ordersCollection.doc(orderId));
+
+    if (!orderDoc.exists) {
+      throw new ServiceError('Zamówienie nie znalezione.', 404);
+    }
+
+    const subOrderDocs = await this.getSubOrderDocs(transaction, this.toOrder(orderDoc));
+    const update = {
+      ...changes,
+      updatedAt: admin.firestore.Timestamp.now()
+    };
+
+    [orderDoc, ...subOrderDocs].forEach(doc => transaction.update(doc.ref, update));
+  }
+
+  /**
+   * Pobierz zamówienie po ID
+   */
+  async getOrderById(orderId: string): Promise<FirestoreOrder | null> {
+    const orderDoc = await ordersCollection.doc(orderId).get();
+
+    if (!orderDoc.exists) {
+      return null;
+    }
+
+    return this.toOrder(orderDoc);
+  }
+
+  /**
+   * Pobierz zamówienia cząstkowe zamówienia nadrzędnego
+   */
+  async getSubOrders(order: FirestoreOrder): Promise<FirestoreOrder[]> {
+    if (!order.subOrders || order.subOrders.length === 0) {
+      return [];
+    }
+
+    const subOrderDocs = await db.getAll(...order.subOrders.map(id => ordersCollection.doc(id)));
+
+    return subOrderDocs
+      .filter(doc => doc.exists)
+      .map(doc => this.toOrder(doc));
+  }
+
+  /**
+   * Pay or cancel a multi-farmer order together with all of its sub-orders
+   */
+  private async updateParentOrderStatus(
+    transaction: FirebaseFirestore.Transaction,
+    orderDoc: OrderDoc,
+    status: OrderStatus,
+    actor: OrderActor,
+    note?: string,
+    changes: OrderStatusChanges = {}
+  ): Promise<FirestoreOrder> {
+    const order = this.toOrder(orderDoc);
+
+    if (!PARENT_ORDER_STATUSES.includes(status)) {
+      throw new ServiceError(
+        'Status zamówienia złożonego wynika ze statusów zamówień cząstkowych poszczególnych rolników.',
+        409
+      );
+    }
+
+    const transitionError = getTransitionError(order.status, status, actor.roles);
+    if (transitionError) {
+      throw new ServiceError(transitionError, 409);
+    }
+
+    const subOrders = (await this.getSubOrderDocs(transaction, order))
+      .map(doc => ({ doc, subOrder: this.toOrder(doc) }));
+
+    // Sub-orders already in the target state (e.g. cancelled by the buyer earlier) are left alone
+    const affected = subOrders.filter(({ subOrder }) => subOrder.status !== status);
+
+    affected.forEach(({ subOrder }) => {
+      const subOrderError = getTransitionError(subOrder.status, status, actor.roles);
+      if (subOrderError) {
+        throw new ServiceError(`Zamówienie cząstkowe ${subOrder._id}: ${subOrderError}`, 409);
+      }
+    });
+
+    const productDocsBySubOrder = status === ORDER_STATUSES.CANCELLED
+      ? await Promise.all(affected.map(({ subOrder }) => this.getProductDocs(transaction, subOrder.items)))
+      : [];
+
+    affected.forEach(({ doc, subOrder }, index) => {
+      transaction.update(doc.ref, this.buildStatusUpdate(subOrder, status, actor.id, note, changes));
+
+      if (productDocsBySubOrder[index]) {
+        this.releaseStock(transaction, subOrder.items, productDocsBySubOrder[index]);
+        deliverySlotService.releaseSlot(transaction, subOrder);
+        pickupPointService.releaseParcel(transaction, subOrder);
+      }
+
+      if (status === ORDER_STATUSES.PAID) {
+        ledgerService.recordOrderPaid(transaction, subOrder, actor.id);
+      }
+    });
+
+    const update = this.buildStatusUpdate(order, status, actor.id, note, changes);
+    transaction.update(orderDoc.ref, update);
+
+    return {
+      ...order,
+      ...update
+    };
+  }
+
+  /**
+   * Order fields of a reserved slot - the slot start becomes the delivery date
+   */
+  private buildSlotFields(reservation: SlotReservation) {
+    return {
+      deliverySlot: reservation.slot,
+      deliveryDate: admin.firestore.Timestamp.fromDate(deliverySlotService.getSlotStartDate(reservation.slot))
+    };
+  }
+
+  /**
+   * Order fields of a chosen pickup point - parcels are ready when the point opens
+   */
+  private buildPickupPointFields(reservation: PickupPointReservation) {
+    const { date } = reservation.pickupPoint;
+
+    return {
+      pickupPoint: reservation.pickupPoint,
+      deliveryDate: admin.firestore.Timestamp.fromDate(toZonedDate(date, reservation.opensAt))
+    };
+  }
+
+  /**
+   * Build the Firestore update for a status change, appending to statusHistory
+   */
+  private buildStatusUpdate(
+    order: FirestoreOrder,
+    status: OrderStatus,
+    updatedBy: string,
+    note?: string,
+    changes: OrderStatusChanges = {}
+  ) {
+    const historyItem: FirestoreStatusHistoryItem = {
+      status,
+      timestamp: admin.firestore.Timestamp.now(),
+      updatedBy,
+      ...(note && { note: String(note).trim() })
+    };
+
+    return {
+      ...changes,
+      status,
+      statusHistory: [...(order.statusHistory || []), historyItem],
+      updatedAt: admin.firestore.Timestamp.now()
+    };
+  }
+
+  /**
+   * Read sub-order documents of a parent order inside a transaction
+   */
+  private async getSubOrderDocs(
+    transaction: FirebaseFirestore.Transaction,
+    parent: FirestoreOrder,
+    excludeId?: string
+  ): Promise<OrderDoc[]> {
+    const ids = (parent.subOrders || []).filter(id => id !== excludeId);
+
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const docs = await transaction.getAll(...ids.map(id => ordersCollection.doc(id)));
+    return docs.filter(doc => doc.exists);
+  }
+
+  /**
+   * Read product documents of order items inside a transaction
+   */
+  private async getProductDocs(
+    transaction: FirebaseFirestore.Transaction,
+    items: FirestoreOrderItem[]
+  ): Promise<OrderDoc[]> {
+    if (items.length === 0) {
+      return [];
+    }
+
+    return await transaction.getAll(...items.map(item => productsCollection.doc(item.product)));
+  }
+
+  /**
+   * Return reserved quantities of order items to product stock
+   */
+  private releaseStock(
+    transaction: FirebaseFirestore.Transaction,
+    items: FirestoreOrderItem[],
+    productDocs: OrderDoc[]
+  ): void {
+    productDocs.forEach((productDoc, index) => {
+      if (!productDoc.exists) return;
+
+      transaction.update(productDoc.ref, {
+        // Refunded quantities were already returned to stock by the refund
+        quantity: roundQuantity(Number(productDoc.get('quantity')) + getBillableQuantity(items[index])),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp()
+      });
+    });
+  }
+
+  /**
+   * Convert a Firestore document to an order
+   */
+  private toOrder(doc: OrderDoc): FirestoreOrder {
+    return {
+      _id: doc.id,
+      ...doc.data()
+    } as FirestoreOrder;
+  }
+
+  /**
+   * Keep only the address fields we know about
+   */
+  private normalizeAddress(address: Address): Address {
+    const coordinates = parseCoordinates(address.coordinates);
+
+    return {
+      street: String(address.street).trim(),
+      city: String(address.city).trim(),
+      postalCode: String(address.postalCode).trim(),
+      country: String(address.country || 'Polska').trim(),
+      ...(coordinates && { coordinates })
+    };
+  }
+}
+
+export const orderService = new OrderService();
@@ -0,0 +1,200 @@
+// backend/services/paymentService.test.ts
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { db, resetFirestore } from '../test/firebaseMock';
+import { ORDER_STATUSES, PAYMENT_STATUSES } from '../constants';
+import { FakePaymentProvider, setPaymentProvider } from './payments';
+import { paymentService } from './paymentService';
+
+vi.mock('../firebase', () => import('../test/firebaseMock'));
+
+let provider: FakePaymentProvider;
+
+const saveOrder = (id: string, data: Record<string, unknown> = {}) =>
+  db.collection('orders').doc(id).set({
+    buyer: 'buyer-1',
+    farmers: ['farmer-1'],
+    items: [{ product: 'apples', quantity: 2, priceAtPurchase: 6.5 }],
+    totalPrice: 13,
+    status: ORDER_STATUSES.PENDING,
+    statusHistory: [],
+    paymentStatus: PAYMENT_STATUSES.PENDING,
+    ...data
+  });
+
+const getOrder = async (id: string) => (await db.collection('orders').doc(id).get()).data();
+
+beforeEach(async () => {
+  resetFirestore();
+  provider = new FakePaymentProvider('whsec_test');
+  setPaymentProvider(provider);
+  await saveOrder('order-1');
+});
+
+describe('paymentService.createPaymentIntent', () => {
+  it('charges the order total in grosze', async () => {
+    const intent = await paymentService.createPaymentIntent('order-1', 'buyer-1');
+
+    expect(intent).toMatchObject({ amount: 1300, currency: 'pln', metadata: { orderId: 'order-1', buyerId: 'buyer-1' } });
+    expect(await getOrder('order-1')).toMatchObject({ paymentId: intent.id, paymentStatus: PAYMENT_STATUSES.PENDING });
+  });
+
+  it('reuses the open intent when the buyer retries', async () => {
+    const first = await paymentService.createPaymentIntent('order-1', 'buyer-1');
+    const second = await paymentService.createPaymentIntent('order-1', 'buyer-1');
+
+    expect(second.id).toBe(first.id);
+  });
+
+  it('only lets the buyer pay for a pending checkout order', async () => {
+    await saveOrder('order-2', { status: ORDER_STATUSES.PAID, paymentStatus: PAYMENT_STATUSES.COMPLETED });
+    await saveOrder('order-3', { parentOrder: 'order-1' });
+
+    await expect(paymentService.createPaymentIntent('order-1', 'buyer-2')).rejects.toMatchObject({ status: 403 });
+    await expect(paymentService.createPaymentIntent('order-2', 'buyer-1')).rejects.toMatchObject({ status: 409 });
+    await expect(paymentService.createPaymentIntent('order-3', 'buyer-1')).rejects.toMatchObject({ status: 400 });
+  });
+});
+
+describe('paymentService.applyPaymentStatus', () => {
+  const pay = async (orderId: string, outcome: 'succeeded' | 'failed') => {
+    const intent = await paymentService.createPaymentIntent(orderId, 'buyer-1');
+    const payment = await provider.simulatePayment(intent.id, outcome);
+    return paymentService.applyPaymentStatus(await paymentService.findOrderByPaymentId(intent.id), payment);
+  };
+
+  it('marks the order and its sub-orders paid', async () => {
+    await saveOrder('order-1', { subOrders: ['order-1-a'] });
+    await saveOrder('order-1-a', { parentOrder: 'order-1' });
+
+    const order = await pay('order-1', 'succeeded');
+
+    expect(order).toMatchObject({ status: ORDER_STATUSES.PAID, paymentStatus: PAYMENT_STATUSES.COMPLETED });
+    expect(await getOrder('order-1-a')).toMatchObject({
+      status: ORDER_STATUSES.PAID,
+      paymentStatus: PAYMENT_STATUSES.COMPLETED
+    });
+  });
+
+  it('keeps the order pending after a failed payment', async () => {
+    const order = await pay('order-1', 'failed');
+
+    expect(order).toMatchObject({ status: ORDER_STATUSES.PENDING, paymentStatus: PAYMENT_STATUSES.FAILED });
+  });
+
+  it('refunds a payment for an order cancelled in the meantime', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const intent = await paymentService.createPaymentIntent('order-1', 'buyer-1');
+    await db.collection('orders').doc('order-1').update({ status: ORDER_STATUSES.CANCELLED });
+    const payment = await provider.simulatePayment(intent.id, 'succeeded');
+
+    const order = await paymentService.applyPaymentStatus(await paymentService.findOrderByPaymentId(intent.id), payment);
+
+    expect(order).toMatchObject({
+      status: ORDER_STATUSES.CANCELLED,
+      paymentStatus: PAYMENT_STATUSES.REFUNDED,
+      refundRequired: false
+    });
+    expect((await db.collection('refunds').doc(`${intent.id}_late`).get()).data()).toMatchObject({
+      type: 'late_payment',
+      order: 'order-1',
+      amount: 13,
+      status: 'succeeded'
+    });
+    // The cancelled order was never booked as a sale, so there is nothing to reverse
+    expect((await db.collection('ledger').get()).empty).toBe(true);
+  });
+
+  it('leaves the late payment flagged for an admin when the refund is rejected', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(provider, 'refundPayment').mockRejectedValue(new Error('Provider down'));
+    const intent = await paymentService.createPaymentIntent('order-1', 'buyer-1');
+    await db.collection('orders').doc('order-1').update({ status: ORDER_STATUSES.CANCELLED });
+    const payment = await provider.simulatePayment(intent.id, 'succeeded');
+
+    await paymentService.applyPaymentStatus(await paymentService.findOrderByPaymentId(intent.id), payment);
+
+    expect(await getOrder('order-1')).toMatchObject({
+      status: ORDER_STATUSES.CANCELLED,
+      paymentStatus: PAYMENT_STATUSES.COMPLETED,
+      refundRequired: true
+    });
+    expect((await db.collection('refunds').doc(`${intent.id}_late`).get()).get('status')).toBe('failed');
+  });
+});
+
+describe('paymentService.handleWebhookEvent', () => {
+  const succeeded = (id: string, paymentId: string) => ({
+    id,
+    type: 'payment.succeeded' as const,
+    providerType: 'payment_intent.succeeded',
+    paymentId
+  });
+
+  it('marks the order paid and records the event', async () => {
+    const intent = await paymentService.createPaymentIntent('order-1', 'buyer-1');
+
+    expect(await paymentService.handleWebhookEvent(succeeded('evt_1', intent.id))).toBe(true);
+
+    expect(await getOrder('order-1')).toMatchObject({ status: ORDER_STATUSES.PAID, paymentStatus: PAYMENT_STATUSES.COMPLETED });
+    expect((await db.collection('paymentEvents').doc('evt_1').get()).data()).toMatchObject({
+      type: 'payment_intent.succeeded',
+      paymentId: intent.id,
+      order: 'order-1',
+      result: PAYMENT_STATUSES.COMPLETED
+    });
+  });
+
+  it('ignores a redelivered event', async () => {
+    const intent = await paymentService.createPaymentIntent('order-1', 'buyer-1');
+    await paymentService.handleWebhookEvent(succeeded('evt_1', intent.id));
+    const paidOrder = await getOrder('order-1');
+
+    expect(await paymentService.handleWebhookEvent(succeeded('evt_1', intent.id))).toBe(false);
+    expect(await getOrder('order-1')).toEqual(paidOrder);
+  });
+
+  it('does not fail a paid order when a late failure arrives', async () => {
+    const intent = await paymentService.createPaymentIntent('order-1', 'buyer-1');
+    await paymentService.handleWebhookEvent(succeeded('evt_1', intent.id));
+
+    await paymentService.handleWebhookEvent({ ...succeeded('evt_2', intent.id), type: 'payment.failed' });
+
+    expect(await getOrder('order-1')).toMatchObject({ status: ORDER_STATUSES.PAID, paymentStatus: PAYMENT_STATUSES.COMPLETED });
+  });
+
+  it('refunds a late payment only once when the event is redelivered', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const intent = await paymentService.createPaymentIntent('order-1', 'buyer-1');
+    await db.collection('orders').doc('order-1').update({ status: ORDER_STATUSES.CANCELLED });
+    await provider.simulatePayment(intent.id, 'succeeded');
+    const refundPayment = vi.spyOn(provider, 'refundPayment');
+
+    await paymentService.handleWebhookEvent(succeeded('evt_1', intent.id));
+    await paymentService.handleWebhookEvent(succeeded('evt_2', intent.id));
+
+    expect(refundPayment).toHaveBeenCalledTimes(1);
+    expect(await getOrder('order-1')).toMatchObject({
+      paymentStatus: PAYMENT_STATUSES.REFUNDED,
+      refundRequired: false
+    });
+  });
+
+  it('ignores the outcome of a replaced intent', async () => {
+    const replaced = await paymentService.createPaymentIntent('order-1', 'buyer-1');
+    await db.collection('orders').doc('order-1').update({ paymentId: 'pi_fake_retry' });
+
+    await paymentService.handleWebhookEvent(succeeded('evt_1', replaced.id));
+
+    expect(await getOrder('order-1')).toMatchObject({ status: ORDER_STATUSES.PENDING, paymentId: 'pi_fake_retry' });
+  });
+
+  it('records events that concern no order', async () => {
+    expect(await paymentService.handleWebhookEvent({ id: 'evt_1', type: 'other', providerType: 'charge.refunded' })).toBe(true);
+
+    expect((await db.collection('paymentEvents').doc('evt_1').get()).data()).toMatchObject({
+      order: null,
+      result: 'ignored'
+    });
+  });
+});
@@ -0,0 +1,263 @@
+// backend/services/paymentService.ts
+import { admin } from '../firebase';
+import { ordersCollection, paymentEventsCollection } from '../models/collections';
+import { config } from '../config';
+import { ORDER_STATUSES, PAYMENT_STATUSES } from '../constants';
+import { orderService, SYSTEM_ACTOR } from './orderService';
+import { refundService } from './refundService';
+import { getPaymentProvider, type PaymentIntent, type PaymentWebhookEvent } from './payments';
+import { ServiceError } from '../utils/serviceError';
+import type { FirestoreOrder } from '../types';
+
+const db = admin.firestore();
+
+/**
+ * Convert an amount in PLN to grosze
+ */
+const toMinorUnits = (amount: number): number => Math.round(amount * 100);
+
+// Intents the buyer can still complete, so they can be reused on retry
+const OPEN_INTENT_STATUSES: PaymentIntent['status'][] = ['requires_payment', 'processing'];
+
+// Payments already settled - a repeated success must not change them
+const SETTLED_PAYMENT_STATUSES: FirestoreOrder['paymentStatus'][] = [
+  PAYMENT_STATUSES.COMPLETED,
+  PAYMENT_STATUSES.REFUNDED
+];
+
+/**
+ * Serwis płatności za zamówienia.
+ * Płacone jest zamówienie złożone przez kupującego (przy wielu rolnikach -
+ * zamówienie nadrzędne); status płatności przenoszony jest na zamówienia cząstkowe.
+ * Płatność, która wpłynie po anulowaniu zamówienia, jest automatycznie zwracana.
+ */
+class PaymentService {
+  /**
+   * Utwórz intencję płatności dla zamówienia oczekującego na płatność
+   */
+  async createPaymentIntent(orderId: string, buyerId: string): Promise<PaymentIntent> {
+    const order = await orderService.getOrderById(orderId);
+
+    if (!order) {
+      throw new ServiceError('Zamówienie nie znalezione.', 404);
+    }
+
+    if (order.buyer !== buyerId) {
+      throw new ServiceError('Nie masz uprawnień do opłacenia tego zamówienia.', 403);
+    }
+
+    if (order.parentOrder) {
+      throw new ServiceError('Zamówienie cząstkowe opłacane jest w ramach zamówienia głównego.', 400);
+    }
+
+    if (order.status !== ORDER_STATUSES.PENDING || order.paymentStatus === PAYMENT_STATUSES.COMPLETED) {
+      throw new ServiceError('Zamówienie nie oczekuje na płatność.', 409);
+    }
+
+    const provider = getPaymentProvider();
+    const amount = toMinorUnits(order.totalPrice);
+
+    // Retrying checkout reuses the open intent instead of creating a second charge
+    if (order.paymentId) {
+      const existing = await this.retrieveIntent(order.paymentId);
+
+      if (existing && OPEN_INTENT_STATUSES.includes(existing.status) && existing.amount === amount) {
+        return existing;
+      }
+    }
+
+    const intent = await provider.createPaymentIntent({
+      amount,
+      currency: config.payments.currency,
+      metadata: {
+        orderId: order._id,
+        buyerId
+      }
+    });
+
+    await orderService.updatePaymentDetails(order._id, {
+      paymentId: intent.id,
+      paymentStatus: PAYMENT_STATUSES.PENDING
+    });
+
+    return intent;
+  }
+
+  /**
+   * Pobierz płatność i zsynchronizuj jej stan z zamówieniem
+   */
+  async getPayment(paymentId: string): Promise<{ payment: PaymentIntent; order: FirestoreOrder }> {
+    const order = await this.findOrderByPaymentId(paymentId);
+    const payment = await getPaymentProvider().retrievePaymentIntent(paymentId);
+
+    return {
+      payment,
+      order: await this.applyPaymentStatus(order, payment)
+    };
+  }
+
+  /**
+   * Znajdź zamówienie (główne), którego dotyczy płatność
+   */
+  async findOrderByPaymentId(paymentId: string): Promise<FirestoreOrder> {
+    const snapshot = await ordersCollection.where('paymentId', '==', paymentId).get();
+
+    // Sub-orders carry the payment ID too - the payment belongs to the checkout order
+    const orderDoc = snapshot.docs.find(doc => !doc.get('parentOrder'));
+
+    if (!orderDoc) {
+      throw new ServiceError('Płatność nie znaleziona.', 404);
+    }
+
+    return {
+      _id: orderDoc.id,
+      ...orderDoc.data()
+    } as FirestoreOrder;
+  }
+
+  /**
+   * Przenieś stan intencji płatności na zamówienie:
+   * udana płatność opłaca zamówienie, nieudana zostawia je oczekujące
+   */
+  async applyPaymentStatus(order: FirestoreOrder, payment: PaymentIntent): Promise<FirestoreOrder> {
+    const updatedOrder = await db.runTransaction(async (transaction) =>
+      this.applyPaymentOutcome(transaction, order._id, payment.id, payment.status)
+    );
+
+    return updatedOrder.refundRequired ? await this.refundLatePayment(updatedOrder) : updatedOrder;
+  }
+
+  /**
+   * Obsłuż zweryfikowane zdarzenie webhooka dostawcy płatności.
+   * Każde zdarzenie zapisywane jest w kolekcji paymentEvents w tej samej
+   * transakcji co zmiana zamówienia, więc ponowne doręczenie tego samego
+   * zdarzenia niczego nie zmienia.
+   * @returns false when the event was already processed
+   */
+  async handleWebhookEvent(event: PaymentWebhookEvent): Promise<boolean> {
+    const eventRef = paymentEventsCollection.doc(event.id);
+
+    const { processed, order } = await db.runTransaction(async (transaction) => {
+      const eventDoc = await transaction.get(eventRef);
+
+      if (eventDoc.exists) {
+        return { processed: false, order: null };
+      }
+
+      let order: FirestoreOrder | null = null;
+
+      if (event.type !== 'other' && event.paymentId) {
+        const snapshot = await transaction.get(ordersCollection.where('paymentId', '==', event.paymentId));
+        const orderDoc = snapshot.docs.find(doc => !doc.get('parentOrder'));
+
+        if (orderDoc) {
+          order = await this.applyPaymentOutcome(
+            transaction,
+            orderDoc.id,
+            event.paymentId,
+            event.type === 'payment.succeeded' ? 'succeeded' : 'failed'
+          );
+        }
+      }
+
+      transaction.set(eventRef, {
+        type: event.providerType,
+        provider: getPaymentProvider().name,
+        paymentId: event.paymentId || null,
+        order: order?._id || null,
+        result: order ? order.paymentStatus : 'ignored',
+        processedAt: admin.firestore.Timestamp.now()
+      });
+
+      return { processed: true, order };
+    });
+
+    if (order?.refundRequired) {
+      await this.refundLatePayment(order);
+    }
+
+    return processed;
+  }
+
+  /**
+   * Apply a payment outcome to an order inside a transaction
+   */
+  private async applyPaymentOutcome(
+    transaction: FirebaseFirestore.Transaction,
+    orderId: string,
+    paymentId: string,
+    status: PaymentIntent['status']
+  ): Promise<FirestoreOrder> {
+    const orderDoc = await transaction.get(ordersCollection.doc(orderId));
+
+    if (!orderDoc.exists) {
+      throw new ServiceError('Zamówienie nie znalezione.', 404);
+    }
+
+    const order = { _id: orderDoc.id, ...orderDoc.data() } as FirestoreOrder;
+
+    // Outcome of an older intent replaced by a retried checkout
+    if (order.paymentId !== paymentId) {
+      return order;
+    }
+
+    if (status === 'succeeded' && !SETTLED_PAYMENT_STATUSES.includes(order.paymentStatus)) {
+      if (order.status === ORDER_STATUSES.PENDING) {
+        return await orderService.updateOrderStatusInTransaction(
+          transaction,
+          order._id,
+          ORDER_STATUSES.PAID,
+          SYSTEM_ACTOR,
+          'Płatność potwierdzona',
+          { paymentStatus: PAYMENT_STATUSES.COMPLETED }
+        );
+      }
+
+      // Paid after the order was cancelled - refunded right after the transaction,
+      // the flag stays for an admin when the provider rejects the refund
+      console.warn(`Payment ${paymentId} succeeded for order ${order._id} in status ${order.status}`);
+      const changes = { paymentStatus: PAYMENT_STATUSES.COMPLETED, refundRequired: true };
+      await orderService.updatePaymentDetailsInTransaction(transaction, order._id, changes);
+      return { ...order, ...changes };
+    }
+
+    if (status === 'failed' && order.paymentStatus === PAYMENT_STATUSES.PENDING) {
+      await orderService.updatePaymentDetailsInTransaction(transaction, order._id, {
+        paymentStatus: PAYMENT_STATUSES.FAILED
+      });
+      return { ...order, paymentStatus: PAYMENT_STATUSES.FAILED };
+    }
+
+    return order;
+  }
+
+  /**
+   * Refund a payment that arrived after the order was cancelled.
+   * The payment is already recorded, so a failed refund leaves the order flagged for an admin.
+   */
+  private async refundLatePayment(order: FirestoreOrder): Promise<FirestoreOrder> {
+    try {
+      if (!(await refundService.refundLatePayment(order._id))) {
+        console.warn(`Late payment of order ${order._id} was not refunded, an admin has to refund it`);
+      }
+    } catch (error) {
+      console.error(`Error refunding late payment of order ${order._id}:`, error);
+    }
+
+    return await orderService.getOrderById(order._id) ?? order;
+  }
+
+  /**
+   * Retrieve an intent, treating intents unknown to the provider as missing
+   */
+  private async retrieveIntent(paymentId: string): Promise<PaymentIntent | null> {
+    try {
+      return await getPaymentProvider().retrievePaymentIntent(paymentId);
+    } catch (error) {
+      console.warn(`Could not retrieve payment intent ${paymentId}:`, error);
+      return null;
+    }
+  }
+}
+
+export const paymentService = new PaymentService();
@@ -0,0 +1,72 @@
+// backend/services/payments/fakeProvider.test.ts
+import { describe, expect, it } from 'vitest';
+import { FakePaymentProvider } from './fakeProvider';
+
+const WEBHOOK_SECRET = 'whsec_test';
+const params = { amount: 4018, currency: 'pln', metadata: { orderId: 'order-1' } };
+
+describe('FakePaymentProvider', () => {
+  it('creates intents awaiting payment', async () => {
+    const provider = new FakePaymentProvider(WEBHOOK_SECRET);
+    const intent = await provider.createPaymentIntent(params);
+
+    expect(intent).toMatchObject({ amount: 4018, currency: 'pln', status: 'requires_payment', metadata: { orderId: 'order-1' } });
+    expect(intent.clientSecret.startsWith(`${intent.id}_secret_`)).toBe(true);
+    expect(await provider.retrievePaymentIntent(intent.id)).toEqual(intent);
+  });
+
+  it('settles an intent once', async () => {
+    const provider = new FakePaymentProvider(WEBHOOK_SECRET);
+    const intent = await provider.createPaymentIntent(params);
+
+    expect((await provider.simulatePayment(intent.id, 'succeeded')).status).toBe('succeeded');
+    await expect(provider.simulatePayment(intent.id, 'failed')).rejects.toMatchObject({ status: 409 });
+  });
+
+  it('lets the buyer retry a failed payment', async () => {
+    const provider = new FakePaymentProvider(WEBHOOK_SECRET);
+    const intent = await provider.createPaymentIntent(params);
+
+    await provider.simulatePayment(intent.id, 'failed');
+
+    expect((await provider.simulatePayment(intent.id, 'succeeded')).status).toBe('succeeded');
+  });
+
+  it('does not find intents of another provider instance', async () => {
+    await expect(new FakePaymentProvider(WEBHOOK_SECRET).retrievePaymentIntent('pi_fake_unknown')).rejects.toMatchObject({
+      status: 404
+    });
+  });
+});
+
+describe('FakePaymentProvider.constructWebhookEvent', () => {
+  const provider = new FakePaymentProvider(WEBHOOK_SECRET);
+  const payload = JSON.stringify({ id: 'evt_1', type: 'payment_intent.succeeded', data: { object: { id: 'pi_fake_1' } } });
+
+  it('parses an event with a valid signature', () => {
+    expect(provider.constructWebhookEvent(Buffer.from(payload), provider.signWebhookPayload(payload))).toEqual({
+      id: 'evt_1',
+      type: 'payment.succeeded',
+      providerType: 'payment_intent.succeeded',
+      paymentId: 'pi_fake_1'
+    });
+  });
+
+  it('rejects a changed payload, another secret or an old signature', () => {
+    const changed = payload.replace('pi_fake_1', 'pi_fake_2');
+    const otherSecret = new FakePaymentProvider('whsec_other').signWebhookPayload(payload);
+    const old = provider.signWebhookPayload(payload, Math.floor(Date.now() / 1000) - 3600);
+
+    expect(() => provider.constructWebhookEvent(Buffer.from(changed), provider.signWebhookPayload(payload))).toThrow(
+      'Nieprawidłowy podpis webhooka.'
+    );
+    expect(() => provider.constructWebhookEvent(Buffer.from(payload), otherSecret)).toThrow('Nieprawidłowy podpis webhooka.');
+    expect(() => provider.constructWebhookEvent(Buffer.from(payload), old)).toThrow('Nieprawidłowy podpis webhooka.');
+  });
+
+  it('passes other event types through', () => {
+    const refund = JSON.stringify({ id: 'evt_2', type: 'charge.refunded' });
+
+    expect(provider.constructWebhookEvent(Buffer.from(refund), provider.signWebhookPayload(refund)).type).toBe('other');
+  });
+});
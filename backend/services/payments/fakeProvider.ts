@@ -0,0 +1,160 @@
+// backend/services/payments/fakeProvider.ts
+import crypto from 'crypto';
+import { ServiceError } from '../../utils/serviceError';
+import type {
+  CreatePaymentIntentParams,
+  PaymentIntent,
+  PaymentProvider,
+  PaymentRefund,
+  PaymentWebhookEvent
+} from './types';
+
+// Maximum age of a signed webhook payload (seconds), as in Stripe
+const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+/**
+ * In-process payment provider for local development and tests.
+ * Intents live in memory only; their outcome is decided by calling
+ * simulatePayment (exposed in development via the payments API).
+ * Webhooks use Stripe's signature scheme: header "t=<timestamp>,v1=<hmac>",
+ * where hmac = HMAC-SHA256(secret, "<timestamp>.<raw body>").
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake';
+  readonly signatureHeader = 'x-payment-signature';
+  private intents = new Map<string, PaymentIntent>();
+  private refunds = new Map<string, PaymentRefund & { paymentId: string }>();
+  private webhookSecret: string;
+
+  constructor(webhookSecret: string) {
+    this.webhookSecret = webhookSecret;
+  }
+
+  async createPaymentIntent(params: CreatePaymentIntentParams): Promise<PaymentIntent> {
+    const id = `pi_fake_${crypto.randomBytes(12).toString('hex')}`;
+
+    const intent: PaymentIntent = {
+      id,
+      clientSecret: `${id}_secret_${crypto.randomBytes(8).toString('hex')}`,
+      amount: params.amount,
+      currency: params.currency,
+      status: 'requires_payment',
+      metadata: { ...params.metadata }
+    };
+
+    this.intents.set(id, intent);
+    return { ...intent };
+  }
+
+  async retrievePaymentIntent(id: string): Promise<PaymentIntent> {
+    return { ...this.getIntent(id) };
+  }
+
+  /**
+   * Settle a payment intent as if the buyer paid (or the card was declined)
+   */
+  async simulatePayment(id: string, outcome: 'succeeded' | 'failed'): Promise<PaymentIntent> {
+    const intent = this.getIntent(id);
+
+    if (intent.status === 'succeeded' || intent.status === 'canceled') {
+      throw new ServiceError('Płatność została już zakończona.', 409);
+    }
+
+    intent.status = outcome;
+    return { ...intent };
+  }
+
+  async refundPayment(paymentId: string, amount: number, idempotencyKey: string): Promise<PaymentRefund> {
+    const previous = this.refunds.get(idempotencyKey);
+    if (previous) {
+      return { id: previous.id, amount: previous.amount, status: previous.status };
+    }
+
+    const intent = this.getIntent(paymentId);
+
+    if (intent.status !== 'succeeded') {
+      throw new ServiceError('Nie można zwrócić nieopłaconej płatności.', 409);
+    }
+
+    const alreadyRefunded = Array.from(this.refunds.values())
+      .filter(refund => refund.paymentId === paymentId)
+      .reduce((sum, refund) => sum + refund.amount, 0);
+
+    if (amount <= 0 || alreadyRefunded + amount > intent.amount) {
+      throw new ServiceError('Kwota zwrotu przekracza kwotę płatności.', 409);
+    }
+
+    const refund: PaymentRefund = {
+      id: `re_fake_${crypto.randomBytes(12).toString('hex')}`,
+      amount,
+      status: 'succeeded'
+    };
+
+    this.refunds.set(idempotencyKey, { ...refund, paymentId });
+    return refund;
+  }
+
+  /**
+   * Build the signature header for a webhook payload (for tests and local tooling)
+   */
+  signWebhookPayload(payload: string, timestamp = Math.floor(Date.now() / 1000)): string {
+    return `t=${timestamp},v1=${this.computeSignature(payload, timestamp)}`;
+  }
+
+  constructWebhookEvent(rawBody: Buffer, signature: string): PaymentWebhookEvent {
+    const parts = Object.fromEntries(
+      signature.split(',').map(part => part.trim().split('=') as [string, string])
+    );
+    const timestamp = Number(parts.t);
+    const expected = Buffer.from(this.computeSignature(rawBody.toString('utf8'), timestamp));
+    const received = Buffer.from(parts.v1 || '');
+
+    const isValid = !isNaN(timestamp) &&
+      Math.abs(Date.now() / 1000 - timestamp) <= WEBHOOK_TOLERANCE_SECONDS &&
+      expected.length === received.length &&
+      crypto.timingSafeEqual(expected, received);
+
+    if (!isValid) {
+      throw new ServiceError('Nieprawidłowy podpis webhooka.', 400);
+    }
+
+    let event: { id?: string; type?: string; data?: { object?: { id?: string } } };
+    try {
+      event = JSON.parse(rawBody.toString('utf8'));
+    } catch {
+      throw new ServiceError('Nieprawidłowa treść webhooka.', 400);
+    }
+
+    if (!event.id || !event.type) {
+      throw new ServiceError('Nieprawidłowa treść webhooka.', 400);
+    }
+
+    const type = event.type === 'payment_intent.succeeded'
+      ? 'payment.succeeded'
+      : event.type === 'payment_intent.payment_failed' ? 'payment.failed' : 'other';
+
+    return {
+      id: event.id,
+      type,
+      providerType: event.type,
+      paymentId: event.data?.object?.id
+    };
+  }
+
+  private computeSignature(payload: string, timestamp: number): string {
+    return crypto
+      .createHmac('sha256', this.webhookSecret)
+      .update(`${timestamp}.${payload}`)
+      .digest('hex');
+  }
+
+  private getIntent(id: string): PaymentIntent {
+    const intent = this.intents.get(id);
+
+    if (!intent) {
+      throw new ServiceError('Płatność nie znaleziona.', 404);
+    }
+
+    return intent;
+  }
+}
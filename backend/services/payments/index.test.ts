@@ -0,0 +1,30 @@
+// backend/services/payments/index.test.ts
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+const loadProvider = async (env: Record<string, string>) => {
+  Object.entries(env).forEach(([name, value]) => vi.stubEnv(name, value));
+  vi.resetModules();
+  const { getPaymentProvider } = await import('./index');
+  return getPaymentProvider;
+};
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('getPaymentProvider', () => {
+  it('uses the fake provider with the development secret outside production', async () => {
+    const getPaymentProvider = await loadProvider({ NODE_ENV: 'development', PAYMENT_PROVIDER: 'fake', PAYMENT_WEBHOOK_SECRET: '' });
+
+    expect(getPaymentProvider().name).toBe('fake');
+  });
+
+  it('makes payments unavailable with an invalid configuration', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const missingKey = await loadProvider({ PAYMENT_PROVIDER: 'stripe', STRIPE_SECRET_KEY: '' });
+    expect(missingKey).toThrow(expect.objectContaining({ status: 503 }));
+
+    const fakeInProduction = await loadProvider({ NODE_ENV: 'production', PAYMENT_PROVIDER: 'fake', PAYMENT_WEBHOOK_SECRET: 'whsec_x' });
+    expect(fakeInProduction).toThrow(expect.objectContaining({ status: 503 }));
+  });
+});
@@ -0,0 +1,42 @@
+// backend/services/payments/index.ts
+import { config, validatePaymentConfig } from '../../config';
+import { ServiceError } from '../../utils/serviceError';
+import { FakePaymentProvider } from './fakeProvider';
+import { StripePaymentProvider } from './stripeProvider';
+import type { PaymentProvider } from './types';
+
+export * from './types';
+export { FakePaymentProvider } from './fakeProvider';
+export { StripePaymentProvider } from './stripeProvider';
+
+let provider: PaymentProvider | null = null;
+
+/**
+ * Payment provider selected by configuration (PAYMENT_PROVIDER, stripe by default).
+ * An invalid configuration disables payments only (503), not the whole API.
+ */
+export const getPaymentProvider = (): PaymentProvider => {
+  if (!provider) {
+    try {
+      validatePaymentConfig();
+    } catch (error) {
+      console.error('Invalid payment configuration:', error instanceof Error ? error.message : error);
+      throw new ServiceError('Płatności są chwilowo niedostępne.', 503);
+    }
+
+    if (config.payments.provider === 'stripe') {
+      provider = new StripePaymentProvider(config.payments.stripeSecretKey, config.payments.webhookSecret);
+    } else {
+      provider = new FakePaymentProvider(config.payments.webhookSecret);
+    }
+  }
+
+  return provider;
+};
+
+/**
+ * Replace the configured provider (e.g. with a FakePaymentProvider in tests)
+ */
+export const setPaymentProvider = (paymentProvider: PaymentProvider): void => {
+  provider = paymentProvider;
+};
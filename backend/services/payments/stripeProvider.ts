@@ -0,0 +1,113 @@
+// backend/services/payments/stripeProvider.ts
+import Stripe from 'stripe';
+import { ServiceError } from '../../utils/serviceError';
+import type {
+  CreatePaymentIntentParams,
+  PaymentIntent,
+  PaymentIntentStatus,
+  PaymentProvider,
+  PaymentRefund,
+  PaymentWebhookEvent
+} from './types';
+
+/**
+ * Map Stripe PaymentIntent status to the provider-independent status
+ */
+const toIntentStatus = (status: Stripe.PaymentIntent.Status): PaymentIntentStatus => {
+  switch (status) {
+    case 'succeeded':
+      return 'succeeded';
+    case 'processing':
+      return 'processing';
+    case 'canceled':
+      return 'canceled';
+    default:
+      // requires_payment_method, requires_confirmation, requires_action, requires_capture
+      return 'requires_payment';
+  }
+};
+
+/**
+ * Stripe PaymentIntents
+ */
+export class StripePaymentProvider implements PaymentProvider {
+  readonly name = 'stripe';
+  readonly signatureHeader = 'stripe-signature';
+  private stripe: Stripe;
+  private webhookSecret: string;
+
+  constructor(secretKey: string, webhookSecret: string) {
+    this.stripe = new Stripe(secretKey);
+    this.webhookSecret = webhookSecret;
+  }
+
+  async createPaymentIntent(params: CreatePaymentIntentParams): Promise<PaymentIntent> {
+    const intent = await this.stripe.paymentIntents.create({
+      amount: params.amount,
+      currency: params.currency,
+      metadata: params.metadata,
+      automatic_payment_methods: { enabled: true }
+    });
+
+    return this.toPaymentIntent(intent);
+  }
+
+  async retrievePaymentIntent(id: string): Promise<PaymentIntent> {
+    const intent = await this.stripe.paymentIntents.retrieve(id);
+    return this.toPaymentIntent(intent);
+  }
+
+  async refundPayment(paymentId: string, amount: number, idempotencyKey: string): Promise<PaymentRefund> {
+    const refund = await this.stripe.refunds.create(
+      { payment_intent: paymentId, amount },
+      { idempotencyKey }
+    );
+
+    return {
+      id: refund.id,
+      amount: refund.amount,
+      status: refund.status === 'succeeded'
+        ? 'succeeded'
+        : refund.status === 'pending' || refund.status === 'requires_action' ? 'pending' : 'failed'
+    };
+  }
+
+  constructWebhookEvent(rawBody: Buffer, signature: string): PaymentWebhookEvent {
+    let event: Stripe.Event;
+
+    try {
+      event = this.stripe.webhooks.constructEvent(rawBody, signature, this.webhookSecret);
+    } catch (error) {
+      console.warn('Stripe webhook signature verification failed:', error);
+      throw new ServiceError('Nieprawidłowy podpis webhooka.', 400);
+    }
+
+    if (event.type === 'payment_intent.succeeded' || event.type === 'payment_intent.payment_failed') {
+      return {
+        id: event.id,
+        type: event.type === 'payment_intent.succeeded' ? 'payment.succeeded' : 'payment.failed',
+        providerType: event.type,
+        paymentId: event.data.object.id
+      };
+    }
+
+    return { id: event.id, type: 'other', providerType: event.type };
+  }
+
+  private toPaymentIntent(intent: Stripe.PaymentIntent): PaymentIntent {
+    // Stripe has no separate "failed" status - a failed attempt returns
+    // the intent to requires_payment_method with last_payment_error set
+    const status = intent.status === 'requires_payment_method' && intent.last_payment_error
+      ? 'failed'
+      : toIntentStatus(intent.status);
+
+    return {
+      id: intent.id,
+      clientSecret: intent.client_secret || '',
+      amount: intent.amount,
+      currency: intent.currency,
+      status,
+      metadata: intent.metadata
+    };
+  }
+}
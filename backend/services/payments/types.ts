@@ -0,0 +1,70 @@
+// backend/services/payments/types.ts
+
+/**
+ * Provider-independent state of a payment intent
+ */
+export type PaymentIntentStatus =
+  | 'requires_payment'
+  | 'processing'
+  | 'succeeded'
+  | 'failed'
+  | 'canceled';
+
+export interface PaymentIntent {
+  id: string;
+  clientSecret: string;
+  amount: number; // w groszach
+  currency: string;
+  status: PaymentIntentStatus;
+  metadata: Record<string, string>;
+}
+
+export interface CreatePaymentIntentParams {
+  amount: number; // w groszach
+  currency: string;
+  metadata: Record<string, string>;
+}
+
+export interface PaymentRefund {
+  id: string;
+  amount: number; // w groszach
+  status: 'pending' | 'succeeded' | 'failed';
+}
+
+/**
+ * Webhook event translated to what the checkout cares about
+ */
+export interface PaymentWebhookEvent {
+  id: string; // provider event ID, used for idempotent processing
+  type: 'payment.succeeded' | 'payment.failed' | 'other';
+  providerType: string; // original event type, e.g. payment_intent.succeeded
+  paymentId?: string;
+}
+
+/**
+ * Payment gateway used by the checkout
+ */
+export interface PaymentProvider {
+  readonly name: string;
+
+  createPaymentIntent(params: CreatePaymentIntentParams): Promise<PaymentIntent>;
+
+  retrievePaymentIntent(id: string): Promise<PaymentIntent>;
+
+  /**
+   * Refund part of a settled payment. The idempotency key makes a retried
+   * call return the original refund instead of refunding twice.
+   */
+  refundPayment(paymentId: string, amount: number, idempotencyKey: string): Promise<PaymentRefund>;
+
+  /**
+   * HTTP header carrying the webhook signature
+   */
+  readonly signatureHeader: string;
+
+  /**
+   * Verify webhook signature against the raw request body and parse the event.
+   * Throws ServiceError (400) when the signature is invalid.
+   */
+  constructWebhookEvent(rawBody: Buffer, signature: string): PaymentWebhookEvent;
+}
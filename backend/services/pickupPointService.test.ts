@@ -0,0 +1,106 @@
+// backend/services/pickupPointService.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { db, resetFirestore } from '../test/firebaseMock';
+import { ORDER_STATUSES } from '../constants';
+import { pickupPointService } from './pickupPointService';
+import { orderService, type OrderActor } from './orderService';
+import { convertToDate } from '../../src/shared/utils/firebase';
+
+vi.mock('../firebase', () => import('../test/firebaseMock'));
+
+const buyer: OrderActor = { id: 'buyer-1', roles: ['buyer'] };
+const shippingAddress = { street: 'Polna 1', city: 'Warszawa', postalCode: '00-001', country: 'Polska' };
+const pointAddress = { street: 'Rynek 5', city: 'Warszawa', postalCode: '00-002', country: 'Polska' };
+
+let pointId: string;
+
+const order = (products: string[], date = '2026-05-06') => orderService.createOrder('buyer-1', {
+  items: products.map(product => ({ product, quantity: 1 })),
+  shippingAddress,
+  pickupPoint: { point: pointId, date }
+});
+
+const parcelCount = async (date = '2026-05-06') =>
+  (await db.collection('pickupPointBookings').doc(`${pointId}_${date}`).get()).get('parcelCount');
+
+beforeEach(async () => {
+  resetFirestore();
+  // Monday morning
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2026-05-04T08:00:00Z'));
+
+  await db.collection('users').doc('buyer-1').set({ fullName: 'Piotr Wiśniewski' });
+  await db.collection('users').doc('operator-1').set({ fullName: 'Anna Kowalska' });
+  for (const farmer of ['farmer-1', 'farmer-2', 'farmer-3']) {
+    await db.collection('users').doc(farmer).set({
+      fullName: farmer,
+      location: { type: 'Point', coordinates: [21.0, 52.2] }
+    });
+  }
+  await db.collection('products').doc('carrots').set({
+    name: 'Marchew', category: 'warzywa', unit: 'kg', price: 4.5, quantity: 10, owner: 'farmer-1', status: 'available'
+  });
+  await db.collection('products').doc('apples').set({
+    name: 'Jabłka', category: 'owoce', unit: 'kg', price: 6, quantity: 10, owner: 'farmer-2', status: 'available'
+  });
+  await db.collection('products').doc('honey').set({
+    name: 'Miód', category: 'inne', unit: 'szt.', price: 30, quantity: 10, owner: 'farmer-3', status: 'available'
+  });
+
+  const point = await pickupPointService.createPickupPoint({
+    name: 'Punkt Rynek',
+    location: { type: 'Point', coordinates: [21.01, 52.23], address: 'Rynek 5, Warszawa' },
+    address: pointAddress,
+    openingHours: [{ dayOfWeek: 3, open: '16:00', close: '19:00' }],
+    capacity: 2,
+    operator: 'operator-1',
+    isActive: true
+  });
+  pointId = point._id;
+
+  await pickupPointService.setFarmerParticipation(point, 'farmer-1', true);
+  await pickupPointService.setFarmerParticipation(await pickupPointService.getPickupPoint(pointId), 'farmer-2', true);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('pickupPointService parcel capacity', () => {
+  it('books one parcel per farmer and delivers to the point when it opens', async () => {
+    const created = await order(['carrots', 'apples']);
+
+    expect(created.pickupPoint).toMatchObject({ id: pointId, date: '2026-05-06', address: pointAddress });
+    expect(created.shippingAddress).toMatchObject(pointAddress);
+    // 16:00 in Warsaw is 14:00 UTC in summer
+    expect(convertToDate(created.deliveryDate)).toEqual(new Date('2026-05-06T14:00:00Z'));
+    expect(await parcelCount()).toBe(2);
+
+    const availability = await pickupPointService.getAvailability(await pickupPointService.getPickupPoint(pointId));
+    expect(availability.map(day => day.date)).toEqual(['2026-05-13']);
+  });
+
+  it('rejects an order over the daily capacity without reserving stock', async () => {
+    await order(['carrots', 'apples']);
+
+    await expect(order(['carrots'])).rejects.toMatchObject({ status: 409 });
+    expect((await db.collection('products').doc('carrots').get()).get('quantity')).toBe(9);
+    expect(await parcelCount()).toBe(2);
+  });
+
+  it('releases the parcel when the order is cancelled', async () => {
+    const created = await order(['carrots']);
+    expect(await parcelCount()).toBe(1);
+
+    await orderService.updateOrderStatus(created._id, ORDER_STATUSES.CANCELLED, buyer);
+
+    expect(await parcelCount()).toBe(0);
+    await expect(order(['carrots', 'apples'])).resolves.toMatchObject({ pickupPoint: { id: pointId } });
+  });
+
+  it('rejects farmers that do not deliver to the point and closed days', async () => {
+    await expect(order(['honey'])).rejects.toMatchObject({ status: 409 });
+    await expect(order(['carrots'], '2026-05-07')).rejects.toMatchObject({ status: 409 });
+    expect(await parcelCount()).toBeUndefined();
+  });
+});
@@ -0,0 +1,389 @@
+// backend/services/pickupPointService.ts
+import { admin } from '../firebase';
+import {
+  ordersCollection,
+  pickupPointBookingsCollection,
+  pickupPointsCollection,
+  usersCollection
+} from '../models/collections';
+import { DELIVERY_SLOT_BOOKING_DAYS } from '../constants';
+import { ServiceError } from '../utils/serviceError';
+import { calculateDistance } from '../utils/geoUtils';
+import { addDaysToKey, getDayOfWeek, toDateKey } from '../utils/dateKeys';
+import type {
+  FirestoreOrder,
+  FirestorePickupPoint,
+  FirestorePickupPointBooking,
+  PickupPointDay,
+  PickupPointSelection
+} from '../types';
+
+const db = admin.firestore();
+
+const getBookingId = (pointId: string, date: string): string => `${pointId}_${date}`;
+
+export type PickupPointRequest = Omit<FirestorePickupPoint, '_id' | 'farmers' | 'createdAt' | 'updatedAt'>;
+
+export interface PickupPointFilters {
+  lat?: number;
+  lng?: number;
+  radius?: number; // km
+  farmer?: string;
+}
+
+export interface PickupPointAvailability {
+  date: string;
+  open: string;
+  close: string;
+  capacity: number;
+  parcelCount: number;
+  remaining: number;
+}
+
+/**
+ * Pickup point as stored on an order
+ */
+export type OrderPickupPointData = NonNullable<FirestoreOrder['pickupPoint']>;
+
+/**
+ * Pickup point checked inside the order transaction
+ */
+export interface PickupPointReservation {
+  pickupPoint: OrderPickupPointData;
+  coordinates: [number, number];
+  opensAt: string; // HH:MM on the pickup day
+}
+
+/**
+ * Serwis punktów odbioru. Rolnicy, którzy zgłosili się do punktu, dowożą
+ * do niego paczki zbiorczo; kupujący wybiera punkt i dzień odbioru.
+ * Każde zamówienie rolnika to jedna paczka - dzienny limit paczek punktu
+ * pilnowany jest w transakcji tworzenia zamówienia.
+ */
+class PickupPointService {
+  /**
+   * Aktywne punkty odbioru (opcjonalnie w promieniu lub obsługiwane przez rolnika)
+   */
+  async getPickupPoints(filters: PickupPointFilters = {}): Promise<FirestorePickupPoint[]> {
+    let query: FirebaseFirestore.Query = pickupPointsCollection.where('isActive', '==', true);
+
+    if (filters.farmer) {
+      query = query.where('farmers', 'array-contains', filters.farmer);
+    }
+
+    const snapshot = await query.get();
+    const points = snapshot.docs.map(doc => this.toPickupPoint(doc));
+
+    if (filters.lat === undefined || filters.lng === undefined) {
+      return points.sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    const { lat, lng } = filters;
+
+    return points
+      .map(point => ({
+        ...point,
+        distance: calculateDistance(lat, lng, point.location.coordinates[1], point.location.coordinates[0])
+      }))
+      .filter(point => !filters.radius || point.distance <= filters.radius)
+      .sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * Pobierz punkt odbioru po ID
+   */
+  async getPickupPoint(pointId: string): Promise<FirestorePickupPoint> {
+    const pointDoc = await pickupPointsCollection.doc(pointId).get();
+
+    if (!pointDoc.exists) {
+      throw new ServiceError('Punkt odbioru nie znaleziony.', 404);
+    }
+
+    return this.toPickupPoint(pointDoc);
+  }
+
+  /**
+   * Utwórz punkt odbioru
+   */
+  async createPickupPoint(request: PickupPointRequest): Promise<FirestorePickupPoint> {
+    await this.assertOperatorExists(request.operator);
+
+    const now = admin.firestore.Timestamp.now();
+    const pointRef = pickupPointsCollection.doc();
+
+    await pointRef.set({
+      ...request,
+      farmers: [],
+      createdAt: now,
+      updatedAt: now
+    });
+
+    return this.getPickupPoint(pointRef.id);
+  }
+
+  /**
+   * Zmień dane punktu odbioru
+   */
+  async updatePickupPoint(
+    point: FirestorePickupPoint,
+    request: Partial<PickupPointRequest>
+  ): Promise<FirestorePickupPoint> {
+    if (request.operator && request.operator !== point.operator) {
+      await this.assertOperatorExists(request.operator);
+    }
+
+    const update: Record<string, unknown> = {
+      updatedAt: admin.firestore.Timestamp.now()
+    };
+
+    Object.entries(request).forEach(([field, value]) => {
+      if (value !== undefined) update[field] = value;
+    });
+
+    await pickupPointsCollection.doc(point._id).update(update);
+    return this.getPickupPoint(point._id);
+  }
+
+  /**
+   * Zgłoś rolnika do obsługi punktu lub wycofaj zgłoszenie
+   */
+  async setFarmerParticipation(
+    point: FirestorePickupPoint,
+    farmerId: string,
+    participates: boolean
+  ): Promise<FirestorePickupPoint> {
+    if (participates && !point.isActive) {
+      throw new ServiceError('Punkt odbioru jest nieaktywny.', 409);
+    }
+
+    await pickupPointsCollection.doc(point._id).update({
+      farmers: participates
+        ? admin.firestore.FieldValue.arrayUnion(farmerId)
+        : admin.firestore.FieldValue.arrayRemove(farmerId),
+      updatedAt: admin.firestore.Timestamp.now()
+    });
+
+    return this.getPickupPoint(point._id);
+  }
+
+  /**
+   * Dni, w które można zamówić odbiór w punkcie, z wolnym miejscem na paczki
+   */
+  async getAvailability(point: FirestorePickupPoint, parcels = 1): Promise<PickupPointAvailability[]> {
+    const dates = this.getBookableDates()
+      .map(date => ({ date, hours: this.getOpeningHours(point, date) }))
+      .filter(({ hours }) => Boolean(hours));
+
+    if (dates.length === 0) {
+      return [];
+    }
+
+    const bookingDocs = await db.getAll(
+      ...dates.map(({ date }) => pickupPointBookingsCollection.doc(getBookingId(point._id, date)))
+    );
+
+    return dates
+      .map(({ date, hours }, index) => {
+        const parcelCount = Number(bookingDocs[index].get('parcelCount')) || 0;
+
+        return {
+          date,
+          open: hours?.open || '',
+          close: hours?.close || '',
+          capacity: point.capacity,
+          parcelCount,
+          remaining: Math.max(0, point.capacity - parcelCount)
+        };
+      })
+      .filter(day => day.remaining >= parcels);
+  }
+
+  /**
+   * Paczki oczekiwane w punkcie w kolejnych dniach, pogrupowane po zamówieniu kupującego
+   */
+  async getExpectedParcels(point: FirestorePickupPoint, from: Date, days: number): Promise<PickupPointDay[]> {
+    const fromKey = toDateKey(from);
+    const toKey = addDaysToKey(fromKey, days - 1);
+
+    const bookingsSnapshot = await pickupPointBookingsCollection.where('point', '==', point._id).get();
+    const bookings = bookingsSnapshot.docs
+      .map(doc => ({ _id: doc.id, ...doc.data() }) as FirestorePickupPointBooking)
+      .filter(booking => booking.date >= fromKey && booking.date <= toKey && booking.orders?.length > 0)
+      .sort((a, b) => a.date.localeCompare(b.date));
+
+    const orderIds = bookings.flatMap(booking => booking.orders);
+    if (orderIds.length === 0) {
+      return [];
+    }
+
+    const orderDocs = await db.getAll(...orderIds.map(id => ordersCollection.doc(id)));
+    const orders = new Map(
+      orderDocs
+        .filter(doc => doc.exists)
+        .map(doc => [doc.id, { _id: doc.id, ...doc.data() } as FirestoreOrder])
+    );
+
+    const userIds = Array.from(new Set(
+      Array.from(orders.values()).flatMap(order => [order.buyer, order.farmer || ''])
+    )).filter(Boolean);
+    const userDocs = await db.getAll(...userIds.map(id => usersCollection.doc(id)));
+    const users = new Map(userDocs.map(doc => [doc.id, doc.data()]));
+
+    return bookings.map(booking => {
+      const groups = new Map<string, PickupPointDay['orders'][number]>();
+
+      booking.orders.forEach(orderId => {
+        const order = orders.get(orderId);
+        if (!order) return;
+
+        const checkoutOrderId = order.parentOrder || order._id;
+        const buyer = users.get(order.buyer);
+        const farmer = users.get(order.farmer || '');
+
+        const group = groups.get(checkoutOrderId) || {
+          order: checkoutOrderId,
+          buyer: order.buyer,
+          buyerName: buyer?.fullName || '',
+          ...(buyer?.phoneNumber && { buyerPhone: buyer.phoneNumber }),
+          parcels: []
+        };
+
+        group.parcels.push({
+          order: order._id,
+          farmer: order.farmer || '',
+          farmerName: farmer?.companyName || farmer?.fullName || '',
+          status: order.status,
+          itemCount: order.items.length
+        });
+
+        groups.set(checkoutOrderId, group);
+      });
+
+      return {
+        date: booking.date,
+        parcelCount: booking.parcelCount,
+        capacity: point.capacity,
+        orders: Array.from(groups.values())
+      };
+    });
+  }
+
+  /**
+   * Sprawdź wybrany punkt i dzień w transakcji zamówienia (tylko odczyty).
+   * Wszyscy rolnicy zamówienia muszą obsługiwać punkt; każdy dowozi jedną paczkę.
+   */
+  async checkPickupPointInTransaction(
+    transaction: FirebaseFirestore.Transaction,
+    selection: PickupPointSelection,
+    farmers: string[]
+  ): Promise<PickupPointReservation> {
+    const [pointDoc, bookingDoc] = await transaction.getAll(
+      pickupPointsCollection.doc(selection.point),
+      pickupPointBookingsCollection.doc(getBookingId(selection.point, selection.date))
+    );
+
+    if (!pointDoc.exists) {
+      throw new ServiceError('Punkt odbioru nie znaleziony.', 404);
+    }
+
+    const point = this.toPickupPoint(pointDoc);
+
+    if (!point.isActive) {
+      throw new ServiceError('Punkt odbioru jest nieaktywny.', 409);
+    }
+
+    const unserved = farmers.filter(farmer => !(point.farmers || []).includes(farmer));
+    if (unserved.length > 0) {
+      throw new ServiceError(
+        'Nie wszyscy rolnicy z zamówienia dostarczają do wybranego punktu odbioru.',
+        409
+      );
+    }
+
+    const openingHours = this.getOpeningHours(point, selection.date);
+
+    if (!this.getBookableDates().includes(selection.date) || !openingHours) {
+      throw new ServiceError('Punkt odbioru jest nieczynny w wybranym dniu.', 409);
+    }
+
+    const parcelCount = Number(bookingDoc.get('parcelCount')) || 0;
+
+    if (parcelCount + farmers.length > point.capacity) {
+      throw new ServiceError(`Punkt odbioru nie przyjmie więcej paczek w dniu ${selection.date}.`, 409);
+    }
+
+    return {
+      pickupPoint: {
+        id: point._id,
+        name: point.name,
+        date: selection.date,
+        address: point.address
+      },
+      coordinates: point.location.coordinates,
+      opensAt: openingHours.open
+    };
+  }
+
+  /**
+   * Zarezerwuj miejsce na paczki zamówień rolników (tylko zapis)
+   */
+  reserveParcels(
+    transaction: FirebaseFirestore.Transaction,
+    reservation: PickupPointReservation,
+    orderIds: string[]
+  ): void {
+    const { id, date } = reservation.pickupPoint;
+
+    transaction.set(pickupPointBookingsCollection.doc(getBookingId(id, date)), {
+      point: id,
+      date,
+      parcelCount: admin.firestore.FieldValue.increment(orderIds.length),
+      orders: admin.firestore.FieldValue.arrayUnion(...orderIds),
+      updatedAt: admin.firestore.Timestamp.now()
+    }, { merge: true });
+  }
+
+  /**
+   * Zwolnij miejsce paczki anulowanego zamówienia rolnika (tylko zapis)
+   */
+  releaseParcel(transaction: FirebaseFirestore.Transaction, order: FirestoreOrder): void {
+    if (!order.pickupPoint) return;
+
+    transaction.update(pickupPointBookingsCollection.doc(getBookingId(order.pickupPoint.id, order.pickupPoint.date)), {
+      parcelCount: admin.firestore.FieldValue.increment(-1),
+      orders: admin.firestore.FieldValue.arrayRemove(order._id),
+      updatedAt: admin.firestore.Timestamp.now()
+    });
+  }
+
+  /**
+   * Dates buyers can choose - from tomorrow up to the booking horizon
+   */
+  private getBookableDates(): string[] {
+    const today = toDateKey(new Date());
+
+    return Array.from({ length: DELIVERY_SLOT_BOOKING_DAYS }, (_, day) => addDaysToKey(today, day + 1));
+  }
+
+  private getOpeningHours(point: FirestorePickupPoint, date: string) {
+    const dayOfWeek = getDayOfWeek(date);
+    return (point.openingHours || []).find(hours => hours.dayOfWeek === dayOfWeek);
+  }
+
+  private async assertOperatorExists(operatorId: string): Promise<void> {
+    const operatorDoc = await usersCollection.doc(operatorId).get();
+
+    if (!operatorDoc.exists) {
+      throw new ServiceError('Operator punktu odbioru nie znaleziony.', 404);
+    }
+  }
+
+  private toPickupPoint(doc: FirebaseFirestore.DocumentSnapshot): FirestorePickupPoint {
+    return {
+      _id: doc.id,
+      ...doc.data()
+    } as FirestorePickupPoint;
+  }
+}
+
+export const pickupPointService = new PickupPointService();
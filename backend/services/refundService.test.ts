@@ -0,0 +1,225 @@
+// backend/services/refundService.test.ts
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { db, resetFirestore } from '../test/firebaseMock';
+import { ORDER_STATUSES, PAYMENT_STATUSES } from '../constants';
+import { FakePaymentProvider, setPaymentProvider } from './payments';
+import { invoiceService } from './invoiceService';
+import { refundService } from './refundService';
+import type { FirestoreOrder } from '../types';
+import type { OrderActor } from './orderService';
+
+vi.mock('../firebase', () => import('../test/firebaseMock'));
+vi.mock('./emailService', () => ({
+  emailService: { sendRefundEmail: vi.fn() }
+}));
+
+const year = new Date().getFullYear();
+const farmer: OrderActor = { id: 'farmer-1', roles: ['farmer'] };
+const buyer: OrderActor = { id: 'buyer-1', roles: ['buyer'] };
+const admin: OrderActor = { id: 'admin-1', roles: ['admin'] };
+
+let provider: FakePaymentProvider;
+
+const getOrder = async (id: string) =>
+  ({ _id: id, ...(await db.collection('orders').doc(id).get()).data() } as FirestoreOrder);
+
+/**
+ * Paid single-farmer order: 2.5 kg of apples (6.99) and 2 l of juice (10.80)
+ */
+const savePaidOrder = async (id: string, data: Record<string, unknown> = {}) => {
+  const amount = Math.round(Number(data.totalPrice ?? 39.08) * 100);
+  const intent = await provider.createPaymentIntent({ amount, currency: 'pln', metadata: { orderId: id } });
+  await provider.simulatePayment(intent.id, 'succeeded');
+
+  await db.collection('orders').doc(id).set({
+    buyer: 'buyer-1',
+    farmer: 'farmer-1',
+    farmers: ['farmer-1'],
+    items: [
+      { product: 'apples', quantity: 2.5, priceAtPurchase: 6.99 },
+      { product: 'juice', quantity: 2, priceAtPurchase: 10.8 }
+    ],
+    totalPrice: 39.08,
+    status: ORDER_STATUSES.PAID,
+    statusHistory: [],
+    paymentId: intent.id,
+    paymentStatus: PAYMENT_STATUSES.COMPLETED,
+    ...data
+  });
+};
+
+beforeEach(async () => {
+  resetFirestore();
+  provider = new FakePaymentProvider('whsec_test');
+  setPaymentProvider(provider);
+
+  await db.collection('users').doc('farmer-1').set({ fullName: 'Jan Kowalski', role: 'farmer' });
+  await db.collection('users').doc('buyer-1').set({ fullName: 'Piotr Wiśniewski', email: 'piotr@example.com' });
+  await db.collection('products').doc('apples').set({ name: 'Jabłka', category: 'owoce', unit: 'kg', quantity: 10 });
+  await db.collection('products').doc('juice').set({ name: 'Sok jabłkowy', category: 'napoje', unit: 'l', quantity: 5 });
+  await savePaidOrder('order-1');
+});
+
+describe('refundService.refundItem', () => {
+  it('refunds part of an item and returns it to stock', async () => {
+    const { refund, order } = await refundService.refundItem('order-1', 'apples', farmer, { quantity: 1, reason: 'Grad' });
+
+    expect(refund).toMatchObject({ product: 'apples', quantity: 1, amount: 6.99, status: 'succeeded' });
+    expect(order).toMatchObject({ totalPrice: 32.09, refundedAmount: 6.99, paymentStatus: PAYMENT_STATUSES.COMPLETED });
+    expect(order.items[0].refundedQuantity).toBe(1);
+    expect((await db.collection('products').doc('apples').get()).get('quantity')).toBe(11);
+    expect((await db.collection('ledger').doc(`refund_${refund._id}`).get()).data()).toMatchObject({
+      type: 'refund',
+      farmer: 'farmer-1',
+      grossAmount: -6.99,
+      description: 'Zwrot w zamówieniu order-1'
+    });
+  });
+
+  it('marks the payment refunded once every item is refunded', async () => {
+    await refundService.refundItem('order-1', 'apples', farmer, {});
+    const { order } = await refundService.refundItem('order-1', 'juice', farmer, {});
+
+    expect(order).toMatchObject({ totalPrice: 0, refundedAmount: 39.08, paymentStatus: PAYMENT_STATUSES.REFUNDED });
+  });
+
+  it('refunds the shipping cost with the last item', async () => {
+    await savePaidOrder('order-2', { shippingCost: 10, totalPrice: 49.08 });
+
+    const first = await refundService.refundItem('order-2', 'apples', farmer, {});
+    const last = await refundService.refundItem('order-2', 'juice', farmer, {});
+
+    expect(first.refund).toMatchObject({ amount: 17.48 });
+    expect(first.refund.shippingAmount).toBeUndefined();
+    expect(last.refund).toMatchObject({ amount: 31.6, shippingAmount: 10 });
+    expect(last.order).toMatchObject({
+      totalPrice: 0,
+      refundedAmount: 49.08,
+      refundedShippingCost: 10,
+      paymentStatus: PAYMENT_STATUSES.REFUNDED
+    });
+  });
+
+  it('does not refund more than the remaining quantity', async () => {
+    await refundService.refundItem('order-1', 'apples', farmer, { quantity: 2 });
+
+    await expect(refundService.refundItem('order-1', 'apples', farmer, { quantity: 1 }))
+      .rejects.toMatchObject({ status: 409 });
+    await expect(refundService.refundItem('order-1', 'apples', buyer, {}))
+      .rejects.toMatchObject({ status: 403 });
+  });
+
+  it('reverts the reservation when the payment provider rejects the refund', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(provider, 'refundPayment').mockRejectedValueOnce(new Error('Provider down'));
+
+    await expect(refundService.refundItem('order-1', 'apples', farmer, { quantity: 1 }))
+      .rejects.toMatchObject({ status: 502 });
+
+    const order = await getOrder('order-1');
+    expect(order).toMatchObject({ totalPrice: 39.08, refundedAmount: 0 });
+    expect(order.items[0].refundedQuantity).toBe(0);
+    expect((await db.collection('products').doc('apples').get()).get('quantity')).toBe(10);
+    expect((await refundService.getOrderRefunds(order))[0].status).toBe('failed');
+    expect((await db.collection('ledger').get()).empty).toBe(true);
+  });
+
+  it('issues a correction invoice and leaves the invoice unchanged', async () => {
+    const invoice = await invoiceService.getOrCreateInvoice(await getOrder('order-1'));
+
+    const { refund } = await refundService.refundItem('order-1', 'apples', farmer, { quantity: 1, reason: 'Grad' });
+    const [correction] = await invoiceService.getCorrections('order-1');
+
+    expect(correction).toMatchObject({
+      _id: refund._id,
+      number: `FK/${year}/0001`,
+      invoiceNumber: invoice.number,
+      reason: 'Grad',
+      before: { totalGross: 39.08 },
+      after: { totalGross: 32.09 },
+      difference: { totalGross: -6.99 }
+    });
+    expect(correction.after.lines[0]).toMatchObject({ product: 'apples', quantity: 1.5 });
+    expect(await invoiceService.getOrCreateInvoice(await getOrder('order-1'))).toEqual(invoice);
+  });
+
+  it('corrects the delivery line when the shipping cost is refunded', async () => {
+    await savePaidOrder('order-2', { shippingCost: 10, totalPrice: 49.08 });
+    const invoice = await invoiceService.getOrCreateInvoice(await getOrder('order-2'));
+
+    await refundService.refundItem('order-2', 'apples', farmer, {});
+    await refundService.refundItem('order-2', 'juice', farmer, {});
+    const corrections = await invoiceService.getCorrections('order-2');
+
+    expect(invoice.lines.map(line => line.name)).toEqual(['Jabłka', 'Sok jabłkowy', 'Dostawa']);
+    expect(corrections[0].after.lines.map(line => line.name)).toEqual(['Sok jabłkowy', 'Dostawa']);
+    expect(corrections[1]).toMatchObject({
+      before: { totalGross: 31.6 },
+      after: { lines: [], totalGross: 0 },
+      difference: { totalGross: -31.6 }
+    });
+  });
+
+  it('corrects the state left by the previous correction', async () => {
+    await invoiceService.getOrCreateInvoice(await getOrder('order-1'));
+
+    await refundService.refundItem('order-1', 'apples', farmer, { quantity: 1 });
+    await refundService.refundItem('order-1', 'juice', farmer, {});
+    const corrections = await invoiceService.getCorrections('order-1');
+
+    expect(corrections.map(correction => correction.number)).toEqual([`FK/${year}/0001`, `FK/${year}/0002`]);
+    expect(corrections[1]).toMatchObject({
+      reason: 'Zwrot niezrealizowanej pozycji',
+      before: { totalGross: 32.09 },
+      after: { totalGross: 10.49 },
+      difference: { totalGross: -21.6 }
+    });
+  });
+});
+
+describe('refundService.cancelOrder', () => {
+  it('refunds the payment of a cancelled order and corrects its invoice to zero', async () => {
+    await invoiceService.getOrCreateInvoice(await getOrder('order-1'));
+
+    const order = await refundService.cancelOrder('order-1', admin, 'Brak towaru');
+    const [refund] = await refundService.getOrderRefunds(order);
+    const [correction] = await invoiceService.getCorrections('order-1');
+
+    expect(order).toMatchObject({
+      status: ORDER_STATUSES.CANCELLED,
+      paymentStatus: PAYMENT_STATUSES.REFUNDED,
+      refundedAmount: 39.08
+    });
+    expect(refund).toMatchObject({ type: 'cancellation', amount: 39.08, status: 'succeeded' });
+    expect((await db.collection('ledger').doc(`refund_${refund._id}`).get()).data()).toMatchObject({
+      grossAmount: -39.08,
+      description: 'Anulowanie zamówienia order-1'
+    });
+    expect(correction).toMatchObject({
+      reason: 'Brak towaru',
+      after: { lines: [], totalGross: 0 },
+      difference: { totalGross: -39.08 }
+    });
+  });
+
+  it('cancels an unpaid order without a refund', async () => {
+    await savePaidOrder('order-2', { status: ORDER_STATUSES.PENDING, paymentStatus: PAYMENT_STATUSES.PENDING });
+    const refundPayment = vi.spyOn(provider, 'refundPayment');
+
+    const order = await refundService.cancelOrder('order-2', buyer);
+
+    expect(order.status).toBe(ORDER_STATUSES.CANCELLED);
+    expect(refundPayment).not.toHaveBeenCalled();
+  });
+
+  it('keeps the order cancelled when the payment provider rejects the refund', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(provider, 'refundPayment').mockRejectedValueOnce(new Error('Provider down'));
+
+    await expect(refundService.cancelOrder('order-1', admin)).rejects.toMatchObject({ status: 502 });
+
+    const order = await getOrder('order-1');
+    expect(order).toMatchObject({ status: ORDER_STATUSES.CANCELLED, paymentStatus: PAYMENT_STATUSES.COMPLETED });
+    expect((await refundService.getOrderRefunds(order))[0].status).toBe('failed');
+  });
+});
@@ -0,0 +1,565 @@
+// backend/services/refundService.ts
+import { admin } from '../firebase';
+import {
+  ordersCollection,
+  productsCollection,
+  refundsCollection,
+  usersCollection
+} from '../models/collections';
+import { ORDER_STATUSES, PAYMENT_STATUSES } from '../constants';
+import { orderService, SYSTEM_ACTOR, type OrderActor } from './orderService';
+import { invoiceService } from './invoiceService';
+import { getPaymentProvider } from './payments';
+import { emailService } from './emailService';
+import { ledgerService } from './ledgerService';
+import { ServiceError } from '../utils/serviceError';
+import {
+  calculateOrderTotal,
+  getBillableQuantity,
+  getRemainingShippingCost,
+  roundPrice,
+  roundQuantity
+} from '../utils/orderTotals';
+import { formatPrice } from '../../src/shared/utils';
+import type { FirestoreOrder, FirestoreOrderItem, FirestoreRefund } from '../types';
+
+const db = admin.firestore();
+
+// Items can be refunded only before the order leaves the farm
+const REFUNDABLE_ORDER_STATUSES: FirestoreOrder['status'][] = [ORDER_STATUSES.PAID, ORDER_STATUSES.PROCESSING];
+
+type OrderDoc = FirebaseFirestore.DocumentSnapshot;
+
+type ItemRefund = Omit<FirestoreRefund, '_id'> & { product: string; quantity: number };
+
+interface PendingRefund {
+  ref: FirebaseFirestore.DocumentReference;
+  refund: Omit<FirestoreRefund, '_id'>;
+  farmer?: string; // farmer whose sale is reversed in the ledger
+}
+
+/**
+ * Farmer's order whose payment has to be returned when it is cancelled
+ */
+const isPaidFarmerOrder = (order: FirestoreOrder): boolean =>
+  !!order.farmer &&
+  !!order.paymentId &&
+  order.status !== ORDER_STATUSES.CANCELLED &&
+  order.paymentStatus === PAYMENT_STATUSES.COMPLETED &&
+  order.totalPrice > 0;
+
+export interface RefundItemRequest {
+  quantity?: number; // domyślnie cała niezwrócona ilość pozycji
+  reason?: string;
+}
+
+/**
+ * Serwis zwrotów pojedynczych pozycji zamówienia (np. gdy grad zniszczył uprawę).
+ * Zwrot najpierw rezerwuje ilość w zamówieniu (żeby równoległe zwroty nie
+ * przekroczyły kwoty pozycji), potem zleca zwrot u operatora płatności,
+ * a po powodzeniu przywraca stan magazynowy produktu.
+ * Anulowanie opłaconego zamówienia zwraca pozostałą kwotę każdego
+ * zamówienia rolnika i odwraca jego sprzedaż w rozliczeniach.
+ * Zwrot w zamówieniu z wystawioną fakturą dokumentuje faktura korygująca.
+ */
+class RefundService {
+  /**
+   * Anuluj zamówienie; opłacone zamówienia rolników są zwracane u operatora płatności
+   */
+  async cancelOrder(orderId: string, actor: OrderActor, note?: string): Promise<FirestoreOrder> {
+    const pendingRefunds = await db.runTransaction(async (transaction) => {
+      const orderDoc = await transaction.get(ordersCollection.doc(orderId));
+
+      if (!orderDoc.exists) {
+        throw new ServiceError('Zamówienie nie znalezione.', 404);
+      }
+
+      const order = this.toOrder(orderDoc);
+      const farmerOrders = order.subOrders && order.subOrders.length > 0
+        ? (await transaction.getAll(...order.subOrders.map(id => ordersCollection.doc(id))))
+          .filter(doc => doc.exists)
+          .map(doc => this.toOrder(doc))
+        : [order];
+
+      await orderService.updateOrderStatusInTransaction(transaction, orderId, ORDER_STATUSES.CANCELLED, actor, note);
+
+      return farmerOrders.filter(isPaidFarmerOrder).map(farmerOrder => {
+        const ref = refundsCollection.doc();
+        const refund: Omit<FirestoreRefund, '_id'> = {
+          type: 'cancellation',
+          order: farmerOrder._id,
+          ...(farmerOrder.parentOrder && { parentOrder: farmerOrder.parentOrder }),
+          amount: farmerOrder.totalPrice,
+          paymentId: farmerOrder.paymentId as string,
+          status: 'pending',
+          ...(note && { reason: String(note).trim() }),
+          createdBy: actor.id,
+          createdAt: admin.firestore.Timestamp.now(),
+          updatedAt: admin.firestore.Timestamp.now()
+        };
+
+        transaction.set(ref, refund);
+
+        return { ref, refund, farmer: farmerOrder.farmer };
+      });
+    });
+
+    let failedRefunds = 0;
+
+    for (const pendingRefund of pendingRefunds) {
+      if (await this.settleCancellationRefund(pendingRefund)) {
+        await this.issueInvoiceCorrection(pendingRefund.refund.order, pendingRefund.ref.id);
+      } else {
+        failedRefunds++;
+      }
+    }
+
+    if (failedRefunds > 0) {
+      throw new ServiceError(
+        'Zamówienie zostało anulowane, ale operator płatności odrzucił zwrot. Skontaktuj się z obsługą.',
+        502
+      );
+    }
+
+    return await orderService.getOrderById(orderId) as FirestoreOrder;
+  }
+
+  /**
+   * Zwróć płatność, która wpłynęła dopiero po anulowaniu zamówienia.
+   * Sprzedaż nie została zaksięgowana, więc zwrot nie zmienia rozliczeń rolnika.
+   * Gdy operator odrzuci zwrot, zamówienie pozostaje oznaczone do zwrotu przez administratora.
+   * @returns false when the provider rejected the refund
+   */
+  async refundLatePayment(orderId: string): Promise<boolean> {
+    const pending = await db.runTransaction(async (transaction) => {
+      const orderDoc = await transaction.get(ordersCollection.doc(orderId));
+
+      if (!orderDoc.exists) {
+        throw new ServiceError('Zamówienie nie znalezione.', 404);
+      }
+
+      const order = this.toOrder(orderDoc);
+
+      if (!order.refundRequired || !order.paymentId) {
+        return null;
+      }
+
+      // One refund per payment, so a repeated call cannot refund it twice
+      const ref = refundsCollection.doc(`${order.paymentId}_late`);
+      const refundDoc = await transaction.get(ref);
+
+      if (refundDoc.exists && refundDoc.get('status') !== 'failed') {
+        return null;
+      }
+
+      const refund: Omit<FirestoreRefund, '_id'> = {
+        type: 'late_payment',
+        order: orderId,
+        amount: order.totalPrice,
+        paymentId: order.paymentId,
+        status: 'pending',
+        reason: 'Płatność po anulowaniu zamówienia',
+        createdBy: SYSTEM_ACTOR.id,
+        createdAt: admin.firestore.Timestamp.now(),
+        updatedAt: admin.firestore.Timestamp.now()
+      };
+
+      transaction.set(ref, refund);
+
+      return { ref, refund };
+    });
+
+    if (!pending) {
+      return true;
+    }
+
+    const providerRefundId = await this.refundWithProvider(pending);
+
+    if (!providerRefundId) {
+      return false;
+    }
+
+    await db.runTransaction(async (transaction) => {
+      await orderService.updatePaymentDetailsInTransaction(transaction, orderId, {
+        paymentStatus: PAYMENT_STATUSES.REFUNDED,
+        refundRequired: false
+      });
+
+      transaction.update(pending.ref, {
+        status: 'succeeded',
+        providerRefundId,
+        updatedAt: admin.firestore.Timestamp.now()
+      });
+    });
+
+    return true;
+  }
+
+  async refundItem(
+    orderId: string,
+    productId: string,
+    actor: OrderActor,
+    request: RefundItemRequest
+  ): Promise<{ refund: FirestoreRefund; order: FirestoreOrder }> {
+    const refundRef = refundsCollection.doc();
+
+    // 1. Validate and reserve the refunded quantity on the order
+    const reserved = await db.runTransaction(async (transaction) => {
+      const orderDoc = await transaction.get(ordersCollection.doc(orderId));
+
+      if (!orderDoc.exists) {
+        throw new ServiceError('Zamówienie nie znalezione.', 404);
+      }
+
+      const order = this.toOrder(orderDoc);
+      const item = this.validateRefund(order, productId, actor);
+      const remaining = getBillableQuantity(item);
+      const quantity = request.quantity === undefined ? remaining : roundQuantity(Number(request.quantity));
+
+      if (isNaN(quantity) || quantity <= 0) {
+        throw new ServiceError('Ilość do zwrotu musi być liczbą dodatnią.');
+      }
+
+      if (quantity > remaining) {
+        throw new ServiceError(`Pozostała do zwrotu ilość tej pozycji to ${remaining}.`, 409);
+      }
+
+      const parentDoc = order.parentOrder
+        ? await transaction.get(ordersCollection.doc(order.parentOrder))
+        : null;
+
+      const itemAmount = roundPrice(item.priceAtPurchase * quantity);
+      // Refunding the last billable item returns the shipping cost as well
+      const isLastItem = order.items.every(orderItem =>
+        orderItem.product === productId ? quantity === remaining : getBillableQuantity(orderItem) === 0
+      );
+      const shippingAmount = isLastItem ? getRemainingShippingCost(order) : 0;
+      const amount = roundPrice(itemAmount + shippingAmount);
+
+      this.applyRefundedQuantity(transaction, orderDoc, productId, quantity, itemAmount, shippingAmount);
+      if (parentDoc?.exists) {
+        this.applyRefundedQuantity(transaction, parentDoc, productId, quantity, itemAmount, shippingAmount);
+      }
+
+      const refund: ItemRefund = {
+        order: orderId,
+        ...(order.parentOrder && { parentOrder: order.parentOrder }),
+        product: productId,
+        quantity,
+        amount,
+        ...(shippingAmount > 0 && { shippingAmount }),
+        paymentId: order.paymentId as string,
+        status: 'pending',
+        ...(request.reason && { reason: String(request.reason).trim() }),
+        createdBy: actor.id,
+        createdAt: admin.firestore.Timestamp.now(),
+        updatedAt: admin.firestore.Timestamp.now()
+      };
+
+      transaction.set(refundRef, refund);
+
+      return { order, refund };
+    });
+
+    // 2. Refund the money with the payment provider
+    let providerRefundId: string;
+
+    try {
+      const providerRefund = await getPaymentProvider().refundPayment(
+        reserved.refund.paymentId,
+        Math.round(reserved.refund.amount * 100),
+        refundRef.id
+      );
+
+      if (providerRefund.status === 'failed') {
+        throw new Error(`Refund ${providerRefund.id} failed`);
+      }
+
+      providerRefundId = providerRefund.id;
+    } catch (error) {
+      console.error('Payment provider refund failed:', error);
+      await this.revertReservation(refundRef, reserved.refund);
+      throw new ServiceError('Operator płatności odrzucił zwrot. Spróbuj ponownie później.', 502);
+    }
+
+    // 3. Return the quantity to stock and settle the payment status
+    await db.runTransaction(async (transaction) => {
+      const productRef = productsCollection.doc(productId);
+      const productDoc = await transaction.get(productRef);
+      const checkoutOrderId = reserved.refund.parentOrder || orderId;
+      const checkoutDoc = await transaction.get(ordersCollection.doc(checkoutOrderId));
+
+      const checkoutItems = (checkoutDoc.get('items') || []) as FirestoreOrderItem[];
+
+      // Every item of the checkout refunded (with shipping) - the payment is fully refunded
+      if (checkoutDoc.exists && checkoutItems.every(item => getBillableQuantity(item) === 0)) {
+        await orderService.updatePaymentDetailsInTransaction(transaction, checkoutOrderId, {
+          paymentStatus: PAYMENT_STATUSES.REFUNDED
+        });
+      }
+
+      if (productDoc.exists) {
+        transaction.update(productRef, {
+          quantity: roundQuantity(Number(productDoc.get('quantity')) + reserved.refund.quantity),
+          updatedAt: admin.firestore.FieldValue.serverTimestamp()
+        });
+      }
+
+      transaction.update(refundRef, {
+        status: 'succeeded',
+        providerRefundId,
+        updatedAt: admin.firestore.Timestamp.now()
+      });
+
+      if (reserved.order.farmer) {
+        ledgerService.recordRefund(transaction, { ...reserved.refund, _id: refundRef.id }, reserved.order.farmer);
+      }
+    });
+
+    const [refundDoc, order] = await Promise.all([
+      refundRef.get(),
+      orderService.getOrderById(orderId)
+    ]);
+    const refund = { _id: refundDoc.id, ...refundDoc.data() } as FirestoreRefund;
+
+    await this.issueInvoiceCorrection(orderId, refundRef.id);
+
+    // Notification failure must not fail an already completed refund
+    try {
+      await this.sendRefundEmail(reserved.order, reserved.refund);
+    } catch (emailError) {
+      console.error('Error sending refund email:', emailError);
+    }
+
+    return { refund, order: order as FirestoreOrder };
+  }
+
+  /**
+   * Zwroty zamówienia (dla zamówienia nadrzędnego - zwroty wszystkich zamówień cząstkowych)
+   */
+  async getOrderRefunds(order: FirestoreOrder): Promise<FirestoreRefund[]> {
+    const field = order.subOrders && order.subOrders.length > 0 ? 'parentOrder' : 'order';
+    const snapshot = await refundsCollection.where(field, '==', order._id).get();
+
+    return snapshot.docs.map(doc => ({ _id: doc.id, ...doc.data() } as FirestoreRefund));
+  }
+
+  /**
+   * Check that the actor may refund the item and return it
+   */
+  private validateRefund(order: FirestoreOrder, productId: string, actor: OrderActor): FirestoreOrderItem {
+    if (order.subOrders && order.subOrders.length > 0) {
+      throw new ServiceError('Zwrotu dokonuje się w zamówieniu cząstkowym rolnika.', 400);
+    }
+
+    if (!actor.roles.includes('farmer') && !actor.roles.includes('admin')) {
+      throw new ServiceError('Zwrotu może dokonać tylko rolnik realizujący zamówienie lub administrator.', 403);
+    }
+
+    if (!REFUNDABLE_ORDER_STATUSES.includes(order.status)) {
+      throw new ServiceError('Zwrot pozycji jest możliwy tylko w opłaconym zamówieniu przed wysyłką.', 409);
+    }
+
+    if (!order.paymentId || order.paymentStatus !== PAYMENT_STATUSES.COMPLETED) {
+      throw new ServiceError('Zamówienie nie ma rozliczonej płatności do zwrotu.', 409);
+    }
+
+    const item = order.items.find(orderItem => orderItem.product === productId);
+
+    if (!item) {
+      throw new ServiceError('Produktu nie ma w zamówieniu.', 404);
+    }
+
+    return item;
+  }
+
+  /**
+   * Add (or with negative values remove) refunded quantity of an item
+   * and refunded shipping cost, and recompute totals
+   */
+  private applyRefundedQuantity(
+    transaction: FirebaseFirestore.Transaction,
+    orderDoc: OrderDoc,
+    productId: string,
+    quantity: number,
+    itemAmount: number,
+    shippingAmount: number
+  ): void {
+    const order = this.toOrder(orderDoc);
+
+    const items = order.items.map(item =>
+      item.product === productId
+        ? { ...item, refundedQuantity: roundQuantity((item.refundedQuantity || 0) + quantity) }
+        : item
+    );
+    const refundedShippingCost = roundPrice((order.refundedShippingCost || 0) + shippingAmount);
+
+    transaction.update(orderDoc.ref, {
+      items,
+      refundedShippingCost,
+      totalPrice: calculateOrderTotal(items, roundPrice((order.shippingCost || 0) - refundedShippingCost)),
+      refundedAmount: roundPrice((order.refundedAmount || 0) + itemAmount + shippingAmount),
+      updatedAt: admin.firestore.Timestamp.now()
+    });
+  }
+
+  /**
+   * Refund a cancelled farmer's order with the payment provider and mark it refunded
+   * @returns false when the provider rejected the refund
+   */
+  private async settleCancellationRefund(pendingRefund: PendingRefund): Promise<boolean> {
+    const { ref, refund } = pendingRefund;
+    const providerRefundId = await this.refundWithProvider(pendingRefund);
+
+    if (!providerRefundId) {
+      return false;
+    }
+
+    await db.runTransaction(async (transaction) => {
+      const orderDoc = await transaction.get(ordersCollection.doc(refund.order));
+      const parentDoc = refund.parentOrder
+        ? await transaction.get(ordersCollection.doc(refund.parentOrder))
+        : null;
+      const siblingIds = ((parentDoc?.get('subOrders') || []) as string[]).filter(id => id !== refund.order);
+      const siblingDocs = siblingIds.length > 0
+        ? await transaction.getAll(...siblingIds.map(id => ordersCollection.doc(id)))
+        : [];
+      const now = admin.firestore.Timestamp.now();
+
+      transaction.update(orderDoc.ref, {
+        paymentStatus: PAYMENT_STATUSES.REFUNDED,
+        refundedAmount: roundPrice((Number(orderDoc.get('refundedAmount')) || 0) + refund.amount),
+        updatedAt: now
+      });
+
+      // The checkout payment is fully refunded once every farmer's order is
+      if (parentDoc?.exists) {
+        const isFullyRefunded = siblingDocs.every(doc => doc.get('paymentStatus') === PAYMENT_STATUSES.REFUNDED);
+
+        transaction.update(parentDoc.ref, {
+          ...(isFullyRefunded && { paymentStatus: PAYMENT_STATUSES.REFUNDED }),
+          refundedAmount: roundPrice((Number(parentDoc.get('refundedAmount')) || 0) + refund.amount),
+          updatedAt: now
+        });
+      }
+
+      transaction.update(ref, {
+        status: 'succeeded',
+        providerRefundId,
+        updatedAt: now
+      });
+
+      if (pendingRefund.farmer) {
+        ledgerService.recordRefund(transaction, { ...refund, _id: ref.id }, pendingRefund.farmer);
+      }
+    });
+
+    return true;
+  }
+
+  /**
+   * Refund the whole amount of a pending refund with the payment provider.
+   * The refund document ID is the idempotency key, so a retry cannot refund twice.
+   * @returns provider refund ID, or null after marking the refund failed
+   */
+  private async refundWithProvider({ ref, refund }: PendingRefund): Promise<string | null> {
+    try {
+      const providerRefund = await getPaymentProvider().refundPayment(
+        refund.paymentId,
+        Math.round(refund.amount * 100),
+        ref.id
+      );
+
+      if (providerRefund.status === 'failed') {
+        throw new Error(`Refund ${providerRefund.id} failed`);
+      }
+
+      return providerRefund.id;
+    } catch (error) {
+      console.error(`Payment provider refund for order ${refund.order} failed:`, error);
+      await ref.update({
+        status: 'failed',
+        updatedAt: admin.firestore.Timestamp.now()
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Issue a correction invoice for a completed refund.
+   * The refund is already settled, so a failure is only logged - the correction
+   * can be issued again later for the same refund.
+   */
+  private async issueInvoiceCorrection(orderId: string, refundId: string): Promise<void> {
+    try {
+      await invoiceService.issueCorrection(orderId, refundId);
+    } catch (error) {
+      console.error(`Error issuing correction invoice for refund ${refundId}:`, error);
+    }
+  }
+
+  /**
+   * Undo the reservation after the payment provider rejected the refund
+   */
+  private async revertReservation(
+    refundRef: FirebaseFirestore.DocumentReference,
+    refund: ItemRefund
+  ): Promise<void> {
+    const shippingAmount = refund.shippingAmount || 0;
+
+    await db.runTransaction(async (transaction) => {
+      const orderDoc = await transaction.get(ordersCollection.doc(refund.order));
+      const parentDoc = refund.parentOrder
+        ? await transaction.get(ordersCollection.doc(refund.parentOrder))
+        : null;
+
+      [orderDoc, parentDoc].forEach(doc => {
+        if (doc?.exists) {
+          this.applyRefundedQuantity(
+            transaction,
+            doc,
+            refund.product,
+            -refund.quantity,
+            -roundPrice(refund.amount - shippingAmount),
+            -shippingAmount
+          );
+        }
+      });
+
+      transaction.update(refundRef, {
+        status: 'failed',
+        updatedAt: admin.firestore.Timestamp.now()
+      });
+    });
+  }
+
+  private async sendRefundEmail(order: FirestoreOrder, refund: ItemRefund): Promise<void> {
+    const [buyerDoc, productDoc] = await Promise.all([
+      usersCollection.doc(order.buyer).get(),
+      productsCollection.doc(refund.product).get()
+    ]);
+    const buyer = buyerDoc.data();
+
+    if (!buyer?.email) return;
+
+    await emailService.sendRefundEmail({
+      to: buyer.email,
+      name: buyer.fullName,
+      orderId: order.parentOrder || order._id,
+      productName: productDoc.get('name') || 'Produkt',
+      quantity: refund.quantity,
+      unit: productDoc.get('unit') || '',
+      amount: formatPrice(refund.amount),
+      reason: refund.reason
+    });
+  }
+
+  private toOrder(doc: OrderDoc): FirestoreOrder {
+    return {
+      _id: doc.id,
+      ...doc.data()
+    } as FirestoreOrder;
+  }
+}
+
+export const refundService = new RefundService();
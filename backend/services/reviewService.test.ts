@@ -0,0 +1,277 @@
+// backend/services/reviewService.test.ts
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { db, resetFirestore } from '../test/firebaseMock';
+import { ORDER_STATUSES } from '../constants';
+import { reviewService } from './reviewService';
+import { emailService } from './emailService';
+import { deleteImageFromStorage, uploadImageToStorage } from './fileStorageService';
+
+vi.mock('../firebase', () => import('../test/firebaseMock'));
+vi.mock('./emailService', () => ({
+  emailService: { sendReviewRejectedEmail: vi.fn(), sendReviewReplyRejectedEmail: vi.fn() }
+}));
+vi.mock('./fileStorageService', () => ({
+  uploadImageToStorage: vi.fn(async (file: Express.Multer.File) => `https://storage.test/reviews/${file.originalname}`),
+  deleteImageFromStorage: vi.fn()
+}));
+
+const photo = (name: string) => ({ originalname: name, mimetype: 'image/jpeg' }) as Express.Multer.File;
+
+const orderDoc = (id: string) => db.collection('orders').doc(id).get();
+
+beforeEach(async () => {
+  resetFirestore();
+  vi.clearAllMocks();
+
+  await db.collection('users').doc('buyer-1').set({ fullName: 'Piotr Wiśniewski', email: 'piotr@example.com', role: 'buyer' });
+  await db.collection('users').doc('buyer-2').set({ fullName: 'Ewa Zielińska', role: 'buyer' });
+  await db.collection('users').doc('farmer-1').set({ fullName: 'Jan Kowalski', email: 'jan@example.com', role: 'farmer' });
+  await db.collection('users').doc('farmer-2').set({ fullName: 'Maria Nowak', role: 'farmer' });
+  await db.collection('products').doc('carrots').set({ name: 'Marchew', owner: 'farmer-1' });
+  await db.collection('products').doc('apples').set({ name: 'Jabłka', owner: 'farmer-2' });
+
+  // Delivered checkout order split between two farmers
+  await db.collection('orders').doc('order-1').set({
+    buyer: 'buyer-1',
+    status: ORDER_STATUSES.DELIVERED,
+    subOrders: ['order-1-a', 'order-1-b'],
+    items: [{ product: 'carrots', quantity: 1 }, { product: 'apples', quantity: 1 }],
+    isReviewed: false
+  });
+  await db.collection('orders').doc('order-1-a').set({
+    buyer: 'buyer-1',
+    farmer: 'farmer-1',
+    parentOrder: 'order-1',
+    status: ORDER_STATUSES.DELIVERED,
+    items: [{ product: 'carrots', quantity: 1 }],
+    isReviewed: false
+  });
+  await db.collection('orders').doc('order-1-b').set({
+    buyer: 'buyer-1',
+    farmer: 'farmer-2',
+    parentOrder: 'order-1',
+    status: ORDER_STATUSES.DELIVERED,
+    items: [{ product: 'apples', quantity: 1 }],
+    isReviewed: false
+  });
+  await db.collection('orders').doc('order-2').set({
+    buyer: 'buyer-1',
+    farmer: 'farmer-1',
+    status: ORDER_STATUSES.SHIPPED,
+    items: [{ product: 'carrots', quantity: 1 }],
+    isReviewed: false
+  });
+});
+
+describe('reviewService reviews', () => {
+  it('verifies a review against the farmer part of a delivered order', async () => {
+    const review = await reviewService.createReview('buyer-1', { product: 'carrots', order: 'order-1', rating: 5 });
+
+    expect(review).toMatchObject({ farmer: 'farmer-1', order: 'order-1-a', isVerified: true });
+    expect((await orderDoc('order-1-a')).get('isReviewed')).toBe(true);
+    expect((await orderDoc('order-1')).get('isReviewed')).toBe(true);
+    expect((await db.collection('products').doc('carrots').get()).get('reviews')).toEqual([review._id]);
+  });
+
+  it('allows one review per order item and one unverified review', async () => {
+    await reviewService.createReview('buyer-1', { product: 'carrots', order: 'order-1', rating: 5 });
+    const unverified = await reviewService.createReview('buyer-1', { product: 'carrots', rating: 4 });
+
+    expect(unverified.isVerified).toBe(false);
+    await expect(reviewService.createReview('buyer-1', { product: 'carrots', order: 'order-1', rating: 1 }))
+      .rejects.toMatchObject({ status: 409 });
+    await expect(reviewService.createReview('buyer-1', { product: 'carrots', rating: 1 }))
+      .rejects.toMatchObject({ status: 409 });
+  });
+
+  it('rejects orders that are not delivered, not owned or without the product', async () => {
+    await expect(reviewService.createReview('buyer-1', { product: 'carrots', order: 'order-2', rating: 5 }))
+      .rejects.toMatchObject({ status: 409 });
+    await expect(reviewService.createReview('buyer-2', { product: 'carrots', order: 'order-1', rating: 5 }))
+      .rejects.toMatchObject({ status: 403 });
+    await expect(reviewService.createReview('buyer-1', { farmer: 'buyer-2', rating: 5 }))
+      .rejects.toMatchObject({ status: 404 });
+    await expect(reviewService.createReview('farmer-1', { product: 'carrots', rating: 5 }))
+      .rejects.toMatchObject({ status: 403 });
+  });
+
+  it('keeps the checkout order reviewed while another farmer part is', async () => {
+    const carrots = await reviewService.createReview('buyer-1', { product: 'carrots', order: 'order-1', rating: 5 });
+    const farmer = await reviewService.createReview('buyer-1', { farmer: 'farmer-2', order: 'order-1', rating: 4 });
+
+    await reviewService.deleteReview(carrots);
+
+    expect((await orderDoc('order-1-a')).get('isReviewed')).toBe(false);
+    expect((await orderDoc('order-1')).get('isReviewed')).toBe(true);
+
+    await reviewService.deleteReview(farmer);
+
+    expect((await orderDoc('order-1-b')).get('isReviewed')).toBe(false);
+    expect((await orderDoc('order-1')).get('isReviewed')).toBe(false);
+    expect((await db.collection('products').doc('carrots').get()).get('reviews')).toEqual([]);
+  });
+});
+
+describe('reviewService rating aggregates', () => {
+  const ratingOf = async (collection: string, id: string) => {
+    const doc = await db.collection(collection).doc(id).get();
+    return { reviewCount: doc.get('reviewCount'), averageRating: doc.get('averageRating') };
+  };
+
+  const approve = (reviewId: string) => reviewService.moderateReview(reviewId, 'approved', 'admin-1');
+
+  it('updates product and farmer ratings on approval, edit and delete', async () => {
+    const first = await reviewService.createReview('buyer-1', { product: 'carrots', order: 'order-1', rating: 5 });
+    const second = await reviewService.createReview('buyer-2', { product: 'carrots', rating: 2 });
+    await approve(first._id);
+    await approve(second._id);
+
+    expect(await ratingOf('products', 'carrots')).toEqual({ reviewCount: 2, averageRating: 3.5 });
+    expect(await ratingOf('users', 'farmer-1')).toEqual({ reviewCount: 2, averageRating: 3.5 });
+
+    // An edited review leaves the rating until it is approved again
+    await reviewService.updateReview(first, { rating: 4 });
+    expect(await ratingOf('products', 'carrots')).toEqual({ reviewCount: 1, averageRating: 2 });
+
+    await approve(first._id);
+    expect(await ratingOf('products', 'carrots')).toEqual({ reviewCount: 2, averageRating: 3 });
+
+    // The stale copy still has rating 5 - the stored review is what gets removed
+    await reviewService.deleteReview(first);
+    expect(await ratingOf('products', 'carrots')).toEqual({ reviewCount: 1, averageRating: 2 });
+    expect(await ratingOf('users', 'farmer-1')).toEqual({ reviewCount: 1, averageRating: 2 });
+  });
+
+  it('counts farmer reviews only on the farmer', async () => {
+    const review = await reviewService.createReview('buyer-1', { farmer: 'farmer-2', order: 'order-1', rating: 4 });
+    await approve(review._id);
+
+    expect(await ratingOf('users', 'farmer-2')).toEqual({ reviewCount: 1, averageRating: 4 });
+    expect(await ratingOf('products', 'apples')).toEqual({ reviewCount: undefined, averageRating: undefined });
+  });
+});
+
+describe('reviewService moderation', () => {
+  it('publishes reviews only after approval', async () => {
+    const review = await reviewService.createReview('buyer-1', { product: 'carrots', order: 'order-1', rating: 5 });
+
+    expect(review.moderationStatus).toBe('pending');
+    expect(await reviewService.getProductReviews('carrots')).toEqual([]);
+    expect((await reviewService.getModerationQueue('pending')).map(item => item._id)).toEqual([review._id]);
+
+    await reviewService.moderateReview(review._id, 'approved', 'admin-1');
+
+    expect((await reviewService.getProductReviews('carrots')).map(item => item._id)).toEqual([review._id]);
+    expect(await reviewService.getModerationQueue('pending')).toEqual([]);
+  });
+
+  it('takes a rejected review out of the rating and emails the reason to the author', async () => {
+    const review = await reviewService.createReview('buyer-1', { product: 'carrots', order: 'order-1', rating: 5 });
+    await reviewService.moderateReview(review._id, 'approved', 'admin-1');
+
+    const rejected = await reviewService.moderateReview(review._id, 'rejected', 'admin-1', 'Treść niezwiązana z produktem');
+
+    expect(rejected.moderation).toMatchObject({ reason: 'Treść niezwiązana z produktem', moderatedBy: 'admin-1' });
+    expect((await db.collection('products').doc('carrots').get()).get('reviewCount')).toBe(0);
+    expect(emailService.sendReviewRejectedEmail).toHaveBeenCalledWith({
+      to: 'piotr@example.com',
+      name: 'Piotr Wiśniewski',
+      subject: 'Marchew',
+      reason: 'Treść niezwiązana z produktem'
+    });
+  });
+
+  it('rejects moderation of a missing review', async () => {
+    await expect(reviewService.moderateReview('missing', 'approved', 'admin-1')).rejects.toMatchObject({ status: 404 });
+  });
+});
+
+describe('reviewService farmer replies', () => {
+  const approvedReview = async () => {
+    const review = await reviewService.createReview('buyer-1', { product: 'carrots', order: 'order-1', rating: 5 });
+    return reviewService.moderateReview(review._id, 'approved', 'admin-1');
+  };
+
+  it('shows a reply publicly only after approval', async () => {
+    const review = await approvedReview();
+    const replied = await reviewService.saveReply(review, 'Dziękujemy!');
+
+    expect(replied.reply).toMatchObject({ text: 'Dziękujemy!', moderationStatus: 'pending' });
+    expect((await reviewService.getProductReviews('carrots'))[0].reply).toBeUndefined();
+    expect((await reviewService.getModerationQueue('pending', 'reply')).map(item => item._id)).toEqual([review._id]);
+
+    await reviewService.moderateReply(review._id, 'approved', 'admin-1');
+
+    expect((await reviewService.getProductReviews('carrots'))[0].reply).toMatchObject({ text: 'Dziękujemy!' });
+  });
+
+  it('sends an edited reply back to moderation', async () => {
+    const review = await approvedReview();
+    await reviewService.saveReply(review, 'Dziękujemy!');
+    const approved = await reviewService.moderateReply(review._id, 'approved', 'admin-1');
+
+    const edited = await reviewService.saveReply(approved, 'Dziękujemy i zapraszamy ponownie!');
+
+    expect(edited.reply).toMatchObject({ moderationStatus: 'pending', createdAt: approved.reply?.createdAt });
+  });
+
+  it('emails the farmer the reason of a rejected reply', async () => {
+    const review = await approvedReview();
+    await reviewService.saveReply(review, 'Nie zgadzam się!');
+
+    await reviewService.moderateReply(review._id, 'rejected', 'admin-1', 'Obraźliwy ton');
+
+    expect(emailService.sendReviewReplyRejectedEmail).toHaveBeenCalledWith({
+      to: 'jan@example.com',
+      name: 'Jan Kowalski',
+      reason: 'Obraźliwy ton'
+    });
+  });
+
+  it('accepts replies only to published reviews', async () => {
+    const review = await reviewService.createReview('buyer-1', { product: 'carrots', order: 'order-1', rating: 5 });
+
+    await expect(reviewService.saveReply(review, 'Dziękujemy!')).rejects.toMatchObject({ status: 409 });
+    await expect(reviewService.moderateReply(review._id, 'approved', 'admin-1')).rejects.toMatchObject({ status: 404 });
+  });
+});
+
+describe('reviewService photos', () => {
+  const url = (name: string) => `https://storage.test/reviews/${name}`;
+
+  it('stores uploaded photos with the review and adds more on edit', async () => {
+    const review = await reviewService.createReview(
+      'buyer-1', { product: 'carrots', order: 'order-1', rating: 5 }, [photo('a.jpg'), photo('b.jpg')]
+    );
+    expect(review.images).toEqual([url('a.jpg'), url('b.jpg')]);
+
+    const updated = await reviewService.updateReview(review, {}, [photo('c.jpg')]);
+    expect(updated.images).toEqual([url('a.jpg'), url('b.jpg'), url('c.jpg')]);
+
+    await expect(reviewService.updateReview(updated, {}, [photo('d.jpg')])).rejects.toMatchObject({ status: 400 });
+    expect(uploadImageToStorage).toHaveBeenCalledTimes(3);
+  });
+
+  it('removes uploaded photos when the review cannot be saved', async () => {
+    await expect(reviewService.createReview('buyer-1', { product: 'missing', rating: 5 }, [photo('a.jpg')]))
+      .rejects.toMatchObject({ status: 404 });
+
+    expect(deleteImageFromStorage).toHaveBeenCalledWith(url('a.jpg'));
+  });
+
+  it('removes a single photo and all photos of a deleted review from storage', async () => {
+    const review = await reviewService.createReview(
+      'buyer-1', { product: 'carrots', order: 'order-1', rating: 5 }, [photo('a.jpg'), photo('b.jpg')]
+    );
+
+    const moderated = await reviewService.removeImage(review._id, 0);
+    expect(moderated.images).toEqual([url('b.jpg')]);
+    expect(deleteImageFromStorage).toHaveBeenCalledWith(url('a.jpg'));
+    await expect(reviewService.removeImage(review._id, 1)).rejects.toMatchObject({ status: 400 });
+
+    // The stale copy still lists both photos - only the stored one is removed
+    await reviewService.deleteReview(review);
+    expect(deleteImageFromStorage).toHaveBeenLastCalledWith(url('b.jpg'));
+    expect(deleteImageFromStorage).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,674 @@
+// backend/services/reviewService.ts
+import { admin } from '../firebase';
+import { ordersCollection, productsCollection, reviewsCollection, usersCollection } from '../models/collections';
+import { MODERATION_STATUSES, ORDER_STATUSES, VALIDATION } from '../constants';
+import { emailService } from './emailService';
+import { uploadImageToStorage, deleteImageFromStorage } from './fileStorageService';
+import { ServiceError } from '../utils/serviceError';
+import { convertToDate } from '../../src/shared/utils/firebase';
+import type { CreateReviewRequest, FirestoreOrder, FirestoreReview, ModerationStatus } from '../types';
+
+const db = admin.firestore();
+
+export type ReviewUpdate = Partial<Pick<FirestoreReview, 'rating' | 'comment'>>;
+
+type Snapshot = FirebaseFirestore.DocumentSnapshot;
+
+// Change of the counted reviews (count) and the sum of their ratings (sum)
+interface RatingChange {
+  count: number;
+  sum: number;
+}
+
+/**
+ * Only approved reviews count towards product and farmer ratings
+ */
+const countsTowardsRating = (review: Pick<FirestoreReview, 'moderationStatus'>): boolean =>
+  review.moderationStatus === MODERATION_STATUSES.APPROVED;
+
+/**
+ * Rating fields of a product or farmer after applying a change.
+ * The rating sum is stored so the average stays exact over many updates.
+ */
+const getRatingAggregate = (doc: Snapshot, change: RatingChange) => {
+  const reviewCount = Math.max(0, (Number(doc.get('reviewCount')) || 0) + change.count);
+  const ratingSum = reviewCount === 0 ? 0 : Math.max(0, (Number(doc.get('ratingSum')) || 0) + change.sum);
+
+  return {
+    reviewCount,
+    ratingSum,
+    averageRating: reviewCount === 0 ? 0 : Math.round((ratingSum / reviewCount) * 100) / 100
+  };
+};
+
+const tooManyImagesError = (): ServiceError =>
+  new ServiceError(`Do opinii można dołączyć maksymalnie ${VALIDATION.MAX_IMAGES_PER_REVIEW} zdjęcia.`);
+
+/**
+ * One review per author, product (or farmer) and order;
+ * reviews without a purchase use 'unverified' in place of the order
+ */
+const getReviewId = (author: string, subject: string, order?: string): string =>
+  `${author}_${subject}_${order || 'unverified'}`;
+
+const sortNewestFirst = (reviews: FirestoreReview[]): FirestoreReview[] =>
+  reviews.sort((a, b) => {
+    const dateA = convertToDate(a.createdAt) || new Date(0);
+    const dateB = convertToDate(b.createdAt) || new Date(0);
+    return dateB.getTime() - dateA.getTime();
+  });
+
+/**
+ * Review as shown publicly - the farmer's reply only once it is approved
+ */
+export const toPublicReview = (review: FirestoreReview): FirestoreReview => {
+  if (!review.reply || review.reply.moderationStatus === MODERATION_STATUSES.APPROVED) {
+    return review;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { reply: _reply, ...publicReview } = review;
+  return publicReview;
+};
+
+const toPublicReviews = (snapshot: FirebaseFirestore.QuerySnapshot): FirestoreReview[] =>
+  sortNewestFirst(
+    snapshot.docs
+      .map(doc => ({ _id: doc.id, ...doc.data() }) as FirestoreReview)
+      .filter(review => review.moderationStatus === MODERATION_STATUSES.APPROVED)
+      .map(toPublicReview)
+  );
+
+/**
+ * Serwis opinii o produktach i rolnikach. Opinia jest oznaczana jako
+ * zweryfikowana tylko wtedy, gdy autor wskaże swoje dostarczone zamówienie
+ * zawierające oceniany produkt (lub produkty ocenianego rolnika).
+ * Średnia ocen i liczba opinii produktu oraz rolnika aktualizowane są
+ * w tej samej transakcji co opinia, więc listy nie muszą czytać opinii.
+ * Nowe i edytowane opinie czekają na moderację - publicznie widoczne
+ * i wliczane do ocen są tylko opinie zatwierdzone. Rolnik może dodać
+ * jedną publiczną odpowiedź, również moderowaną. Zdjęcia opinii trafiają
+ * do Storage przed transakcją i są z niego usuwane, gdy transakcja się nie powiedzie.
+ */
+class ReviewService {
+  /**
+   * Zatwierdzone opinie o produkcie (najnowsze najpierw)
+   */
+  async getProductReviews(productId: string): Promise<FirestoreReview[]> {
+    const snapshot = await reviewsCollection.where('product', '==', productId).get();
+    return toPublicReviews(snapshot);
+  }
+
+  /**
+   * Zatwierdzone opinie o rolniku i jego produktach (najnowsze najpierw)
+   */
+  async getFarmerReviews(farmerId: string): Promise<FirestoreReview[]> {
+    const snapshot = await reviewsCollection.where('farmer', '==', farmerId).get();
+    return toPublicReviews(snapshot);
+  }
+
+  /**
+   * Opinie autora niezależnie od statusu moderacji
+   */
+  async getAuthorReviews(authorId: string): Promise<FirestoreReview[]> {
+    const snapshot = await reviewsCollection.where('author', '==', authorId).get();
+    return sortNewestFirst(snapshot.docs.map(doc => toPublicReview(this.toReview(doc))));
+  }
+
+  /**
+   * Kolejka moderacji - opinie (lub odpowiedzi rolników) o danym statusie, najstarsze najpierw
+   */
+  async getModerationQueue(status: ModerationStatus, target: 'review' | 'reply' = 'review'): Promise<FirestoreReview[]> {
+    const field = target === 'reply' ? 'reply.moderationStatus' : 'moderationStatus';
+    const snapshot = await reviewsCollection.where(field, '==', status).get();
+    return sortNewestFirst(snapshot.docs.map(doc => this.toReview(doc))).reverse();
+  }
+
+  /**
+   * Dodaj opinię (z maksymalnie trzema zdjęciami)
+   */
+  async createReview(
+    authorId: string,
+    request: CreateReviewRequest,
+    files: Express.Multer.File[] = []
+  ): Promise<FirestoreReview> {
+    if (files.length > VALIDATION.MAX_IMAGES_PER_REVIEW) {
+      throw tooManyImagesError();
+    }
+
+    const imageUrls = await this.uploadImages(files);
+
+    return await this.withImageCleanup(imageUrls, () => db.runTransaction(async (transaction) => {
+      const productDoc = request.product ? await transaction.get(productsCollection.doc(request.product)) : null;
+
+      if (productDoc && !productDoc.exists) {
+        throw new ServiceError('Produkt nie istnieje.', 404);
+      }
+
+      const farmerId: string | undefined = productDoc ? productDoc.get('owner') : request.farmer;
+
+      if (!farmerId) {
+        throw new ServiceError('Nie można ustalić rolnika, którego dotyczy opinia.');
+      }
+
+      const farmerDoc = await transaction.get(usersCollection.doc(farmerId));
+
+      if (!farmerDoc.exists || farmerDoc.get('role') !== 'farmer') {
+        throw new ServiceError('Rolnik nie istnieje.', 404);
+      }
+
+      if (farmerId === authorId) {
+        throw new ServiceError('Nie możesz oceniać własnych produktów.', 403);
+      }
+
+      const farmerOrder = request.order
+        ? await this.getVerifyingOrder(transaction, authorId, request.order, farmerId, request.product)
+        : null;
+
+      const reviewRef = reviewsCollection.doc(getReviewId(authorId, request.product || farmerId, farmerOrder?._id));
+      const existingDoc = await transaction.get(reviewRef);
+
+      if (existingDoc.exists) {
+        throw new ServiceError(
+          farmerOrder
+            ? 'Ta pozycja zamówienia została już przez Ciebie oceniona.'
+            : 'Twoja opinia bez potwierdzonego zakupu już istnieje - możesz ją edytować.',
+          409
+        );
+      }
+
+      const now = admin.firestore.Timestamp.now();
+      const reviewData = {
+        author: authorId,
+        ...(request.product && { product: request.product }),
+        farmer: farmerId,
+        ...(farmerOrder && { order: farmerOrder._id }),
+        rating: request.rating,
+        comment: request.comment || '',
+        images: imageUrls,
+        isVerified: Boolean(farmerOrder),
+        moderationStatus: MODERATION_STATUSES.PENDING,
+        createdAt: now,
+        updatedAt: now
+      };
+
+      transaction.set(reviewRef, reviewData);
+      transaction.update(usersCollection.doc(authorId), {
+        reviews: admin.firestore.FieldValue.arrayUnion(reviewRef.id)
+      });
+
+      if (productDoc) {
+        transaction.update(productDoc.ref, {
+          reviews: admin.firestore.FieldValue.arrayUnion(reviewRef.id)
+        });
+      }
+
+      if (countsTowardsRating(reviewData)) {
+        this.updateRatingAggregates(transaction, [productDoc, farmerDoc], { count: 1, sum: reviewData.rating });
+      }
+
+      if (farmerOrder) {
+        transaction.update(ordersCollection.doc(farmerOrder._id), { isReviewed: true, updatedAt: now });
+
+        if (farmerOrder.parentOrder) {
+          transaction.update(ordersCollection.doc(farmerOrder.parentOrder), { isReviewed: true, updatedAt: now });
+        }
+      }
+
+      return {
+        _id: reviewRef.id,
+        ...reviewData
+      } as FirestoreReview;
+    }));
+  }
+
+  /**
+   * Edytuj ocenę lub treść opinii albo dołącz kolejne zdjęcia - zmieniona opinia wraca do moderacji
+   */
+  async updateReview(
+    review: FirestoreReview,
+    update: ReviewUpdate,
+    files: Express.Multer.File[] = []
+  ): Promise<FirestoreReview> {
+    if ((review.images || []).length + files.length > VALIDATION.MAX_IMAGES_PER_REVIEW) {
+      throw tooManyImagesError();
+    }
+
+    const imageUrls = await this.uploadImages(files);
+
+    await this.withImageCleanup(imageUrls, () => db.runTransaction(async (transaction) => {
+      const reviewDoc = await transaction.get(reviewsCollection.doc(review._id));
+
+      if (!reviewDoc.exists) {
+        throw new ServiceError('Opinia nie znaleziona.', 404);
+      }
+
+      const current = this.toReview(reviewDoc);
+      const images = [...(current.images || []), ...imageUrls];
+
+      if (images.length > VALIDATION.MAX_IMAGES_PER_REVIEW) {
+        throw tooManyImagesError();
+      }
+
+      const ratingDocs = countsTowardsRating(current) ? await this.getRatingDocs(transaction, current) : [];
+
+      transaction.update(reviewDoc.ref, {
+        ...update,
+        ...(imageUrls.length > 0 && { images }),
+        moderationStatus: MODERATION_STATUSES.PENDING,
+        moderation: admin.firestore.FieldValue.delete(),
+        updatedAt: admin.firestore.Timestamp.now()
+      });
+
+      this.updateRatingAggregates(transaction, ratingDocs, { count: -1, sum: -current.rating });
+    }));
+
+    const reviewDoc = await reviewsCollection.doc(review._id).get();
+    return this.toReview(reviewDoc);
+  }
+
+  /**
+   * Usuń pojedyncze zdjęcie opinii (moderacja) - również ze Storage
+   */
+  async removeImage(reviewId: string, imageIndex: number): Promise<FirestoreReview> {
+    const removedUrl = await db.runTransaction(async (transaction) => {
+      const reviewDoc = await transaction.get(reviewsCollection.doc(reviewId));
+
+      if (!reviewDoc.exists) {
+        throw new ServiceError('Opinia nie znaleziona.', 404);
+      }
+
+      const images = this.toReview(reviewDoc).images || [];
+
+      if (!Number.isInteger(imageIndex) || imageIndex < 0 || imageIndex >= images.length) {
+        throw new ServiceError('Nieprawidłowy indeks zdjęcia.');
+      }
+
+      transaction.update(reviewDoc.ref, {
+        images: images.filter((_url, index) => index !== imageIndex),
+        updatedAt: admin.firestore.Timestamp.now()
+      });
+
+      return images[imageIndex];
+    });
+
+    await deleteImageFromStorage(removedUrl);
+
+    const reviewDoc = await reviewsCollection.doc(reviewId).get();
+    return this.toReview(reviewDoc);
+  }
+
+  /**
+   * Zatwierdź lub odrzuć opinię. Odrzucona opinia nie jest wliczana do ocen,
+   * a jej autor dostaje wiadomość z powodem.
+   */
+  async moderateReview(
+    reviewId: string,
+    status: Exclude<ModerationStatus, 'pending'>,
+    moderatorId: string,
+    reason?: string
+  ): Promise<FirestoreReview> {
+    const review = await db.runTransaction(async (transaction) => {
+      const reviewDoc = await transaction.get(reviewsCollection.doc(reviewId));
+
+      if (!reviewDoc.exists) {
+        throw new ServiceError('Opinia nie znaleziona.', 404);
+      }
+
+      const current = this.toReview(reviewDoc);
+      const moderated = { ...current, moderationStatus: status };
+      const ratingDocs = await this.getRatingDocs(transaction, current);
+      const countChange = Number(countsTowardsRating(moderated)) - Number(countsTowardsRating(current));
+      const now = admin.firestore.Timestamp.now();
+
+      const moderation = {
+        ...(reason && { reason }),
+        moderatedBy: moderatorId,
+        moderatedAt: now
+      };
+
+      transaction.update(reviewDoc.ref, {
+        moderationStatus: status,
+        moderation,
+        updatedAt: now
+      });
+
+      this.updateRatingAggregates(transaction, ratingDocs, { count: countChange, sum: countChange * current.rating });
+
+      return { ...moderated, moderation, updatedAt: now } as FirestoreReview;
+    });
+
+    if (status === MODERATION_STATUSES.REJECTED) {
+      await this.notifyRejection(review);
+    }
+
+    return review;
+  }
+
+  /**
+   * Dodaj lub zmień odpowiedź rolnika - odpowiedź trafia do moderacji
+   */
+  async saveReply(review: FirestoreReview, text: string): Promise<FirestoreReview> {
+    if (review.moderationStatus !== MODERATION_STATUSES.APPROVED) {
+      throw new ServiceError('Można odpowiadać tylko na opublikowane opinie.', 409);
+    }
+
+    const now = admin.firestore.Timestamp.now();
+
+    await reviewsCollection.doc(review._id).update({
+      reply: {
+        text,
+        moderationStatus: MODERATION_STATUSES.PENDING,
+        createdAt: review.reply?.createdAt || now,
+        updatedAt: now
+      },
+      updatedAt: now
+    });
+
+    const reviewDoc = await reviewsCollection.doc(review._id).get();
+    return this.toReview(reviewDoc);
+  }
+
+  /**
+   * Usuń odpowiedź rolnika
+   */
+  async deleteReply(review: FirestoreReview): Promise<FirestoreReview> {
+    if (!review.reply) {
+      throw new ServiceError('Ta opinia nie ma odpowiedzi.', 404);
+    }
+
+    await reviewsCollection.doc(review._id).update({
+      reply: admin.firestore.FieldValue.delete(),
+      updatedAt: admin.firestore.Timestamp.now()
+    });
+
+    const reviewDoc = await reviewsCollection.doc(review._id).get();
+    return this.toReview(reviewDoc);
+  }
+
+  /**
+   * Zatwierdź lub odrzuć odpowiedź rolnika (rolnik dostaje powód odrzucenia)
+   */
+  async moderateReply(
+    reviewId: string,
+    status: Exclude<ModerationStatus, 'pending'>,
+    moderatorId: string,
+    reason?: string
+  ): Promise<FirestoreReview> {
+    const reviewDoc = await reviewsCollection.doc(reviewId).get();
+
+    if (!reviewDoc.exists) {
+      throw new ServiceError('Opinia nie znaleziona.', 404);
+    }
+
+    const review = this.toReview(reviewDoc);
+
+    if (!review.reply) {
+      throw new ServiceError('Ta opinia nie ma odpowiedzi rolnika.', 404);
+    }
+
+    const now = admin.firestore.Timestamp.now();
+
+    await reviewDoc.ref.update({
+      'reply.moderationStatus': status,
+      'reply.moderation': {
+        ...(reason && { reason }),
+        moderatedBy: moderatorId,
+        moderatedAt: now
+      },
+      updatedAt: now
+    });
+
+    const moderated = this.toReview(await reviewDoc.ref.get());
+
+    if (status === MODERATION_STATUSES.REJECTED) {
+      await this.notifyReplyRejection(moderated);
+    }
+
+    return moderated;
+  }
+
+  /**
+   * Usuń opinię. Zamówienie przestaje być oznaczone jako ocenione,
+   * gdy nie zostały do niego żadne inne opinie.
+   */
+  async deleteReview(review: FirestoreReview): Promise<void> {
+    const deleted = await db.runTransaction(async (transaction) => {
+      const reviewDoc = await transaction.get(reviewsCollection.doc(review._id));
+
+      if (!reviewDoc.exists) {
+        throw new ServiceError('Opinia nie znaleziona.', 404);
+      }
+
+      // The review may have been moderated or edited since the request loaded it
+      const current = this.toReview(reviewDoc);
+      const orderUpdates = current.order ? await this.getOrderUpdatesOnDelete(transaction, current) : [];
+      const [productDoc, farmerDoc] = await this.getRatingDocs(transaction, current);
+      const now = admin.firestore.Timestamp.now();
+
+      transaction.delete(reviewDoc.ref);
+      transaction.update(usersCollection.doc(current.author), {
+        reviews: admin.firestore.FieldValue.arrayRemove(current._id)
+      });
+
+      if (productDoc?.exists) {
+        transaction.update(productDoc.ref, {
+          reviews: admin.firestore.FieldValue.arrayRemove(current._id)
+        });
+      }
+
+      if (countsTowardsRating(current)) {
+        this.updateRatingAggregates(transaction, [productDoc, farmerDoc], { count: -1, sum: -current.rating });
+      }
+
+      orderUpdates.forEach(update => {
+        transaction.update(ordersCollection.doc(update.id), { isReviewed: update.isReviewed, updatedAt: now });
+      });
+
+      return current;
+    });
+
+    await this.deleteImages(deleted.images || []);
+  }
+
+  /**
+   * isReviewed changes of the review's order (and its checkout order) when the review is deleted.
+   * The checkout order stays reviewed while any other farmer's part is.
+   */
+  private async getOrderUpdatesOnDelete(
+    transaction: FirebaseFirestore.Transaction,
+    review: FirestoreReview
+  ): Promise<{ id: string; isReviewed: boolean }[]> {
+    const orderId = String(review.order);
+    const orderDoc = await transaction.get(ordersCollection.doc(orderId));
+    const orderReviews = await transaction.get(reviewsCollection.where('order', '==', orderId));
+
+    if (!orderDoc.exists || orderReviews.docs.some(doc => doc.id !== review._id)) {
+      return [];
+    }
+
+    const updates = [{ id: orderId, isReviewed: false }];
+    const parentOrder = orderDoc.get('parentOrder') as string | undefined;
+
+    if (parentOrder) {
+      const parentDoc = await transaction.get(ordersCollection.doc(parentOrder));
+      const siblingIds = ((parentDoc.get('subOrders') || []) as string[]).filter(id => id !== orderId);
+      const siblingDocs = siblingIds.length > 0
+        ? await transaction.getAll(...siblingIds.map(id => ordersCollection.doc(id)))
+        : [];
+
+      updates.push({
+        id: parentOrder,
+        isReviewed: siblingDocs.some(doc => doc.get('isReviewed') === true)
+      });
+    }
+
+    return updates;
+  }
+
+  /**
+   * The author's delivered order with the reviewed product (or any product of the farmer).
+   * Multi-farmer orders are resolved to the reviewed farmer's sub-order.
+   */
+  private async getVerifyingOrder(
+    transaction: FirebaseFirestore.Transaction,
+    authorId: string,
+    orderId: string,
+    farmerId: string,
+    productId?: string
+  ): Promise<FirestoreOrder> {
+    const orderDoc = await transaction.get(ordersCollection.doc(orderId));
+
+    if (!orderDoc.exists) {
+      throw new ServiceError('Zamówienie nie istnieje.', 404);
+    }
+
+    let order = { _id: orderDoc.id, ...orderDoc.data() } as FirestoreOrder;
+
+    if (order.buyer !== authorId) {
+      throw new ServiceError('Możesz oceniać tylko własne zamówienia.', 403);
+    }
+
+    if (order.subOrders && order.subOrders.length > 0) {
+      const subOrderDocs = await transaction.getAll(...order.subOrders.map(id => ordersCollection.doc(id)));
+      const subOrderDoc = subOrderDocs.find(doc => doc.exists && doc.get('farmer') === farmerId);
+
+      if (!subOrderDoc) {
+        throw new ServiceError('To zamówienie nie zawiera produktów tego rolnika.');
+      }
+
+      order = { _id: subOrderDoc.id, ...subOrderDoc.data() } as FirestoreOrder;
+    }
+
+    if (order.farmer !== farmerId || (productId && !order.items.some(item => item.product === productId))) {
+      throw new ServiceError(
+        productId ? 'To zamówienie nie zawiera ocenianego produktu.' : 'To zamówienie nie zawiera produktów tego rolnika.'
+      );
+    }
+
+    if (order.status !== ORDER_STATUSES.DELIVERED) {
+      throw new ServiceError('Opinię ze zweryfikowanym zakupem można dodać po dostarczeniu zamówienia.', 409);
+    }
+
+    return order;
+  }
+
+  /**
+   * Upload review images (resized by the storage service); on failure the already uploaded ones are removed
+   */
+  private async uploadImages(files: Express.Multer.File[]): Promise<string[]> {
+    const results = await Promise.allSettled(files.map(file => uploadImageToStorage(file, 'reviews')));
+    const imageUrls = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+
+    if (failure) {
+      await this.deleteImages(imageUrls);
+      throw failure.reason;
+    }
+
+    return imageUrls;
+  }
+
+  /**
+   * Remove images from Storage (failures are only logged by the storage service)
+   */
+  private async deleteImages(urls: string[]): Promise<void> {
+    await Promise.all(urls.map(url => deleteImageFromStorage(url)));
+  }
+
+  /**
+   * Run a review write and remove the images uploaded for it when the write fails
+   */
+  private async withImageCleanup<T>(imageUrls: string[], write: () => Promise<T>): Promise<T> {
+    try {
+      return await write();
+    } catch (error) {
+      await this.deleteImages(imageUrls);
+      throw error;
+    }
+  }
+
+  /**
+   * Product (null for farmer reviews) and farmer documents holding the review's rating aggregates
+   */
+  private async getRatingDocs(
+    transaction: FirebaseFirestore.Transaction,
+    review: Pick<FirestoreReview, 'product' | 'farmer'>
+  ): Promise<[Snapshot | null, Snapshot]> {
+    if (!review.product) {
+      return [null, await transaction.get(usersCollection.doc(review.farmer))];
+    }
+
+    const [productDoc, farmerDoc] = await transaction.getAll(
+      productsCollection.doc(review.product),
+      usersCollection.doc(review.farmer)
+    );
+
+    return [productDoc, farmerDoc];
+  }
+
+  /**
+   * Apply a rating change to the product and farmer (documents read earlier in the transaction)
+   */
+  private updateRatingAggregates(
+    transaction: FirebaseFirestore.Transaction,
+    docs: (Snapshot | null)[],
+    change: RatingChange
+  ): void {
+    if (change.count === 0 && change.sum === 0) return;
+
+    docs.forEach(doc => {
+      if (doc?.exists) {
+        transaction.update(doc.ref, getRatingAggregate(doc, change));
+      }
+    });
+  }
+
+  /**
+   * Email the author about a rejected review (failures are only logged)
+   */
+  private async notifyRejection(review: FirestoreReview): Promise<void> {
+    try {
+      const [authorDoc, productDoc] = await Promise.all([
+        usersCollection.doc(review.author).get(),
+        review.product ? productsCollection.doc(review.product).get() : Promise.resolve(null)
+      ]);
+
+      if (!authorDoc.get('email')) return;
+
+      await emailService.sendReviewRejectedEmail({
+        to: authorDoc.get('email'),
+        name: authorDoc.get('fullName') || '',
+        subject: productDoc?.get('name') || 'rolnik',
+        reason: review.moderation?.reason
+      });
+    } catch (error) {
+      console.error(`Error sending review rejection email for review ${review._id}:`, error);
+    }
+  }
+
+  /**
+   * Email the farmer about a rejected reply (failures are only logged)
+   */
+  private async notifyReplyRejection(review: FirestoreReview): Promise<void> {
+    try {
+      const farmerDoc = await usersCollection.doc(review.farmer).get();
+
+      if (!farmerDoc.get('email')) return;
+
+      await emailService.sendReviewReplyRejectedEmail({
+        to: farmerDoc.get('email'),
+        name: farmerDoc.get('fullName') || '',
+        reason: review.reply?.moderation?.reason
+      });
+    } catch (error) {
+      console.error(`Error sending reply rejection email for review ${review._id}:`, error);
+    }
+  }
+
+  private toReview(doc: FirebaseFirestore.DocumentSnapshot): FirestoreReview {
+    return { _id: doc.id, ...doc.data() } as FirestoreReview;
+  }
+}
+
+export const reviewService = new ReviewService();
@@ -0,0 +1,233 @@
+// backend/services/shippingService.ts
+import { admin } from '../firebase';
+import { productsCollection, shippingRulesCollection, usersCollection } from '../models/collections';
+import { DEFAULT_SHIPPING_RULES, DELIVERY_WINDOW_TYPES } from '../constants';
+import { ServiceError } from '../utils/serviceError';
+import { calculateDistance } from '../utils/geoUtils';
+import { roundPrice, roundQuantity } from '../utils/orderTotals';
+import { calculateShippingCost, parseCoordinates, toKilograms } from '../utils/shippingCalculator';
+import type {
+  Address,
+  DeliveryWindowType,
+  ShippingQuote,
+  ShippingQuoteSummary,
+  ShippingRules
+} from '../types';
+
+const db = admin.firestore();
+
+type DocumentReader = (refs: FirebaseFirestore.DocumentReference[]) => Promise<FirebaseFirestore.DocumentSnapshot[]>;
+
+/**
+ * Items of one farmer to be shipped together
+ */
+export interface ShippingGroup {
+  farmer: string;
+  itemsTotal: number;
+  weightKg: number;
+  method: DeliveryWindowType;
+}
+
+export interface ShippingQuoteRequest {
+  items: { product: string; quantity: number }[];
+  shippingAddress?: Partial<Address>;
+  pickupFarmers?: string[]; // farmers whose goods are collected on the farm
+}
+
+/**
+ * Serwis kosztów dostawy. Każdy rolnik ustala własne zasady (opłata stała,
+ * za km, za kg, próg darmowej dostawy, zasięg); koszt liczony jest osobno
+ * dla części zamówienia każdego rolnika. Odbiór w gospodarstwie jest bezpłatny.
+ */
+class ShippingService {
+  /**
+   * Zasady dostawy rolnika (domyślne, jeśli ich nie ustawił)
+   */
+  async getRules(farmerId: string): Promise<ShippingRules> {
+    const rulesDoc = await shippingRulesCollection.doc(farmerId).get();
+    return this.toRules(rulesDoc);
+  }
+
+  /**
+   * Ustaw zasady dostawy rolnika
+   */
+  async updateRules(farmerId: string, rules: ShippingRules): Promise<ShippingRules> {
+    await shippingRulesCollection.doc(farmerId).set({
+      flatFee: rules.flatFee,
+      perKmFee: rules.perKmFee,
+      perKgFee: rules.perKgFee,
+      freeDeliveryThreshold: rules.freeDeliveryThreshold ?? null,
+      maxDistanceKm: rules.maxDistanceKm ?? null,
+      updatedAt: admin.firestore.Timestamp.now()
+    });
+
+    return this.getRules(farmerId);
+  }
+
+  /**
+   * Wycena dostawy koszyka przed złożeniem zamówienia
+   */
+  async quote(buyerId: string, request: ShippingQuoteRequest): Promise<ShippingQuoteSummary> {
+    const quantities = new Map<string, number>();
+    request.items.forEach(item => {
+      quantities.set(item.product, roundQuantity((quantities.get(item.product) || 0) + Number(item.quantity)));
+    });
+
+    const productIds = Array.from(quantities.keys());
+    const productDocs = await db.getAll(...productIds.map(id => productsCollection.doc(id)));
+
+    const groups = new Map<string, ShippingGroup>();
+
+    productDocs.forEach(productDoc => {
+      const product = productDoc.data();
+
+      if (!productDoc.exists || !product) {
+        throw new ServiceError(`Produkt ${productDoc.id} nie istnieje.`, 404);
+      }
+
+      const quantity = quantities.get(productDoc.id) || 0;
+      const group = groups.get(product.owner) || {
+        farmer: product.owner,
+        itemsTotal: 0,
+        weightKg: 0,
+        method: request.pickupFarmers?.includes(product.owner)
+          ? DELIVERY_WINDOW_TYPES.PICKUP
+          : DELIVERY_WINDOW_TYPES.DELIVERY
+      };
+
+      group.itemsTotal = roundPrice(group.itemsTotal + Number(product.price) * quantity);
+      group.weightKg = roundQuantity(group.weightKg + toKilograms(quantity, product.unit, product.unitWeightKg));
+      groups.set(product.owner, group);
+    });
+
+    const quotes = await this.calculateQuotes(
+      refs => db.getAll(...refs),
+      Array.from(groups.values()),
+      buyerId,
+      request.shippingAddress
+    );
+
+    const itemsTotal = roundPrice(quotes.reduce((sum, quote) => sum + quote.itemsTotal, 0));
+    const shippingCost = roundPrice(quotes.reduce((sum, quote) => sum + quote.shippingCost, 0));
+
+    return {
+      quotes,
+      itemsTotal,
+      shippingCost,
+      totalPrice: roundPrice(itemsTotal + shippingCost)
+    };
+  }
+
+  /**
+   * Wycena w transakcji tworzenia zamówienia (tylko odczyty)
+   */
+  async calculateQuotesInTransaction(
+    transaction: FirebaseFirestore.Transaction,
+    groups: ShippingGroup[],
+    buyerId: string,
+    shippingAddress?: Partial<Address>
+  ): Promise<ShippingQuote[]> {
+    return this.calculateQuotes(refs => transaction.getAll(...refs), groups, buyerId, shippingAddress);
+  }
+
+  /**
+   * Quote each farmer's group. The delivery distance is measured from the farmer's
+   * location to the address coordinates, or to the buyer's profile location.
+   */
+  private async calculateQuotes(
+    read: DocumentReader,
+    groups: ShippingGroup[],
+    buyerId: string,
+    shippingAddress?: Partial<Address>
+  ): Promise<ShippingQuote[]> {
+    const farmerIds = groups.map(group => group.farmer);
+    const docs = await read([
+      usersCollection.doc(buyerId),
+      ...farmerIds.map(id => usersCollection.doc(id)),
+      ...farmerIds.map(id => shippingRulesCollection.doc(id))
+    ]);
+
+    const buyerDoc = docs[0];
+    const farmerDocs = docs.slice(1, 1 + farmerIds.length);
+    const rulesDocs = docs.slice(1 + farmerIds.length);
+
+    const destination = parseCoordinates(shippingAddress?.coordinates) ||
+      parseCoordinates(buyerDoc.get('location.coordinates'));
+
+    return groups.map((group, index) => {
+      const rules = this.toRules(rulesDocs[index]);
+      const origin = parseCoordinates(farmerDocs[index].get('location.coordinates'));
+
+      if (group.method === DELIVERY_WINDOW_TYPES.PICKUP) {
+        return {
+          farmer: group.farmer,
+          method: group.method,
+          // Distance the buyer travels to the farm, when both locations are known
+          ...(origin && destination && {
+            distanceKm: calculateDistance(origin[1], origin[0], destination[1], destination[0])
+          }),
+          weightKg: group.weightKg,
+          itemsTotal: group.itemsTotal,
+          shippingCost: 0,
+          isFree: true,
+          freeDeliveryThreshold: rules.freeDeliveryThreshold
+        };
+      }
+
+      if (!destination) {
+        throw new ServiceError(
+          'Nie można ustalić lokalizacji dostawy - podaj współrzędne adresu lub uzupełnij lokalizację w profilu.'
+        );
+      }
+
+      if (!origin) {
+        throw new ServiceError(
+          `Rolnik ${farmerDocs[index].get('fullName') || group.farmer} nie ma ustawionej lokalizacji - wybierz odbiór osobisty.`,
+          409
+        );
+      }
+
+      const distanceKm = calculateDistance(origin[1], origin[0], destination[1], destination[0]);
+      const calculation = calculateShippingCost(rules, {
+        distanceKm,
+        weightKg: group.weightKg,
+        itemsTotal: group.itemsTotal
+      });
+
+      if (!calculation.isWithinRange) {
+        throw new ServiceError(
+          `Adres dostawy jest poza zasięgiem rolnika ${farmerDocs[index].get('fullName') || group.farmer} ` +
+          `(${distanceKm} km, maksymalnie ${rules.maxDistanceKm} km).`,
+          409
+        );
+      }
+
+      return {
+        farmer: group.farmer,
+        method: group.method,
+        distanceKm,
+        weightKg: group.weightKg,
+        itemsTotal: group.itemsTotal,
+        shippingCost: calculation.shippingCost,
+        isFree: calculation.isFree,
+        freeDeliveryThreshold: rules.freeDeliveryThreshold
+      };
+    });
+  }
+
+  private toRules(doc: FirebaseFirestore.DocumentSnapshot): ShippingRules {
+    if (!doc.exists) {
+      return { ...DEFAULT_SHIPPING_RULES };
+    }
+
+    return {
+      flatFee: Number(doc.get('flatFee')) || 0,
+      perKmFee: Number(doc.get('perKmFee')) || 0,
+      perKgFee: Number(doc.get('perKgFee')) || 0,
+      freeDeliveryThreshold: doc.get('freeDeliveryThreshold') ?? null,
+      maxDistanceKm: doc.get('maxDistanceKm') ?? null
+    };
+  }
+}
+
+export const shippingService = new ShippingService();
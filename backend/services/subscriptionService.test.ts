@@ -0,0 +1,128 @@
+// backend/services/subscriptionService.test.ts
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { db, resetFirestore, Timestamp } from '../test/firebaseMock';
+import { PAYMENT_STATUSES, SUBSCRIPTION_STATUSES } from '../constants';
+import { FakePaymentProvider, setPaymentProvider } from './payments';
+import { emailService } from './emailService';
+import { subscriptionService } from './subscriptionService';
+import { convertToDate } from '../../src/shared/utils/firebase';
+
+vi.mock('../firebase', () => import('../test/firebaseMock'));
+vi.mock('./emailService', () => ({
+  emailService: {
+    sendSubscriptionOrderEmail: vi.fn(),
+    sendSubscriptionCycleFailedEmail: vi.fn()
+  }
+}));
+
+const now = new Date('2026-05-04T08:00:00Z');
+const deliveryDate = new Date('2026-05-06T08:00:00Z');
+
+const saveSubscription = (id: string, data: Record<string, unknown> = {}) =>
+  db.collection('subscriptions').doc(id).set({
+    buyer: 'buyer-1',
+    farmer: 'farmer-1',
+    items: [{ product: 'carrots', quantity: 2 }],
+    cadence: 'weekly',
+    status: SUBSCRIPTION_STATUSES.ACTIVE,
+    shippingAddress: { street: 'Polna 1', city: 'Warszawa', postalCode: '00-001', country: 'Polska' },
+    nextDeliveryDate: Timestamp.fromDate(deliveryDate),
+    skippedDates: [],
+    orders: [],
+    ...data
+  });
+
+const getSubscription = async (id: string) => (await db.collection('subscriptions').doc(id).get()).data();
+
+beforeEach(async () => {
+  resetFirestore();
+  vi.clearAllMocks();
+  setPaymentProvider(new FakePaymentProvider('whsec_test'));
+
+  await db.collection('users').doc('buyer-1').set({
+    fullName: 'Piotr Wiśniewski',
+    email: 'piotr@example.com',
+    location: { coordinates: [21.0122, 52.2297] }
+  });
+  await db.collection('users').doc('farmer-1').set({
+    fullName: 'Jan Kowalski',
+    role: 'farmer',
+    location: { coordinates: [20.8656, 51.8656] }
+  });
+  await db.collection('shippingRules').doc('farmer-1').set({
+    flatFee: 5, perKmFee: 0, perKgFee: 0, freeDeliveryThreshold: null, maxDistanceKm: null
+  });
+  await db.collection('products').doc('carrots').set({
+    name: 'Marchew', category: 'warzywa', unit: 'kg', price: 4.5, quantity: 10, owner: 'farmer-1', status: 'available'
+  });
+  await db.collection('products').doc('beets').set({
+    name: 'Buraki', category: 'warzywa', unit: 'kg', price: 4, quantity: 10, owner: 'farmer-1', status: 'available'
+  });
+});
+
+describe('subscriptionService.processDueSubscriptions', () => {
+  it('creates an order with a prepared payment and e-mails the pay link', async () => {
+    await saveSubscription('sub-1');
+
+    expect(await subscriptionService.processDueSubscriptions(now)).toBe(1);
+
+    const subscription = await subscriptionService.getSubscription('sub-1');
+    const orderId = subscription.lastCycle?.order as string;
+    const order = (await db.collection('orders').doc(orderId).get()).data();
+
+    expect(subscription).toMatchObject({ lastCycle: { deliveryDate: '2026-05-06', result: 'ordered' }, orders: [orderId] });
+    expect(convertToDate(subscription.nextDeliveryDate)).toEqual(new Date('2026-05-13T08:00:00Z'));
+    expect(order).toMatchObject({
+      subscription: 'sub-1',
+      shippingCost: 5,
+      totalPrice: 14,
+      paymentStatus: PAYMENT_STATUSES.PENDING
+    });
+    expect(order?.paymentId).toMatch(/^pi_fake_/);
+    expect(emailService.sendSubscriptionOrderEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ orderId, paymentUrl: expect.stringContaining(`/orders/${orderId}`) })
+    );
+  });
+
+  it('substitutes an unavailable product from the same category', async () => {
+    await db.collection('products').doc('carrots').update({ quantity: 1 });
+    await saveSubscription('sub-1');
+
+    await subscriptionService.processDueSubscriptions(now);
+
+    expect(emailService.sendSubscriptionOrderEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ substitutions: [{ original: 'Marchew', substitute: 'Buraki' }], missing: [] })
+    );
+  });
+
+  it('skips a skipped delivery and orders nothing for it', async () => {
+    await saveSubscription('sub-1', { skippedDates: ['2026-05-06'] });
+
+    await subscriptionService.processDueSubscriptions(now);
+
+    expect(await getSubscription('sub-1')).toMatchObject({
+      skippedDates: [],
+      lastCycle: { deliveryDate: '2026-05-06', result: 'skipped' },
+      orders: []
+    });
+    expect((await db.collection('orders').get()).empty).toBe(true);
+  });
+
+  it('ignores paused subscriptions and deliveries beyond the lead time', async () => {
+    await saveSubscription('sub-1', { status: SUBSCRIPTION_STATUSES.PAUSED });
+    await saveSubscription('sub-2', { nextDeliveryDate: Timestamp.fromDate(new Date('2026-05-20T08:00:00Z')) });
+
+    expect(await subscriptionService.processDueSubscriptions(now)).toBe(0);
+    expect((await db.collection('orders').get()).empty).toBe(true);
+  });
+});
+
+describe('subscriptionService.skipDelivery', () => {
+  it('only skips scheduled delivery dates', async () => {
+    await saveSubscription('sub-1');
+    const subscription = await subscriptionService.getSubscription('sub-1');
+
+    await expect(subscriptionService.skipDelivery(subscription, '2026-05-07')).rejects.toMatchObject({ status: 400 });
+    expect((await subscriptionService.skipDelivery(subscription, '2026-05-13')).skippedDates).toEqual(['2026-05-13']);
+  });
+});
@@ -0,0 +1,529 @@
+// backend/services/subscriptionService.ts
+import { admin } from '../firebase';
+import { productsCollection, subscriptionsCollection, usersCollection } from '../models/collections';
+import {
+  PRODUCT_STATUSES,
+  SUBSCRIPTION_CADENCE_DAYS,
+  SUBSCRIPTION_ORDER_LEAD_DAYS,
+  SUBSCRIPTION_STATUSES
+} from '../constants';
+import { config } from '../config';
+import { orderService } from './orderService';
+import { paymentService } from './paymentService';
+import { emailService } from './emailService';
+import { ServiceError } from '../utils/serviceError';
+import { roundQuantity } from '../utils/orderTotals';
+import { parseCoordinates } from '../utils/shippingCalculator';
+import { DAY_MS, isDateKey, toDateKey } from '../utils/dateKeys';
+import { convertToDate } from '../../src/shared/utils/firebase';
+import { formatDate } from '../../src/shared/utils';
+import type {
+  Address,
+  FirestoreSubscription,
+  SubscriptionCadence,
+  SubscriptionItem
+} from '../types';
+
+const db = admin.firestore();
+
+const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * DAY_MS);
+
+export interface CreateSubscriptionRequest {
+  farmer: string;
+  items: SubscriptionItem[];
+  cadence: SubscriptionCadence;
+  shippingAddress: Address;
+  firstDeliveryDate?: string;
+}
+
+export type UpdateSubscriptionRequest = Partial<Pick<CreateSubscriptionRequest, 'items' | 'cadence' | 'shippingAddress'>>;
+
+interface CycleItems {
+  items: SubscriptionItem[];
+  substitutions: { original: string; substitute: string }[];
+  missing: string[];
+}
+
+/**
+ * Serwis subskrypcji paczek (CSA) - cykliczne zamówienia u jednego rolnika.
+ * Harmonogram (jobs/subscriptionOrders) tworzy zwykłe zamówienie na każdy
+ * cykl; niedostępne produkty zastępowane są produktem tego samego rolnika
+ * z tej samej kategorii. Kupujący dostaje e-mail z linkiem do płatności.
+ */
+class SubscriptionService {
+  /**
+   * Utwórz subskrypcję
+   */
+  async createSubscription(buyerId: string, request: CreateSubscriptionRequest): Promise<FirestoreSubscription> {
+    if (request.farmer === buyerId) {
+      throw new ServiceError('Nie możesz subskrybować własnych produktów.');
+    }
+
+    const farmerDoc = await usersCollection.doc(request.farmer).get();
+    if (!farmerDoc.exists || farmerDoc.get('role') !== 'farmer') {
+      throw new ServiceError('Rolnik nie znaleziony.', 404);
+    }
+
+    const items = await this.validateItems(request.farmer, request.items);
+    const nextDeliveryDate = this.resolveFirstDeliveryDate(request.firstDeliveryDate, request.cadence);
+    const now = admin.firestore.Timestamp.now();
+
+    const subscriptionRef = subscriptionsCollection.doc();
+    await subscriptionRef.set({
+      buyer: buyerId,
+      farmer: request.farmer,
+      items,
+      cadence: request.cadence,
+      status: SUBSCRIPTION_STATUSES.ACTIVE,
+      shippingAddress: this.normalizeAddress(request.shippingAddress),
+      nextDeliveryDate: admin.firestore.Timestamp.fromDate(nextDeliveryDate),
+      skippedDates: [],
+      orders: [],
+      createdAt: now,
+      updatedAt: now
+    });
+
+    return this.getSubscription(subscriptionRef.id);
+  }
+
+  /**
+   * Pobierz subskrypcję po ID
+   */
+  async getSubscription(subscriptionId: string): Promise<FirestoreSubscription> {
+    const subscriptionDoc = await subscriptionsCollection.doc(subscriptionId).get();
+
+    if (!subscriptionDoc.exists) {
+      throw new ServiceError('Subskrypcja nie znaleziona.', 404);
+    }
+
+    return this.toSubscription(subscriptionDoc);
+  }
+
+  /**
+   * Subskrypcje kupującego lub rolnika
+   */
+  async getUserSubscriptions(userId: string, role: 'buyer' | 'farmer'): Promise<FirestoreSubscription[]> {
+    const snapshot = await subscriptionsCollection.where(role, '==', userId).get();
+
+    return snapshot.docs
+      .map(doc => this.toSubscription(doc))
+      .sort((a, b) => this.getNextDeliveryDate(a).getTime() - this.getNextDeliveryDate(b).getTime());
+  }
+
+  /**
+   * Zmień szablon paczki, częstotliwość lub adres dostawy
+   */
+  async updateSubscription(
+    subscription: FirestoreSubscription,
+    request: UpdateSubscriptionRequest
+  ): Promise<FirestoreSubscription> {
+    this.assertNotCancelled(subscription);
+
+    const update: Record<string, unknown> = {
+      updatedAt: admin.firestore.Timestamp.now()
+    };
+
+    if (request.items) {
+      update.items = await this.validateItems(subscription.farmer, request.items);
+    }
+
+    if (request.cadence) {
+      update.cadence = request.cadence;
+    }
+
+    if (request.shippingAddress) {
+      update.shippingAddress = this.normalizeAddress(request.shippingAddress);
+    }
+
+    await subscriptionsCollection.doc(subscription._id).update(update);
+    return this.getSubscription(subscription._id);
+  }
+
+  /**
+   * Wstrzymaj subskrypcję (harmonogram nie tworzy zamówień)
+   */
+  async pauseSubscription(subscription: FirestoreSubscription): Promise<FirestoreSubscription> {
+    this.assertNotCancelled(subscription);
+
+    await subscriptionsCollection.doc(subscription._id).update({
+      status: SUBSCRIPTION_STATUSES.PAUSED,
+      updatedAt: admin.firestore.Timestamp.now()
+    });
+
+    return this.getSubscription(subscription._id);
+  }
+
+  /**
+   * Wznów subskrypcję - dostawy z okresu wstrzymania przepadają
+   */
+  async resumeSubscription(subscription: FirestoreSubscription): Promise<FirestoreSubscription> {
+    this.assertNotCancelled(subscription);
+
+    const earliest = addDays(new Date(), SUBSCRIPTION_ORDER_LEAD_DAYS);
+    let nextDeliveryDate = this.getNextDeliveryDate(subscription);
+
+    while (nextDeliveryDate < earliest) {
+      nextDeliveryDate = addDays(nextDeliveryDate, SUBSCRIPTION_CADENCE_DAYS[subscription.cadence]);
+    }
+
+    await subscriptionsCollection.doc(subscription._id).update({
+      status: SUBSCRIPTION_STATUSES.ACTIVE,
+      nextDeliveryDate: admin.firestore.Timestamp.fromDate(nextDeliveryDate),
+      updatedAt: admin.firestore.Timestamp.now()
+    });
+
+    return this.getSubscription(subscription._id);
+  }
+
+  /**
+   * Pomiń dostawę (domyślnie najbliższą)
+   */
+  async skipDelivery(subscription: FirestoreSubscription, date?: string): Promise<FirestoreSubscription> {
+    this.assertNotCancelled(subscription);
+
+    const dateKey = date || toDateKey(this.getNextDeliveryDate(subscription));
+
+    if (!this.isScheduledDeliveryDate(subscription, dateKey)) {
+      throw new ServiceError('W tym dniu nie ma zaplanowanej dostawy.');
+    }
+
+    await subscriptionsCollection.doc(subscription._id).update({
+      skippedDates: admin.firestore.FieldValue.arrayUnion(dateKey),
+      updatedAt: admin.firestore.Timestamp.now()
+    });
+
+    return this.getSubscription(subscription._id);
+  }
+
+  /**
+   * Anuluj subskrypcję (nieodwracalne)
+   */
+  async cancelSubscription(subscription: FirestoreSubscription): Promise<FirestoreSubscription> {
+    this.assertNotCancelled(subscription);
+
+    await subscriptionsCollection.doc(subscription._id).update({
+      status: SUBSCRIPTION_STATUSES.CANCELLED,
+      updatedAt: admin.firestore.Timestamp.now()
+    });
+
+    return this.getSubscription(subscription._id);
+  }
+
+  /**
+   * Utwórz zamówienia dla subskrypcji, których dostawa wypada w okresie wyprzedzenia.
+   * Called periodically by the scheduler.
+   */
+  async processDueSubscriptions(now: Date = new Date()): Promise<number> {
+    const limit = addDays(now, SUBSCRIPTION_ORDER_LEAD_DAYS);
+    // Needs the composite index (status, nextDeliveryDate) from firestore.indexes.json
+    const snapshot = await subscriptionsCollection
+      .where('status', '==', SUBSCRIPTION_STATUSES.ACTIVE)
+      .where('nextDeliveryDate', '<=', admin.firestore.Timestamp.fromDate(limit))
+      .get();
+
+    let processed = 0;
+
+    for (const doc of snapshot.docs) {
+      try {
+        if (await this.processCycle(doc.id, limit)) {
+          processed++;
+        }
+      } catch (error) {
+        console.error(`Error processing subscription ${doc.id}:`, error);
+      }
+    }
+
+    return processed;
+  }
+
+  /**
+   * Process one delivery of a subscription. The cycle is claimed in a transaction
+   * (next delivery date moved forward first), so concurrent runs never order twice.
+   */
+  private async processCycle(subscriptionId: string, limit: Date): Promise<boolean> {
+    const subscriptionRef = subscriptionsCollection.doc(subscriptionId);
+
+    const claimed = await db.runTransaction(async (transaction) => {
+      const subscriptionDoc = await transaction.get(subscriptionRef);
+      if (!subscriptionDoc.exists) return null;
+
+      const subscription = this.toSubscription(subscriptionDoc);
+      const deliveryDate = this.getNextDeliveryDate(subscription);
+
+      if (subscription.status !== SUBSCRIPTION_STATUSES.ACTIVE || deliveryDate > limit) {
+        return null;
+      }
+
+      const dateKey = toDateKey(deliveryDate);
+      const skipped = (subscription.skippedDates || []).includes(dateKey);
+
+      transaction.update(subscriptionRef, {
+        nextDeliveryDate: admin.firestore.Timestamp.fromDate(
+          addDays(deliveryDate, SUBSCRIPTION_CADENCE_DAYS[subscription.cadence])
+        ),
+        skippedDates: (subscription.skippedDates || []).filter(key => key !== dateKey),
+        ...(skipped && {
+          lastCycle: { deliveryDate: dateKey, result: 'skipped', processedAt: admin.firestore.Timestamp.now() }
+        }),
+        updatedAt: admin.firestore.Timestamp.now()
+      });
+
+      return { subscription, deliveryDate, dateKey, skipped };
+    });
+
+    if (!claimed || claimed.skipped) {
+      return Boolean(claimed);
+    }
+
+    const { subscription, deliveryDate, dateKey } = claimed;
+    const buyerDoc = await usersCollection.doc(subscription.buyer).get();
+    const buyer = buyerDoc.data();
+
+    const recordCycle = (result: 'ordered' | 'no_items' | 'failed', orderId?: string) =>
+      subscriptionRef.update({
+        lastCycle: {
+          deliveryDate: dateKey,
+          result,
+          ...(orderId && { order: orderId }),
+          processedAt: admin.firestore.Timestamp.now()
+        },
+        ...(orderId && { orders: admin.firestore.FieldValue.arrayUnion(orderId) }),
+        updatedAt: admin.firestore.Timestamp.now()
+      });
+
+    const notifyFailure = async (reason: string) => {
+      if (!buyer?.email) return;
+      try {
+        await emailService.sendSubscriptionCycleFailedEmail({
+          to: buyer.email,
+          name: buyer.fullName,
+          deliveryDate: formatDate(deliveryDate),
+          reason
+        });
+      } catch (emailError) {
+        console.error('Error sending subscription email:', emailError);
+      }
+    };
+
+    const cycleItems = await this.resolveCycleItems(subscription);
+
+    if (cycleItems.items.length === 0) {
+      await recordCycle('no_items');
+      await notifyFailure('żaden z produktów subskrypcji ani ich zamienników nie jest obecnie dostępny.');
+      return true;
+    }
+
+    let orderId: string;
+
+    try {
+      const order = await orderService.createOrder(
+        subscription.buyer,
+        {
+          items: cycleItems.items,
+          shippingAddress: subscription.shippingAddress,
+          deliveryDate
+        },
+        { subscription: subscription._id }
+      );
+      orderId = order._id;
+    } catch (error) {
+      console.error(`Error creating order for subscription ${subscription._id}:`, error);
+      await recordCycle('failed');
+      await notifyFailure(error instanceof ServiceError ? error.message : 'błąd podczas tworzenia zamówienia.');
+      return true;
+    }
+
+    await recordCycle('ordered', orderId);
+
+    // No card is stored, so the buyer confirms the prepared payment from the e-mail link
+    try {
+      await paymentService.createPaymentIntent(orderId, subscription.buyer);
+    } catch (error) {
+      console.error(`Error creating payment for subscription order ${orderId}:`, error);
+    }
+
+    if (buyer?.email) {
+      try {
+        await emailService.sendSubscriptionOrderEmail({
+          to: buyer.email,
+          name: buyer.fullName,
+          orderId,
+          paymentUrl: `${config.frontendUrl}/orders/${orderId}`,
+          deliveryDate: formatDate(deliveryDate),
+          substitutions: cycleItems.substitutions,
+          missing: cycleItems.missing
+        });
+      } catch (emailError) {
+        console.error('Error sending subscription email:', emailError);
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Items of one cycle - unavailable products (or products without enough stock)
+   * are replaced by the farmer's available product from the same category with
+   * the closest price
+   */
+  private async resolveCycleItems(subscription: FirestoreSubscription): Promise<CycleItems> {
+    const farmerProducts = await productsCollection.where('owner', '==', subscription.farmer).get();
+    const products = new Map(farmerProducts.docs.map(doc => [doc.id, doc.data()]));
+
+    const templateIds = new Set(subscription.items.map(item => item.product));
+    const usedSubstitutes = new Set<string>();
+    const result: CycleItems = { items: [], substitutions: [], missing: [] };
+
+    const isPurchasable = (productId: string, quantity: number): boolean => {
+      const product = products.get(productId);
+      return Boolean(product) &&
+        product?.status === PRODUCT_STATUSES.AVAILABLE &&
+        Number(product?.quantity) >= quantity;
+    };
+
+    subscription.items.forEach(item => {
+      if (isPurchasable(item.product, item.quantity)) {
+        result.items.push(item);
+        return;
+      }
+
+      const original = products.get(item.product);
+      const originalName = original?.name || 'Produkt usunięty';
+
+      const substitute = original
+        ? Array.from(products.entries())
+          .filter(([id, product]) =>
+            !templateIds.has(id) &&
+            !usedSubstitutes.has(id) &&
+            product.category === original.category &&
+            isPurchasable(id, item.quantity)
+          )
+          .sort(([, a], [, b]) =>
+            Math.abs(Number(a.price) - Number(original.price)) - Math.abs(Number(b.price) - Number(original.price))
+          )[0]
+        : undefined;
+
+      if (!substitute) {
+        result.missing.push(originalName);
+        return;
+      }
+
+      const [substituteId, substituteProduct] = substitute;
+      usedSubstitutes.add(substituteId);
+      result.items.push({ product: substituteId, quantity: item.quantity });
+      result.substitutions.push({ original: originalName, substitute: substituteProduct.name });
+    });
+
+    return result;
+  }
+
+  /**
+   * Check template items - all products must exist and belong to the farmer
+   */
+  private async validateItems(farmerId: string, items: SubscriptionItem[]): Promise<SubscriptionItem[]> {
+    if (!Array.isArray(items) || items.length === 0) {
+      throw new ServiceError('Subskrypcja musi zawierać co najmniej jeden produkt.');
+    }
+
+    const merged = new Map<string, number>();
+    items.forEach(item => {
+      const quantity = Number(item?.quantity);
+
+      if (!item || typeof item.product !== 'string' || !item.product || isNaN(quantity) || quantity <= 0) {
+        throw new ServiceError('Każda pozycja subskrypcji musi zawierać produkt i dodatnią ilość.');
+      }
+
+      merged.set(item.product, roundQuantity((merged.get(item.product) || 0) + quantity));
+    });
+
+    const productIds = Array.from(merged.keys());
+    const productDocs = await db.getAll(...productIds.map(id => productsCollection.doc(id)));
+
+    productDocs.forEach(productDoc => {
+      if (!productDoc.exists) {
+        throw new ServiceError(`Produkt ${productDoc.id} nie znaleziony.`, 404);
+      }
+
+      if (productDoc.get('owner') !== farmerId) {
+        throw new ServiceError(`Produkt "${productDoc.get('name')}" nie należy do wybranego rolnika.`);
+      }
+    });
+
+    return productIds.map(product => ({ product, quantity: merged.get(product) as number }));
+  }
+
+  /**
+   * First delivery date - requested date or one cadence from now
+   */
+  private resolveFirstDeliveryDate(requested: string | undefined, cadence: SubscriptionCadence): Date {
+    const earliest = addDays(new Date(), SUBSCRIPTION_ORDER_LEAD_DAYS);
+
+    if (!requested) {
+      return addDays(new Date(), SUBSCRIPTION_CADENCE_DAYS[cadence]);
+    }
+
+    const date = new Date(requested);
+
+    if (isNaN(date.getTime()) || date < earliest) {
+      throw new ServiceError(
+        `Pierwsza dostawa musi być co najmniej ${SUBSCRIPTION_ORDER_LEAD_DAYS} dni od dziś.`
+      );
+    }
+
+    return date;
+  }
+
+  /**
+   * Whether the date key falls on one of the upcoming deliveries
+   */
+  private isScheduledDeliveryDate(subscription: FirestoreSubscription, dateKey: string): boolean {
+    if (!isDateKey(dateKey)) return false;
+
+    const target = new Date(`${dateKey}T00:00:00.000Z`);
+
+    const cadenceDays = SUBSCRIPTION_CADENCE_DAYS[subscription.cadence];
+    let delivery = this.getNextDeliveryDate(subscription);
+
+    // Look one year ahead at most
+    for (let cycle = 0; cycle < Math.ceil(366 / cadenceDays) && delivery <= addDays(target, 1); cycle++) {
+      if (toDateKey(delivery) === dateKey) return true;
+      delivery = addDays(delivery, cadenceDays);
+    }
+
+    return false;
+  }
+
+  private assertNotCancelled(subscription: FirestoreSubscription): void {
+    if (subscription.status === SUBSCRIPTION_STATUSES.CANCELLED) {
+      throw new ServiceError('Subskrypcja została anulowana.', 409);
+    }
+  }
+
+  private getNextDeliveryDate(subscription: FirestoreSubscription): Date {
+    return convertToDate(subscription.nextDeliveryDate) || new Date();
+  }
+
+  /**
+   * Keep only the address fields we know about
+   */
+  private normalizeAddress(address: Address): Address {
+    const coordinates = parseCoordinates(address.coordinates);
+
+    return {
+      street: String(address.street).trim(),
+      city: String(address.city).trim(),
+      postalCode: String(address.postalCode).trim(),
+      country: String(address.country || 'Polska').trim(),
+      ...(coordinates && { coordinates })
+    };
+  }
+
+  private toSubscription(doc: FirebaseFirestore.DocumentSnapshot): FirestoreSubscription {
+    return {
+      _id: doc.id,
+      ...doc.data()
+    } as FirestoreSubscription;
+  }
+}
+
+export const subscriptionService = new SubscriptionService();
@@ -0,0 +1,172 @@
+// backend/services/verificationService.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { db, resetFirestore } from '../test/firebaseMock';
+import { verificationService } from './verificationService';
+import { uploadDocumentToStorage } from './fileStorageService';
+import { emailService } from './emailService';
+
+vi.mock('../firebase', () => import('../test/firebaseMock'));
+vi.mock('./fileStorageService', () => ({
+  uploadDocumentToStorage: vi.fn(async (file: Express.Multer.File) => `https://storage.test/certificates/${file.originalname}`),
+  deleteImageFromStorage: vi.fn()
+}));
+vi.mock('./emailService', () => ({
+  emailService: { sendCertificateExpiryReminderEmail: vi.fn() }
+}));
+
+const scan = { originalname: 'certyfikat.pdf', mimetype: 'application/pdf' } as Express.Multer.File;
+
+const certificate = (validUntil: string) => verificationService.createCertificate('farmer-1', {
+  name: 'Rolnictwo ekologiczne',
+  type: 'organic',
+  issuingAuthority: 'Ekogwarancja PTRE',
+  validUntil: new Date(validUntil)
+}, scan);
+
+beforeEach(async () => {
+  resetFirestore();
+  vi.clearAllMocks();
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2026-05-04T08:00:00Z'));
+
+  await db.collection('users').doc('farmer-1').set({ fullName: 'Jan Kowalski', email: 'jan@example.com', role: 'farmer' });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('verificationService certificates', () => {
+  it('stores an uploaded certificate as pending verification', async () => {
+    const created = await certificate('2027-01-01');
+
+    expect(uploadDocumentToStorage).toHaveBeenCalledWith(scan, 'certificates');
+    expect(created).toMatchObject({
+      documentUrl: 'https://storage.test/certificates/certyfikat.pdf',
+      issuedTo: 'farmer-1',
+      isVerified: false,
+      status: 'pending'
+    });
+    expect((await db.collection('users').doc('farmer-1').get()).get('certificates')).toEqual([created._id]);
+    expect((await verificationService.getVerificationQueue()).map(item => item._id)).toEqual([created._id]);
+    expect(await verificationService.hasFarmerVerifiedCertificates('farmer-1')).toBe(false);
+  });
+
+  it('verifies a valid certificate and lists it while it is valid', async () => {
+    const created = await certificate('2026-06-01');
+
+    const verified = await verificationService.verifyCertificate(created._id, true, 'admin-1');
+
+    expect(verified).toMatchObject({ isVerified: true, status: 'verified', verification: { verifiedBy: 'admin-1' } });
+    expect(await verificationService.hasFarmerVerifiedCertificates('farmer-1')).toBe(true);
+    expect(await verificationService.getVerificationQueue()).toEqual([]);
+
+    vi.setSystemTime(new Date('2026-06-02T08:00:00Z'));
+    expect(await verificationService.getActiveFarmerCertificates('farmer-1')).toEqual([]);
+  });
+
+  it('rejects a certificate with a reason and refuses to verify an expired one', async () => {
+    const created = await certificate('2026-05-01');
+
+    await expect(verificationService.verifyCertificate(created._id, true, 'admin-1')).rejects.toMatchObject({ status: 409 });
+
+    const rejected = await verificationService.verifyCertificate(created._id, false, 'admin-1', 'Nieczytelny skan');
+
+    expect(rejected).toMatchObject({ isVerified: false, status: 'rejected', verification: { reason: 'Nieczytelny skan' } });
+    expect((await verificationService.getVerificationQueue('rejected')).map(item => item._id)).toEqual([created._id]);
+    expect(await verificationService.verifyCertificate('missing', true)).toBeNull();
+  });
+});
+
+describe('verificationService product certification', () => {
+  const product = () => db.collection('products').doc('carrots').get();
+
+  const addProduct = async (certificates: string[]) => {
+    const certification = await verificationService.getProductCertification('farmer-1', certificates);
+    await db.collection('products').doc('carrots').set({ name: 'Marchew', owner: 'farmer-1', ...certification });
+    return certification;
+  };
+
+  it('certifies products only with verified, valid certificates of their owner', async () => {
+    const created = await certificate('2027-01-01');
+
+    expect(await addProduct([created._id])).toEqual({
+      certificates: [created._id],
+      certificateTypes: [],
+      isCertified: false
+    });
+
+    await db.collection('users').doc('farmer-2').set({ fullName: 'Maria Nowak', role: 'farmer' });
+    await expect(verificationService.getProductCertification('farmer-2', [created._id]))
+      .rejects.toMatchObject({ status: 400 });
+    await expect(verificationService.getProductCertification('farmer-1', ['missing']))
+      .rejects.toMatchObject({ status: 400 });
+  });
+
+  it('updates products when their certificate is verified or rejected', async () => {
+    const created = await certificate('2027-01-01');
+    await addProduct([created._id]);
+
+    await verificationService.verifyCertificate(created._id, true, 'admin-1');
+    expect((await product()).data()).toMatchObject({ isCertified: true, certificateTypes: ['organic'] });
+
+    await verificationService.verifyCertificate(created._id, false, 'admin-1', 'Certyfikat cofnięty');
+    expect((await product()).data()).toMatchObject({ isCertified: false, certificateTypes: [] });
+  });
+});
+
+describe('verificationService certificate expiry', () => {
+  const product = () => db.collection('products').doc('carrots').get();
+
+  const verifiedCertificate = async (validUntil: string) => {
+    const created = await certificate(validUntil);
+    await verificationService.verifyCertificate(created._id, true, 'admin-1');
+    return created;
+  };
+
+  it('reminds the farmer 30 and 7 days before expiry, once each', async () => {
+    await verifiedCertificate('2026-06-01');
+
+    // 28 days left - the 30-day reminder is due
+    expect(await verificationService.processExpiringCertificates()).toEqual({ reminded: 1, expired: 0 });
+    expect(await verificationService.processExpiringCertificates()).toEqual({ reminded: 0, expired: 0 });
+    expect(emailService.sendCertificateExpiryReminderEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ to: 'jan@example.com', certificateName: 'Rolnictwo ekologiczne', daysLeft: 28 })
+    );
+
+    vi.setSystemTime(new Date('2026-05-26T08:00:00Z'));
+    expect(await verificationService.processExpiringCertificates()).toEqual({ reminded: 1, expired: 0 });
+    expect(emailService.sendCertificateExpiryReminderEmail).toHaveBeenCalledTimes(2);
+  });
+
+  it('retries a reminder that could not be sent', async () => {
+    const created = await verifiedCertificate('2026-05-10');
+    vi.mocked(emailService.sendCertificateExpiryReminderEmail).mockRejectedValueOnce(new Error('SMTP down'));
+
+    expect(await verificationService.processExpiringCertificates()).toEqual({ reminded: 0, expired: 0 });
+    expect(await verificationService.processExpiringCertificates()).toEqual({ reminded: 1, expired: 0 });
+    // Both reminders are due 6 days before expiry, but only one email is sent
+    expect((await db.collection('certificates').doc(created._id).get()).get('expiryReminders')).toEqual([30, 7]);
+  });
+
+  it('expires an outdated certificate and moves products to its verified renewal', async () => {
+    const created = await verifiedCertificate('2026-06-01');
+    const certification = await verificationService.getProductCertification('farmer-1', [created._id]);
+    await db.collection('products').doc('carrots').set({ name: 'Marchew', owner: 'farmer-1', ...certification });
+
+    vi.setSystemTime(new Date('2026-06-02T08:00:00Z'));
+
+    expect(await verificationService.processExpiringCertificates()).toMatchObject({ expired: 1 });
+    expect((await db.collection('certificates').doc(created._id).get()).data())
+      .toMatchObject({ isVerified: false, status: 'expired' });
+    expect((await product()).data()).toMatchObject({ isCertified: false, certificateTypes: [] });
+
+    const renewed = await verifiedCertificate('2027-06-01');
+
+    expect((await product()).data()).toMatchObject({
+      certificates: [created._id, renewed._id],
+      isCertified: true,
+      certificateTypes: ['organic']
+    });
+  });
+});
@@ -1,83 +1,502 @@
 // backend/services/verificationService.ts - Fixed TypeScript version
 import { admin } from '../firebase';
+import { certificatesCollection, productsCollection, usersCollection } from '../models/collections';
+import { CERTIFICATE_REMINDER_DAYS, CERTIFICATE_STATUSES } from '../constants';
+import { uploadDocumentToStorage, deleteImageFromStorage } from './fileStorageService';
+import { emailService } from './emailService';
+import { ServiceError } from '../utils/serviceError';
+import { DAY_MS } from '../utils/dateKeys';
+import { convertToDate } from '../../src/shared/utils/firebase';
+import { formatDate } from '../../src/shared/utils';
+import type { CertificateStatus, CertificateType, FirestoreCertificate } from '../types';
 
 const db = admin.firestore();
-const certificatesCollection = db.collection('certificates');
 
-// Define types for certificates
-interface Certificate {
-  id: string;
+interface DocumentUpdate {
+  ref: FirebaseFirestore.DocumentReference;
+  data: FirebaseFirestore.UpdateData<FirebaseFirestore.DocumentData>;
+}
+
+// Certification fields of a product derived from its certificates
+export interface ProductCertification {
+  certificates: string[];
+  certificateTypes: CertificateType[];
+  isCertified: boolean;
+}
+
+export interface CreateCertificateData {
   name: string;
-  type: 'organic' | 'eco' | 'fair-trade' | 'other';
+  type: CertificateType;
   issuingAuthority: string;
-  documentUrl?: string;
-  issuedTo: string;
-  products?: string[];
-  isVerified: boolean;
-  validUntil: admin.firestore.Timestamp | Date;
-  createdAt: admin.firestore.Timestamp | Date;
-  updatedAt: admin.firestore.Timestamp | Date;
+  validUntil: Date;
+  certificateNumber?: string;
 }
 
 /**
- * Serwis do weryfikacji rolników i certyfikatów
+ * Status weryfikacji certyfikatu (starsze dokumenty mają tylko isVerified)
+ */
+export const getCertificateStatus = (certificate: FirestoreCertificate): CertificateStatus =>
+  certificate.status || (certificate.isVerified ? CERTIFICATE_STATUSES.VERIFIED : CERTIFICATE_STATUSES.PENDING);
+
+/**
+ * Certyfikat zweryfikowany i jeszcze ważny
+ */
+export const isCertificateActive = (certificate: FirestoreCertificate, now: Date = new Date()): boolean => {
+  const validUntil = convertToDate(certificate.validUntil);
+  return certificate.isVerified && Boolean(validUntil && validUntil.getTime() > now.getTime());
+};
+
+const toCertificate = (doc: FirebaseFirestore.DocumentSnapshot): FirestoreCertificate => ({
+  _id: doc.id,
+  ...doc.data()
+}) as FirestoreCertificate;
+
+/**
+ * A product is certified only by verified certificates that are still valid
+ */
+const getCertification = (certificateIds: string[], certificates: FirestoreCertificate[], now: Date): ProductCertification => {
+  const activeTypes = certificates
+    .filter(certificate => isCertificateActive(certificate, now))
+    .map(certificate => certificate.type);
+
+  return {
+    certificates: certificateIds,
+    certificateTypes: [...new Set(activeTypes)],
+    isCertified: activeTypes.length > 0
+  };
+};
+
+/**
+ * Commit updates in chunks - Firestore batches hold at most 500 writes
+ */
+const commitUpdates = async (updates: DocumentUpdate[]): Promise<void> => {
+  for (let start = 0; start < updates.length; start += 500) {
+    const batch = db.batch();
+    updates.slice(start, start + 500).forEach(({ ref, data }) => batch.update(ref, data));
+    await batch.commit();
+  }
+};
+
+const sortByValidUntil = (certificates: FirestoreCertificate[]): FirestoreCertificate[] =>
+  certificates.sort((a, b) => {
+    const dateA = convertToDate(a.validUntil) || new Date(0);
+    const dateB = convertToDate(b.validUntil) || new Date(0);
+    return dateA.getTime() - dateB.getTime();
+  });
+
+/**
+ * Serwis do weryfikacji rolników i certyfikatów.
+ * Rolnik przesyła dokument certyfikatu, który trafia do kolejki weryfikacji
+ * administratora. Publicznie widoczne i uwzględniane w obliczeniach
+ * są tylko certyfikaty zweryfikowane i ważne. Produkty wskazują certyfikaty
+ * swojego właściciela, a ich isCertified jest przeliczane przy każdej
+ * zmianie weryfikacji oraz po utracie ważności certyfikatu. Zadanie okresowe
+ * przypomina rolnikom o kończącej się ważności i oznacza certyfikaty jako wygasłe;
+ * zweryfikowany certyfikat tego samego rodzaju zastępuje wygasły w produktach.
  */
 class VerificationService {
   /**
-   * Zweryfikuj certyfikat rolnika
+   * Dodaj certyfikat rolnika z dokumentem (PDF lub zdjęcie) - czeka na weryfikację
    */
-  async verifyCertificate(certificateId: string, isVerified: boolean): Promise<Certificate | null> {
-    await certificatesCollection.doc(certificateId).update({
-      isVerified,
-      updatedAt: admin.firestore.FieldValue.serverTimestamp()
+  async createCertificate(
+    farmerId: string,
+    data: CreateCertificateData,
+    document: Express.Multer.File
+  ): Promise<FirestoreCertificate> {
+    const documentUrl = await uploadDocumentToStorage(document, 'certificates');
+
+    try {
+      const now = admin.firestore.Timestamp.now();
+      const certificateRef = certificatesCollection.doc();
+      const certificateData = {
+        name: data.name,
+        type: data.type,
+        issuingAuthority: data.issuingAuthority,
+        documentUrl,
+        issuedTo: farmerId,
+        isVerified: false,
+        status: CERTIFICATE_STATUSES.PENDING,
+        validUntil: admin.firestore.Timestamp.fromDate(data.validUntil),
+        createdAt: now,
+        updatedAt: now
+      };
+
+      const batch = db.batch();
+      batch.set(certificateRef, certificateData);
+      batch.update(usersCollection.doc(farmerId), {
+        certificates: admin.firestore.FieldValue.arrayUnion(certificateRef.id)
+      });
+      await batch.commit();
+
+      return {
+        _id: certificateRef.id,
+        ...certificateData
+      };
+    } catch (error) {
+      await deleteImageFromStorage(documentUrl);
+      throw error;
+    }
+  }
+
+  /**
+   * Zapisz zweryfikowany certyfikat z importu rejestru w transakcji importu (bez dokumentu).
+   * Oczekujący certyfikat rolnika z tej samej jednostki jest weryfikowany zamiast tworzenia nowego.
+   * Produkty przelicza dopiero applyVerifiedCertificate, po zatwierdzeniu transakcji.
+   */
+  saveImportedCertificate(
+    transaction: FirebaseFirestore.Transaction,
+    farmerId: string,
+    data: CreateCertificateData,
+    verifiedBy: string,
+    importId: string,
+    pending?: FirestoreCertificate
+  ): FirestoreCertificate {
+    const now = admin.firestore.Timestamp.now();
+    const verifiedData = {
+      ...(data.certificateNumber && { certificateNumber: data.certificateNumber }),
+      isVerified: true,
+      status: CERTIFICATE_STATUSES.VERIFIED,
+      verification: {
+        verifiedBy,
+        verifiedAt: now
+      },
+      validUntil: admin.firestore.Timestamp.fromDate(data.validUntil),
+      importId,
+      updatedAt: now
+    };
+
+    if (pending) {
+      transaction.update(certificatesCollection.doc(pending._id), verifiedData);
+      return { ...pending, ...verifiedData };
+    }
+
+    const certificateRef = certificatesCollection.doc();
+    const certificateData = {
+      name: data.name,
+      type: data.type,
+      issuingAuthority: data.issuingAuthority,
+      issuedTo: farmerId,
+      ...verifiedData,
+      createdAt: now
+    };
+
+    transaction.set(certificateRef, certificateData);
+    transaction.update(usersCollection.doc(farmerId), {
+      certificates: admin.firestore.FieldValue.arrayUnion(certificateRef.id)
     });
-    
-    const doc = await certificatesCollection.doc(certificateId).get();
+
+    return {
+      _id: certificateRef.id,
+      ...certificateData
+    };
+  }
+
+  /**
+   * Podepnij zweryfikowany certyfikat pod produkty z wygasłym certyfikatem i przelicz ich certyfikację
+   */
+  async applyVerifiedCertificate(certificate: FirestoreCertificate): Promise<void> {
+    await this.attachRenewedCertificate(certificate);
+    await this.refreshProductCertification(certificate._id);
+  }
+
+  /**
+   * Zweryfikuj certyfikat rolnika (lub odrzuć go z podaniem powodu)
+   */
+  async verifyCertificate(
+    certificateId: string,
+    isVerified: boolean,
+    verifiedBy?: string,
+    reason?: string
+  ): Promise<FirestoreCertificate | null> {
+    const certificateRef = certificatesCollection.doc(certificateId);
+    const doc = await certificateRef.get();
+
     if (!doc.exists) {
       return null;
     }
-    
-    return { 
-      id: doc.id, 
-      ...doc.data() 
-    } as Certificate;
+
+    const validUntil = convertToDate(toCertificate(doc).validUntil);
+
+    if (isVerified && (!validUntil || validUntil.getTime() <= Date.now())) {
+      throw new ServiceError('Certyfikat stracił ważność - nie można go zweryfikować.', 409);
+    }
+
+    const now = admin.firestore.Timestamp.now();
+
+    await certificateRef.update({
+      isVerified,
+      status: isVerified ? CERTIFICATE_STATUSES.VERIFIED : CERTIFICATE_STATUSES.REJECTED,
+      ...(verifiedBy && {
+        verification: {
+          ...(reason && { reason }),
+          verifiedBy,
+          verifiedAt: now
+        }
+      }),
+      updatedAt: now
+    });
+
+    if (isVerified) {
+      await this.attachRenewedCertificate(toCertificate(doc));
+    }
+
+    await this.refreshProductCertification(certificateId);
+
+    return toCertificate(await certificateRef.get());
+  }
+
+  /**
+   * Certyfikacja produktu na podstawie wskazanych certyfikatów - muszą należeć do właściciela produktu
+   */
+  async getProductCertification(ownerId: string, certificateIds: string[]): Promise<ProductCertification> {
+    const ids = [...new Set(certificateIds.filter(Boolean))];
+
+    if (ids.length === 0) {
+      return getCertification([], [], new Date());
+    }
+
+    const docs = await db.getAll(...ids.map(id => certificatesCollection.doc(id)));
+    const certificates = docs.filter(doc => doc.exists).map(toCertificate);
+
+    if (certificates.length !== ids.length || certificates.some(certificate => certificate.issuedTo !== ownerId)) {
+      throw new ServiceError('Produkt może wskazywać tylko certyfikaty dodane przez jego właściciela.');
+    }
+
+    return getCertification(ids, certificates, new Date());
+  }
+
+  /**
+   * Przelicz certyfikację produktów wskazujących dany certyfikat.
+   * Zwraca liczbę produktów, których oznaczenie się zmieniło.
+   */
+  async refreshProductCertification(certificateId: string): Promise<number> {
+    const productsSnapshot = await productsCollection
+      .where('certificates', 'array-contains', certificateId)
+      .get();
+
+    return await this.refreshProducts(productsSnapshot.docs);
+  }
+
+  /**
+   * Wyślij przypomnienia o kończącej się ważności (30 i 7 dni przed) i oznacz
+   * certyfikaty, które straciły ważność, jako wygasłe - ich produkty tracą oznaczenie
+   */
+  async processExpiringCertificates(now: Date = new Date()): Promise<{ reminded: number; expired: number }> {
+    const certificatesSnapshot = await certificatesCollection
+      .where('isVerified', '==', true)
+      .get();
+
+    let reminded = 0;
+    let expired = 0;
+
+    for (const doc of certificatesSnapshot.docs) {
+      const certificate = toCertificate(doc);
+      const validUntil = convertToDate(certificate.validUntil);
+
+      if (!validUntil) continue;
+
+      try {
+        if (validUntil.getTime() <= now.getTime()) {
+          await this.expireCertificate(certificate);
+          expired++;
+          continue;
+        }
+
+        const daysLeft = Math.ceil((validUntil.getTime() - now.getTime()) / DAY_MS);
+        const sentReminders = certificate.expiryReminders || [];
+        // A certificate added shortly before expiry gets a single reminder
+        const dueReminders = CERTIFICATE_REMINDER_DAYS.filter(days => daysLeft <= days && !sentReminders.includes(days));
+
+        if (dueReminders.length === 0) continue;
+
+        if (await this.notifyExpiry(certificate, validUntil, daysLeft)) {
+          await doc.ref.update({
+            expiryReminders: admin.firestore.FieldValue.arrayUnion(...dueReminders)
+          });
+          reminded++;
+        }
+      } catch (error) {
+        console.error(`Error processing expiry of certificate ${certificate._id}:`, error);
+      }
+    }
+
+    return { reminded, expired };
   }
-  
+
+  /**
+   * Pobierz certyfikat
+   */
+  async getCertificate(certificateId: string): Promise<FirestoreCertificate | null> {
+    const doc = await certificatesCollection.doc(certificateId).get();
+    return doc.exists ? toCertificate(doc) : null;
+  }
+
   /**
    * Pobierz certyfikaty rolnika
    */
-  async getFarmerCertificates(userId: string): Promise<Certificate[]> {
+  async getFarmerCertificates(userId: string): Promise<FirestoreCertificate[]> {
     const certificatesSnapshot = await certificatesCollection
       .where('issuedTo', '==', userId)
       .get();
-    
-    if (certificatesSnapshot.empty) {
-      return [];
-    }
-    
-    const certificates: Certificate[] = [];
-    certificatesSnapshot.forEach(doc => {
-      certificates.push({ 
-        id: doc.id, 
-        ...doc.data() 
-      } as Certificate);
-    });
-    
-    return certificates;
+
+    return sortByValidUntil(certificatesSnapshot.docs.map(toCertificate));
   }
-  
+
   /**
-   * Sprawdź czy rolnik posiada zweryfikowane certyfikaty
+   * Pobierz zweryfikowane i ważne certyfikaty rolnika (profil publiczny)
    */
-  async hasFarmerVerifiedCertificates(userId: string): Promise<boolean> {
+  async getActiveFarmerCertificates(userId: string): Promise<FirestoreCertificate[]> {
     const certificatesSnapshot = await certificatesCollection
       .where('issuedTo', '==', userId)
       .where('isVerified', '==', true)
-      .limit(1)
       .get();
-    
-    return !certificatesSnapshot.empty;
+
+    const now = new Date();
+    return sortByValidUntil(
+      certificatesSnapshot.docs.map(toCertificate).filter(certificate => isCertificateActive(certificate, now))
+    );
+  }
+
+  /**
+   * Kolejka weryfikacji - certyfikaty o danym statusie, najstarsze najpierw
+   */
+  async getVerificationQueue(status: CertificateStatus = CERTIFICATE_STATUSES.PENDING): Promise<FirestoreCertificate[]> {
+    const certificatesSnapshot = await certificatesCollection
+      .where('isVerified', '==', status === CERTIFICATE_STATUSES.VERIFIED)
+      .get();
+
+    return certificatesSnapshot.docs
+      .map(toCertificate)
+      .filter(certificate => getCertificateStatus(certificate) === status)
+      .sort((a, b) => {
+        const dateA = convertToDate(a.createdAt) || new Date(0);
+        const dateB = convertToDate(b.createdAt) || new Date(0);
+        return dateA.getTime() - dateB.getTime();
+      });
+  }
+
+  /**
+   * Sprawdź czy rolnik posiada zweryfikowane i ważne certyfikaty
+   */
+  async hasFarmerVerifiedCertificates(userId: string): Promise<boolean> {
+    const certificates = await this.getActiveFarmerCertificates(userId);
+    return certificates.length > 0;
+  }
+
+  /**
+   * Update certification fields of products whose certificates changed (one read per certificate)
+   */
+  private async refreshProducts(productDocs: FirebaseFirestore.QueryDocumentSnapshot[]): Promise<number> {
+    const certificateIds = [...new Set(productDocs.flatMap(doc => (doc.get('certificates') || []) as string[]))];
+
+    if (certificateIds.length === 0) {
+      return 0;
+    }
+
+    const certificateDocs = await db.getAll(...certificateIds.map(id => certificatesCollection.doc(id)));
+    const certificates = new Map(
+      certificateDocs.filter(doc => doc.exists).map(doc => [doc.id, toCertificate(doc)])
+    );
+    const now = new Date();
+
+    const updates = productDocs.flatMap(doc => {
+      const ids = (doc.get('certificates') || []) as string[];
+      const productCertificates = ids.flatMap(id => certificates.get(id) || []);
+      const certification = getCertification(ids, productCertificates, now);
+      const currentTypes = (doc.get('certificateTypes') || []) as CertificateType[];
+
+      const isUnchanged = doc.get('isCertified') === certification.isCertified &&
+        currentTypes.length === certification.certificateTypes.length &&
+        currentTypes.every(type => certification.certificateTypes.includes(type));
+
+      return isUnchanged ? [] : [{
+        ref: doc.ref,
+        data: {
+          isCertified: certification.isCertified,
+          certificateTypes: certification.certificateTypes,
+          updatedAt: admin.firestore.FieldValue.serverTimestamp()
+        }
+      }];
+    });
+
+    await commitUpdates(updates);
+
+    return updates.length;
+  }
+
+  /**
+   * Mark a certificate as expired and remove its badge from the products
+   */
+  private async expireCertificate(certificate: FirestoreCertificate): Promise<void> {
+    const now = admin.firestore.Timestamp.now();
+
+    await certificatesCollection.doc(certificate._id).update({
+      isVerified: false,
+      status: CERTIFICATE_STATUSES.EXPIRED,
+      expiredAt: now,
+      updatedAt: now
+    });
+
+    await this.refreshProductCertification(certificate._id);
+  }
+
+  /**
+   * Add a renewed certificate to the farmer's products that pointed to
+   * an expired certificate of the same type
+   */
+  private async attachRenewedCertificate(certificate: FirestoreCertificate): Promise<void> {
+    const expiredSnapshot = await certificatesCollection
+      .where('issuedTo', '==', certificate.issuedTo)
+      .where('status', '==', CERTIFICATE_STATUSES.EXPIRED)
+      .get();
+
+    const expiredIds = expiredSnapshot.docs
+      .filter(doc => doc.get('type') === certificate.type)
+      .map(doc => doc.id);
+
+    if (expiredIds.length === 0) return;
+
+    const productsSnapshot = await productsCollection
+      .where('owner', '==', certificate.issuedTo)
+      .get();
+
+    const updates = productsSnapshot.docs.flatMap(doc => {
+      const ids = (doc.get('certificates') || []) as string[];
+      const isRenewed = !ids.includes(certificate._id) && ids.some(id => expiredIds.includes(id));
+
+      return isRenewed ? [{
+        ref: doc.ref,
+        data: { certificates: admin.firestore.FieldValue.arrayUnion(certificate._id) }
+      }] : [];
+    });
+
+    await commitUpdates(updates);
+  }
+
+  /**
+   * Email the farmer about a certificate that expires soon.
+   * Returns false when sending failed, so the reminder is retried on the next run.
+   */
+  private async notifyExpiry(certificate: FirestoreCertificate, validUntil: Date, daysLeft: number): Promise<boolean> {
+    try {
+      const farmerDoc = await usersCollection.doc(certificate.issuedTo).get();
+
+      if (!farmerDoc.get('email')) return true;
+
+      await emailService.sendCertificateExpiryReminderEmail({
+        to: farmerDoc.get('email'),
+        name: farmerDoc.get('fullName') || '',
+        certificateName: certificate.name,
+        validUntil: formatDate(validUntil),
+        daysLeft
+      });
+
+      return true;
+    } catch (error) {
+      console.error(`Error sending expiry reminder for certificate ${certificate._id}:`, error);
+      return false;
+    }
   }
 }
 
-export const verificationService = new VerificationService();
\ No newline at end of file
+export const verificationService = new VerificationService();
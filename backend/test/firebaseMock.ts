@@ -0,0 +1,438 @@
+// backend/test/firebaseMock.ts - In-memory stand-in for ../firebase in service tests
+//
+// Usage: vi.mock('../firebase', () => import('../test/firebaseMock'));
+// Covers the Firestore API the services use: documents, subcollections, simple
+// queries, transactions, batches, FieldValue sentinels and Timestamps.
+
+type DocumentData = Record<string, unknown>;
+type WhereOp = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in' | 'not-in' | 'array-contains' | 'array-contains-any';
+
+export class Timestamp {
+  constructor(readonly seconds: number, readonly nanoseconds: number) {}
+
+  static fromMillis(millis: number): Timestamp {
+    const seconds = Math.floor(millis / 1000);
+    return new Timestamp(seconds, (millis - seconds * 1000) * 1e6);
+  }
+
+  static fromDate(date: Date): Timestamp {
+    return Timestamp.fromMillis(date.getTime());
+  }
+
+  static now(): Timestamp {
+    return Timestamp.fromMillis(Date.now());
+  }
+
+  toMillis(): number {
+    return this.seconds * 1000 + Math.floor(this.nanoseconds / 1e6);
+  }
+
+  toDate(): Date {
+    return new Date(this.toMillis());
+  }
+
+  isEqual(other: Timestamp): boolean {
+    return this.toMillis() === other.toMillis();
+  }
+}
+
+class FieldValueSentinel {
+  constructor(readonly kind: 'serverTimestamp' | 'delete' | 'increment' | 'arrayUnion' | 'arrayRemove', readonly operand?: unknown) {}
+}
+
+export const FieldValue = {
+  serverTimestamp: () => new FieldValueSentinel('serverTimestamp'),
+  delete: () => new FieldValueSentinel('delete'),
+  increment: (value: number) => new FieldValueSentinel('increment', value),
+  arrayUnion: (...values: unknown[]) => new FieldValueSentinel('arrayUnion', values),
+  arrayRemove: (...values: unknown[]) => new FieldValueSentinel('arrayRemove', values)
+};
+
+const store = new Map<string, DocumentData>();
+
+const isPlainObject = (value: unknown): value is DocumentData =>
+  typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+
+// Timestamps are immutable, so only arrays and plain objects are copied
+const clone = <T>(value: T): T => {
+  if (Array.isArray(value)) return value.map(clone) as T;
+  if (value instanceof Date) return new Date(value.getTime()) as T;
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, clone(item)])) as T;
+  }
+  return value;
+};
+
+const comparable = (value: unknown): unknown => {
+  if (value instanceof Timestamp) return value.toMillis();
+  if (value instanceof Date) return value.getTime();
+  return value;
+};
+
+const isEqualValue = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(comparable(a)) === JSON.stringify(comparable(b));
+
+const compareValues = (a: unknown, b: unknown): number => {
+  const left = comparable(a) as number | string;
+  const right = comparable(b) as number | string;
+  if (left < right) return -1;
+  return left > right ? 1 : 0;
+};
+
+const getField = (data: DocumentData | undefined, path: string): unknown =>
+  path.split('.').reduce<unknown>((value, key) => (isPlainObject(value) ? value[key] : undefined), data);
+
+const resolveSentinel = (current: unknown, value: FieldValueSentinel): unknown => {
+  switch (value.kind) {
+    case 'serverTimestamp':
+      return Timestamp.now();
+    case 'increment':
+      return (typeof current === 'number' ? current : 0) + (value.operand as number);
+    case 'arrayUnion': {
+      const result = Array.isArray(current) ? [...current] : [];
+      (value.operand as unknown[]).forEach(item => {
+        if (!result.some(existing => isEqualValue(existing, item))) result.push(clone(item));
+      });
+      return result;
+    }
+    case 'arrayRemove': {
+      const removed = value.operand as unknown[];
+      return Array.isArray(current) ? current.filter(item => !removed.some(other => isEqualValue(item, other))) : [];
+    }
+    default:
+      return undefined;
+  }
+};
+
+const setField = (data: DocumentData, path: string[], value: unknown): void => {
+  const [key, ...rest] = path;
+  if (rest.length > 0) {
+    if (!isPlainObject(data[key])) data[key] = {};
+    setField(data[key] as DocumentData, rest, value);
+    return;
+  }
+  if (value instanceof FieldValueSentinel && value.kind === 'delete') {
+    delete data[key];
+  } else if (value instanceof FieldValueSentinel) {
+    data[key] = resolveSentinel(data[key], value);
+  } else if (isPlainObject(value)) {
+    // Nested maps may hold sentinels of their own
+    data[key] = {};
+    Object.entries(value).forEach(([field, item]) => setField(data[key] as DocumentData, [field], item));
+  } else {
+    data[key] = clone(value);
+  }
+};
+
+const mergeFields = (data: DocumentData, value: DocumentData): void => {
+  Object.entries(value).forEach(([key, item]) => {
+    if (isPlainObject(item) && isPlainObject(data[key])) {
+      mergeFields(data[key] as DocumentData, item);
+    } else {
+      setField(data, [key], item);
+    }
+  });
+};
+
+type Write =
+  | { type: 'set'; ref: DocumentReference; data: DocumentData; merge: boolean }
+  | { type: 'create'; ref: DocumentReference; data: DocumentData }
+  | { type: 'update'; ref: DocumentReference; data: DocumentData }
+  | { type: 'delete'; ref: DocumentReference };
+
+const applyWrite = (write: Write): void => {
+  const current = store.get(write.ref.path);
+
+  switch (write.type) {
+    case 'create':
+      if (current) throw new Error(`Document already exists: ${write.ref.path}`);
+      store.set(write.ref.path, {});
+      mergeFields(store.get(write.ref.path)!, write.data);
+      return;
+    case 'set': {
+      const data = write.merge && current ? current : {};
+      mergeFields(data, write.data);
+      store.set(write.ref.path, data);
+      return;
+    }
+    case 'update':
+      if (!current) throw new Error(`No document to update: ${write.ref.path}`);
+      Object.entries(write.data).forEach(([path, value]) => setField(current, path.split('.'), value));
+      return;
+    case 'delete':
+      store.delete(write.ref.path);
+  }
+};
+
+// A failing write rolls back the whole commit, like a batch or transaction would
+const applyWrites = (writes: Write[]): void => {
+  const backup = new Map([...store].map(([path, data]) => [path, clone(data)]));
+  try {
+    writes.forEach(applyWrite);
+  } catch (error) {
+    store.clear();
+    backup.forEach((data, path) => store.set(path, data));
+    throw error;
+  }
+};
+
+export class DocumentSnapshot {
+  private readonly snapshotData: DocumentData | undefined;
+
+  constructor(readonly ref: DocumentReference) {
+    const data = store.get(ref.path);
+    this.snapshotData = data && clone(data);
+  }
+
+  get id(): string {
+    return this.ref.id;
+  }
+
+  get exists(): boolean {
+    return this.snapshotData !== undefined;
+  }
+
+  data(): DocumentData | undefined {
+    return this.snapshotData && clone(this.snapshotData);
+  }
+
+  get(path: string): unknown {
+    return clone(getField(this.snapshotData, path));
+  }
+}
+
+export class QuerySnapshot {
+  constructor(readonly docs: DocumentSnapshot[]) {}
+
+  get empty(): boolean {
+    return this.docs.length === 0;
+  }
+
+  get size(): number {
+    return this.docs.length;
+  }
+
+  forEach(callback: (doc: DocumentSnapshot) => void): void {
+    this.docs.forEach(callback);
+  }
+}
+
+interface Filter {
+  field: string;
+  op: WhereOp;
+  value: unknown;
+}
+
+const matchesFilter = (data: DocumentData, { field, op, value }: Filter): boolean => {
+  const fieldValue = getField(data, field);
+
+  switch (op) {
+    case '==':
+      return isEqualValue(fieldValue, value);
+    case '!=':
+      return fieldValue !== undefined && !isEqualValue(fieldValue, value);
+    case 'in':
+      return (value as unknown[]).some(item => isEqualValue(fieldValue, item));
+    case 'not-in':
+      return fieldValue !== undefined && !(value as unknown[]).some(item => isEqualValue(fieldValue, item));
+    case 'array-contains':
+      return Array.isArray(fieldValue) && fieldValue.some(item => isEqualValue(item, value));
+    case 'array-contains-any':
+      return Array.isArray(fieldValue) && fieldValue.some(item => (value as unknown[]).some(other => isEqualValue(item, other)));
+    default: {
+      if (fieldValue === undefined || fieldValue === null) return false;
+      const result = compareValues(fieldValue, value);
+      if (op === '<') return result < 0;
+      if (op === '<=') return result <= 0;
+      if (op === '>') return result > 0;
+      return result >= 0;
+    }
+  }
+};
+
+export class Query {
+  constructor(
+    readonly path: string,
+    protected readonly filters: Filter[] = [],
+    protected readonly orders: { field: string; direction: 'asc' | 'desc' }[] = [],
+    protected readonly maxResults?: number
+  ) {}
+
+  where(field: string, op: WhereOp, value: unknown): Query {
+    return new Query(this.path, [...this.filters, { field, op, value }], this.orders, this.maxResults);
+  }
+
+  orderBy(field: string, direction: 'asc' | 'desc' = 'asc'): Query {
+    return new Query(this.path, this.filters, [...this.orders, { field, direction }], this.maxResults);
+  }
+
+  limit(maxResults: number): Query {
+    return new Query(this.path, this.filters, this.orders, maxResults);
+  }
+
+  async get(): Promise<QuerySnapshot> {
+    return this.read();
+  }
+
+  read(): QuerySnapshot {
+    const prefix = `${this.path}/`;
+    let docs = [...store.entries()]
+      .filter(([path]) => path.startsWith(prefix) && !path.slice(prefix.length).includes('/'))
+      .filter(([, data]) => this.filters.every(filter => matchesFilter(data, filter)))
+      .map(([path]) => new DocumentSnapshot(new DocumentReference(path)));
+
+    this.orders.forEach(({ field }) => {
+      docs = docs.filter(doc => doc.get(field) !== undefined);
+    });
+    docs.sort((a, b) => {
+      for (const { field, direction } of this.orders) {
+        const result = compareValues(a.get(field), b.get(field));
+        if (result !== 0) return direction === 'desc' ? -result : result;
+      }
+      return 0;
+    });
+
+    return new QuerySnapshot(this.maxResults === undefined ? docs : docs.slice(0, this.maxResults));
+  }
+}
+
+let autoId = 0;
+
+export class CollectionReference extends Query {
+  get id(): string {
+    return this.path.split('/').pop()!;
+  }
+
+  doc(id?: string): DocumentReference {
+    return new DocumentReference(`${this.path}/${id ?? `auto-${++autoId}`}`);
+  }
+
+  async add(data: DocumentData): Promise<DocumentReference> {
+    const ref = this.doc();
+    applyWrites([{ type: 'create', ref, data }]);
+    return ref;
+  }
+}
+
+export class DocumentReference {
+  constructor(readonly path: string) {}
+
+  get id(): string {
+    return this.path.split('/').pop()!;
+  }
+
+  get parent(): CollectionReference {
+    return new CollectionReference(this.path.slice(0, this.path.lastIndexOf('/')));
+  }
+
+  collection(name: string): CollectionReference {
+    return new CollectionReference(`${this.path}/${name}`);
+  }
+
+  async get(): Promise<DocumentSnapshot> {
+    return new DocumentSnapshot(this);
+  }
+
+  async set(data: DocumentData, options?: { merge?: boolean }): Promise<void> {
+    applyWrites([{ type: 'set', ref: this, data, merge: Boolean(options?.merge) }]);
+  }
+
+  async create(data: DocumentData): Promise<void> {
+    applyWrites([{ type: 'create', ref: this, data }]);
+  }
+
+  async update(data: DocumentData): Promise<void> {
+    applyWrites([{ type: 'update', ref: this, data }]);
+  }
+
+  async delete(): Promise<void> {
+    applyWrites([{ type: 'delete', ref: this }]);
+  }
+}
+
+class WriteBatch {
+  protected readonly writes: Write[] = [];
+
+  set(ref: DocumentReference, data: DocumentData, options?: { merge?: boolean }): this {
+    this.writes.push({ type: 'set', ref, data, merge: Boolean(options?.merge) });
+    return this;
+  }
+
+  create(ref: DocumentReference, data: DocumentData): this {
+    this.writes.push({ type: 'create', ref, data });
+    return this;
+  }
+
+  update(ref: DocumentReference, data: DocumentData): this {
+    this.writes.push({ type: 'update', ref, data });
+    return this;
+  }
+
+  delete(ref: DocumentReference): this {
+    this.writes.push({ type: 'delete', ref });
+    return this;
+  }
+
+  async commit(): Promise<void> {
+    applyWrites(this.writes);
+  }
+}
+
+class Transaction extends WriteBatch {
+  private checkReadsFirst(): void {
+    if (this.writes.length > 0) {
+      throw new Error('Firestore transactions require all reads to be executed before all writes.');
+    }
+  }
+
+  async get(target: DocumentReference): Promise<DocumentSnapshot>;
+  async get(target: Query): Promise<QuerySnapshot>;
+  async get(target: DocumentReference | Query): Promise<DocumentSnapshot | QuerySnapshot> {
+    this.checkReadsFirst();
+    return target instanceof DocumentReference ? new DocumentSnapshot(target) : target.read();
+  }
+
+  async getAll(...refs: DocumentReference[]): Promise<DocumentSnapshot[]> {
+    this.checkReadsFirst();
+    return refs.map(ref => new DocumentSnapshot(ref));
+  }
+
+  apply(): void {
+    applyWrites(this.writes);
+  }
+}
+
+export const db = {
+  collection: (path: string) => new CollectionReference(path),
+  doc: (path: string) => new DocumentReference(path),
+  batch: () => new WriteBatch(),
+  getAll: async (...refs: DocumentReference[]) => refs.map(ref => new DocumentSnapshot(ref)),
+  runTransaction: async <T>(update: (transaction: Transaction) => Promise<T>): Promise<T> => {
+    const transaction = new Transaction();
+    const result = await update(transaction);
+    transaction.apply();
+    return result;
+  }
+};
+
+/** Removes every document, for use in beforeEach. */
+export const resetFirestore = (): void => {
+  store.clear();
+};
+
+const unavailable = (service: string) => () => {
+  throw new Error(`${service} is not available in tests`);
+};
+
+export const auth = { verifyIdToken: unavailable('Firebase Auth'), getUser: unavailable('Firebase Auth') };
+export const storage = { bucket: unavailable('Firebase Storage') };
+export const getBucket = unavailable('Firebase Storage');
+export const initializeFirebase = (): void => {};
+
+export const admin = {
+  firestore: Object.assign(() => db, { FieldValue, Timestamp }),
+  auth: () => auth,
+  storage: () => storage
+};
+
+export default admin;
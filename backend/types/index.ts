@@ -47,6 +47,7 @@ export interface FirestoreProductWrite {
   price: number;
   quantity: number;
   unit: string;
+  unitWeightKg?: number;
   category: string;
   subcategory?: string;
   owner: string;
@@ -63,6 +64,9 @@ export interface FirestoreProductWrite {
   trackingId?: string;
   reviews?: string[];
   averageRating: number;
+  reviewCount?: number;
+  ratingSum?: number; // sum of counted ratings, keeps averageRating exact
+  certificateTypes?: CertificateType[]; // types of verified, valid certificates
   isCertified: boolean;
   // For write operations, these can be FieldValue (like serverTimestamp())
   createdAt: admin.firestore.FieldValue;
@@ -77,6 +81,7 @@ export interface FirestoreProduct {
   price: number;
   quantity: number;
   unit: string;
+  unitWeightKg?: number;
   category: string;
   subcategory?: string;
   owner: string | ProductOwner; // Can be either an ID string or a populated owner object
@@ -93,6 +98,9 @@ export interface FirestoreProduct {
   trackingId?: string;
   reviews?: string[];
   averageRating: number;
+  reviewCount?: number;
+  ratingSum?: number; // sum of counted ratings, keeps averageRating exact
+  certificateTypes?: CertificateType[]; // types of verified, valid certificates
   isCertified: boolean;
   distance?: number; // Added when filtering by location
   // For read operations, these are actual Timestamp/Date objects
@@ -140,10 +148,16 @@ export interface FirestoreUser {
   };
   bio?: string;
   profileImage?: string;
+  companyName?: string;
+  nip?: string;
+  bankAccount?: string;
   certificates?: string[];
   createdProducts?: string[];
   orders?: string[];
   reviews?: string[];
+  averageRating?: number; // farmers: rating of the farmer and their products
+  reviewCount?: number;
+  ratingSum?: number;
   localGroups?: string[];
   isVerified: boolean;
   lastLoginAt?: admin.firestore.Timestamp | Date;
@@ -151,15 +165,441 @@ export interface FirestoreUser {
   updatedAt: admin.firestore.Timestamp | Date;
 }
 
+// Order item as stored in Firestore
+export interface FirestoreOrderItem {
+  product: string;
+  quantity: number;
+  priceAtPurchase: number;
+  refundedQuantity?: number;
+}
+
+// Define FirestoreOrder for read operations
+export interface FirestoreOrder {
+  _id: string;
+  buyer: string;
+  farmer?: string; // set on single-farmer orders and sub-orders
+  farmers: string[];
+  parentOrder?: string; // set on sub-orders of a multi-farmer order
+  subOrders?: string[]; // set on multi-farmer (checkout) orders
+  items: FirestoreOrderItem[];
+  totalPrice: number;
+  status: OrderStatus;
+  statusHistory: FirestoreStatusHistoryItem[];
+  shippingAddress: {
+    street: string;
+    city: string;
+    postalCode: string;
+    country: string;
+    coordinates?: [number, number];
+  };
+  deliveryDate?: Date | admin.firestore.Timestamp;
+  deliverySlot?: {
+    id: string;
+    window: string;
+    type: DeliveryWindowType;
+    date: string; // YYYY-MM-DD
+    startTime: string;
+    endTime: string;
+  };
+  shippingCost?: number; // included in totalPrice
+  refundedShippingCost?: number; // returned with the last refunded item
+  pickupPoint?: {
+    id: string;
+    name: string;
+    date: string; // YYYY-MM-DD
+    address: {
+      street: string;
+      city: string;
+      postalCode: string;
+      country: string;
+    };
+  };
+  paymentId?: string;
+  paymentStatus: PaymentStatus;
+  refundedAmount?: number;
+  refundRequired?: boolean; // paid after cancellation, the payment has to be refunded
+  subscription?: string; // set on orders created by a subscription cycle
+  carbonFootprint?: number; // kg CO2, computed when the order is created
+  isReviewed: boolean;
+  createdAt: Date | admin.firestore.Timestamp;
+  updatedAt: Date | admin.firestore.Timestamp;
+}
+
+// Cart item as stored in Firestore
+export interface FirestoreCartItem {
+  product: string;
+  quantity: number;
+  priceSnapshot: number; // price the buyer last saw
+  addedAt: Date | admin.firestore.Timestamp;
+}
+
+// Seller or buyer data as printed on an invoice
+export interface InvoiceParty {
+  userId: string;
+  name: string;
+  address: string;
+  nip?: string;
+  email?: string;
+  phoneNumber?: string;
+}
+
+export interface InvoiceLine {
+  product?: string; // not set on the delivery line
+  name: string;
+  category: string;
+  quantity: number;
+  unit: string;
+  unitPriceGross: number;
+  vatRate: number;
+  netAmount: number;
+  vatAmount: number;
+  grossAmount: number;
+}
+
+export interface InvoiceVatSummary {
+  vatRate: number;
+  netAmount: number;
+  vatAmount: number;
+  grossAmount: number;
+}
+
+// Lines and totals of an invoice (or of one side of a correction invoice)
+export interface InvoiceAmounts {
+  lines: InvoiceLine[];
+  vatSummary: InvoiceVatSummary[];
+  totalNet: number;
+  totalVat: number;
+  totalGross: number;
+}
+
+// Define FirestoreInvoice for read operations (document ID = order ID)
+export interface FirestoreInvoice extends InvoiceAmounts {
+  _id: string;
+  number: string;
+  sequence: number;
+  year: number;
+  order: string;
+  seller: InvoiceParty;
+  buyer: InvoiceParty;
+  platformFee: {
+    percentage: number;
+    amount: number;
+  };
+  saleDate: Date | admin.firestore.Timestamp;
+  issueDate: Date | admin.firestore.Timestamp;
+  createdAt: Date | admin.firestore.Timestamp;
+}
+
+// Correction invoice (faktura korygująca) issued after a refund (document ID = refund ID)
+export interface FirestoreInvoiceCorrection {
+  _id: string;
+  number: string; // FK/2025/0001
+  sequence: number;
+  year: number;
+  invoice: string; // corrected invoice (its ID equals the order ID)
+  invoiceNumber: string;
+  invoiceIssueDate: Date | admin.firestore.Timestamp;
+  order: string;
+  refund: string;
+  seller: InvoiceParty;
+  buyer: InvoiceParty;
+  reason: string;
+  before: InvoiceAmounts;
+  after: InvoiceAmounts;
+  difference: {
+    totalNet: number;
+    totalVat: number;
+    totalGross: number;
+  };
+  issueDate: Date | admin.firestore.Timestamp;
+  createdAt: Date | admin.firestore.Timestamp;
+}
+
+// Define FirestoreRefund for read operations
+export interface FirestoreRefund {
+  _id: string;
+  type?: 'cancellation' | 'late_payment'; // missing for item refunds
+  order: string;
+  parentOrder?: string;
+  product?: string; // refunded item (item refunds only)
+  quantity?: number;
+  amount: number;
+  shippingAmount?: number; // shipping cost included in amount (last item of the order)
+  paymentId: string;
+  providerRefundId?: string;
+  status: 'pending' | 'succeeded' | 'failed';
+  reason?: string;
+  createdBy: string;
+  createdAt: Date | admin.firestore.Timestamp;
+  updatedAt: Date | admin.firestore.Timestamp;
+}
+
+// Ledger account: 'cash', 'platform_fees', 'platform_adjustments' or 'farmer:<userId>'
+export interface LedgerLine {
+  account: string;
+  debit: number;
+  credit: number;
+}
+
+export type LedgerEntryType = 'order_paid' | 'refund' | 'adjustment' | 'payout';
+
+// Define FirestoreLedgerEntry for read operations (one balanced journal entry)
+export interface FirestoreLedgerEntry {
+  _id: string;
+  type: LedgerEntryType;
+  farmer: string;
+  order?: string;
+  refund?: string;
+  payoutBatch?: string;
+  lines: LedgerLine[];
+  grossAmount: number;
+  feeAmount: number;
+  farmerAmount: number; // signed change of the farmer's balance
+  feePercentage?: number;
+  description: string;
+  createdBy: string;
+  createdAt: Date | admin.firestore.Timestamp;
+}
+
+export interface PayoutBatchItem {
+  farmer: string;
+  name: string;
+  email: string;
+  nip?: string;
+  bankAccount?: string;
+  amount: number;
+}
+
+// Define FirestorePayoutBatch for read operations
+export interface FirestorePayoutBatch {
+  _id: string;
+  items: PayoutBatchItem[];
+  totalAmount: number;
+  createdBy: string;
+  createdAt: Date | admin.firestore.Timestamp;
+}
+
+// Define FirestoreSubscription for read operations
+export interface FirestoreSubscription {
+  _id: string;
+  buyer: string;
+  farmer: string;
+  items: {
+    product: string;
+    quantity: number;
+  }[];
+  cadence: SubscriptionCadence;
+  status: SubscriptionStatus;
+  shippingAddress: {
+    street: string;
+    city: string;
+    postalCode: string;
+    country: string;
+  };
+  nextDeliveryDate: Date | admin.firestore.Timestamp;
+  skippedDates: string[]; // YYYY-MM-DD
+  orders: string[];
+  lastCycle?: {
+    deliveryDate: string;
+    result: 'ordered' | 'skipped' | 'no_items' | 'failed';
+    order?: string;
+    processedAt: Date | admin.firestore.Timestamp;
+  };
+  createdAt: Date | admin.firestore.Timestamp;
+  updatedAt: Date | admin.firestore.Timestamp;
+}
+
+// Define FirestoreDeliveryWindow for read operations
+export interface FirestoreDeliveryWindow {
+  _id: string;
+  farmer: string;
+  type: DeliveryWindowType;
+  dayOfWeek: number; // 0 (Sunday) - 6 (Saturday)
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM
+  capacity: number;
+  note?: string;
+  isActive: boolean;
+  createdAt: Date | admin.firestore.Timestamp;
+  updatedAt: Date | admin.firestore.Timestamp;
+}
+
+// Bookings of one window on one date, document ID is `${window}_${date}`
+export interface FirestoreSlotBooking {
+  _id: string;
+  farmer: string;
+  window: string;
+  type: DeliveryWindowType;
+  date: string; // YYYY-MM-DD
+  bookedCount: number;
+  orders: string[];
+  updatedAt: Date | admin.firestore.Timestamp;
+}
+
+// Shipping rules of a farmer, document ID is the farmer's user ID
+export interface FirestoreShippingRules {
+  flatFee: number;
+  perKmFee: number;
+  perKgFee: number;
+  freeDeliveryThreshold?: number | null;
+  maxDistanceKm?: number | null;
+  updatedAt?: Date | admin.firestore.Timestamp;
+}
+
+// Define FirestorePickupPoint for read operations
+export interface FirestorePickupPoint {
+  _id: string;
+  name: string;
+  description?: string;
+  location: {
+    type: 'Point';
+    coordinates: [number, number];
+    address: string;
+  };
+  address: {
+    street: string;
+    city: string;
+    postalCode: string;
+    country: string;
+  };
+  openingHours: {
+    dayOfWeek: number;
+    open: string;
+    close: string;
+  }[];
+  capacity: number; // parcels per day
+  operator: string;
+  farmers: string[];
+  isActive: boolean;
+  createdAt: Date | admin.firestore.Timestamp;
+  updatedAt: Date | admin.firestore.Timestamp;
+}
+
+// Parcels booked at a pickup point on one day, document ID is `${point}_${date}`
+export interface FirestorePickupPointBooking {
+  _id: string;
+  point: string;
+  date: string; // YYYY-MM-DD
+  parcelCount: number;
+  orders: string[]; // farmer orders (single orders or sub-orders)
+  updatedAt: Date | admin.firestore.Timestamp;
+}
+
 // Helper type guard to check if owner is populated
 export function isPopulatedOwner(owner: string | ProductOwner): owner is ProductOwner {
   return typeof owner !== 'string' && owner !== null && typeof owner === 'object' && '_id' in owner;
 }
 
+// Define FirestoreReview for read operations
+export interface FirestoreReview {
+  _id: string;
+  author: string;
+  product?: string; // product reviews also count for the product's owner
+  farmer: string;
+  order?: string; // the farmer's delivered order that verifies the purchase
+  rating: number; // 1-5
+  comment: string;
+  images?: string[];
+  isVerified: boolean;
+  moderationStatus: ModerationStatus;
+  moderation?: {
+    reason?: string;
+    moderatedBy: string;
+    moderatedAt: Date | admin.firestore.Timestamp;
+  };
+  reply?: { // the farmer's public answer, moderated like the review
+    text: string;
+    moderationStatus: ModerationStatus;
+    moderation?: {
+      reason?: string;
+      moderatedBy: string;
+      moderatedAt: Date | admin.firestore.Timestamp;
+    };
+    createdAt: Date | admin.firestore.Timestamp;
+    updatedAt: Date | admin.firestore.Timestamp;
+  };
+  createdAt: Date | admin.firestore.Timestamp;
+  updatedAt: Date | admin.firestore.Timestamp;
+}
+
+// Define FirestoreCertificate for read operations
+export interface FirestoreCertificate {
+  _id: string;
+  name: string;
+  type: CertificateType;
+  issuingAuthority: string;
+  documentUrl?: string;
+  issuedTo: string; // the farmer's user ID
+  products?: string[];
+  isVerified: boolean;
+  status?: CertificateStatus; // documents created before verification statuses derive it from isVerified
+  verification?: {
+    reason?: string; // rejection reason
+    verifiedBy: string;
+    verifiedAt: Date | admin.firestore.Timestamp;
+  };
+  validUntil: Date | admin.firestore.Timestamp;
+  certificateNumber?: string;
+  importId?: string; // registry import that created the certificate (pre-verified)
+  expiryReminders?: number[]; // CERTIFICATE_REMINDER_DAYS already sent to the farmer
+  expiredAt?: Date | admin.firestore.Timestamp;
+  createdAt: Date | admin.firestore.Timestamp;
+  updatedAt: Date | admin.firestore.Timestamp;
+}
+
+// Farmer offered to the admin for a registry row
+export interface RegistryFarmerCandidate {
+  farmer: string; // user ID
+  fullName: string;
+  companyName?: string;
+  nip?: string;
+  address?: string;
+}
+
+export type CertificateImportRowStatus = 'matched' | 'ambiguous' | 'unmatched' | 'invalid' | 'skipped' | 'imported';
+
+// One row of an imported registry, document ID is the spreadsheet row number
+export interface FirestoreCertificateImportRow {
+  rowNumber: number;
+  name: string;
+  nip?: string;
+  address?: string;
+  certificateNumber?: string;
+  validUntil?: Date | admin.firestore.Timestamp;
+  type: CertificateType;
+  status: CertificateImportRowStatus;
+  matchedBy?: 'nip' | 'name_address' | 'manual';
+  farmer?: string;
+  candidates: RegistryFarmerCandidate[];
+  issue?: string; // why the row is invalid
+  certificate?: string; // created or verified certificate
+}
+
+// Define FirestoreCertificateImport for read operations (rows in the 'rows' subcollection)
+export interface FirestoreCertificateImport {
+  _id: string;
+  fileName: string;
+  issuingAuthority: string;
+  type: CertificateType; // used for rows without a valid type column
+  importedBy: string;
+  status: 'review' | 'completed';
+  summary: Record<CertificateImportRowStatus, number>;
+  createdAt: Date | admin.firestore.Timestamp;
+  updatedAt: Date | admin.firestore.Timestamp;
+  completedAt?: Date | admin.firestore.Timestamp;
+}
+
 // Re-export commonly used types for convenience
 export type ProductStatus = 'available' | 'preparing' | 'shipped' | 'delivered' | 'unavailable';
 export type ProductCategory = 'warzywa' | 'owoce' | 'nabiał' | 'mięso' | 'zboża' | 'przetwory' | 'miód' | 'jaja' | 'napoje' | 'inne';
 export type CertificateType = 'organic' | 'eco' | 'fair-trade' | 'other';
+export type CertificateStatus = 'pending' | 'verified' | 'rejected' | 'expired';
+export type OrderStatus = 'pending' | 'paid' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+export type PaymentStatus = 'pending' | 'completed' | 'failed' | 'refunded';
+export type SubscriptionCadence = 'weekly' | 'biweekly';
+export type SubscriptionStatus = 'active' | 'paused' | 'cancelled';
+export type DeliveryWindowType = 'delivery' | 'pickup';
+export type ModerationStatus = 'pending' | 'approved' | 'rejected';
 
 // API response types for backend
 export interface BackendApiResponse<T> {
@@ -0,0 +1,33 @@
+// backend/utils/carbonFootprint.test.ts
+import { describe, expect, it } from 'vitest';
+import { calculateParcelFootprint, sumFootprints, toFootprintKilograms } from './carbonFootprint';
+
+describe('toFootprintKilograms', () => {
+  it('counts mass and volume units', () => {
+    expect(toFootprintKilograms(2, 'kg')).toBe(2);
+    expect(toFootprintKilograms(500, 'ml')).toBe(0.5);
+  });
+
+  it('counts pieces only with a unit weight', () => {
+    expect(toFootprintKilograms(6, 'szt')).toBe(0);
+    expect(toFootprintKilograms(6, 'szt', 0)).toBe(0);
+    expect(toFootprintKilograms(6, 'szt', 0.06)).toBe(0.36);
+  });
+});
+
+describe('calculateParcelFootprint', () => {
+  it('multiplies distance by weight', () => {
+    expect(calculateParcelFootprint({ distanceKm: 10, weightKg: 5, hasEcoCertificate: false })).toBe(6);
+  });
+
+  it('applies the eco certificate multiplier', () => {
+    expect(calculateParcelFootprint({ distanceKm: 10, weightKg: 5, hasEcoCertificate: true })).toBe(4.8);
+  });
+});
+
+describe('sumFootprints', () => {
+  it('rounds the sum to 2 decimal places', () => {
+    expect(sumFootprints([0.1, 0.2, 0.004])).toBe(0.3);
+    expect(sumFootprints([])).toBe(0);
+  });
+});
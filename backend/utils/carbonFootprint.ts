@@ -0,0 +1,33 @@
+// backend/utils/carbonFootprint.ts
+import { calculateCarbonFootprint } from '../../src/shared/utils';
+import { isWeighedUnit, toKilograms } from './shippingCalculator';
+
+export interface FootprintParcel {
+  distanceKm: number;
+  weightKg: number;
+  hasEcoCertificate: boolean;
+}
+
+/**
+ * Weight in kilograms counted in the carbon footprint.
+ * Pieces and packages (szt, opak) count only when the product has unitWeightKg set.
+ */
+export const toFootprintKilograms = (quantity: number, unit: string, unitWeightKg?: number): number => {
+  if (!isWeighedUnit(unit) && !(unitWeightKg && unitWeightKg > 0)) {
+    return 0;
+  }
+
+  return toKilograms(quantity, unit, unitWeightKg);
+};
+
+/**
+ * Carbon footprint (kg CO2) of one farmer's part of an order
+ */
+export const calculateParcelFootprint = (parcel: FootprintParcel): number =>
+  calculateCarbonFootprint(parcel.distanceKm, parcel.weightKg, false, parcel.hasEcoCertificate);
+
+/**
+ * Sum footprints rounded to 2 decimal places
+ */
+export const sumFootprints = (footprints: number[]): number =>
+  Math.round(footprints.reduce((sum, footprint) => sum + footprint, 0) * 100) / 100;
@@ -0,0 +1,80 @@
+// backend/utils/csv.test.ts
+import { describe, expect, it } from 'vitest';
+import { escapeCsvValue, parseCsv, toCsv } from './csv';
+
+describe('escapeCsvValue', () => {
+  it('writes numbers as amounts with a decimal comma', () => {
+    expect(escapeCsvValue(1234.5)).toBe('1234,50');
+    expect(escapeCsvValue(0)).toBe('0,00');
+  });
+
+  it('writes empty values as empty cells', () => {
+    expect(escapeCsvValue(null)).toBe('');
+    expect(escapeCsvValue(undefined)).toBe('');
+  });
+
+  it('quotes values with separators, quotes or line breaks', () => {
+    expect(escapeCsvValue('Gospodarstwo; Nowak')).toBe('"Gospodarstwo; Nowak"');
+    expect(escapeCsvValue('Sad "Pod Lasem"')).toBe('"Sad ""Pod Lasem"""');
+    expect(escapeCsvValue('ul. Polna 1\r\nWarszawa')).toBe('"ul. Polna 1\r\nWarszawa"');
+  });
+
+  it('leaves plain text unchanged', () => {
+    expect(escapeCsvValue('Jabłka, odmiana Ligol')).toBe('Jabłka, odmiana Ligol');
+  });
+
+  it('neutralises text that a spreadsheet would run as a formula', () => {
+    expect(escapeCsvValue('=HYPERLINK("http://example.com")')).toBe('"\'=HYPERLINK(""http://example.com"")"');
+    expect(escapeCsvValue('+48 600 100 200')).toBe("'+48 600 100 200");
+    expect(escapeCsvValue('-1+1')).toBe("'-1+1");
+    expect(escapeCsvValue('@SUM(A1:A2)')).toBe("'@SUM(A1:A2)");
+    expect(escapeCsvValue('\tcmd')).toBe("'\tcmd");
+  });
+
+  it('keeps negative amounts numeric', () => {
+    expect(escapeCsvValue(-12.5)).toBe('-12,50');
+  });
+});
+
+describe('toCsv', () => {
+  it('builds a semicolon-separated document with a BOM', () => {
+    expect(toCsv(['Rolnik', 'Kwota'], [['Jan Nowak', 120.4], ['Anna Kowalska', null]])).toBe(
+      '\uFEFFRolnik;Kwota\r\nJan Nowak;120,40\r\nAnna Kowalska;\r\n'
+    );
+  });
+});
+
+describe('parseCsv', () => {
+  it('reads semicolon-separated values and skips the BOM', () => {
+    expect(parseCsv('\uFEFFNazwa;NIP\r\nJan Nowak;1234567890\r\n')).toEqual([
+      ['Nazwa', 'NIP'],
+      ['Jan Nowak', '1234567890']
+    ]);
+  });
+
+  it('detects a comma separator from the header line', () => {
+    expect(parseCsv('Nazwa,Ważny do\nJan Nowak,2026-12-31')).toEqual([
+      ['Nazwa', 'Ważny do'],
+      ['Jan Nowak', '2026-12-31']
+    ]);
+  });
+
+  it('reads quoted values with separators, quotes and line breaks', () => {
+    expect(parseCsv('Nazwa;Adres\n"Sad ""Pod Lasem""; s.c.";"ul. Polna 1\nWarszawa"\n')).toEqual([
+      ['Nazwa', 'Adres'],
+      ['Sad "Pod Lasem"; s.c.', 'ul. Polna 1\nWarszawa']
+    ]);
+  });
+
+  it('skips empty lines', () => {
+    expect(parseCsv('Nazwa;NIP\n\n;\nJan Nowak;\n')).toEqual([
+      ['Nazwa', 'NIP'],
+      ['Jan Nowak', '']
+    ]);
+  });
+
+  it('reads back a document built by toCsv', () => {
+    const rows = [['Sad; "Pod Lasem"', 'Kraków']];
+    expect(parseCsv(toCsv(['Nazwa', 'Miasto'], rows))).toEqual([['Nazwa', 'Miasto'], ...rows]);
+  });
+});
@@ -0,0 +1,82 @@
+// backend/utils/csv.ts
+
+type CsvValue = string | number | null | undefined;
+
+// Polish Excel expects semicolon-separated values
+const SEPARATOR = ';';
+
+// Spreadsheets run text starting with these characters as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Quote a value when it contains the separator, quotes or line breaks.
+ * Text that would start a formula is prefixed with an apostrophe.
+ */
+export const escapeCsvValue = (value: CsvValue): string => {
+  if (value === null || value === undefined) return '';
+
+  if (typeof value === 'number') return value.toFixed(2).replace('.', ',');
+
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+
+  return /[";\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Build a CSV document (with UTF-8 BOM so Excel shows Polish characters correctly).
+ * Numbers are written as amounts with two decimals and a decimal comma.
+ */
+export const toCsv = (headers: string[], rows: CsvValue[][]): string => {
+  const lines = [headers, ...rows].map(row => row.map(escapeCsvValue).join(SEPARATOR));
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+};
+
+/**
+ * Parse a CSV document into rows of cells. The separator (semicolon or comma)
+ * is taken from the header line; quoted values may contain separators and line breaks.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const headerLine = content.split(/\r?\n/, 1)[0] || '';
+  const separator = headerLine.split(';').length >= headerLine.split(',').length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === separator) {
+      row.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(value);
+      rows.push(row);
+      row = [];
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+
+  if (value || row.length > 0) {
+    row.push(value);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+};
@@ -0,0 +1,73 @@
+// backend/utils/dateKeys.test.ts
+import { describe, expect, it } from 'vitest';
+import { addDaysToKey, getDayOfWeek, isDateKey, toDateKey, toZonedDate } from './dateKeys';
+
+describe('toDateKey', () => {
+  it('uses the Polish calendar day', () => {
+    // 23:30 UTC is already the next day in Poland
+    expect(toDateKey(new Date('2026-06-14T23:30:00Z'))).toBe('2026-06-15');
+    expect(toDateKey(new Date('2026-01-14T22:59:00Z'))).toBe('2026-01-14');
+  });
+});
+
+describe('isDateKey', () => {
+  it('accepts calendar dates', () => {
+    expect(isDateKey('2026-02-28')).toBe(true);
+    expect(isDateKey('2028-02-29')).toBe(true);
+  });
+
+  it('rejects dates that roll over to another day', () => {
+    expect(isDateKey('2026-02-29')).toBe(false);
+    expect(isDateKey('2026-02-31')).toBe(false);
+    expect(isDateKey('2026-04-31')).toBe(false);
+    expect(isDateKey('2026-13-01')).toBe(false);
+    expect(isDateKey('2026-00-10')).toBe(false);
+  });
+
+  it('rejects other formats and types', () => {
+    expect(isDateKey('2026-2-28')).toBe(false);
+    expect(isDateKey('2026-02-28T10:00')).toBe(false);
+    expect(isDateKey(20260228)).toBe(false);
+    expect(isDateKey(undefined)).toBe(false);
+  });
+});
+
+describe('getDayOfWeek', () => {
+  it('returns the day of week of the calendar date', () => {
+    expect(getDayOfWeek('2026-05-04')).toBe(1);
+    expect(getDayOfWeek('2026-05-10')).toBe(0);
+  });
+});
+
+describe('addDaysToKey', () => {
+  it('moves by calendar days across DST changes and month ends', () => {
+    expect(addDaysToKey('2026-03-28', 1)).toBe('2026-03-29');
+    expect(addDaysToKey('2026-03-29', 1)).toBe('2026-03-30');
+    expect(addDaysToKey('2026-10-24', 2)).toBe('2026-10-26');
+    expect(addDaysToKey('2026-12-31', 1)).toBe('2027-01-01');
+  });
+});
+
+describe('toZonedDate', () => {
+  it('reads the time as Polish winter and summer time', () => {
+    expect(toZonedDate('2026-01-15', '08:00')).toEqual(new Date('2026-01-15T07:00:00Z'));
+    expect(toZonedDate('2026-07-15', '08:00')).toEqual(new Date('2026-07-15T06:00:00Z'));
+  });
+
+  it('defaults to midnight', () => {
+    expect(toZonedDate('2026-07-15')).toEqual(new Date('2026-07-14T22:00:00Z'));
+  });
+
+  it('uses the offset in force on DST change days', () => {
+    // Clocks go forward at 02:00 on 29 March and back at 03:00 on 25 October 2026
+    expect(toZonedDate('2026-03-29', '01:00')).toEqual(new Date('2026-03-29T00:00:00Z'));
+    expect(toZonedDate('2026-03-29', '08:00')).toEqual(new Date('2026-03-29T06:00:00Z'));
+    expect(toZonedDate('2026-10-25', '01:00')).toEqual(new Date('2026-10-24T23:00:00Z'));
+    expect(toZonedDate('2026-10-25', '08:00')).toEqual(new Date('2026-10-25T07:00:00Z'));
+  });
+
+  it('gives back the same Polish date key', () => {
+    expect(toDateKey(toZonedDate('2026-03-29'))).toBe('2026-03-29');
+    expect(toDateKey(toZonedDate('2026-10-25', '23:30'))).toBe('2026-10-25');
+  });
+});
@@ -0,0 +1,72 @@
+// backend/utils/dateKeys.ts
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Delivery dates, slot hours and their cut-offs are Polish local time
+export const TIME_ZONE = 'Europe/Warsaw';
+
+const dateKeyFormat = new Intl.DateTimeFormat('en-CA', {
+  timeZone: TIME_ZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit'
+});
+
+const dateTimeFormat = new Intl.DateTimeFormat('en-CA', {
+  timeZone: TIME_ZONE,
+  hourCycle: 'h23',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit'
+});
+
+/**
+ * Calendar date key (YYYY-MM-DD, Polish time) used in document IDs and query params
+ */
+export const toDateKey = (date: Date): string => dateKeyFormat.format(date);
+
+/**
+ * Whether the value is a valid YYYY-MM-DD date key.
+ * Dates like 2026-02-31 roll over to another day, so the key has to survive a round trip.
+ */
+export const isDateKey = (value: unknown): value is string => {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+};
+
+/**
+ * Day of week (0 - Sunday) of a date key
+ */
+export const getDayOfWeek = (date: string): number => new Date(`${date}T00:00:00.000Z`).getUTCDay();
+
+/**
+ * Date key moved by whole calendar days (independent of DST changes)
+ */
+export const addDaysToKey = (date: string, days: number): string =>
+  new Date(new Date(`${date}T00:00:00.000Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+
+/**
+ * Offset of Polish time from UTC (ms) at the given moment
+ */
+const getTimeZoneOffset = (date: Date): number => {
+  const parts = Object.fromEntries(dateTimeFormat.formatToParts(date).map(part => [part.type, Number(part.value)]));
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+/**
+ * Moment of a Polish date key and time (HH:MM)
+ */
+export const toZonedDate = (date: string, time = '00:00'): Date => {
+  const wallClock = new Date(`${date}T${time}:00.000Z`).getTime();
+  // The offset of the first guess may differ on DST change days, so it is checked again
+  const offset = getTimeZoneOffset(new Date(wallClock - getTimeZoneOffset(new Date(wallClock))));
+
+  return new Date(wallClock - offset);
+};
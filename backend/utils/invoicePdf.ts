@@ -0,0 +1,189 @@
+// backend/utils/invoicePdf.ts
+import { createPdfDocument, renderPdf } from './pdfDocument';
+import { formatDate, formatPrice } from '../../src/shared/utils';
+import type { FirestoreInvoice, FirestoreInvoiceCorrection, InvoiceAmounts, InvoiceParty } from '../types';
+
+// Column layout of the items table: [header, x, width, alignment]
+const LINE_COLUMNS: Array<[string, number, number, 'left' | 'right']> = [
+  ['Lp.', 40, 25, 'left'],
+  ['Nazwa', 65, 165, 'left'],
+  ['Ilość', 230, 55, 'right'],
+  ['Cena brutto', 285, 70, 'right'],
+  ['VAT', 355, 35, 'right'],
+  ['Netto', 390, 60, 'right'],
+  ['Kwota VAT', 450, 55, 'right'],
+  ['Brutto', 505, 50, 'right']
+];
+
+const drawParty = (doc: PDFKit.PDFDocument, label: string, party: InvoiceParty, x: number, y: number): void => {
+  doc.font('bold').fontSize(10).text(label, x, y, { width: 250 });
+  doc.font('regular').fontSize(9).text(party.name, { width: 250 });
+  if (party.address) doc.text(party.address, { width: 250 });
+  if (party.nip) doc.text(`NIP: ${party.nip}`, { width: 250 });
+  if (party.email) doc.text(party.email, { width: 250 });
+};
+
+const drawRow = (doc: PDFKit.PDFDocument, values: string[], y: number, font: 'regular' | 'bold'): number => {
+  doc.font(font).fontSize(8);
+
+  const heights = values.map((value, index) => {
+    const [, , width] = LINE_COLUMNS[index];
+    return doc.heightOfString(value, { width });
+  });
+
+  values.forEach((value, index) => {
+    const [, x, width, align] = LINE_COLUMNS[index];
+    doc.text(value, x, y, { width, align });
+  });
+
+  return y + Math.max(...heights) + 4;
+};
+
+/**
+ * Draw invoice lines with their totals, returns y below the table
+ */
+const drawAmounts = (doc: PDFKit.PDFDocument, label: string, amounts: InvoiceAmounts, y: number): number => {
+  doc.font('bold').fontSize(10).text(label, 40, y);
+  y = drawRow(doc, LINE_COLUMNS.map(([header]) => header), doc.y + 4, 'bold');
+  doc.moveTo(40, y - 2).lineTo(555, y - 2).stroke();
+
+  amounts.lines.forEach((line, index) => {
+    if (y > 760) {
+      doc.addPage();
+      y = 40;
+    }
+
+    y = drawRow(doc, [
+      String(index + 1),
+      line.name,
+      `${line.quantity} ${line.unit}`,
+      formatPrice(line.unitPriceGross),
+      `${line.vatRate}%`,
+      formatPrice(line.netAmount),
+      formatPrice(line.vatAmount),
+      formatPrice(line.grossAmount)
+    ], y, 'regular');
+  });
+
+  doc.moveTo(40, y).lineTo(555, y).stroke();
+
+  return drawRow(doc, [
+    '', 'Razem', '', '', '',
+    formatPrice(amounts.totalNet),
+    formatPrice(amounts.totalVat),
+    formatPrice(amounts.totalGross)
+  ], y + 4, 'bold') + 10;
+};
+
+/**
+ * Render a VAT invoice (faktura VAT) as PDF
+ */
+export const generateInvoicePdf = (invoice: FirestoreInvoice): Promise<Buffer> => {
+  const doc = createPdfDocument(`Faktura VAT ${invoice.number}`);
+
+  doc.font('bold').fontSize(16).text(`Faktura VAT nr ${invoice.number}`, 40, 40);
+  doc.font('regular').fontSize(9)
+    .text(`Data wystawienia: ${formatDate(invoice.issueDate)}`)
+    .text(`Data sprzedaży: ${formatDate(invoice.saleDate)}`)
+    .text(`Zamówienie: ${invoice.order}`);
+
+  drawParty(doc, 'Sprzedawca', invoice.seller, 40, 120);
+  drawParty(doc, 'Nabywca', invoice.buyer, 305, 120);
+
+  let y = 210;
+  y = drawRow(doc, LINE_COLUMNS.map(([header]) => header), y, 'bold');
+  doc.moveTo(40, y - 2).lineTo(555, y - 2).stroke();
+
+  invoice.lines.forEach((line, index) => {
+    if (y > 760) {
+      doc.addPage();
+      y = 40;
+    }
+
+    y = drawRow(doc, [
+      String(index + 1),
+      line.name,
+      `${line.quantity} ${line.unit}`,
+      formatPrice(line.unitPriceGross),
+      `${line.vatRate}%`,
+      formatPrice(line.netAmount),
+      formatPrice(line.vatAmount),
+      formatPrice(line.grossAmount)
+    ], y, 'regular');
+  });
+
+  doc.moveTo(40, y).lineTo(555, y).stroke();
+  y += 10;
+
+  // VAT summary per rate
+  doc.font('bold').fontSize(10).text('Podsumowanie VAT', 40, y);
+  y = doc.y + 4;
+
+  invoice.vatSummary.forEach(row => {
+    y = drawRow(doc, [
+      '', '', '', '',
+      `${row.vatRate}%`,
+      formatPrice(row.netAmount),
+      formatPrice(row.vatAmount),
+      formatPrice(row.grossAmount)
+    ], y, 'regular');
+  });
+
+  y = drawRow(doc, [
+    '', 'Razem', '', '', '',
+    formatPrice(invoice.totalNet),
+    formatPrice(invoice.totalVat),
+    formatPrice(invoice.totalGross)
+  ], y, 'bold');
+
+  doc.font('bold').fontSize(11).text(`Do zapłaty: ${formatPrice(invoice.totalGross)}`, 40, y + 10);
+
+  // Platform fee is settled between the platform and the seller, not charged to the buyer
+  doc.font('regular').fontSize(8).text(
+    `Prowizja platformy EkoDirekt (${invoice.platformFee.percentage}%): ${formatPrice(invoice.platformFee.amount)} - ` +
+    'rozliczana ze sprzedawcą, nie powiększa kwoty do zapłaty.',
+    40,
+    doc.y + 10,
+    { width: 515 }
+  );
+
+  return renderPdf(doc);
+};
+
+/**
+ * Render a correction invoice (faktura korygująca) as PDF
+ */
+export const generateCorrectionPdf = (correction: FirestoreInvoiceCorrection): Promise<Buffer> => {
+  const doc = createPdfDocument(`Faktura korygująca ${correction.number}`);
+
+  doc.font('bold').fontSize(16).text(`Faktura korygująca nr ${correction.number}`, 40, 40);
+  doc.font('regular').fontSize(9)
+    .text(`Data wystawienia: ${formatDate(correction.issueDate)}`)
+    .text(`Do faktury VAT nr ${correction.invoiceNumber} z dnia ${formatDate(correction.invoiceIssueDate)}`)
+    .text(`Zamówienie: ${correction.order}`)
+    .text(`Przyczyna korekty: ${correction.reason}`);
+
+  drawParty(doc, 'Sprzedawca', correction.seller, 40, 130);
+  drawParty(doc, 'Nabywca', correction.buyer, 305, 130);
+
+  let y = drawAmounts(doc, 'Przed korektą', correction.before, 220);
+
+  if (y > 680) {
+    doc.addPage();
+    y = 40;
+  }
+
+  y = drawAmounts(doc, 'Po korekcie', correction.after, y);
+
+  y = drawRow(doc, [
+    '', 'Różnica', '', '', '',
+    formatPrice(correction.difference.totalNet),
+    formatPrice(correction.difference.totalVat),
+    formatPrice(correction.difference.totalGross)
+  ], y, 'bold');
+
+  const refund = -correction.difference.totalGross;
+  doc.font('bold').fontSize(11).text(`Do zwrotu: ${formatPrice(refund)}`, 40, y + 10);
+
+  return renderPdf(doc);
+};
@@ -0,0 +1,83 @@
+// backend/utils/orderStateMachine.test.ts
+import { describe, expect, it } from 'vitest';
+import { ORDER_STATUSES } from '../constants';
+import { deriveParentStatus, getAvailableTransitions, getTransitionError, isOrderStatus } from './orderStateMachine';
+
+describe('isOrderStatus', () => {
+  it('accepts known statuses', () => {
+    Object.values(ORDER_STATUSES).forEach(status => expect(isOrderStatus(status)).toBe(true));
+  });
+
+  it('rejects unknown values', () => {
+    expect(isOrderStatus('refunded')).toBe(false);
+    expect(isOrderStatus('')).toBe(false);
+    expect(isOrderStatus(undefined)).toBe(false);
+    expect(isOrderStatus(1)).toBe(false);
+  });
+});
+
+describe('getAvailableTransitions', () => {
+  it('lets the farmer move a paid order to processing only', () => {
+    expect(getAvailableTransitions(ORDER_STATUSES.PAID, ['farmer'])).toEqual([ORDER_STATUSES.PROCESSING]);
+  });
+
+  it('lets the buyer cancel a pending order', () => {
+    expect(getAvailableTransitions(ORDER_STATUSES.PENDING, ['buyer'])).toEqual([ORDER_STATUSES.CANCELLED]);
+  });
+
+  it('combines the transitions of all roles', () => {
+    expect(getAvailableTransitions(ORDER_STATUSES.PROCESSING, ['buyer', 'farmer'])).toEqual([
+      ORDER_STATUSES.SHIPPED,
+      ORDER_STATUSES.CANCELLED
+    ]);
+  });
+
+  it('returns nothing for final statuses', () => {
+    expect(getAvailableTransitions(ORDER_STATUSES.DELIVERED, ['admin'])).toEqual([]);
+    expect(getAvailableTransitions(ORDER_STATUSES.CANCELLED, ['admin'])).toEqual([]);
+  });
+});
+
+describe('getTransitionError', () => {
+  it('allows a transition permitted for the role', () => {
+    expect(getTransitionError(ORDER_STATUSES.PENDING, ORDER_STATUSES.PAID, ['system'])).toBeNull();
+    expect(getTransitionError(ORDER_STATUSES.SHIPPED, ORDER_STATUSES.DELIVERED, ['buyer'])).toBeNull();
+  });
+
+  it('rejects a transition to the current status', () => {
+    expect(getTransitionError(ORDER_STATUSES.PAID, ORDER_STATUSES.PAID, ['admin'])).toBe(
+      'Zamówienie ma już status "paid".'
+    );
+  });
+
+  it('rejects a transition that is not in the state machine', () => {
+    expect(getTransitionError(ORDER_STATUSES.PENDING, ORDER_STATUSES.SHIPPED, ['admin'])).toBe(
+      'Nie można zmienić statusu zamówienia z "pending" na "shipped".'
+    );
+    expect(getTransitionError(ORDER_STATUSES.DELIVERED, ORDER_STATUSES.CANCELLED, ['admin'])).not.toBeNull();
+  });
+
+  it('rejects a transition the role may not perform', () => {
+    expect(getTransitionError(ORDER_STATUSES.PROCESSING, ORDER_STATUSES.SHIPPED, ['buyer', 'admin'])).toBe(
+      'Nie masz uprawnień do zmiany statusu zamówienia na "shipped".'
+    );
+    expect(getTransitionError(ORDER_STATUSES.PENDING, ORDER_STATUSES.PAID, ['buyer'])).not.toBeNull();
+  });
+});
+
+describe('deriveParentStatus', () => {
+  it('follows the least advanced sub-order', () => {
+    expect(deriveParentStatus([ORDER_STATUSES.SHIPPED, ORDER_STATUSES.PAID, ORDER_STATUSES.DELIVERED])).toBe(
+      ORDER_STATUSES.PAID
+    );
+  });
+
+  it('ignores cancelled sub-orders', () => {
+    expect(deriveParentStatus([ORDER_STATUSES.CANCELLED, ORDER_STATUSES.DELIVERED])).toBe(ORDER_STATUSES.DELIVERED);
+  });
+
+  it('is cancelled only when every sub-order is cancelled', () => {
+    expect(deriveParentStatus([ORDER_STATUSES.CANCELLED, ORDER_STATUSES.CANCELLED])).toBe(ORDER_STATUSES.CANCELLED);
+    expect(deriveParentStatus([])).toBe(ORDER_STATUSES.CANCELLED);
+  });
+});
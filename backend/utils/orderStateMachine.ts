@@ -0,0 +1,104 @@
+// backend/utils/orderStateMachine.ts
+import { ORDER_STATUSES } from '../constants';
+import type { OrderStatus } from '../types';
+
+/**
+ * Role an actor plays in relation to a specific order.
+ * 'system' is used for automated transitions (e.g. payment confirmations).
+ */
+export type OrderActorRole = 'buyer' | 'farmer' | 'admin' | 'system';
+
+/**
+ * Allowed order status transitions and the roles that may perform them.
+ * Statuses without outgoing transitions (delivered, cancelled) are final.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, Partial<Record<OrderStatus, OrderActorRole[]>>> = {
+  [ORDER_STATUSES.PENDING]: {
+    [ORDER_STATUSES.PAID]: ['system', 'admin'],
+    [ORDER_STATUSES.CANCELLED]: ['buyer', 'admin']
+  },
+  [ORDER_STATUSES.PAID]: {
+    [ORDER_STATUSES.PROCESSING]: ['farmer', 'admin'],
+    [ORDER_STATUSES.CANCELLED]: ['buyer', 'admin']
+  },
+  [ORDER_STATUSES.PROCESSING]: {
+    [ORDER_STATUSES.SHIPPED]: ['farmer'],
+    [ORDER_STATUSES.CANCELLED]: ['buyer', 'admin']
+  },
+  [ORDER_STATUSES.SHIPPED]: {
+    [ORDER_STATUSES.DELIVERED]: ['farmer', 'buyer', 'admin']
+  },
+  [ORDER_STATUSES.DELIVERED]: {},
+  [ORDER_STATUSES.CANCELLED]: {}
+};
+
+/**
+ * Check whether a value is a known order status
+ */
+export const isOrderStatus = (value: unknown): value is OrderStatus => {
+  return typeof value === 'string' && Object.values(ORDER_STATUSES).includes(value as OrderStatus);
+};
+
+/**
+ * Get statuses reachable from the given status by an actor with the given roles
+ */
+export const getAvailableTransitions = (from: OrderStatus, roles: OrderActorRole[]): OrderStatus[] => {
+  const transitions = ORDER_STATUS_TRANSITIONS[from] || {};
+
+  return (Object.entries(transitions) as [OrderStatus, OrderActorRole[]][])
+    .filter(([, allowedRoles]) => allowedRoles.some(role => roles.includes(role)))
+    .map(([status]) => status);
+};
+
+/**
+ * Validate a transition
+ * @returns Error message, or null if the transition is allowed
+ */
+export const getTransitionError = (
+  from: OrderStatus,
+  to: OrderStatus,
+  roles: OrderActorRole[]
+): string | null => {
+  if (from === to) {
+    return `Zamówienie ma już status "${to}".`;
+  }
+
+  const allowedRoles = ORDER_STATUS_TRANSITIONS[from]?.[to];
+
+  if (!allowedRoles) {
+    return `Nie można zmienić statusu zamówienia z "${from}" na "${to}".`;
+  }
+
+  if (!allowedRoles.some(role => roles.includes(role))) {
+    return `Nie masz uprawnień do zmiany statusu zamówienia na "${to}".`;
+  }
+
+  return null;
+};
+
+// Fulfilment progress of each status, used to derive parent order status
+const STATUS_PROGRESS: Record<OrderStatus, number> = {
+  [ORDER_STATUSES.PENDING]: 0,
+  [ORDER_STATUSES.PAID]: 1,
+  [ORDER_STATUSES.PROCESSING]: 2,
+  [ORDER_STATUSES.SHIPPED]: 3,
+  [ORDER_STATUSES.DELIVERED]: 4,
+  [ORDER_STATUSES.CANCELLED]: -1
+};
+
+/**
+ * Derive the status of a multi-farmer order from its sub-orders.
+ * The parent is cancelled only when every sub-order is cancelled;
+ * otherwise it follows the least advanced of the remaining sub-orders.
+ */
+export const deriveParentStatus = (subOrderStatuses: OrderStatus[]): OrderStatus => {
+  const activeStatuses = subOrderStatuses.filter(status => status !== ORDER_STATUSES.CANCELLED);
+
+  if (activeStatuses.length === 0) {
+    return ORDER_STATUSES.CANCELLED;
+  }
+
+  return activeStatuses.reduce((least, status) =>
+    STATUS_PROGRESS[status] < STATUS_PROGRESS[least] ? status : least
+  );
+};
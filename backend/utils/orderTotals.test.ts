@@ -0,0 +1,75 @@
+// backend/utils/orderTotals.test.ts
+import { describe, expect, it } from 'vitest';
+import {
+  calculateItemsTotal,
+  calculateOrderTotal,
+  getBillableQuantity,
+  getRemainingShippingCost,
+  roundPrice,
+  roundQuantity
+} from './orderTotals';
+import type { FirestoreOrderItem } from '../types';
+
+const items: FirestoreOrderItem[] = [
+  { product: 'apples', quantity: 2.5, priceAtPurchase: 6.99 },
+  { product: 'eggs', quantity: 10, priceAtPurchase: 1.2, refundedQuantity: 4 }
+];
+
+describe('roundPrice', () => {
+  it('rounds to full grosze', () => {
+    expect(roundPrice(0.1 + 0.2)).toBe(0.3);
+    expect(roundPrice(17.475)).toBe(17.48);
+    expect(roundPrice(12)).toBe(12);
+  });
+});
+
+describe('roundQuantity', () => {
+  it('drops floating point leftovers', () => {
+    expect(roundQuantity(0.1 + 0.2)).toBe(0.3);
+    expect(roundQuantity(1.2345)).toBe(1.235);
+  });
+});
+
+describe('getBillableQuantity', () => {
+  it('subtracts the refunded quantity', () => {
+    expect(getBillableQuantity(items[1])).toBe(6);
+    expect(getBillableQuantity({ product: 'honey', quantity: 0.3, priceAtPurchase: 40, refundedQuantity: 0.1 })).toBe(0.2);
+  });
+
+  it('returns the whole quantity when nothing was refunded', () => {
+    expect(getBillableQuantity(items[0])).toBe(2.5);
+  });
+
+  it('returns 0 for a fully refunded item', () => {
+    expect(getBillableQuantity({ ...items[1], refundedQuantity: 10 })).toBe(0);
+  });
+});
+
+describe('calculateItemsTotal', () => {
+  it('sums billable quantities only', () => {
+    // 2.5 * 6.99 + 6 * 1.2
+    expect(calculateItemsTotal(items)).toBe(24.68);
+  });
+
+  it('returns 0 for an empty order', () => {
+    expect(calculateItemsTotal([])).toBe(0);
+  });
+});
+
+describe('calculateOrderTotal', () => {
+  it('adds the shipping cost', () => {
+    expect(calculateOrderTotal(items, 15.5)).toBe(40.18);
+  });
+
+  it('defaults to no shipping cost', () => {
+    expect(calculateOrderTotal(items)).toBe(24.68);
+  });
+});
+
+describe('getRemainingShippingCost', () => {
+  it('subtracts the refunded shipping cost', () => {
+    expect(getRemainingShippingCost({ shippingCost: 15.5 })).toBe(15.5);
+    expect(getRemainingShippingCost({ shippingCost: 15.5, refundedShippingCost: 15.5 })).toBe(0);
+    expect(getRemainingShippingCost({})).toBe(0);
+  });
+});
@@ -0,0 +1,36 @@
+// backend/utils/orderTotals.ts
+import type { FirestoreOrder, FirestoreOrderItem } from '../types';
+
+/**
+ * Round a money amount to full grosze
+ */
+export const roundPrice = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Round a quantity to avoid floating point leftovers (e.g. 0.30000000000000004 kg)
+ */
+export const roundQuantity = (value: number): number => Math.round(value * 1000) / 1000;
+
+/**
+ * Quantity of an order item that is still sold (not refunded)
+ */
+export const getBillableQuantity = (item: FirestoreOrderItem): number =>
+  roundQuantity(item.quantity - (item.refundedQuantity || 0));
+
+/**
+ * Order total - sum of item prices without refunded quantities
+ */
+export const calculateItemsTotal = (items: FirestoreOrderItem[]): number =>
+  roundPrice(items.reduce((sum, item) => sum + item.priceAtPurchase * getBillableQuantity(item), 0));
+
+/**
+ * Order total - billable items plus shipping cost
+ */
+export const calculateOrderTotal = (items: FirestoreOrderItem[], shippingCost = 0): number =>
+  roundPrice(calculateItemsTotal(items) + shippingCost);
+
+/**
+ * Shipping cost of an order that has not been refunded yet
+ */
+export const getRemainingShippingCost = (order: Pick<FirestoreOrder, 'shippingCost' | 'refundedShippingCost'>): number =>
+  Math.max(0, roundPrice((order.shippingCost || 0) - (order.refundedShippingCost || 0)));
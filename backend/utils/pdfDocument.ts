@@ -0,0 +1,40 @@
+// backend/utils/pdfDocument.ts
+import { createRequire } from 'module';
+import PDFDocument from 'pdfkit';
+
+const require = createRequire(import.meta.url);
+
+// Built-in PDF fonts have no Polish diacritics, so documents use DejaVu Sans
+const FONT_REGULAR = require.resolve('dejavu-fonts-ttf/ttf/DejaVuSans.ttf');
+const FONT_BOLD = require.resolve('dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf');
+
+/**
+ * Create an A4 PDF document with regular ('regular') and bold ('bold') fonts registered
+ */
+export const createPdfDocument = (title: string): PDFKit.PDFDocument => {
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: 40,
+    info: { Title: title, Producer: 'EkoDirekt' }
+  });
+
+  doc.registerFont('regular', FONT_REGULAR);
+  doc.registerFont('bold', FONT_BOLD);
+  doc.font('regular');
+
+  return doc;
+};
+
+/**
+ * Render a PDF document to a buffer
+ */
+export const renderPdf = (doc: PDFKit.PDFDocument): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    doc.end();
+  });
@@ -0,0 +1,152 @@
+// backend/utils/registryMatching.test.ts
+import { describe, expect, it } from 'vitest';
+import {
+  createFarmerIndex,
+  getNameKey,
+  mapRegistryRows,
+  matchRegistryRow,
+  normalizeNip,
+  normalizeText,
+  parseRegistryDate
+} from './registryMatching';
+import type { RegistryFarmerCandidate } from '../types';
+
+const kowalski: RegistryFarmerCandidate = {
+  farmer: 'farmer-1',
+  fullName: 'Jan Kowalski',
+  companyName: 'Gospodarstwo Ekologiczne Kowalski Jan',
+  nip: '123-456-78-90',
+  address: 'Zielona 5, 05-600 Grójec'
+};
+
+const kowalskiNamesake: RegistryFarmerCandidate = {
+  farmer: 'farmer-2',
+  fullName: 'Jan Kowalski',
+  address: 'Polna 1, 30-001 Kraków'
+};
+
+const nowak: RegistryFarmerCandidate = {
+  farmer: 'farmer-3',
+  fullName: 'Anna Nowak',
+  nip: '9876543210',
+  address: 'Lipowa 3, Wola Łaska'
+};
+
+const index = createFarmerIndex([kowalski, kowalskiNamesake, nowak]);
+
+describe('normalizeText', () => {
+  it('drops case, Polish diacritics and punctuation', () => {
+    expect(normalizeText('  Łódź, ul. Żółta 7/2 ')).toBe('lodz ul zolta 7 2');
+  });
+});
+
+describe('getNameKey', () => {
+  it('ignores word order and legal forms', () => {
+    expect(getNameKey('Kowalski Jan')).toBe(getNameKey('Jan Kowalski'));
+    expect(getNameKey('Gospodarstwo Rolne "Kowalski Jan" Sp. z o.o.')).toBe('jan kowalski');
+  });
+});
+
+describe('normalizeNip', () => {
+  it('keeps the 10 digits of a NIP', () => {
+    expect(normalizeNip('123-456-78-90')).toBe('1234567890');
+    expect(normalizeNip('PL 123 456 78 90')).toBe('1234567890');
+  });
+
+  it('rejects missing or incomplete numbers', () => {
+    expect(normalizeNip(undefined)).toBeUndefined();
+    expect(normalizeNip('123-456-78')).toBeUndefined();
+  });
+});
+
+describe('parseRegistryDate', () => {
+  const toParts = (date: Date | null) => date && [date.getFullYear(), date.getMonth() + 1, date.getDate(), date.getHours()];
+
+  it('reads ISO and Polish dates as the end of the day', () => {
+    expect(toParts(parseRegistryDate('2026-03-31'))).toEqual([2026, 3, 31, 23]);
+    expect(toParts(parseRegistryDate('2026-03-31T00:00:00.000Z'))).toEqual([2026, 3, 31, 23]);
+    expect(toParts(parseRegistryDate('31.03.2026'))).toEqual([2026, 3, 31, 23]);
+    expect(toParts(parseRegistryDate('1/4/2026'))).toEqual([2026, 4, 1, 23]);
+  });
+
+  it('rejects empty, malformed and impossible dates', () => {
+    expect(parseRegistryDate(undefined)).toBeNull();
+    expect(parseRegistryDate('do odwołania')).toBeNull();
+    expect(parseRegistryDate('2026/03/31')).toBeNull();
+    expect(parseRegistryDate('31.02.2026')).toBeNull();
+  });
+});
+
+describe('mapRegistryRows', () => {
+  it('maps columns by their Polish headers and joins address columns', () => {
+    const { rows, missingColumns } = mapRegistryRows([
+      ['Lp.', 'Nazwa producenta', 'NIP', 'Adres', 'Kod pocztowy', 'Nr certyfikatu', 'Ważny do'],
+      ['1', ' Jan Kowalski ', '1234567890', 'Zielona 5', '05-600 Grójec', 'PL-EKO-07/123', '31.03.2026'],
+      ['2', 'Anna Nowak', '', 'Lipowa 3']
+    ]);
+
+    expect(missingColumns).toEqual([]);
+    expect(rows).toEqual([
+      {
+        rowNumber: 2,
+        name: 'Jan Kowalski',
+        nip: '1234567890',
+        address: 'Zielona 5, 05-600 Grójec',
+        certificateNumber: 'PL-EKO-07/123',
+        validUntil: '31.03.2026'
+      },
+      { rowNumber: 3, name: 'Anna Nowak', address: 'Lipowa 3' }
+    ]);
+  });
+
+  it('reports missing required columns', () => {
+    expect(mapRegistryRows([['NIP', 'Adres']]).missingColumns).toEqual(['name', 'validUntil']);
+    expect(mapRegistryRows([]).missingColumns).toEqual(['name', 'validUntil']);
+  });
+});
+
+describe('matchRegistryRow', () => {
+  it('matches by a unique NIP', () => {
+    expect(matchRegistryRow({ rowNumber: 2, name: 'PPUH Kowalski', nip: '1234567890' }, index)).toEqual({
+      status: 'matched',
+      matchedBy: 'nip',
+      farmer: 'farmer-1',
+      candidates: [kowalski]
+    });
+  });
+
+  it('matches by name confirmed with the postal code', () => {
+    const match = matchRegistryRow({ rowNumber: 2, name: 'Kowalski Jan', address: 'ul. Zielona 5, 05-600 Grójec' }, index);
+
+    expect(match).toMatchObject({ status: 'matched', matchedBy: 'name_address', farmer: 'farmer-1' });
+  });
+
+  it('matches by name confirmed with common address words', () => {
+    const match = matchRegistryRow({ rowNumber: 2, name: 'Nowak Anna', address: 'Wola Łaska, Lipowa' }, index);
+
+    expect(match).toMatchObject({ status: 'matched', matchedBy: 'name_address', farmer: 'farmer-3' });
+  });
+
+  it('leaves namesakes without a confirming address to the admin', () => {
+    const match = matchRegistryRow({ rowNumber: 2, name: 'Jan Kowalski', address: 'Długa 1, 00-950 Warszawa' }, index);
+
+    expect(match.status).toBe('ambiguous');
+    expect(match.candidates).toEqual([kowalski, kowalskiNamesake]);
+  });
+
+  it('does not confirm a farmer with a different NIP', () => {
+    const match = matchRegistryRow(
+      { rowNumber: 2, name: 'Anna Nowak', nip: '1111111111', address: 'Lipowa 3, Wola Łaska' },
+      index
+    );
+
+    expect(match).toEqual({ status: 'ambiguous', candidates: [nowak] });
+  });
+
+  it('reports rows without any matching farmer', () => {
+    expect(matchRegistryRow({ rowNumber: 2, name: 'Piotr Wiśniewski' }, index)).toEqual({
+      status: 'unmatched',
+      candidates: []
+    });
+  });
+});
@@ -0,0 +1,186 @@
+// backend/utils/registryMatching.ts
+import type { RegistryFarmerCandidate } from '../types';
+
+// Producer data read from one row of a certification body's registry
+export interface RegistryRow {
+  rowNumber: number; // row in the spreadsheet (1 = header)
+  name: string;
+  nip?: string;
+  address?: string;
+  certificateNumber?: string;
+  validUntil?: string;
+  type?: string;
+}
+
+export interface RegistryMatch {
+  status: 'matched' | 'ambiguous' | 'unmatched';
+  matchedBy?: 'nip' | 'name_address';
+  farmer?: string;
+  candidates: RegistryFarmerCandidate[];
+}
+
+export interface FarmerIndex {
+  byNip: Map<string, RegistryFarmerCandidate[]>;
+  byName: Map<string, RegistryFarmerCandidate[]>;
+}
+
+type RegistryColumn = Exclude<keyof RegistryRow, 'rowNumber'>;
+
+// Header names used by Polish certification bodies (compared after normalizeText)
+const COLUMN_ALIASES: Record<RegistryColumn, string[]> = {
+  name: ['nazwa', 'nazwa producenta', 'producent', 'nazwa podmiotu', 'podmiot', 'imie i nazwisko', 'nazwisko i imie', 'name'],
+  nip: ['nip', 'numer nip', 'nr nip'],
+  address: ['adres', 'adres producenta', 'adres siedziby', 'siedziba', 'miejscowosc', 'kod pocztowy', 'address'],
+  certificateNumber: ['numer certyfikatu', 'nr certyfikatu', 'certyfikat', 'certificate number'],
+  validUntil: ['wazny do', 'data waznosci', 'termin waznosci', 'data waznosci certyfikatu', 'valid until'],
+  type: ['rodzaj', 'rodzaj certyfikatu', 'type']
+};
+
+// Legal forms and farm prefixes that registries add or omit inconsistently
+const IGNORED_NAME_WORDS = new Set(['gospodarstwo', 'rolne', 'ekologiczne', 'sp', 'z', 'o', 'oo', 'spolka', 'cywilna', 'sc', 'jawna', 'sj', 'firma', 'ppuh', 'phu']);
+
+/**
+ * Lowercase text without Polish diacritics and punctuation
+ */
+export const normalizeText = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/ł/g, 'l')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+/**
+ * Name key independent of word order and legal form ("Kowalski Jan" = "Jan Kowalski")
+ */
+export const getNameKey = (name: string): string =>
+  normalizeText(name)
+    .split(' ')
+    .filter(word => word && !IGNORED_NAME_WORDS.has(word))
+    .sort()
+    .join(' ');
+
+export const normalizeNip = (nip: string | undefined): string | undefined => {
+  const digits = (nip || '').replace(/\D/g, '');
+  return digits.length === 10 ? digits : undefined;
+};
+
+/**
+ * Registry date as a date (YYYY-MM-DD or DD.MM.YYYY, also with - or / in the Polish order)
+ */
+export const parseRegistryDate = (value: string | undefined): Date | null => {
+  const text = (value || '').trim();
+  const isoMatch = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  const polishMatch = text.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{4})$/);
+
+  const [year, month, day] = isoMatch
+    ? [isoMatch[1], isoMatch[2], isoMatch[3]]
+    : polishMatch ? [polishMatch[3], polishMatch[2], polishMatch[1]] : [];
+
+  if (!year) return null;
+
+  // Certificates are valid until the end of the given day
+  const date = new Date(Number(year), Number(month) - 1, Number(day), 23, 59, 59);
+  return date.getMonth() === Number(month) - 1 ? date : null;
+};
+
+/**
+ * Map spreadsheet rows to registry rows using the header row.
+ * Address columns (street, postal code, town) are joined into one address.
+ */
+export const mapRegistryRows = (cells: string[][]): { rows: RegistryRow[]; missingColumns: RegistryColumn[] } => {
+  const [header = [], ...dataRows] = cells;
+  const columns = header.map(title => {
+    const normalized = normalizeText(title);
+    return (Object.keys(COLUMN_ALIASES) as RegistryColumn[]).find(column => COLUMN_ALIASES[column].includes(normalized));
+  });
+
+  const missingColumns = (['name', 'validUntil'] as RegistryColumn[]).filter(column => !columns.includes(column));
+
+  const rows = dataRows.map((row, index) => {
+    const registryRow: RegistryRow = { rowNumber: index + 2, name: '' };
+
+    columns.forEach((column, columnIndex) => {
+      const value = (row[columnIndex] || '').trim();
+      if (!column || !value) return;
+
+      registryRow[column] = column === 'address' && registryRow.address ? `${registryRow.address}, ${value}` : value;
+    });
+
+    return registryRow;
+  });
+
+  return { rows, missingColumns };
+};
+
+export const createFarmerIndex = (farmers: RegistryFarmerCandidate[]): FarmerIndex => {
+  const index: FarmerIndex = { byNip: new Map(), byName: new Map() };
+
+  const add = (map: Map<string, RegistryFarmerCandidate[]>, key: string | undefined, farmer: RegistryFarmerCandidate) => {
+    if (!key) return;
+    const farmers = map.get(key) || [];
+    if (!farmers.includes(farmer)) map.set(key, [...farmers, farmer]);
+  };
+
+  farmers.forEach(farmer => {
+    add(index.byNip, normalizeNip(farmer.nip), farmer);
+    add(index.byName, getNameKey(farmer.fullName), farmer);
+    if (farmer.companyName) add(index.byName, getNameKey(farmer.companyName), farmer);
+  });
+
+  return index;
+};
+
+/**
+ * Same postal code, or (without postal codes) at least two common address words
+ */
+const isSameAddress = (registryAddress: string | undefined, farmerAddress: string | undefined): boolean => {
+  if (!registryAddress || !farmerAddress) return false;
+
+  const registryPostalCode = registryAddress.match(/\d{2}-\d{3}/)?.[0];
+  const farmerPostalCode = farmerAddress.match(/\d{2}-\d{3}/)?.[0];
+
+  if (registryPostalCode && farmerPostalCode) {
+    return registryPostalCode === farmerPostalCode;
+  }
+
+  const farmerWords = new Set(normalizeText(farmerAddress).split(' ').filter(word => word.length > 2));
+  return normalizeText(registryAddress).split(' ').filter(word => farmerWords.has(word)).length >= 2;
+};
+
+/**
+ * Match a registry row to farmers. A unique NIP, or a unique name confirmed
+ * by the address, is a match; other name matches need an admin's decision.
+ */
+export const matchRegistryRow = (row: RegistryRow, index: FarmerIndex): RegistryMatch => {
+  const nip = normalizeNip(row.nip);
+  const nipMatches = nip ? index.byNip.get(nip) || [] : [];
+
+  if (nipMatches.length === 1) {
+    return { status: 'matched', matchedBy: 'nip', farmer: nipMatches[0].farmer, candidates: nipMatches };
+  }
+
+  if (nipMatches.length > 1) {
+    return { status: 'ambiguous', candidates: nipMatches };
+  }
+
+  const nameMatches = index.byName.get(getNameKey(row.name)) || [];
+  // A farmer with a different NIP is a namesake, not a confirmation
+  const confirmed = nameMatches.filter(farmer =>
+    isSameAddress(row.address, farmer.address) && !(nip && normalizeNip(farmer.nip) && normalizeNip(farmer.nip) !== nip)
+  );
+
+  if (confirmed.length === 1) {
+    return { status: 'matched', matchedBy: 'name_address', farmer: confirmed[0].farmer, candidates: confirmed };
+  }
+
+  if (nameMatches.length === 0) {
+    return { status: 'unmatched', candidates: [] };
+  }
+
+  return {
+    status: 'ambiguous',
+    candidates: [...confirmed, ...nameMatches.filter(farmer => !confirmed.includes(farmer))]
+  };
+};
@@ -0,0 +1,70 @@
+// backend/utils/routePlanner.test.ts
+import { describe, expect, it } from 'vitest';
+import { calculateDistance, type GeoLocation } from './geoUtils';
+import { planRoute } from './routePlanner';
+
+const at = (lon: number, lat: number): GeoLocation => ({ type: 'Point', coordinates: [lon, lat] });
+
+const distance = (from: GeoLocation, to: GeoLocation): number =>
+  calculateDistance(from.coordinates[1], from.coordinates[0], to.coordinates[1], to.coordinates[0]);
+
+const origin = at(21, 52);
+
+describe('planRoute', () => {
+  it('returns an empty route without stops', () => {
+    expect(planRoute(origin, [])).toEqual({ sequence: [], legDistancesKm: [], returnDistanceKm: 0, totalDistanceKm: 0 });
+  });
+
+  it('visits stops along a road in order of distance', () => {
+    const stops = [at(21.3, 52), at(21.1, 52), at(21.2, 52)];
+    const route = planRoute(origin, stops, false);
+
+    expect(route.sequence).toEqual([1, 2, 0]);
+    expect(route.returnDistanceKm).toBe(0);
+    expect(route.totalDistanceKm).toBeCloseTo(
+      distance(origin, stops[1]) + distance(stops[1], stops[2]) + distance(stops[2], stops[0]),
+      6
+    );
+  });
+
+  it('ends a round trip back at the origin', () => {
+    const stops = [at(21.1, 52), at(21.2, 52)];
+    const route = planRoute(origin, stops);
+
+    expect(route.sequence).toEqual([0, 1]);
+    expect(route.returnDistanceKm).toBeCloseTo(distance(stops[1], origin), 6);
+    expect(route.totalDistanceKm).toBeCloseTo(
+      distance(origin, stops[0]) + distance(stops[0], stops[1]) + distance(stops[1], origin),
+      6
+    );
+  });
+
+  it('shortens the nearest neighbour tour with 2-opt', () => {
+    const stops = [at(21.1, 52.01), at(21.07, 52.03), at(21.13, 51.94), at(20.95, 52.05)];
+    const tourLength = (sequence: number[]): number => {
+      const points = [origin, ...sequence.map(index => stops[index]), origin];
+      return points.slice(1).reduce((sum, point, index) => sum + distance(points[index], point), 0);
+    };
+
+    const route = planRoute(origin, stops);
+
+    // Nearest neighbour alone visits 1, 0, 2, 3; the shortest round trip is 2, 0, 1, 3 (or reversed)
+    expect(tourLength(route.sequence)).toBeLessThan(tourLength([1, 0, 2, 3]));
+    expect(tourLength(route.sequence)).toBeCloseTo(tourLength([2, 0, 1, 3]), 6);
+  });
+
+  it('reports leg distances matching the visiting order', () => {
+    const stops = [at(21.2, 52.1), at(21.05, 52.02), at(20.9, 52.1)];
+    const route = planRoute(origin, stops);
+
+    expect([...route.sequence].sort()).toEqual([0, 1, 2]);
+    route.sequence.forEach((stop, index) => {
+      const previous = index === 0 ? origin : stops[route.sequence[index - 1]];
+      expect(route.legDistancesKm[index]).toBeCloseTo(distance(previous, stops[stop]), 6);
+    });
+    expect(route.totalDistanceKm).toBeCloseTo(
+      route.legDistancesKm.reduce((sum, leg) => sum + leg, 0) + route.returnDistanceKm,
+      6
+    );
+  });
+});
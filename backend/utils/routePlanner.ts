@@ -0,0 +1,88 @@
+// backend/utils/routePlanner.ts
+import { calculateDistance, type GeoLocation } from './geoUtils';
+
+// Safety limit of 2-opt passes (each pass is O(n^2))
+const MAX_IMPROVEMENT_PASSES = 50;
+
+export interface PlannedRoute {
+  sequence: number[]; // indexes of the stops in visiting order
+  legDistancesKm: number[]; // distance to each stop from the previous point
+  returnDistanceKm: number; // from the last stop back to the origin (0 for one-way routes)
+  totalDistanceKm: number;
+}
+
+const distanceBetween = (from: GeoLocation, to: GeoLocation): number =>
+  calculateDistance(from.coordinates[1], from.coordinates[0], to.coordinates[1], to.coordinates[0]);
+
+const roundDistance = (value: number): number => Math.round(value * 10) / 10;
+
+/**
+ * Plan the order of visiting stops starting from the origin:
+ * a nearest-neighbour tour improved with 2-opt (reversing segments while it shortens the route).
+ * Round trips end back at the origin.
+ */
+export const planRoute = (origin: GeoLocation, stops: GeoLocation[], returnToOrigin = true): PlannedRoute => {
+  if (stops.length === 0) {
+    return { sequence: [], legDistancesKm: [], returnDistanceKm: 0, totalDistanceKm: 0 };
+  }
+
+  // Distance matrix - index 0 is the origin, stop i is at index i + 1
+  const points = [origin, ...stops];
+  const distances = points.map(from => points.map(to => distanceBetween(from, to)));
+
+  // Nearest neighbour
+  const tour = [0];
+  const remaining = new Set(stops.map((_, index) => index + 1));
+
+  while (remaining.size > 0) {
+    const current = tour[tour.length - 1];
+    let nearest = -1;
+
+    remaining.forEach(candidate => {
+      if (nearest === -1 || distances[current][candidate] < distances[current][nearest]) {
+        nearest = candidate;
+      }
+    });
+
+    tour.push(nearest);
+    remaining.delete(nearest);
+  }
+
+  // Distance of the edge leaving tour[index] (none after the last stop of a one-way route)
+  const nextDistance = (index: number): number => {
+    if (index < tour.length - 1) return distances[tour[index]][tour[index + 1]];
+    return returnToOrigin ? distances[tour[index]][0] : 0;
+  };
+
+  // 2-opt - reverse tour[i..k] when swapping edges (i-1, i) and (k, k+1) shortens the route
+  let improved = true;
+
+  for (let pass = 0; improved && pass < MAX_IMPROVEMENT_PASSES; pass++) {
+    improved = false;
+
+    for (let i = 1; i < tour.length - 1; i++) {
+      for (let k = i + 1; k < tour.length; k++) {
+        const after = k < tour.length - 1 ? tour[k + 1] : (returnToOrigin ? 0 : -1);
+
+        const currentLength = distances[tour[i - 1]][tour[i]] + nextDistance(k);
+        const swappedLength = distances[tour[i - 1]][tour[k]] + (after === -1 ? 0 : distances[tour[i]][after]);
+
+        if (swappedLength < currentLength - 1e-9) {
+          const reversed = tour.slice(i, k + 1).reverse();
+          tour.splice(i, reversed.length, ...reversed);
+          improved = true;
+        }
+      }
+    }
+  }
+
+  const legDistancesKm = tour.slice(1).map((point, index) => distances[tour[index]][point]);
+  const returnDistanceKm = returnToOrigin ? distances[tour[tour.length - 1]][0] : 0;
+
+  return {
+    sequence: tour.slice(1).map(point => point - 1),
+    legDistancesKm,
+    returnDistanceKm,
+    totalDistanceKm: roundDistance(legDistancesKm.reduce((sum, distance) => sum + distance, 0) + returnDistanceKm)
+  };
+};
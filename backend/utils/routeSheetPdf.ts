@@ -0,0 +1,94 @@
+// backend/utils/routeSheetPdf.ts
+import { createPdfDocument, renderPdf } from './pdfDocument';
+import { formatDistance, formatShortDate } from '../../src/shared/utils';
+import type { DeliveryRoute, DeliveryRouteStop } from '../types';
+
+const PAGE_BOTTOM = 770;
+
+const formatAddress = (address: DeliveryRouteStop['address']): string =>
+  `${address.street}, ${address.postalCode} ${address.city}`;
+
+/**
+ * Render a stop with its orders; returns the y position below it
+ */
+const drawStop = (doc: PDFKit.PDFDocument, stop: DeliveryRouteStop, y: number): number => {
+  const title = stop.pickupPoint
+    ? `${stop.sequence}. Punkt odbioru: ${stop.pickupPoint}`
+    : `${stop.sequence}. ${formatAddress(stop.address)}`;
+
+  doc.font('bold').fontSize(11).text(title, 40, y, { width: 420 });
+  doc.font('regular').fontSize(9).text(`+ ${formatDistance(stop.distanceFromPreviousKm)}`, 460, y, {
+    width: 95,
+    align: 'right'
+  });
+
+  doc.y = Math.max(doc.y, y + 14);
+  if (stop.pickupPoint) {
+    doc.text(formatAddress(stop.address), 40, doc.y, { width: 515 });
+  }
+
+  stop.orders.forEach(order => {
+    const contact = [order.buyerName, order.buyerPhone, order.deliveryWindow && `godz. ${order.deliveryWindow}`]
+      .filter(Boolean)
+      .join(' · ');
+
+    doc.moveDown(0.3);
+    doc.font('bold').fontSize(9).text(`☐ Zamówienie ${order.order}`, 55, doc.y, { width: 500 });
+    doc.font('regular').fontSize(9).text(contact, 70, doc.y, { width: 485 });
+
+    order.items.forEach(item => {
+      doc.text(`– ${item.name}: ${item.quantity} ${item.unit}`, 70, doc.y, { width: 485 });
+    });
+  });
+
+  return doc.y + 12;
+};
+
+/**
+ * Render a farmer's delivery run sheet (karta trasy) as PDF
+ */
+export const generateRouteSheetPdf = (route: DeliveryRoute, farmerName: string): Promise<Buffer> => {
+  const doc = createPdfDocument(`Karta trasy ${route.date}`);
+
+  doc.font('bold').fontSize(16).text(`Karta trasy dostaw - ${formatShortDate(route.date)}`, 40, 40);
+  doc.font('regular').fontSize(9)
+    .text(`Rolnik: ${farmerName}`)
+    .text(`Start i powrót: ${route.origin.address || route.origin.coordinates.join(', ')}`)
+    .text(`Przystanki: ${route.stops.length} · Długość trasy: ${formatDistance(route.totalDistanceKm)}`);
+
+  let y = doc.y + 16;
+  doc.moveTo(40, y - 6).lineTo(555, y - 6).stroke();
+
+  if (route.stops.length === 0) {
+    doc.font('regular').fontSize(10).text('Brak wysłanych zamówień do dostarczenia tego dnia.', 40, y);
+  }
+
+  route.stops.forEach(stop => {
+    // Keep a stop's header together with at least its first order
+    if (y > PAGE_BOTTOM - 60) {
+      doc.addPage();
+      y = 40;
+    }
+
+    y = drawStop(doc, stop, y);
+  });
+
+  if (route.stops.length > 0) {
+    doc.font('bold').fontSize(10).text(
+      `Powrót do gospodarstwa: + ${formatDistance(route.returnDistanceKm)}`,
+      40,
+      y
+    );
+  }
+
+  if (route.unlocatedOrders.length > 0) {
+    doc.font('regular').fontSize(8).text(
+      `Zamówienia bez współrzędnych adresu (poza trasą): ${route.unlocatedOrders.join(', ')}`,
+      40,
+      doc.y + 10,
+      { width: 515 }
+    );
+  }
+
+  return renderPdf(doc);
+};
@@ -0,0 +1,22 @@
+// backend/utils/serviceError.ts
+
+/**
+ * Error thrown by services when a request cannot be fulfilled.
+ * Carries the HTTP status the controller should respond with.
+ */
+export class ServiceError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'ServiceError';
+    this.status = status;
+  }
+}
+
+/**
+ * Type guard for errors thrown by services
+ */
+export const isServiceError = (error: unknown): error is ServiceError => {
+  return error instanceof ServiceError;
+};
@@ -0,0 +1,89 @@
+// backend/utils/shippingCalculator.test.ts
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_UNIT_WEIGHT_KG } from '../constants';
+import { calculateShippingCost, isWeighedUnit, parseCoordinates, toKilograms } from './shippingCalculator';
+import type { ShippingRules } from '../types';
+
+const rules: ShippingRules = {
+  flatFee: 10,
+  perKmFee: 0.5,
+  perKgFee: 1.2,
+  freeDeliveryThreshold: 200,
+  maxDistanceKm: 50
+};
+
+describe('isWeighedUnit', () => {
+  it('recognises mass and volume units', () => {
+    expect(['kg', 'g', 'l', 'ml'].every(isWeighedUnit)).toBe(true);
+    expect(isWeighedUnit('szt')).toBe(false);
+  });
+});
+
+describe('toKilograms', () => {
+  it('converts mass and volume units', () => {
+    expect(toKilograms(2.5, 'kg')).toBe(2.5);
+    expect(toKilograms(250, 'g')).toBe(0.25);
+    expect(toKilograms(3, 'l')).toBe(3);
+    expect(toKilograms(500, 'ml')).toBe(0.5);
+  });
+
+  it('uses the unit weight of pieces and packages', () => {
+    expect(toKilograms(6, 'szt', 0.06)).toBe(0.36);
+  });
+
+  it('falls back to the default weight without a valid unit weight', () => {
+    expect(toKilograms(2, 'opak')).toBe(2 * DEFAULT_UNIT_WEIGHT_KG);
+    expect(toKilograms(2, 'opak', 0)).toBe(2 * DEFAULT_UNIT_WEIGHT_KG);
+  });
+});
+
+describe('parseCoordinates', () => {
+  it('accepts [longitude, latitude] pairs', () => {
+    expect(parseCoordinates([21.0122, 52.2297])).toEqual([21.0122, 52.2297]);
+    expect(parseCoordinates(['19.94', '50.06'])).toEqual([19.94, 50.06]);
+  });
+
+  it('rejects malformed and out of range values', () => {
+    expect(parseCoordinates(undefined)).toBeUndefined();
+    expect(parseCoordinates([21])).toBeUndefined();
+    expect(parseCoordinates([21, 'north'])).toBeUndefined();
+    expect(parseCoordinates([181, 52])).toBeUndefined();
+    expect(parseCoordinates([21, -91])).toBeUndefined();
+  });
+
+  it('rejects the unset [0, 0] location', () => {
+    expect(parseCoordinates([0, 0])).toBeUndefined();
+  });
+});
+
+describe('calculateShippingCost', () => {
+  it('adds the flat, distance and weight fees', () => {
+    expect(calculateShippingCost(rules, { distanceKm: 12.3, weightKg: 4.5, itemsTotal: 80 })).toEqual({
+      shippingCost: 21.55,
+      isFree: false,
+      isWithinRange: true
+    });
+  });
+
+  it('is free from the threshold', () => {
+    expect(calculateShippingCost(rules, { distanceKm: 12.3, weightKg: 4.5, itemsTotal: 200 })).toEqual({
+      shippingCost: 0,
+      isFree: true,
+      isWithinRange: true
+    });
+  });
+
+  it('marks parcels beyond the delivery radius', () => {
+    expect(calculateShippingCost(rules, { distanceKm: 50.1, weightKg: 1, itemsTotal: 30 }).isWithinRange).toBe(false);
+    expect(calculateShippingCost(rules, { distanceKm: 50, weightKg: 1, itemsTotal: 30 }).isWithinRange).toBe(true);
+  });
+
+  it('has no threshold or radius when they are not set', () => {
+    const result = calculateShippingCost(
+      { flatFee: 5, perKmFee: 0, perKgFee: 0, freeDeliveryThreshold: null, maxDistanceKm: null },
+      { distanceKm: 400, weightKg: 10, itemsTotal: 1000 }
+    );
+
+    expect(result).toEqual({ shippingCost: 5, isFree: false, isWithinRange: true });
+  });
+});
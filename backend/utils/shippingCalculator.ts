@@ -0,0 +1,69 @@
+// backend/utils/shippingCalculator.ts
+import { DEFAULT_UNIT_WEIGHT_KG } from '../constants';
+import { roundPrice, roundQuantity } from './orderTotals';
+import type { ShippingRules } from '../types';
+
+// Units measured by mass or volume (1 l is counted as 1 kg)
+const UNIT_TO_KG: Record<string, number> = {
+  kg: 1,
+  g: 0.001,
+  l: 1,
+  ml: 0.001
+};
+
+export interface ShippingParcel {
+  distanceKm: number;
+  weightKg: number;
+  itemsTotal: number;
+}
+
+export interface ShippingCalculation {
+  shippingCost: number;
+  isFree: boolean;
+  isWithinRange: boolean;
+}
+
+/**
+ * Whether the unit is measured by mass or volume (kg, g, l, ml)
+ */
+export const isWeighedUnit = (unit: string): boolean => unit in UNIT_TO_KG;
+
+/**
+ * Weight in kilograms of a quantity of a product.
+ * Pieces and packages use the product's unitWeightKg (or a default weight).
+ */
+export const toKilograms = (quantity: number, unit: string, unitWeightKg?: number): number => {
+  const factor = UNIT_TO_KG[unit] ?? (unitWeightKg && unitWeightKg > 0 ? unitWeightKg : DEFAULT_UNIT_WEIGHT_KG);
+  return roundQuantity(quantity * factor);
+};
+
+/**
+ * Validate [longitude, latitude] coordinates
+ */
+export const parseCoordinates = (value: unknown): [number, number] | undefined => {
+  if (!Array.isArray(value) || value.length !== 2) return undefined;
+
+  const [lon, lat] = value.map(Number);
+
+  if (isNaN(lon) || isNaN(lat) || Math.abs(lon) > 180 || Math.abs(lat) > 90 || (lon === 0 && lat === 0)) {
+    return undefined;
+  }
+
+  return [lon, lat];
+};
+
+/**
+ * Delivery cost of one farmer's parcel:
+ * flat fee + distance * per-km fee + weight * per-kg fee,
+ * free above the threshold, unavailable beyond the max delivery radius
+ */
+export const calculateShippingCost = (rules: ShippingRules, parcel: ShippingParcel): ShippingCalculation => {
+  const isWithinRange = !rules.maxDistanceKm || parcel.distanceKm <= rules.maxDistanceKm;
+  const isFree = Boolean(rules.freeDeliveryThreshold) && parcel.itemsTotal >= Number(rules.freeDeliveryThreshold);
+
+  const shippingCost = isFree
+    ? 0
+    : roundPrice(rules.flatFee + parcel.distanceKm * rules.perKmFee + parcel.weightKg * rules.perKgFee);
+
+  return { shippingCost, isFree, isWithinRange };
+};
@@ -0,0 +1,53 @@
+// backend/utils/spreadsheet.ts
+import ExcelJS from 'exceljs';
+import { parseCsv } from './csv';
+
+export const SPREADSHEET_TYPES = [
+  'text/csv',
+  'application/vnd.ms-excel', // browsers on Windows send CSV files with this type
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+];
+
+const isXlsx = (file: Express.Multer.File): boolean =>
+  file.mimetype === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' ||
+  file.originalname.toLowerCase().endsWith('.xlsx');
+
+/**
+ * Cell value as text (dates as YYYY-MM-DD, formulas as their result)
+ */
+const cellToText = (cell: ExcelJS.Cell): string => {
+  const value = cell.type === ExcelJS.ValueType.Formula ? cell.result : cell.value;
+
+  if (value instanceof Date) {
+    return value.toISOString().slice(0, 10);
+  }
+
+  return value === null || value === undefined ? '' : cell.text.trim();
+};
+
+/**
+ * Read the rows of an uploaded CSV or XLSX file (the first worksheet of a workbook)
+ */
+export const readSpreadsheet = async (file: Express.Multer.File): Promise<string[][]> => {
+  if (!isXlsx(file)) {
+    return parseCsv(file.buffer.toString('utf-8'));
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(file.buffer as unknown as ExcelJS.Buffer);
+
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) return [];
+
+  const rows: string[][] = [];
+
+  worksheet.eachRow(row => {
+    const cells: string[] = [];
+    for (let column = 1; column <= worksheet.columnCount; column++) {
+      cells.push(cellToText(row.getCell(column)));
+    }
+    rows.push(cells);
+  });
+
+  return rows.filter(cells => cells.some(cell => cell));
+};
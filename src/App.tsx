@@ -15,6 +15,7 @@ import {
   EditProfilePage,
   FarmerProfilePage
 } from './modules/users';
+import { CarbonDashboardPage } from './modules/carbon';
 import './App.css';
 
 // Create Query client for React Query
@@ -57,6 +58,11 @@ function App() {
                   <EditProfilePage />
                 </ProtectedRoute>
               } />
+              <Route path="/carbon" element={
+                <ProtectedRoute>
+                  <CarbonDashboardPage />
+                </ProtectedRoute>
+              } />
               {/* Publiczny profil rolnika - dostępny dla wszystkich */}
               <Route path="/farmers/:id" element={<FarmerProfilePage />} />
               
@@ -113,6 +113,14 @@ const UserMenu: React.FC = () => {
               Twój profil
             </Link>
 
+            <Link
+              to="/carbon"
+              onClick={() => setIsOpen(false)}
+              className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+            >
+              Ślad węglowy
+            </Link>
+
             {user.role === 'farmer' && (
               <>
                 <Link
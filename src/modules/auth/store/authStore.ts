@@ -2,8 +2,9 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import apiClient from '../../../shared/api';
-import type { User, LoginRequest, RegisterRequest } from '../../../shared/types';
+import type { User, LoginRequest, RegisterRequest, Cart } from '../../../shared/types';
 import { API_ROUTES, STORAGE_KEYS } from '../../../shared/constants';
+import cartService from '../../orders/services/cartService';
 
 // Fix the duplicate API path issue
 const fixApiPath = (path: string) => {
@@ -15,6 +16,23 @@ const fixApiPath = (path: string) => {
   return path;
 };
 
+// Move the anonymous localStorage cart into the user's server-side cart
+const mergeLocalCart = async () => {
+  const items = cartService.getLocalCart();
+  if (items.length === 0) return;
+
+  try {
+    const response = await apiClient.post<Cart>(fixApiPath(API_ROUTES.CART.MERGE), { items });
+
+    // Keep the local cart if merging failed so nothing gets lost
+    if (response.success) {
+      cartService.clearLocalCart();
+    }
+  } catch (error) {
+    console.error('Cart merge error:', error);
+  }
+};
+
 // Interface for AuthState
 export interface AuthState {
   user: User | null;
@@ -56,6 +74,9 @@ export const useAuthStore = create<AuthState>()(
             localStorage.setItem(STORAGE_KEYS.TOKEN, response.data.token);
             localStorage.setItem(STORAGE_KEYS.REFRESH_TOKEN, response.data.refreshToken);
             
+            // Merge cart collected before logging in
+            await mergeLocalCart();
+            
             // Update state
             set({ 
               user: response.data.user,
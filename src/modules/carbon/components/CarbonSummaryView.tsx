@@ -0,0 +1,81 @@
+// src/modules/carbon/components/CarbonSummaryView.tsx
+import React from 'react';
+import { formatCarbonFootprint } from '../../../shared/utils';
+import type { CarbonSummary } from '../../../shared/types';
+
+interface CarbonSummaryViewProps {
+  summary: CarbonSummary;
+}
+
+const formatMonth = (month: string): string =>
+  new Intl.DateTimeFormat('pl-PL', { month: 'short', year: 'numeric' }).format(new Date(`${month}-01T00:00:00`));
+
+const CarbonSummaryView: React.FC<CarbonSummaryViewProps> = ({ summary }) => {
+  const { totals, months, baselineKm, scope } = summary;
+  const maxFootprint = Math.max(...months.map(month => month.baselineFootprint), 0);
+
+  const savedLabel = scope === 'farmer'
+    ? 'Twoi klienci zaoszczędzili'
+    : 'Zaoszczędzone dzięki zakupom u rolników';
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-green-50 rounded-lg p-4">
+          <p className="text-sm text-green-800">{savedLabel}</p>
+          <p className="text-2xl font-bold text-green-700">{formatCarbonFootprint(totals.saved)}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow-md p-4">
+          <p className="text-sm text-gray-600">
+            {scope === 'farmer' ? 'Ślad węglowy sprzedaży' : 'Ślad węglowy zakupów'}
+          </p>
+          <p className="text-2xl font-bold text-gray-900">{formatCarbonFootprint(totals.footprint)}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow-md p-4">
+          <p className="text-sm text-gray-600">Te same zakupy w supermarkecie</p>
+          <p className="text-2xl font-bold text-gray-900">{formatCarbonFootprint(totals.baselineFootprint)}</p>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-500">
+        {totals.orderCount} zamówień, {totals.weightKg.toFixed(1)} kg produktów.
+        Porównanie zakłada, że produkty w supermarkecie pokonują średnio {baselineKm} km.
+      </p>
+
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h2 className="text-xl font-bold text-gray-900 mb-4">Miesięcznie</h2>
+
+        {totals.orderCount === 0 ? (
+          <p className="text-center py-8 text-gray-500">Brak zamówień w tym okresie.</p>
+        ) : (
+          <div className="space-y-3">
+            {months.map(month => (
+              <div key={month.month} className="grid grid-cols-12 gap-2 items-center text-sm">
+                <span className="col-span-2 text-gray-600">{formatMonth(month.month)}</span>
+                <div className="col-span-7 space-y-1">
+                  <div
+                    className="h-2 rounded bg-gray-300"
+                    style={{ width: `${maxFootprint ? (month.baselineFootprint / maxFootprint) * 100 : 0}%` }}
+                  />
+                  <div
+                    className="h-2 rounded bg-primary"
+                    style={{ width: `${maxFootprint ? (month.footprint / maxFootprint) * 100 : 0}%` }}
+                  />
+                </div>
+                <span className="col-span-3 text-right text-green-700">
+                  {month.orderCount > 0 ? `−${formatCarbonFootprint(month.saved)}` : '–'}
+                </span>
+              </div>
+            ))}
+            <div className="flex gap-4 text-xs text-gray-500 pt-2">
+              <span className="flex items-center gap-1"><span className="inline-block h-2 w-4 rounded bg-primary" /> EkoDirekt</span>
+              <span className="flex items-center gap-1"><span className="inline-block h-2 w-4 rounded bg-gray-300" /> Supermarket</span>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CarbonSummaryView;
@@ -0,0 +1,54 @@
+// src/modules/carbon/hooks/useCarbonSummary.ts
+import { useEffect, useState } from 'react';
+import carbonService from '../services/carbonService';
+import type { CarbonSummary } from '../../../shared/types';
+
+/**
+ * Hook pobierający podsumowanie śladu węglowego (zakupy lub sprzedaż)
+ */
+export const useCarbonSummary = (scope: CarbonSummary['scope'], months = 12) => {
+  const [summary, setSummary] = useState<CarbonSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isActive = true;
+
+    const fetchSummary = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const response = scope === 'farmer'
+          ? await carbonService.getFarmerSummary(months)
+          : await carbonService.getConsumerSummary(months);
+
+        if (!isActive) return;
+
+        if (response.success && response.data) {
+          setSummary(response.data);
+        } else {
+          setError(response.error || 'Nie udało się pobrać podsumowania śladu węglowego');
+        }
+      } catch (err) {
+        if (isActive) {
+          setError(err instanceof Error ? err.message : 'Nie udało się pobrać podsumowania śladu węglowego');
+        }
+      } finally {
+        if (isActive) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    fetchSummary();
+
+    return () => {
+      isActive = false;
+    };
+  }, [scope, months]);
+
+  return { summary, isLoading, error };
+};
+
+export default useCarbonSummary;
@@ -0,0 +1,12 @@
+// src/modules/carbon/index.ts
+// Eksport komponentów
+export { default as CarbonSummaryView } from './components/CarbonSummaryView';
+
+// Eksport stron
+export { default as CarbonDashboardPage } from './pages/CarbonDashboardPage';
+
+// Eksport hooków
+export { default as useCarbonSummary } from './hooks/useCarbonSummary';
+
+// Eksport serwisów
+export { default as carbonService } from './services/carbonService';
@@ -0,0 +1,75 @@
+// src/modules/carbon/pages/CarbonDashboardPage.tsx
+import React, { useState } from 'react';
+import classNames from 'classnames';
+import { useAuth } from '../../auth';
+import { useCarbonSummary } from '../hooks/useCarbonSummary';
+import CarbonSummaryView from '../components/CarbonSummaryView';
+import type { CarbonSummary } from '../../../shared/types';
+
+const PERIODS = [3, 6, 12, 24];
+
+const CarbonDashboardPage: React.FC = () => {
+  const { user } = useAuth();
+  const isFarmer = user?.role === 'farmer';
+
+  // Farmers see their sales by default (the user may still be loading on first render)
+  const [selectedScope, setScope] = useState<CarbonSummary['scope'] | null>(null);
+  const scope = selectedScope || (isFarmer ? 'farmer' : 'consumer');
+  const [months, setMonths] = useState(12);
+  const { summary, isLoading, error } = useCarbonSummary(scope, months);
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900">Twój ślad węglowy</h1>
+        <p className="text-gray-600">
+          Ile CO₂ zaoszczędzono, kupując bezpośrednio od rolników zamiast w supermarkecie.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap justify-between gap-4 mb-6">
+        {isFarmer ? (
+          <div className="inline-flex rounded-md shadow-sm">
+            {(['farmer', 'consumer'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setScope(option)}
+                className={classNames(
+                  'px-4 py-2 text-sm font-medium border first:rounded-l-md last:rounded-r-md',
+                  scope === option ? 'bg-primary text-white border-primary' : 'bg-white text-gray-700 border-gray-300'
+                )}
+              >
+                {option === 'farmer' ? 'Sprzedaż' : 'Zakupy'}
+              </button>
+            ))}
+          </div>
+        ) : <div />}
+
+        <select
+          value={months}
+          onChange={(e) => setMonths(Number(e.target.value))}
+          className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+        >
+          {PERIODS.map(period => (
+            <option key={period} value={period}>Ostatnie {period} mies.</option>
+          ))}
+        </select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center items-center min-h-[300px]">
+          <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
+        </div>
+      ) : error || !summary ? (
+        <div className="bg-white rounded-lg shadow-md p-6 text-center">
+          <h2 className="text-xl text-gray-700 mb-2">Wystąpił błąd</h2>
+          <p className="text-gray-600">{error || 'Nie udało się pobrać podsumowania śladu węglowego'}</p>
+        </div>
+      ) : (
+        <CarbonSummaryView summary={summary} />
+      )}
+    </div>
+  );
+};
+
+export default CarbonDashboardPage;
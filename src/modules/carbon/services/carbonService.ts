@@ -0,0 +1,25 @@
+// src/modules/carbon/services/carbonService.ts
+import apiClient from '../../../shared/api';
+import { API_ROUTES } from '../../../shared/constants';
+import { type ApiResponse, type CarbonSummary } from '../../../shared/types';
+
+/**
+ * Service for CO₂ footprint summaries
+ */
+class CarbonService {
+  /**
+   * CO₂ footprint of the current user's purchases per month
+   */
+  async getConsumerSummary(months?: number): Promise<ApiResponse<CarbonSummary>> {
+    return await apiClient.get(API_ROUTES.CARBON.CONSUMER, { months });
+  }
+
+  /**
+   * CO₂ footprint of the current farmer's sales per month
+   */
+  async getFarmerSummary(months?: number): Promise<ApiResponse<CarbonSummary>> {
+    return await apiClient.get(API_ROUTES.CARBON.FARMER, { months });
+  }
+}
+
+export default new CarbonService();
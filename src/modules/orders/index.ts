@@ -1,2 +1,3 @@
-
-export {};
\ No newline at end of file
+// src/modules/orders/index.ts
+// Export services
+export { default as cartService } from './services/cartService';
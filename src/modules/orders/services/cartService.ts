@@ -0,0 +1,92 @@
+// src/modules/orders/services/cartService.ts
+import apiClient from '../../../shared/api';
+import { API_ROUTES, STORAGE_KEYS } from '../../../shared/constants';
+import {
+  type Address,
+  type ApiResponse,
+  type Cart,
+  type CartItem,
+  type ShippingQuoteSummary
+} from '../../../shared/types';
+
+/**
+ * Service for server-side cart operations
+ */
+class CartService {
+  /**
+   * Fetch the current user's cart (revalidated by the server)
+   */
+  async getCart(): Promise<ApiResponse<Cart>> {
+    return await apiClient.get(API_ROUTES.CART.BASE);
+  }
+
+  /**
+   * Add a product to the cart
+   */
+  async addItem(productId: string, quantity: number): Promise<ApiResponse<Cart>> {
+    return await apiClient.post(API_ROUTES.CART.ITEMS, { product: productId, quantity });
+  }
+
+  /**
+   * Change quantity of a product in the cart
+   */
+  async updateItem(productId: string, quantity: number): Promise<ApiResponse<Cart>> {
+    return await apiClient.put(API_ROUTES.CART.ITEM(productId), { quantity });
+  }
+
+  /**
+   * Remove a product from the cart
+   */
+  async removeItem(productId: string): Promise<ApiResponse<Cart>> {
+    return await apiClient.delete(API_ROUTES.CART.ITEM(productId));
+  }
+
+  /**
+   * Remove all products from the cart
+   */
+  async clearCart(): Promise<ApiResponse<{ success: boolean }>> {
+    return await apiClient.delete(API_ROUTES.CART.BASE);
+  }
+
+  /**
+   * Quote shipping of the cart before checkout
+   * (pickupFarmers - farmers whose goods will be collected on the farm)
+   */
+  async getShippingQuote(
+    shippingAddress?: Address,
+    pickupFarmers: string[] = []
+  ): Promise<ApiResponse<ShippingQuoteSummary>> {
+    return await apiClient.post(API_ROUTES.SHIPPING.QUOTE, { shippingAddress, pickupFarmers });
+  }
+
+  /**
+   * Read the anonymous cart kept in localStorage before login
+   */
+  getLocalCart(): CartItem[] {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEYS.CART);
+      if (!stored) return [];
+
+      const parsed = JSON.parse(stored);
+      const items = Array.isArray(parsed) ? parsed : parsed?.items;
+
+      return Array.isArray(items)
+        ? items.filter((item): item is CartItem =>
+            item && typeof item.product === 'string' && Number(item.quantity) > 0
+          )
+        : [];
+    } catch (error) {
+      console.error('Błąd podczas odczytu koszyka z localStorage:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Remove the anonymous cart from localStorage
+   */
+  clearLocalCart(): void {
+    localStorage.removeItem(STORAGE_KEYS.CART);
+  }
+}
+
+export default new CartService();
@@ -100,8 +100,8 @@ const ProductCard: React.FC<ProductCardProps> = ({
               {/* Show first certificate or organic badge if certified */}
               {product.isCertified && (
                 <CertificateBadge 
-                  type={product.certificates && product.certificates.length > 0 
-                    ? product.certificates[0] 
+                  type={product.certificateTypes && product.certificateTypes.length > 0 
+                    ? product.certificateTypes[0] 
                     : 'organic'} 
                   small 
                 />
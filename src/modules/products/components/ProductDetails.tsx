@@ -181,8 +181,8 @@ const ProductDetails: React.FC<ProductDetailsProps> = ({
               
               {product.isCertified && (
                 <CertificateBadge 
-                  type={product.certificates && product.certificates.length > 0 
-                    ? product.certificates[0] 
+                  type={product.certificateTypes && product.certificateTypes.length > 0 
+                    ? product.certificateTypes[0] 
                     : 'organic'} 
                 />
               )}
@@ -23,6 +23,7 @@ export interface Product {
   owner: string | ProductOwner; // Can be either an ID string or a populated owner object
   images: string[];
   certificates?: string[];
+  certificateTypes?: string[];
   status: 'available' | 'preparing' | 'shipped' | 'delivered' | 'unavailable';
   statusHistory?: StatusHistoryItem[];
   location?: GeoLocation;
@@ -124,16 +124,17 @@ const UserProfile: React.FC<UserProfileProps> = ({ user, isCurrentUser = false }
             </div>
           </div>
           
-          {user.role === 'farmer' && user.certificates && user.certificates.length > 0 && (
+          {user.role === 'farmer' && user.verifiedCertificates && user.verifiedCertificates.length > 0 && (
             <div className="mt-4">
               <h2 className="text-lg font-medium text-gray-900">Certyfikaty</h2>
               <div className="mt-1 flex flex-wrap">
-                {user.certificates.map((cert, index) => (
+                {user.verifiedCertificates.map((cert) => (
                   <span
-                    key={index}
+                    key={cert._id}
                     className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800 mr-2 mb-2"
+                    title={`${cert.issuingAuthority}, ważny do ${formatDate(cert.validUntil)}`}
                   >
-                    {typeof cert === 'string' ? cert : cert}
+                    {cert.name}
                   </span>
                 ))}
               </div>
@@ -71,6 +71,14 @@ export const CERTIFICATE_TYPES = {
   OTHER: 'other' as const
 };
 
+// Statusy weryfikacji certyfikatów
+export const CERTIFICATE_STATUSES = {
+  PENDING: 'pending' as const,
+  VERIFIED: 'verified' as const,
+  REJECTED: 'rejected' as const,
+  EXPIRED: 'expired' as const
+};
+
 // Statusy moderacji
 export const MODERATION_STATUSES = {
   PENDING: 'pending' as const,
@@ -107,14 +115,41 @@ export const API_ROUTES = {
     STATUS: (id: string) => `/api/orders/${id}/status`,
     INVOICE: (id: string) => `/api/orders/${id}/invoice`
   },
+  CART: {
+    BASE: '/api/cart',
+    ITEMS: '/api/cart/items',
+    ITEM: (productId: string) => `/api/cart/items/${productId}`,
+    MERGE: '/api/cart/merge'
+  },
   REVIEWS: {
+    LIST: '/api/reviews',
     PRODUCT: (id: string) => `/api/reviews/product/${id}`,
     FARMER: (id: string) => `/api/reviews/farmer/${id}`,
-    BY_ID: (id: string) => `/api/reviews/${id}`
+    BY_ID: (id: string) => `/api/reviews/${id}`,
+    MINE: '/api/reviews/me',
+    REPLY: (id: string) => `/api/reviews/${id}/reply`
+  },
+  ADMIN: {
+    REVIEWS: '/api/admin/reviews',
+    APPROVE_REVIEW: (id: string) => `/api/admin/reviews/${id}/approve`,
+    REJECT_REVIEW: (id: string) => `/api/admin/reviews/${id}/reject`,
+    APPROVE_REPLY: (id: string) => `/api/admin/reviews/${id}/reply/approve`,
+    REJECT_REPLY: (id: string) => `/api/admin/reviews/${id}/reply/reject`,
+    REVIEW_IMAGE: (id: string, imageIndex: number) => `/api/admin/reviews/${id}/images/${imageIndex}`,
+    CERTIFICATES: '/api/admin/certificates',
+    VERIFY_CERTIFICATE: (id: string) => `/api/admin/certificates/${id}/verify`,
+    REJECT_CERTIFICATE: (id: string) => `/api/admin/certificates/${id}/reject`,
+    CERTIFICATE_IMPORTS: '/api/admin/certificate-imports',
+    CERTIFICATE_IMPORT: (id: string) => `/api/admin/certificate-imports/${id}`,
+    CERTIFICATE_IMPORT_ROW: (id: string, rowNumber: number) => `/api/admin/certificate-imports/${id}/rows/${rowNumber}`,
+    CONFIRM_CERTIFICATE_IMPORT: (id: string) => `/api/admin/certificate-imports/${id}/confirm`,
+    CERTIFICATE_IMPORT_REPORT: (id: string) => `/api/admin/certificate-imports/${id}/report`
   },
   CERTIFICATES: {
     LIST: '/api/certificates',
-    BY_ID: (id: string) => `/api/certificates/${id}`
+    MINE: '/api/certificates/me',
+    BY_ID: (id: string) => `/api/certificates/${id}`,
+    FARMER: (farmerId: string) => `/api/certificates/farmer/${farmerId}`
   },
   GROUPS: {
     LIST: '/api/groups',
@@ -126,6 +161,46 @@ export const API_ROUTES = {
     CREATE_INTENT: '/api/payments/create-intent',
     BY_ID: (id: string) => `/api/payments/${id}`,
     WEBHOOK: '/api/payments/webhook'
+  },
+  PAYOUTS: {
+    ME: '/api/payouts/me',
+    BATCHES: '/api/payouts/batches',
+    BATCH_EXPORT: (id: string) => `/api/payouts/batches/${id}/export`,
+    ADJUSTMENTS: '/api/payouts/adjustments'
+  },
+  SUBSCRIPTIONS: {
+    LIST: '/api/subscriptions',
+    BY_ID: (id: string) => `/api/subscriptions/${id}`,
+    PAUSE: (id: string) => `/api/subscriptions/${id}/pause`,
+    RESUME: (id: string) => `/api/subscriptions/${id}/resume`,
+    SKIP: (id: string) => `/api/subscriptions/${id}/skip`,
+    CANCEL: (id: string) => `/api/subscriptions/${id}/cancel`
+  },
+  DELIVERY_SLOTS: {
+    FARMER: (farmerId: string) => `/api/delivery-slots/farmer/${farmerId}`,
+    WINDOWS: '/api/delivery-slots/windows',
+    WINDOW: (id: string) => `/api/delivery-slots/windows/${id}`,
+    SCHEDULE: '/api/delivery-slots/schedule'
+  },
+  SHIPPING: {
+    QUOTE: '/api/shipping/quote',
+    RULES: '/api/shipping/rules',
+    FARMER_RULES: (farmerId: string) => `/api/shipping/rules/${farmerId}`
+  },
+  PICKUP_POINTS: {
+    LIST: '/api/pickup-points',
+    BY_ID: (id: string) => `/api/pickup-points/${id}`,
+    AVAILABILITY: (id: string) => `/api/pickup-points/${id}/availability`,
+    FARMERS: (id: string) => `/api/pickup-points/${id}/farmers`,
+    PARCELS: (id: string) => `/api/pickup-points/${id}/parcels`
+  },
+  DELIVERY_ROUTES: {
+    PLAN: '/api/delivery-routes',
+    SHEET: '/api/delivery-routes/sheet'
+  },
+  CARBON: {
+    CONSUMER: '/api/carbon/consumer',
+    FARMER: '/api/carbon/farmer'
   }
 };
 
@@ -144,7 +219,9 @@ export const VALIDATION = {
   MAX_IMAGES_PER_PRODUCT: 5,
   MAX_FILE_SIZE_MB: 5,
   ALLOWED_IMAGE_TYPES: ['image/jpeg', 'image/png', 'image/webp'],
-  MAX_REVIEW_LENGTH: 1000
+  MAX_REVIEW_LENGTH: 1000,
+  MAX_IMAGES_PER_REVIEW: 3,
+  ALLOWED_DOCUMENT_TYPES: ['application/pdf', 'image/jpeg', 'image/png', 'image/webp']
 };
 
 // Ustawienia aplikacji
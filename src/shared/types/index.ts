@@ -11,10 +11,16 @@ export interface User {
     location: GeoLocation;
     bio?: string;
     profileImage?: string;
+    companyName?: string; // nazwa firmy/gospodarstwa na fakturach
+    nip?: string; // numer NIP
+    bankAccount?: string; // numer rachunku do wypłat (rolnicy)
     certificates?: string[]; // referencje do Certificate
+    verifiedCertificates?: Certificate[]; // zweryfikowane i ważne certyfikaty (profil publiczny rolnika)
     createdProducts?: string[]; // referencje do Product (dla rolników)
     orders?: string[]; // referencje do Order
     reviews?: string[]; // referencje do Review
+    averageRating?: number; // średnia ocen rolnika i jego produktów
+    reviewCount?: number;
     localGroups?: string[]; // referencje do LocalGroup
     isVerified: boolean;
     createdAt: Date;
@@ -28,11 +34,12 @@ export interface User {
     price: number;
     quantity: number;
     unit: ProductUnit;  // kg, szt, etc.
+    unitWeightKg?: number; // waga jednej sztuki/opakowania (do kosztu dostawy)
     category: ProductCategory;
     subcategory?: string;
     owner: string; // referencja do User (rolnik)
     images: string[]; // URL-e do zdjęć
-    certificates: string[]; // referencje do Certificate
+    certificates: string[]; // referencje do Certificate (właściciela produktu)
     status: ProductStatus;
     statusHistory: StatusHistoryItem[];
     location: GeoLocation;
@@ -40,7 +47,9 @@ export interface User {
     trackingId: string; // unikalny identyfikator do śledzenia
     reviews: string[]; // referencje do Review
     averageRating: number;
-    isCertified: boolean;
+    reviewCount?: number; // liczba zatwierdzonych opinii
+    certificateTypes?: CertificateType[]; // rodzaje zweryfikowanych i ważnych certyfikatów
+    isCertified: boolean; // wyliczane z certyfikatów - co najmniej jeden zweryfikowany i ważny
     distance?: number; // Changed from boolean to optional number
     createdAt: Date;
     updatedAt: Date;
@@ -49,14 +58,25 @@ export interface User {
   export interface Order {
     _id: string;
     buyer: string; // referencja do User
+    farmer?: string; // referencja do User (rolnik realizujący zamówienie jednego rolnika lub zamówienie cząstkowe)
+    farmers: string[]; // referencje do User (rolnicy, których produkty są w zamówieniu)
+    parentOrder?: string; // referencja do Order (zamówienie nadrzędne zamówienia cząstkowego)
+    subOrders?: string[]; // referencje do Order (zamówienia cząstkowe poszczególnych rolników)
     items: OrderItem[];
     totalPrice: number;
     status: OrderStatus;
     statusHistory: StatusHistoryItem[];
     shippingAddress: Address;
     deliveryDate?: Date;
+    deliverySlot?: OrderDeliverySlot; // zarezerwowany termin dostawy lub odbioru
+    shippingCost?: number; // koszt dostawy (wliczony w totalPrice)
+    refundedShippingCost?: number; // koszt dostawy zwrócony razem z ostatnią pozycją
+    pickupPoint?: OrderPickupPoint; // punkt odbioru wybrany przez kupującego
     paymentId?: string; // ID transakcji Stripe
     paymentStatus: PaymentStatus;
+    refundedAmount?: number; // suma zwrotów
+    refundRequired?: boolean; // opłacone po anulowaniu - płatność do zwrotu
+    subscription?: string; // referencja do Subscription (zamówienie z subskrypcji)
     carbonFootprint?: number; // obliczony ślad węglowy
     isReviewed: boolean;
     createdAt: Date;
@@ -72,7 +92,16 @@ export interface User {
     issuedTo: string; // referencja do User (rolnik)
     products?: string[]; // referencje do Product
     isVerified: boolean;
+    status?: CertificateStatus;
+    verification?: {
+      reason?: string; // powód odrzucenia
+      verifiedBy: string; // referencja do User (administrator)
+      verifiedAt: Date;
+    };
     validUntil: Date;
+    certificateNumber?: string;
+    importId?: string; // import rejestru jednostki certyfikującej (certyfikat zweryfikowany od razu)
+    expiredAt?: Date; // oznaczony jako wygasły przez zadanie okresowe
     createdAt: Date;
     updatedAt: Date;
   }
@@ -82,11 +111,31 @@ export interface User {
     author: string; // referencja do User
     product?: string; // referencja do Product
     farmer?: string; // referencja do User (rolnik)
+    order?: string; // referencja do Order (dostarczone zamówienie potwierdzające zakup)
     rating: number; // 1-5
     comment: string;
     images?: string[];
     isVerified: boolean;
     moderationStatus: ModerationStatus;
+    moderation?: {
+      reason?: string; // powód odrzucenia
+      moderatedBy: string; // referencja do User (administrator)
+      moderatedAt: Date;
+    };
+    reply?: ReviewReply;
+    createdAt: Date;
+    updatedAt: Date;
+  }
+
+  // Publiczna odpowiedź rolnika na opinię (jedna na opinię, moderowana jak opinia)
+  export interface ReviewReply {
+    text: string;
+    moderationStatus: ModerationStatus;
+    moderation?: {
+      reason?: string;
+      moderatedBy: string;
+      moderatedAt: Date;
+    };
     createdAt: Date;
     updatedAt: Date;
   }
@@ -122,6 +171,206 @@ export interface User {
     product: string; // referencja do Product
     quantity: number;
     priceAtPurchase: number;
+    refundedQuantity?: number; // ilość zwrócona (zwrot częściowy pozycji)
+  }
+  
+  export interface SubscriptionItem {
+    product: string; // referencja do Product
+    quantity: number;
+  }
+
+  export interface Subscription {
+    _id: string;
+    buyer: string; // referencja do User
+    farmer: string; // referencja do User
+    items: SubscriptionItem[]; // szablon zamówienia
+    cadence: SubscriptionCadence;
+    status: SubscriptionStatus;
+    shippingAddress: Address;
+    nextDeliveryDate: Date;
+    skippedDates: string[]; // pominięte dostawy (YYYY-MM-DD)
+    orders: string[]; // referencje do Order
+    createdAt: Date;
+    updatedAt: Date;
+  }
+
+  // Cotygodniowe okno dostawy lub odbioru w gospodarstwie publikowane przez rolnika
+  export interface DeliveryWindow {
+    _id: string;
+    farmer: string; // referencja do User
+    type: DeliveryWindowType;
+    dayOfWeek: number; // 0 - niedziela, 1 - poniedziałek ... 6 - sobota
+    startTime: string; // HH:MM
+    endTime: string; // HH:MM
+    capacity: number; // maksymalna liczba zamówień w jednym terminie
+    note?: string; // np. wskazówki dojazdu do miejsca odbioru
+    isActive: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+  }
+
+  // Konkretny termin okna (okno + data) z wolnymi miejscami
+  export interface DeliverySlot {
+    id: string; // `${window}_${date}`
+    window: string; // referencja do DeliveryWindow
+    farmer: string; // referencja do User
+    type: DeliveryWindowType;
+    date: string; // YYYY-MM-DD
+    startTime: string;
+    endTime: string;
+    capacity: number;
+    booked: number;
+    remaining: number;
+    note?: string;
+  }
+
+  // Termin zapisany w zamówieniu
+  export interface OrderDeliverySlot {
+    id: string;
+    window: string; // referencja do DeliveryWindow
+    type: DeliveryWindowType;
+    date: string; // YYYY-MM-DD
+    startTime: string;
+    endTime: string;
+  }
+
+  // Termin wybrany przy składaniu zamówienia (po jednym na rolnika)
+  export interface DeliverySlotSelection {
+    window: string; // referencja do DeliveryWindow
+    date: string; // YYYY-MM-DD
+  }
+
+  // Punkt odbioru, do którego rolnicy dostarczają paczki zbiorczo
+  export interface PickupPoint {
+    _id: string;
+    name: string;
+    description?: string;
+    location: GeoLocation;
+    address: Address;
+    openingHours: PickupPointOpeningHours[];
+    capacity: number; // maksymalna liczba paczek dziennie
+    operator: string; // referencja do User (obsługa punktu)
+    farmers: string[]; // referencje do User (rolnicy dostarczający do punktu)
+    isActive: boolean;
+    distance?: number; // dodawane przy wyszukiwaniu w promieniu
+    createdAt: Date;
+    updatedAt: Date;
+  }
+
+  export interface PickupPointOpeningHours {
+    dayOfWeek: number; // 0 - niedziela ... 6 - sobota
+    open: string; // HH:MM
+    close: string; // HH:MM
+  }
+
+  // Punkt odbioru zapisany w zamówieniu
+  export interface OrderPickupPoint {
+    id: string; // referencja do PickupPoint
+    name: string;
+    date: string; // dzień odbioru (YYYY-MM-DD)
+    address: Address;
+  }
+
+  // Punkt odbioru wybrany przy składaniu zamówienia
+  export interface PickupPointSelection {
+    point: string; // referencja do PickupPoint
+    date: string; // YYYY-MM-DD
+  }
+
+  // Paczki oczekiwane w punkcie odbioru jednego dnia, pogrupowane po zamówieniu
+  export interface PickupPointDay {
+    date: string;
+    parcelCount: number;
+    capacity: number;
+    orders: {
+      order: string; // referencja do Order (zamówienie kupującego)
+      buyer: string; // referencja do User
+      buyerName: string;
+      buyerPhone?: string;
+      parcels: {
+        order: string; // referencja do Order (zamówienie rolnika)
+        farmer: string; // referencja do User
+        farmerName: string;
+        status: OrderStatus;
+        itemCount: number;
+      }[];
+    }[];
+  }
+
+  // Przystanek na trasie dostaw rolnika (zamówienia pod tym samym adresem tworzą jeden przystanek)
+  export interface DeliveryRouteStop {
+    sequence: number; // kolejność odwiedzin (od 1)
+    location: GeoLocation;
+    address: Address;
+    pickupPoint?: string; // nazwa punktu odbioru, jeśli paczki trafiają do punktu
+    distanceFromPreviousKm: number;
+    orders: {
+      order: string; // referencja do Order (zamówienie rolnika)
+      buyer: string; // referencja do User
+      buyerName: string;
+      buyerPhone?: string;
+      deliveryWindow?: string; // HH:MM-HH:MM z zarezerwowanego terminu
+      items: {
+        product: string; // referencja do Product
+        name: string;
+        quantity: number;
+        unit: string;
+      }[];
+    }[];
+  }
+
+  // Trasa dostaw rolnika na jeden dzień (zamówienia wysłane)
+  export interface DeliveryRoute {
+    date: string; // YYYY-MM-DD
+    origin: GeoLocation; // lokalizacja gospodarstwa
+    stops: DeliveryRouteStop[];
+    totalDistanceKm: number; // z powrotem do gospodarstwa
+    returnDistanceKm: number;
+    unlocatedOrders: string[]; // zamówienia bez współrzędnych adresu - poza trasą
+  }
+
+  // Ślad węglowy zamówień w jednym miesiącu w porównaniu z zakupem w supermarkecie
+  export interface CarbonMonth {
+    month: string; // YYYY-MM
+    orderCount: number;
+    weightKg: number;
+    footprint: number; // kg CO₂
+    baselineFootprint: number; // kg CO₂ przy dystansie supermarketu
+    saved: number; // kg CO₂
+  }
+
+  // Podsumowanie śladu węglowego kupującego (zakupy) lub rolnika (sprzedaż)
+  export interface CarbonSummary {
+    scope: 'consumer' | 'farmer';
+    baselineKm: number;
+    months: CarbonMonth[];
+    totals: Omit<CarbonMonth, 'month'>;
+  }
+
+  export interface CartItem {
+    product: string; // referencja do Product
+    quantity: number;
+  }
+  
+  // Pozycja koszyka zweryfikowana z aktualną ceną, stanem i statusem produktu
+  export interface CartLine extends CartItem {
+    name?: string;
+    unit?: string;
+    image?: string;
+    farmer?: string; // referencja do User (rolnik)
+    price: number; // aktualna cena
+    previousPrice: number; // cena, którą kupujący widział ostatnio
+    priceChanged: boolean;
+    availableQuantity: number;
+    isAvailable: boolean;
+    issues: CartLineIssue[];
+    lineTotal: number;
+  }
+  
+  export interface Cart {
+    items: CartLine[];
+    totalPrice: number;
+    hasIssues: boolean;
   }
   
   export interface Address {
@@ -129,6 +378,35 @@ export interface User {
     city: string;
     postalCode: string;
     country: string;
+    coordinates?: [number, number]; // [longitude, latitude] - do wyliczenia kosztu dostawy
+  }
+
+  // Zasady naliczania kosztu dostawy ustalane przez rolnika
+  export interface ShippingRules {
+    flatFee: number; // opłata stała (zł)
+    perKmFee: number; // zł za km
+    perKgFee: number; // zł za kg
+    freeDeliveryThreshold?: number | null; // darmowa dostawa od tej wartości produktów
+    maxDistanceKm?: number | null; // maksymalny zasięg dostaw
+  }
+
+  // Wycena dostawy od jednego rolnika
+  export interface ShippingQuote {
+    farmer: string; // referencja do User
+    method: DeliveryWindowType; // odbiór w gospodarstwie jest bezpłatny
+    distanceKm?: number; // od gospodarstwa do miejsca dostawy (przy odbiorze - jeśli znana lokalizacja kupującego)
+    weightKg: number;
+    itemsTotal: number;
+    shippingCost: number;
+    isFree: boolean;
+    freeDeliveryThreshold?: number | null;
+  }
+
+  export interface ShippingQuoteSummary {
+    quotes: ShippingQuote[];
+    itemsTotal: number;
+    shippingCost: number;
+    totalPrice: number;
   }
   
   export interface LocalGroupMember {
@@ -141,8 +419,13 @@ export interface User {
   export type ProductStatus = 'available' | 'preparing' | 'shipped' | 'delivered' | 'unavailable';
   export type OrderStatus = 'pending' | 'paid' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
   export type PaymentStatus = 'pending' | 'completed' | 'failed' | 'refunded';
+  export type SubscriptionCadence = 'weekly' | 'biweekly';
+  export type SubscriptionStatus = 'active' | 'paused' | 'cancelled';
+  export type DeliveryWindowType = 'delivery' | 'pickup';
   export type CertificateType = 'organic' | 'eco' | 'fair-trade' | 'other';
+  export type CertificateStatus = 'pending' | 'verified' | 'rejected' | 'expired';
   export type ModerationStatus = 'pending' | 'approved' | 'rejected';
+  export type CartLineIssue = 'not_found' | 'unavailable' | 'insufficient_stock' | 'price_changed';
   
   // Typy odpowiedzi API
   export interface ApiResponse<T> {
@@ -186,6 +469,7 @@ export interface User {
     unit: string;
     category: string;
     subcategory?: string;
+    unitWeightKg?: number;
     certificates?: string[];
     location?: {
       coordinates: [number, number];
@@ -201,6 +485,16 @@ export interface User {
     }[];
     shippingAddress: Address;
     deliveryDate?: Date;
+    deliverySlots?: DeliverySlotSelection[];
+    pickupPoint?: PickupPointSelection;
+  }
+  
+  export interface CreateReviewRequest {
+    product?: string; // referencja do Product (opinia o produkcie)
+    farmer?: string; // referencja do User (opinia o rolniku, gdy brak produktu)
+    order?: string; // referencja do Order - dostarczone zamówienie potwierdza zakup
+    rating: number; // 1-5
+    comment?: string;
   }
   
   // Updated ProductFilterParams with index signature for API compatibility
@@ -183,6 +183,19 @@ export const isValidPostalCode = (postalCode: string): boolean => {
   return regex.test(postalCode);
 };
 
+/**
+ * Walidacja numeru NIP (10 cyfr z sumą kontrolną)
+ */
+export const isValidNip = (nip: string): boolean => {
+  const digits = nip.replace(/[\s-]/g, '');
+  if (!/^\d{10}$/.test(digits)) return false;
+
+  const weights = [6, 5, 7, 2, 3, 4, 5, 6, 7];
+  const checksum = weights.reduce((sum, weight, index) => sum + weight * Number(digits[index]), 0) % 11;
+
+  return checksum !== 10 && checksum === Number(digits[9]);
+};
+
 /**
  * Tworzenie przyjaznego dla URL sluga z tekstu
  */